@@ -6,12 +6,14 @@ import {
   StoryProgress,
   StoryHistory,
   StoryReplay,
+  HallOfFame,
   LoadingSpinner,
   ErrorBoundary,
   ParticleEffects,
   Transition,
   AdminInterface,
   ContentReportButton,
+  ChainStoryView,
 } from './components/index';
 import { LoadingOverlay } from './components/LoadingOverlay';
 import { useStory } from './hooks/useStory';
@@ -19,22 +21,28 @@ import { useVoting } from './hooks/useVoting';
 import { useRealtime } from './hooks/useRealtime';
 import { useSynchronizedState } from './hooks/useSynchronizedState';
 import { useConcurrentInteractions } from './hooks/useConcurrentInteractions';
+import { useBootstrap } from './hooks/useBootstrap';
 import { ModerationProvider, useModeration } from './contexts/ModerationContext';
 import { LoadingProvider } from './contexts/LoadingContext';
+import { BootstrapProvider } from './contexts/BootstrapContext';
 import { ConnectionMonitor, ClientPerformanceMonitor } from './utils/error-handler';
 
 const AppContent = () => {
   const [historyOpen, setHistoryOpen] = useState(false);
   const [showReplayInterface, setShowReplayInterface] = useState(false);
-  const [postId] = useState('haunted-thread-demo'); // This should come from Devvit context
-  const [showAdminLogin, setShowAdminLogin] = useState(false);
-  const [adminKeyInput, setAdminKeyInput] = useState('');
+  const [showHallOfFame, setShowHallOfFame] = useState(false);
   const [showResetStoryModal, setShowResetStoryModal] = useState(false);
   const [showResetVotingModal, setShowResetVotingModal] = useState(false);
-  const [resetAdminKey, setResetAdminKey] = useState('');
 
-  const { showAdminInterface, setShowAdminInterface, adminKey, setAdminKey, moderationEnabled } =
-    useModeration();
+  const {
+    showAdminInterface,
+    setShowAdminInterface,
+    adminIdentity,
+    hasPermission,
+    moderationEnabled,
+  } = useModeration();
+
+  const { config } = useBootstrap();
 
   const {
     currentChapter: storyChapter,
@@ -52,6 +60,7 @@ const AppContent = () => {
     loading: votingLoading,
     error: votingError,
     castVote: originalCastVote,
+    retractVote: originalRetractVote,
     refreshVoteCounts,
     refreshVoteStatus,
   } = useVoting();
@@ -62,6 +71,7 @@ const AppContent = () => {
     updateState: updateSyncState,
     handleVoteUpdate,
     handleChapterTransition,
+    handleChapterUpdated,
     handleStoryReset,
     handleVotingEnded,
     applyOptimisticUpdate,
@@ -87,9 +97,9 @@ const AppContent = () => {
 
   // Set up realtime updates with synchronized state handlers
   const { connectionStatus, reconnect } = useRealtime({
-    postId,
     onVoteUpdate: handleVoteUpdate,
     onChapterTransition: handleChapterTransition,
+    onChapterUpdated: handleChapterUpdated,
     onStoryReset: handleStoryReset,
     onVotingEnded: handleVotingEnded,
     onError: (error) => {
@@ -166,7 +176,7 @@ const AppContent = () => {
   }, [originalVoteCounts, originalUserVoteStatus, updateSyncState]);
 
   // Enhanced vote handler with optimistic updates and concurrent interaction management
-  const handleVote = async (choiceId: string) => {
+  const handleVote = async (choiceId: string, choiceIds?: string[]) => {
     if (!currentChapter) return;
 
     console.log('Attempting to cast vote:', { chapterId: currentChapter.id, choiceId });
@@ -179,7 +189,11 @@ const AppContent = () => {
         applyOptimisticUpdate({
           id: optimisticUpdateId,
           type: 'vote',
-          data: { chapterId: currentChapter.id, choiceId },
+          data: {
+            chapterId: currentChapter.id,
+            choiceId,
+            ...(userVoteStatus.hasVoted && { previousChoiceId: userVoteStatus.choiceId }),
+          },
           rollback: () => {
             // Rollback logic would restore previous state
             console.log('Rolling back optimistic vote update');
@@ -189,7 +203,7 @@ const AppContent = () => {
         try {
           // Execute the actual vote
           console.log('Calling originalCastVote...');
-          await originalCastVote(currentChapter.id, choiceId);
+          await originalCastVote(currentChapter.id, choiceId, choiceIds);
           console.log('Vote cast successfully!');
 
           // Refresh vote counts immediately since realtime might not be working
@@ -212,6 +226,36 @@ const AppContent = () => {
     }
   };
 
+  // Withdraw the user's vote, taking it off the tally optimistically until the server confirms
+  const handleRetractVote = async () => {
+    if (!currentChapter || !userVoteStatus.hasVoted) return;
+
+    try {
+      await queueAction('vote', { chapterId: currentChapter.id, retract: true }, async () => {
+        const optimisticUpdateId = `retract_${currentChapter.id}_${Date.now()}`;
+
+        applyOptimisticUpdate({
+          id: optimisticUpdateId,
+          type: 'vote_retraction',
+          data: { chapterId: currentChapter.id, previousChoiceId: userVoteStatus.choiceId },
+          rollback: () => {
+            console.log('Rolling back optimistic vote retraction');
+          },
+        });
+
+        try {
+          await originalRetractVote(currentChapter.id);
+          return { success: true };
+        } catch (error) {
+          rollbackOptimisticUpdate(optimisticUpdateId);
+          throw error;
+        }
+      });
+    } catch (error) {
+      console.error('Failed to retract vote:', error);
+    }
+  };
+
   // Handle story restart from replay interface
   const handleStoryRestart = (chapter: any, context: any) => {
     // Update the synchronized state with the new chapter and context
@@ -259,26 +303,54 @@ const AppContent = () => {
     );
   }
 
-  const handleAdminLogin = () => {
-    if (adminKeyInput.trim()) {
-      setAdminKey(adminKeyInput.trim());
-      setShowAdminInterface(true);
-      setShowAdminLogin(false);
-      setAdminKeyInput('');
+  const handleAdminLogout = () => {
+    setShowAdminInterface(false);
+  };
+
+  const handleResetStory = async () => {
+    try {
+      const response = await fetch('/api/admin/reset', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ reason: 'Manual reset from UI' }),
+      });
+      const result = await response.json();
+
+      if (result.success) {
+        window.location.reload();
+      } else {
+        alert('Reset failed: ' + (result.error || result.message));
+      }
+    } catch (error) {
+      alert('Error resetting story: ' + error);
     }
   };
 
-  const handleAdminLogout = () => {
-    setAdminKey('');
-    setShowAdminInterface(false);
+  const handleResetVoting = async (chapterId: string) => {
+    try {
+      const response = await fetch('/api/admin/reset-voting', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ chapterId }),
+      });
+      const result = await response.json();
+
+      if (result.success) {
+        window.location.reload();
+      } else {
+        alert('Reset failed: ' + (result.error || result.message));
+      }
+    } catch (error) {
+      alert('Error resetting voting: ' + error);
+    }
   };
 
   return (
     <ErrorBoundary>
       <div className="story-container">
         {/* Admin Interface */}
-        {showAdminInterface && adminKey && (
-          <AdminInterface adminKey={adminKey} onClose={handleAdminLogout} />
+        {showAdminInterface && adminIdentity && (
+          <AdminInterface identity={adminIdentity} onClose={handleAdminLogout} />
         )}
 
         {/* Story Replay Interface */}
@@ -289,31 +361,8 @@ const AppContent = () => {
           />
         )}
 
-        {/* Admin Login Modal */}
-        {showAdminLogin && (
-          <div className="admin-login-modal">
-            <div className="admin-login-content">
-              <h3>Administrator Access</h3>
-              <div className="form-group">
-                <label>Admin Key:</label>
-                <input
-                  type="password"
-                  value={adminKeyInput}
-                  onChange={(e) => setAdminKeyInput(e.target.value)}
-                  onKeyDown={(e) => e.key === 'Enter' && handleAdminLogin()}
-                  placeholder="Enter admin key"
-                  autoFocus
-                />
-              </div>
-              <div className="admin-login-actions">
-                <button onClick={handleAdminLogin} disabled={!adminKeyInput.trim()}>
-                  Login
-                </button>
-                <button onClick={() => setShowAdminLogin(false)}>Cancel</button>
-              </div>
-            </div>
-          </div>
-        )}
+        {/* Hall of Fame */}
+        {showHallOfFame && <HallOfFame onClose={() => setShowHallOfFame(false)} />}
 
         {/* Atmospheric Particle Effects */}
         <ParticleEffects type="fog" intensity="low" />
@@ -338,24 +387,34 @@ const AppContent = () => {
                 🔄
               </button>
 
-              {/* Admin Access Button */}
-              {!showAdminInterface ? (
-                <button
-                  onClick={() => setShowAdminLogin(true)}
-                  className="story-control-button admin-access-button"
-                  title="Administrator Access"
-                >
-                  ⚙️
-                </button>
-              ) : (
-                <button
-                  onClick={handleAdminLogout}
-                  className="story-control-button admin-access-button active"
-                  title="Exit Admin Mode"
-                >
-                  👑
-                </button>
-              )}
+              {/* Hall of Fame Button */}
+              <button
+                onClick={() => setShowHallOfFame(true)}
+                className="story-control-button"
+                title="Hall of Fame"
+              >
+                🏆
+              </button>
+
+              {/* Admin Access Button - moderators only */}
+              {adminIdentity &&
+                (!showAdminInterface ? (
+                  <button
+                    onClick={() => setShowAdminInterface(true)}
+                    className="story-control-button admin-access-button"
+                    title="Administrator Access"
+                  >
+                    ⚙️
+                  </button>
+                ) : (
+                  <button
+                    onClick={handleAdminLogout}
+                    className="story-control-button admin-access-button active"
+                    title="Exit Admin Mode"
+                  >
+                    👑
+                  </button>
+                ))}
             </div>
           </div>
         </Transition>
@@ -395,7 +454,10 @@ const AppContent = () => {
               voteCounts={voteCounts}
               userVoteStatus={userVoteStatus}
               votingActive={votingActive}
+              votingMethod={config.votingMethod}
+              votesLocked={config.lockVotes}
               onVote={handleVote}
+              onRetract={handleRetractVote}
               isLoading={votingLoading}
               className="creepy-pulse"
             />
@@ -403,31 +465,27 @@ const AppContent = () => {
         )}
 
         {/* Admin Controls */}
-        <div className="text-center mt-6 mb-4 flex gap-2 justify-center flex-wrap">
-          <button
-            className="horror-button-small opacity-50 hover:opacity-100 transition-opacity"
-            onClick={() => {
-              setResetAdminKey('');
-              setShowResetStoryModal(true);
-            }}
-            title="Reset story to beginning (requires admin key)"
-          >
-            🔄 Reset Story
-          </button>
-
-          {currentChapter && (
+        {hasPermission('reset') && (
+          <div className="text-center mt-6 mb-4 flex gap-2 justify-center flex-wrap">
             <button
               className="horror-button-small opacity-50 hover:opacity-100 transition-opacity"
-              onClick={() => {
-                setResetAdminKey('');
-                setShowResetVotingModal(true);
-              }}
-              title="Reset voting for current chapter (requires admin key)"
+              onClick={() => setShowResetStoryModal(true)}
+              title="Reset story to beginning"
             >
-              🗳️ Reset Voting
+              🔄 Reset Story
             </button>
-          )}
-        </div>
+
+            {currentChapter && (
+              <button
+                className="horror-button-small opacity-50 hover:opacity-100 transition-opacity"
+                onClick={() => setShowResetVotingModal(true)}
+                title="Reset voting for current chapter"
+              >
+                🗳️ Reset Voting
+              </button>
+            )}
+          </div>
+        )}
 
         {/* Reset Story Modal */}
         {showResetStoryModal && (
@@ -437,66 +495,8 @@ const AppContent = () => {
               <p className="horror-text text-sm mb-4">
                 This will reset the entire story to the beginning. All progress will be lost.
               </p>
-              <div className="form-group">
-                <label>Admin Key:</label>
-                <input
-                  type="password"
-                  value={resetAdminKey}
-                  onChange={(e) => setResetAdminKey(e.target.value)}
-                  onKeyDown={async (e) => {
-                    if (e.key === 'Enter' && resetAdminKey.trim()) {
-                      try {
-                        const response = await fetch('/api/admin/reset', {
-                          method: 'POST',
-                          headers: { 'Content-Type': 'application/json' },
-                          body: JSON.stringify({
-                            adminKey: resetAdminKey,
-                            reason: 'Manual reset from UI',
-                          }),
-                        });
-                        const result = await response.json();
-
-                        if (result.success) {
-                          window.location.reload();
-                        } else {
-                          alert('Reset failed: ' + result.message);
-                        }
-                      } catch (error) {
-                        alert('Error resetting story: ' + error);
-                      }
-                    }
-                  }}
-                  placeholder="Enter admin key"
-                  autoFocus
-                />
-              </div>
               <div className="admin-login-actions">
-                <button
-                  onClick={async () => {
-                    if (!resetAdminKey.trim()) return;
-
-                    try {
-                      const response = await fetch('/api/admin/reset', {
-                        method: 'POST',
-                        headers: { 'Content-Type': 'application/json' },
-                        body: JSON.stringify({
-                          adminKey: resetAdminKey,
-                          reason: 'Manual reset from UI',
-                        }),
-                      });
-                      const result = await response.json();
-
-                      if (result.success) {
-                        window.location.reload();
-                      } else {
-                        alert('Reset failed: ' + result.message);
-                      }
-                    } catch (error) {
-                      alert('Error resetting story: ' + error);
-                    }
-                  }}
-                  disabled={!resetAdminKey.trim()}
-                >
+                <button onClick={() => void handleResetStory()} autoFocus>
                   Reset Story
                 </button>
                 <button onClick={() => setShowResetStoryModal(false)}>Cancel</button>
@@ -513,66 +513,8 @@ const AppContent = () => {
               <p className="horror-text text-sm mb-4">
                 This will clear all votes for the current chapter and start a new voting session.
               </p>
-              <div className="form-group">
-                <label>Admin Key:</label>
-                <input
-                  type="password"
-                  value={resetAdminKey}
-                  onChange={(e) => setResetAdminKey(e.target.value)}
-                  onKeyDown={async (e) => {
-                    if (e.key === 'Enter' && resetAdminKey.trim()) {
-                      try {
-                        const response = await fetch('/api/admin/reset-voting', {
-                          method: 'POST',
-                          headers: { 'Content-Type': 'application/json' },
-                          body: JSON.stringify({
-                            adminKey: resetAdminKey,
-                            chapterId: currentChapter.id,
-                          }),
-                        });
-                        const result = await response.json();
-
-                        if (result.success) {
-                          window.location.reload();
-                        } else {
-                          alert('Reset failed: ' + result.message);
-                        }
-                      } catch (error) {
-                        alert('Error resetting voting: ' + error);
-                      }
-                    }
-                  }}
-                  placeholder="Enter admin key"
-                  autoFocus
-                />
-              </div>
               <div className="admin-login-actions">
-                <button
-                  onClick={async () => {
-                    if (!resetAdminKey.trim()) return;
-
-                    try {
-                      const response = await fetch('/api/admin/reset-voting', {
-                        method: 'POST',
-                        headers: { 'Content-Type': 'application/json' },
-                        body: JSON.stringify({
-                          adminKey: resetAdminKey,
-                          chapterId: currentChapter.id,
-                        }),
-                      });
-                      const result = await response.json();
-
-                      if (result.success) {
-                        window.location.reload();
-                      } else {
-                        alert('Reset failed: ' + result.message);
-                      }
-                    } catch (error) {
-                      alert('Error resetting voting: ' + error);
-                    }
-                  }}
-                  disabled={!resetAdminKey.trim()}
-                >
+                <button onClick={() => void handleResetVoting(currentChapter.id)} autoFocus>
                   Reset Voting
                 </button>
                 <button onClick={() => setShowResetVotingModal(false)}>Cancel</button>
@@ -716,14 +658,27 @@ const AppContent = () => {
   );
 };
 
+// Chooses the branching or chain story experience from the post's settings
+const StoryModeRouter = () => {
+  const { config } = useBootstrap();
+
+  if (config.storyMode === 'chain') {
+    return <ChainStoryView />;
+  }
+
+  return <AppContent />;
+};
+
 export const App = () => {
   return (
     <ErrorBoundary>
       <LoadingProvider>
-        <ModerationProvider>
-          <AppContent />
-          <LoadingOverlay />
-        </ModerationProvider>
+        <BootstrapProvider>
+          <ModerationProvider>
+            <StoryModeRouter />
+            <LoadingOverlay />
+          </ModerationProvider>
+        </BootstrapProvider>
       </LoadingProvider>
     </ErrorBoundary>
   );
@@ -13,7 +13,42 @@ import {
   AdvanceStoryResponse,
   ResetStoryRequest,
   ResetStoryResponse,
+  GetStoryMapResponse,
+  GetAdminRolesResponse,
+  SetAdminRoleRequest,
+  SetRecapCommentsRequest,
+  GetPostConfigResponse,
+  GetContentFiltersResponse,
+  AddContentFilterRequest,
+  PreviewContentFilterRequest,
+  PreviewContentFilterResponse,
+  GetModerationQueueResponse,
+  AssignReportResponse,
+  BulkUpdateReportsRequest,
+  BulkUpdateReportsResponse,
+  QueueActionRequest,
+  QueueActionResponse,
+  GetFlaggedReportersResponse,
 } from '../../shared/types/api';
+import { ADMIN_PERMISSIONS, AdminIdentity, AdminPermission } from '../../shared/types/admin';
+import {
+  CustomFilterSummary,
+  FILTER_MATCHER_LABELS,
+  FILTER_SCOPE_LABELS,
+  FilterMatcher,
+  FilterPatternCompiler,
+  FilterPreview,
+  FilterScope,
+} from '../../shared/types/content-filter';
+import { StoryMapData } from '../../shared/types/story-graph';
+import {
+  ModerationQueueItem,
+  QueueAction,
+  ReporterRecord,
+  SlaStatus,
+} from '../../shared/types/moderation-queue';
+import { StoryMap } from './StoryMap';
+import { useBootstrap } from '../hooks/useBootstrap';
 
 interface ContentReport {
   id: string;
@@ -45,18 +80,46 @@ interface ModerationStats {
   flaggedContent: ContentReport[];
 }
 
+const SLA_LABELS: Record<SlaStatus, string> = {
+  on_track: 'On track',
+  due_soon: 'Due soon',
+  overdue: 'Overdue',
+};
+
+const QUEUE_ACTION_MESSAGES: Record<QueueAction, string> = {
+  hide_choice: 'Choice hidden',
+  edit_chapter: 'Chapter text updated',
+  restore_chapter: 'Chapter restored',
+};
+
+const formatAge = (minutes: number) =>
+  minutes < 60 ? `${minutes}m` : `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+
+const FILTER_PATTERN_HINTS: Record<FilterMatcher, { label: string; placeholder: string }> = {
+  regex: { label: 'Pattern (regex)', placeholder: 'e.g. \\bcursed? words?\\b' },
+  keywords: { label: 'Words and phrases', placeholder: 'e.g. spoiler, ending revealed' },
+  wildcard: { label: 'Words with wildcards', placeholder: 'e.g. spoil*, b?rn' },
+};
+
 interface AdminInterfaceProps {
-  adminKey: string;
+  identity: AdminIdentity;
   onClose: () => void;
 }
 
-export const AdminInterface: React.FC<AdminInterfaceProps> = ({ adminKey, onClose }) => {
-  const [activeTab, setActiveTab] = useState<'overview' | 'moderation' | 'reports' | 'filters'>(
-    'overview'
-  );
+export const AdminInterface: React.FC<AdminInterfaceProps> = ({ identity, onClose }) => {
+  const [activeTab, setActiveTab] = useState<
+    'overview' | 'moderation' | 'reports' | 'filters' | 'story-map' | 'roles'
+  >('overview');
   const [adminStats, setAdminStats] = useState<AdminStats | null>(null);
   const [moderationStats, setModerationStats] = useState<ModerationStats | null>(null);
-  const [reports, setReports] = useState<ContentReport[]>([]);
+  const [queue, setQueue] = useState<ModerationQueueItem[]>([]);
+  const [selectedReports, setSelectedReports] = useState<string[]>([]);
+  const [flaggedReporters, setFlaggedReporters] = useState<ReporterRecord[]>([]);
+  const [editingReportId, setEditingReportId] = useState<string | null>(null);
+  const [editTitle, setEditTitle] = useState('');
+  const [editContent, setEditContent] = useState('');
+  const [storyMap, setStoryMap] = useState<StoryMapData | null>(null);
+  const [roles, setRoles] = useState<Record<string, AdminPermission[]>>({});
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [successMessage, setSuccessMessage] = useState<string | null>(null);
@@ -66,20 +129,42 @@ export const AdminInterface: React.FC<AdminInterfaceProps> = ({ adminKey, onClos
   const [resetReason, setResetReason] = useState('');
   const [forceChoice, setForceChoice] = useState('');
   const [newFilterPattern, setNewFilterPattern] = useState('');
+  const [newFilterMatcher, setNewFilterMatcher] = useState<FilterMatcher>('regex');
   const [newFilterSeverity, setNewFilterSeverity] = useState<'low' | 'medium' | 'high'>('medium');
   const [newFilterAction, setNewFilterAction] = useState<'flag' | 'block' | 'replace'>('flag');
   const [newFilterReplacement, setNewFilterReplacement] = useState('');
+  const [newFilterScope, setNewFilterScope] = useState<FilterScope>('all');
+  const [newFilterAllowedPhrases, setNewFilterAllowedPhrases] = useState('');
+  const [filters, setFilters] = useState<CustomFilterSummary[]>([]);
+  const [filterSampleText, setFilterSampleText] = useState('');
+  // Preview results by filter id; 'new' is the filter being written
+  const [filterPreviews, setFilterPreviews] = useState<Record<string, FilterPreview>>({});
+  const [roleUsername, setRoleUsername] = useState('');
+  const [rolePermissions, setRolePermissions] = useState<AdminPermission[]>(['view']);
+
+  const { config, refreshBootstrap } = useBootstrap();
+
+  const can = (permission: AdminPermission) => identity.permissions.includes(permission);
+
+  const newFilterValidation = newFilterPattern
+    ? FilterPatternCompiler.validate(newFilterMatcher, newFilterPattern)
+    : null;
 
   useEffect(() => {
     loadAdminData();
-  }, [adminKey]);
+  }, [identity.username]);
 
   const loadAdminData = async () => {
     setLoading(true);
     setError(null);
 
     try {
-      await Promise.all([loadStoryStats(), loadModerationStats(), loadReports()]);
+      await Promise.all([
+        loadStoryStats(),
+        loadModerationStats(),
+        loadReports(),
+        loadFlaggedReporters(),
+      ]);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to load admin data');
     } finally {
@@ -89,7 +174,7 @@ export const AdminInterface: React.FC<AdminInterfaceProps> = ({ adminKey, onClos
 
   const loadStoryStats = async () => {
     try {
-      const response = await fetch(`/api/admin/stats?adminKey=${encodeURIComponent(adminKey)}`);
+      const response = await fetch('/api/admin/stats');
       const data: GetStoryStatsResponse = await response.json();
 
       if (data.success && data.data) {
@@ -105,9 +190,7 @@ export const AdminInterface: React.FC<AdminInterfaceProps> = ({ adminKey, onClos
 
   const loadModerationStats = async () => {
     try {
-      const response = await fetch(
-        `/api/admin/moderation?adminKey=${encodeURIComponent(adminKey)}`
-      );
+      const response = await fetch('/api/admin/moderation');
       const data: GetModerationStatsResponse = await response.json();
 
       if (data.success && data.data) {
@@ -139,11 +222,15 @@ export const AdminInterface: React.FC<AdminInterfaceProps> = ({ adminKey, onClos
 
   const loadReports = async () => {
     try {
-      const response = await fetch(`/api/admin/reports?adminKey=${encodeURIComponent(adminKey)}`);
-      const data = await response.json();
+      const response = await fetch('/api/admin/queue');
+      const data: GetModerationQueueResponse = await response.json();
 
       if (data.success && data.data) {
-        setReports(data.data.reports || []);
+        const items = data.data.items;
+        setQueue(items);
+        setSelectedReports((selected) =>
+          selected.filter((id) => items.some((item) => item.reportId === id))
+        );
       } else {
         throw new Error(data.error || 'Failed to load reports');
       }
@@ -153,15 +240,32 @@ export const AdminInterface: React.FC<AdminInterfaceProps> = ({ adminKey, onClos
     }
   };
 
-  const handleAdvanceStory = async () => {
-    if (!adminKey) return;
+  const loadStoryMap = async () => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      const response = await fetch('/api/admin/story-map');
+      const data: GetStoryMapResponse = await response.json();
 
+      if (data.success && data.data) {
+        setStoryMap(data.data);
+      } else {
+        throw new Error(data.error || 'Failed to load story map');
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load story map');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleAdvanceStory = async () => {
     setLoading(true);
     setError(null);
 
     try {
       const request: AdvanceStoryRequest = {
-        adminKey,
         ...(forceChoice && { forceChoice }),
         ...(advanceReason && { reason: advanceReason }),
       };
@@ -189,16 +293,44 @@ export const AdminInterface: React.FC<AdminInterfaceProps> = ({ adminKey, onClos
     }
   };
 
+  const handleToggleRecapComments = async () => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      const request: SetRecapCommentsRequest = { enabled: !config.recapComments };
+
+      const response = await fetch('/api/admin/recap-comments', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(request),
+      });
+
+      const data: GetPostConfigResponse = await response.json();
+
+      if (data.success) {
+        setSuccessMessage(
+          data.data?.config.recapComments ? 'Recap comments turned on' : 'Recap comments turned off'
+        );
+        await refreshBootstrap();
+      } else {
+        throw new Error(data.error || 'Failed to update recap comments');
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update recap comments');
+    } finally {
+      setLoading(false);
+    }
+  };
+
   const handleResetStory = async () => {
-    if (!adminKey || !confirm('Are you sure you want to reset the story? This cannot be undone.'))
-      return;
+    if (!confirm('Are you sure you want to reset the story? This cannot be undone.')) return;
 
     setLoading(true);
     setError(null);
 
     try {
       const request: ResetStoryRequest = {
-        adminKey,
         ...(resetReason && { reason: resetReason }),
       };
 
@@ -229,8 +361,6 @@ export const AdminInterface: React.FC<AdminInterfaceProps> = ({ adminKey, onClos
     status: 'resolved' | 'dismissed',
     notes?: string
   ) => {
-    if (!adminKey) return;
-
     setLoading(true);
     setError(null);
 
@@ -239,7 +369,6 @@ export const AdminInterface: React.FC<AdminInterfaceProps> = ({ adminKey, onClos
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
-          adminKey,
           status,
           moderatorNotes: notes,
         }),
@@ -249,7 +378,7 @@ export const AdminInterface: React.FC<AdminInterfaceProps> = ({ adminKey, onClos
 
       if (data.success) {
         setSuccessMessage(`Report ${status} successfully`);
-        await loadReports();
+        await Promise.all([loadReports(), loadFlaggedReporters()]);
       } else {
         throw new Error(data.error || `Failed to ${status} report`);
       }
@@ -260,19 +389,149 @@ export const AdminInterface: React.FC<AdminInterfaceProps> = ({ adminKey, onClos
     }
   };
 
+  const loadFlaggedReporters = async () => {
+    try {
+      const response = await fetch('/api/admin/reporters');
+      const data: GetFlaggedReportersResponse = await response.json();
+
+      if (data.success && data.data) {
+        setFlaggedReporters(data.data.reporters);
+      } else {
+        throw new Error(data.error || 'Failed to load reporters');
+      }
+    } catch (err) {
+      console.error('Error loading reporters:', err);
+      throw err;
+    }
+  };
+
+  const handleClaimReport = async (reportId: string) => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/admin/queue/${reportId}/claim`, { method: 'POST' });
+      const data: AssignReportResponse = await response.json();
+
+      if (data.success) {
+        setSuccessMessage('Report claimed');
+        await loadReports();
+      } else {
+        throw new Error(data.error || 'Failed to claim report');
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to claim report');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleUnassignReport = async (reportId: string) => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/admin/queue/${reportId}/assign`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ assignee: null }),
+      });
+      const data: AssignReportResponse = await response.json();
+
+      if (data.success) {
+        setSuccessMessage('Report returned to the queue');
+        await loadReports();
+      } else {
+        throw new Error(data.error || 'Failed to unassign report');
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to unassign report');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleBulkUpdate = async (status: 'resolved' | 'dismissed') => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      const request: BulkUpdateReportsRequest = { reportIds: selectedReports, status };
+      const response = await fetch('/api/admin/queue/bulk', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(request),
+      });
+      const data: BulkUpdateReportsResponse = await response.json();
+
+      if (data.success && data.data) {
+        const { updated, failed } = data.data;
+        setSuccessMessage(
+          `${updated.length} ${updated.length === 1 ? 'report' : 'reports'} ${status}` +
+            (failed.length > 0 ? `, ${failed.length} skipped` : '')
+        );
+        setSelectedReports([]);
+        await Promise.all([loadReports(), loadModerationStats(), loadFlaggedReporters()]);
+      } else {
+        throw new Error(data.error || `Failed to update reports`);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update reports');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleQueueAction = async (reportId: string, request: QueueActionRequest) => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/admin/queue/${reportId}/action`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(request),
+      });
+      const data: QueueActionResponse = await response.json();
+
+      if (data.success) {
+        setSuccessMessage(QUEUE_ACTION_MESSAGES[request.action]);
+        setEditingReportId(null);
+        await Promise.all([loadReports(), loadModerationStats()]);
+      } else {
+        throw new Error(data.error || 'Failed to apply action');
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to apply action');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const startEditingChapter = (item: ModerationQueueItem) => {
+    setEditingReportId(item.reportId);
+    setEditTitle(item.snapshot?.title ?? '');
+    setEditContent(item.snapshot?.text ?? '');
+  };
+
+  const toggleReportSelection = (reportId: string) => {
+    setSelectedReports((selected) =>
+      selected.includes(reportId)
+        ? selected.filter((id) => id !== reportId)
+        : [...selected, reportId]
+    );
+  };
+
   const handleFlagContent = async (
     targetType: 'chapter' | 'choice' | 'story',
     targetId: string,
     reason: string
   ) => {
-    if (!adminKey) return;
-
     setLoading(true);
     setError(null);
 
     try {
       const request: ContentModerationRequest = {
-        adminKey,
         action: 'flag',
         targetType,
         targetId,
@@ -300,23 +559,49 @@ export const AdminInterface: React.FC<AdminInterfaceProps> = ({ adminKey, onClos
     }
   };
 
+  const loadFilters = async () => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      const response = await fetch('/api/admin/filters');
+      const data: GetContentFiltersResponse = await response.json();
+
+      if (data.success && data.data) {
+        setFilters(data.data.filters);
+      } else {
+        throw new Error(data.error || 'Failed to load content filters');
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load content filters');
+    } finally {
+      setLoading(false);
+    }
+  };
+
   const handleAddFilter = async () => {
-    if (!adminKey || !newFilterPattern) return;
+    if (!newFilterPattern || !newFilterValidation?.isValid) return;
 
     setLoading(true);
     setError(null);
 
     try {
+      const request: AddContentFilterRequest = {
+        pattern: newFilterPattern,
+        matcher: newFilterMatcher,
+        severity: newFilterSeverity,
+        action: newFilterAction,
+        ...(newFilterReplacement && { replacement: newFilterReplacement }),
+        scope: newFilterScope,
+        ...(newFilterAllowedPhrases.trim() && {
+          allowedPhrases: newFilterAllowedPhrases.split(','),
+        }),
+      };
+
       const response = await fetch('/api/admin/filters', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          adminKey,
-          pattern: newFilterPattern,
-          severity: newFilterSeverity,
-          action: newFilterAction,
-          ...(newFilterReplacement && { replacement: newFilterReplacement }),
-        }),
+        body: JSON.stringify(request),
       });
 
       const data = await response.json();
@@ -325,7 +610,9 @@ export const AdminInterface: React.FC<AdminInterfaceProps> = ({ adminKey, onClos
         setSuccessMessage('Content filter added successfully');
         setNewFilterPattern('');
         setNewFilterReplacement('');
-        await loadModerationStats();
+        setNewFilterAllowedPhrases('');
+        setFilterPreviews(({ new: _, ...saved }) => saved);
+        await loadFilters();
       } else {
         throw new Error(data.error || 'Failed to add content filter');
       }
@@ -336,6 +623,135 @@ export const AdminInterface: React.FC<AdminInterfaceProps> = ({ adminKey, onClos
     }
   };
 
+  // Runs a saved filter, or the one being written, against the sample text
+  const handlePreviewFilter = async (
+    key: string,
+    filter: Pick<CustomFilterSummary, 'pattern' | 'matcher' | 'action' | 'replacement'>
+  ) => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      const request: PreviewContentFilterRequest = {
+        pattern: filter.pattern,
+        matcher: filter.matcher,
+        action: filter.action,
+        ...(filter.replacement && { replacement: filter.replacement }),
+        sampleText: filterSampleText,
+      };
+
+      const response = await fetch('/api/admin/filters/preview', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(request),
+      });
+
+      const data: PreviewContentFilterResponse = await response.json();
+
+      if (data.success && data.data) {
+        const preview = data.data;
+        setFilterPreviews((current) => ({ ...current, [key]: preview }));
+      } else {
+        throw new Error(data.error || 'Failed to test content filter');
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to test content filter');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const renderFilterPreview = (preview: FilterPreview) => (
+    <div className="filter-preview-result">
+      {!preview.isValid ? (
+        preview.errors.map((message) => (
+          <div key={message} className="filter-error">
+            {message}
+          </div>
+        ))
+      ) : preview.matches.length === 0 ? (
+        <div className="filter-no-match">No matches in the sample text</div>
+      ) : (
+        <>
+          <div>
+            {preview.matches.length} {preview.matches.length === 1 ? 'match' : 'matches'}:{' '}
+            {preview.matches.map((match) => (
+              <code key={match.position} className="filter-match">
+                {match.match}
+              </code>
+            ))}
+          </div>
+          {preview.filteredContent && (
+            <div className="filter-replaced">After replacement: {preview.filteredContent}</div>
+          )}
+        </>
+      )}
+    </div>
+  );
+
+  const loadRoles = async () => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      const response = await fetch('/api/admin/roles');
+      const data: GetAdminRolesResponse = await response.json();
+
+      if (data.success && data.data) {
+        setRoles(data.data.roles);
+      } else {
+        throw new Error(data.error || 'Failed to load roles');
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load roles');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Omitting permissions clears the custom role so Reddit mod permissions apply again
+  const handleSetRole = async (username: string, permissions?: AdminPermission[]) => {
+    if (!username.trim()) return;
+
+    setLoading(true);
+    setError(null);
+
+    try {
+      const request: SetAdminRoleRequest = {
+        username: username.trim(),
+        ...(permissions && { permissions }),
+      };
+
+      const response = await fetch('/api/admin/roles', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(request),
+      });
+
+      const data: GetAdminRolesResponse = await response.json();
+
+      if (data.success && data.data) {
+        setRoles(data.data.roles);
+        setSuccessMessage(permissions ? 'Role saved' : 'Custom role removed');
+        setRoleUsername('');
+      } else {
+        throw new Error(data.error || 'Failed to update role');
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update role');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const toggleRolePermission = (permission: AdminPermission) => {
+    setRolePermissions((current) =>
+      current.includes(permission)
+        ? current.filter((p) => p !== permission)
+        : [...current, permission]
+    );
+  };
+
   const clearMessages = () => {
     setError(null);
     setSuccessMessage(null);
@@ -345,6 +761,10 @@ export const AdminInterface: React.FC<AdminInterfaceProps> = ({ adminKey, onClos
     <div className="admin-interface">
       <div className="admin-header">
         <h2>Administrative Interface</h2>
+        <span className="admin-identity" title={identity.permissions.join(', ')}>
+          u/{identity.username}
+          {identity.customRole && ' (custom role)'}
+        </span>
         <button onClick={onClose} className="close-button">
           ×
         </button>
@@ -385,14 +805,39 @@ export const AdminInterface: React.FC<AdminInterfaceProps> = ({ adminKey, onClos
           className={`tab ${activeTab === 'reports' ? 'active' : ''}`}
           onClick={() => setActiveTab('reports')}
         >
-          Reports ({moderationStats?.pendingReports || 0})
+          Reports ({queue.length})
         </button>
+        {can('manage_filters') && (
+          <button
+            className={`tab ${activeTab === 'filters' ? 'active' : ''}`}
+            onClick={() => {
+              setActiveTab('filters');
+              void loadFilters();
+            }}
+          >
+            Content Filters
+          </button>
+        )}
         <button
-          className={`tab ${activeTab === 'filters' ? 'active' : ''}`}
-          onClick={() => setActiveTab('filters')}
+          className={`tab ${activeTab === 'story-map' ? 'active' : ''}`}
+          onClick={() => {
+            setActiveTab('story-map');
+            void loadStoryMap();
+          }}
         >
-          Content Filters
+          Story Map
         </button>
+        {can('manage_roles') && (
+          <button
+            className={`tab ${activeTab === 'roles' ? 'active' : ''}`}
+            onClick={() => {
+              setActiveTab('roles');
+              void loadRoles();
+            }}
+          >
+            Roles
+          </button>
+        )}
       </div>
 
       <div className="admin-content">
@@ -424,52 +869,79 @@ export const AdminInterface: React.FC<AdminInterfaceProps> = ({ adminKey, onClos
             <div className="admin-actions">
               <div className="action-section">
                 <h3>Story Management</h3>
-                <div className="action-group">
-                  <div className="form-group">
-                    <label>Force Choice (Optional):</label>
-                    <input
-                      type="text"
-                      value={forceChoice}
-                      onChange={(e) => setForceChoice(e.target.value)}
-                      placeholder="choice-id"
-                    />
+                {!can('advance') && !can('reset') && (
+                  <div className="no-reports">Your role can view the story but not change it</div>
+                )}
+                {can('advance') && (
+                  <div className="action-group">
+                    <div className="form-group">
+                      <label>Force Choice (Optional):</label>
+                      <input
+                        type="text"
+                        value={forceChoice}
+                        onChange={(e) => setForceChoice(e.target.value)}
+                        placeholder="choice-id"
+                      />
+                    </div>
+                    <div className="form-group">
+                      <label>Reason:</label>
+                      <input
+                        type="text"
+                        value={advanceReason}
+                        onChange={(e) => setAdvanceReason(e.target.value)}
+                        placeholder="Reason for manual advancement"
+                      />
+                    </div>
+                    <button
+                      onClick={handleAdvanceStory}
+                      disabled={loading}
+                      className="admin-button primary"
+                    >
+                      Advance Story
+                    </button>
                   </div>
-                  <div className="form-group">
-                    <label>Reason:</label>
-                    <input
-                      type="text"
-                      value={advanceReason}
-                      onChange={(e) => setAdvanceReason(e.target.value)}
-                      placeholder="Reason for manual advancement"
-                    />
+                )}
+
+                {can('advance') && (
+                  <div className="action-group">
+                    <div className="form-group">
+                      <label>Thread Recaps:</label>
+                      <span>
+                        {config.recapComments
+                          ? 'A stickied comment recaps each resolved chapter'
+                          : 'No recap comments are posted'}
+                      </span>
+                    </div>
+                    <button
+                      onClick={handleToggleRecapComments}
+                      disabled={loading}
+                      className="admin-button secondary"
+                    >
+                      {config.recapComments ? 'Turn Off Recaps' : 'Turn On Recaps'}
+                    </button>
                   </div>
-                  <button
-                    onClick={handleAdvanceStory}
-                    disabled={loading}
-                    className="admin-button primary"
-                  >
-                    Advance Story
-                  </button>
-                </div>
+                )}
 
-                <div className="action-group">
-                  <div className="form-group">
-                    <label>Reset Reason:</label>
-                    <input
-                      type="text"
-                      value={resetReason}
-                      onChange={(e) => setResetReason(e.target.value)}
-                      placeholder="Reason for story reset"
-                    />
+                {can('reset') && (
+                  <div className="action-group">
+                    <div className="form-group">
+                      <label>Reset Reason:</label>
+                      <input
+                        type="text"
+                        value={resetReason}
+                        onChange={(e) => setResetReason(e.target.value)}
+                        placeholder="Reason for story reset"
+                      />
+                    </div>
+                    <button
+                      onClick={handleResetStory}
+                      disabled={loading}
+                      className="admin-button danger"
+                    >
+                      Reset Story
+                    </button>
                   </div>
-                  <button
-                    onClick={handleResetStory}
-                    disabled={loading}
-                    className="admin-button danger"
-                  >
-                    Reset Story
-                  </button>
-                </div>
+                )}
               </div>
             </div>
           </div>
@@ -495,59 +967,229 @@ export const AdminInterface: React.FC<AdminInterfaceProps> = ({ adminKey, onClos
               </div>
             </div>
 
-            <div className="content-flagging">
-              <h3>Flag Content</h3>
-              <div className="flag-form">
-                <select
-                  onChange={(e) => {
-                    const [type, id] = e.target.value.split(':');
-                    if (type && id) {
-                      const reason = prompt('Enter reason for flagging:');
-                      if (reason) {
-                        handleFlagContent(type as any, id, reason);
+            <div className="flagged-reporters">
+              <h3>Reporters to Watch</h3>
+              {flaggedReporters.length === 0 ? (
+                <div className="no-reports">No players with mostly dismissed reports</div>
+              ) : (
+                flaggedReporters.map((reporter) => (
+                  <div key={reporter.username} className="flagged-reporter">
+                    <span>u/{reporter.username}</span>
+                    <span>{reporter.filed} filed</span>
+                    <span>{reporter.dismissed} dismissed</span>
+                    <span>{reporter.upheld} upheld</span>
+                  </div>
+                ))
+              )}
+            </div>
+
+            {can('moderate') && (
+              <div className="content-flagging">
+                <h3>Flag Content</h3>
+                <div className="flag-form">
+                  <select
+                    onChange={(e) => {
+                      const [type, id] = e.target.value.split(':');
+                      if (type && id) {
+                        const reason = prompt('Enter reason for flagging:');
+                        if (reason) {
+                          handleFlagContent(type as any, id, reason);
+                        }
                       }
-                    }
-                  }}
-                >
-                  <option value="">Select content to flag...</option>
-                  <option value="chapter:current">Current Chapter</option>
-                  <option value="story:main">Entire Story</option>
-                </select>
+                    }}
+                  >
+                    <option value="">Select content to flag...</option>
+                    <option value="chapter:current">Current Chapter</option>
+                    <option value="story:main">Entire Story</option>
+                  </select>
+                </div>
               </div>
-            </div>
+            )}
           </div>
         )}
 
         {activeTab === 'reports' && (
           <div className="reports-tab">
-            <h3>Content Reports</h3>
+            <h3>Review Queue</h3>
+            {can('moderate') && queue.length > 0 && (
+              <div className="queue-bulk-actions">
+                <span>{selectedReports.length} selected</span>
+                <button
+                  onClick={() => handleBulkUpdate('resolved')}
+                  disabled={loading || selectedReports.length === 0}
+                  className="admin-button small primary"
+                >
+                  Resolve Selected
+                </button>
+                <button
+                  onClick={() => handleBulkUpdate('dismissed')}
+                  disabled={loading || selectedReports.length === 0}
+                  className="admin-button small secondary"
+                >
+                  Dismiss Selected
+                </button>
+              </div>
+            )}
             <div className="reports-list">
-              {reports.length === 0 ? (
+              {queue.length === 0 ? (
                 <div className="no-reports">No reports to review</div>
               ) : (
-                reports.map((report) => (
-                  <div key={report.id} className={`report-card ${report.status}`}>
+                queue.map((item) => (
+                  <div key={item.reportId} className={`report-card ${item.status}`}>
                     <div className="report-header">
-                      <span className="report-type">{report.type}</span>
-                      <span className="report-status">{report.status}</span>
-                      <span className="report-date">
-                        {new Date(report.reportedAt).toLocaleDateString()}
+                      {can('moderate') && (
+                        <input
+                          type="checkbox"
+                          checked={selectedReports.includes(item.reportId)}
+                          onChange={() => toggleReportSelection(item.reportId)}
+                        />
+                      )}
+                      <span className="report-type">{item.contentType}</span>
+                      <span className="report-status">{item.status}</span>
+                      <span className={`report-sla ${item.sla}`}>
+                        {SLA_LABELS[item.sla]} · {formatAge(item.ageMinutes)}
                       </span>
+                      <span className="report-assignee">
+                        {item.assignedTo ? `u/${item.assignedTo}` : 'Unclaimed'}
+                      </span>
+                      {item.autoHidden && (
+                        <span className="report-flag auto-hidden">Auto-hidden</span>
+                      )}
+                      {item.reporterFlagged && (
+                        <span
+                          className="report-flag"
+                          title="Most of this player's reports were dismissed"
+                        >
+                          Reporter often dismissed
+                        </span>
+                      )}
                     </div>
                     <div className="report-content">
-                      <div className="report-reason">{report.reason}</div>
-                      <div className="report-target">Target: {report.targetId}</div>
+                      <div className="report-reason">
+                        {item.reason}
+                        {item.description && ` — ${item.description}`}
+                      </div>
+                      {item.snapshot ? (
+                        <div className="report-snapshot">
+                          {item.snapshot.title && (
+                            <div className="report-snapshot-title">{item.snapshot.title}</div>
+                          )}
+                          <div className="report-snapshot-text">
+                            {item.snapshot.text ?? 'The content could not be found when reported'}
+                          </div>
+                          {item.snapshot.violations.map((violation) => (
+                            <div
+                              key={`${violation.rule}-${violation.match}`}
+                              className="filter-error"
+                            >
+                              {violation.rule} ({violation.severity}): "{violation.match}"
+                            </div>
+                          ))}
+                        </div>
+                      ) : (
+                        <div className="report-target">Target: {item.contentId}</div>
+                      )}
+                      <div className="report-target">
+                        Reported by u/{item.reportedBy} on{' '}
+                        {new Date(item.reportedAt).toLocaleString()}
+                        {item.repeatCount
+                          ? ` (reported again ${item.repeatCount} ${item.repeatCount === 1 ? 'time' : 'times'})`
+                          : ''}
+                      </div>
                     </div>
-                    {report.status === 'pending' && (
+                    {editingReportId === item.reportId && (
+                      <div className="report-edit">
+                        <input
+                          type="text"
+                          value={editTitle}
+                          onChange={(e) => setEditTitle(e.target.value)}
+                          placeholder="Chapter title"
+                        />
+                        <textarea
+                          value={editContent}
+                          onChange={(e) => setEditContent(e.target.value)}
+                          rows={6}
+                        />
+                        <div className="report-actions">
+                          <button
+                            onClick={() =>
+                              handleQueueAction(item.reportId, {
+                                action: 'edit_chapter',
+                                content: editContent,
+                                ...(editTitle.trim() && { title: editTitle }),
+                              })
+                            }
+                            disabled={loading || !editContent.trim()}
+                            className="admin-button small primary"
+                          >
+                            Save Chapter
+                          </button>
+                          <button
+                            onClick={() => setEditingReportId(null)}
+                            className="admin-button small secondary"
+                          >
+                            Cancel
+                          </button>
+                        </div>
+                      </div>
+                    )}
+                    {can('moderate') && editingReportId !== item.reportId && (
                       <div className="report-actions">
+                        {item.assignedTo === identity.username ? (
+                          <button
+                            onClick={() => handleUnassignReport(item.reportId)}
+                            className="admin-button small secondary"
+                          >
+                            Unclaim
+                          </button>
+                        ) : (
+                          !item.assignedTo && (
+                            <button
+                              onClick={() => handleClaimReport(item.reportId)}
+                              className="admin-button small secondary"
+                            >
+                              Claim
+                            </button>
+                          )
+                        )}
+                        {item.contentType === 'choice' && (
+                          <button
+                            onClick={() => {
+                              if (confirm('Hide this choice and withdraw its votes?')) {
+                                void handleQueueAction(item.reportId, { action: 'hide_choice' });
+                              }
+                            }}
+                            className="admin-button small danger"
+                          >
+                            Hide Choice
+                          </button>
+                        )}
+                        {item.contentType === 'chapter' && (
+                          <button
+                            onClick={() => startEditingChapter(item)}
+                            className="admin-button small secondary"
+                          >
+                            Edit Chapter
+                          </button>
+                        )}
+                        {item.contentType === 'chapter' && item.autoHidden && (
+                          <button
+                            onClick={() =>
+                              handleQueueAction(item.reportId, { action: 'restore_chapter' })
+                            }
+                            className="admin-button small secondary"
+                          >
+                            Restore Chapter
+                          </button>
+                        )}
                         <button
-                          onClick={() => handleResolveReport(report.id, 'resolved')}
+                          onClick={() => handleResolveReport(item.reportId, 'resolved')}
                           className="admin-button small primary"
                         >
                           Resolve
                         </button>
                         <button
-                          onClick={() => handleResolveReport(report.id, 'dismissed')}
+                          onClick={() => handleResolveReport(item.reportId, 'dismissed')}
                           className="admin-button small secondary"
                         >
                           Dismiss
@@ -561,20 +1203,38 @@ export const AdminInterface: React.FC<AdminInterfaceProps> = ({ adminKey, onClos
           </div>
         )}
 
-        {activeTab === 'filters' && (
+        {activeTab === 'filters' && can('manage_filters') && (
           <div className="filters-tab">
             <h3>Content Filters</h3>
             <div className="add-filter">
               <h4>Add New Filter</h4>
               <div className="filter-form">
                 <div className="form-group">
-                  <label>Pattern (regex):</label>
+                  <label>Match Using:</label>
+                  <select
+                    value={newFilterMatcher}
+                    onChange={(e) => setNewFilterMatcher(e.target.value as FilterMatcher)}
+                  >
+                    {Object.entries(FILTER_MATCHER_LABELS).map(([matcher, label]) => (
+                      <option key={matcher} value={matcher}>
+                        {label}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <div className="form-group">
+                  <label>{FILTER_PATTERN_HINTS[newFilterMatcher].label}:</label>
                   <input
                     type="text"
                     value={newFilterPattern}
                     onChange={(e) => setNewFilterPattern(e.target.value)}
-                    placeholder="Enter regex pattern"
+                    placeholder={FILTER_PATTERN_HINTS[newFilterMatcher].placeholder}
                   />
+                  {newFilterValidation?.errors.map((message) => (
+                    <div key={message} className="filter-error">
+                      {message}
+                    </div>
+                  ))}
                 </div>
                 <div className="form-group">
                   <label>Severity:</label>
@@ -609,15 +1269,178 @@ export const AdminInterface: React.FC<AdminInterfaceProps> = ({ adminKey, onClos
                     />
                   </div>
                 )}
+                <div className="form-group">
+                  <label>Applies To:</label>
+                  <select
+                    value={newFilterScope}
+                    onChange={(e) => setNewFilterScope(e.target.value as FilterScope)}
+                  >
+                    {Object.entries(FILTER_SCOPE_LABELS).map(([scope, label]) => (
+                      <option key={scope} value={scope}>
+                        {label}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <div className="form-group">
+                  <label>Except In Phrases:</label>
+                  <input
+                    type="text"
+                    value={newFilterAllowedPhrases}
+                    onChange={(e) => setNewFilterAllowedPhrases(e.target.value)}
+                    placeholder="Optional, comma separated: do or die, gates of hell"
+                  />
+                </div>
                 <button
                   onClick={handleAddFilter}
-                  disabled={loading || !newFilterPattern}
+                  disabled={loading || !newFilterValidation?.isValid}
                   className="admin-button primary"
                 >
                   Add Filter
                 </button>
               </div>
             </div>
+
+            <div className="filter-preview">
+              <h4>Test Against Sample Text</h4>
+              <textarea
+                value={filterSampleText}
+                onChange={(e) => setFilterSampleText(e.target.value)}
+                placeholder="Paste a chapter, choice or comment to see what a filter would catch"
+                maxLength={2000}
+                rows={3}
+              />
+              <button
+                onClick={() =>
+                  handlePreviewFilter('new', {
+                    pattern: newFilterPattern,
+                    matcher: newFilterMatcher,
+                    action: newFilterAction,
+                    ...(newFilterReplacement && { replacement: newFilterReplacement }),
+                  })
+                }
+                disabled={loading || !newFilterPattern || !filterSampleText}
+                className="admin-button secondary small"
+              >
+                Test New Filter
+              </button>
+              {filterPreviews.new && renderFilterPreview(filterPreviews.new)}
+            </div>
+
+            <div className="filters-list">
+              <h4>Active Filters</h4>
+              {filters.length === 0 ? (
+                <div className="no-reports">No custom filters for this post</div>
+              ) : (
+                filters.map((filter) => (
+                  <div key={filter.id} className="filter-card">
+                    <div className="filter-card-header">
+                      <span className="filter-matcher">
+                        {FILTER_MATCHER_LABELS[filter.matcher]}
+                      </span>
+                      <code className="filter-pattern">{filter.pattern}</code>
+                      <span className="filter-settings">
+                        {filter.severity} · {filter.action}
+                        {filter.replacement && ` → ${filter.replacement}`}
+                        {filter.scope === 'user' && ' · players only'}
+                      </span>
+                      <button
+                        onClick={() => handlePreviewFilter(filter.id, filter)}
+                        disabled={loading || !filterSampleText}
+                        className="admin-button small secondary"
+                      >
+                        Test
+                      </button>
+                    </div>
+                    {filter.allowedPhrases && (
+                      <div className="filter-allowed">
+                        Allowed in: {filter.allowedPhrases.join(', ')}
+                      </div>
+                    )}
+                    {filterPreviews[filter.id] && renderFilterPreview(filterPreviews[filter.id]!)}
+                  </div>
+                ))
+              )}
+            </div>
+          </div>
+        )}
+
+        {activeTab === 'story-map' && (
+          <div className="story-map-tab">
+            <div className="story-map-header">
+              <h3>Story Map</h3>
+              <button
+                onClick={loadStoryMap}
+                disabled={loading}
+                className="admin-button secondary small"
+              >
+                Refresh
+              </button>
+            </div>
+            {storyMap ? (
+              <StoryMap data={storyMap} />
+            ) : (
+              !loading && <div className="no-reports">Story map not loaded</div>
+            )}
+          </div>
+        )}
+
+        {activeTab === 'roles' && can('manage_roles') && (
+          <div className="roles-tab">
+            <h3>Moderator Roles</h3>
+            <p className="roles-help">
+              Moderators get permissions from their Reddit mod permissions. A custom role replaces
+              those for one moderator.
+            </p>
+            <div className="roles-list">
+              {Object.keys(roles).length === 0 ? (
+                <div className="no-reports">No custom roles assigned</div>
+              ) : (
+                Object.entries(roles).map(([username, permissions]) => (
+                  <div key={username} className="role-card">
+                    <span className="role-username">u/{username}</span>
+                    <span className="role-permissions">{permissions.join(', ')}</span>
+                    <button
+                      onClick={() => handleSetRole(username)}
+                      disabled={loading}
+                      className="admin-button small secondary"
+                    >
+                      Remove
+                    </button>
+                  </div>
+                ))
+              )}
+            </div>
+            <div className="filter-form">
+              <div className="form-group">
+                <label>Moderator:</label>
+                <input
+                  type="text"
+                  value={roleUsername}
+                  onChange={(e) => setRoleUsername(e.target.value)}
+                  placeholder="username"
+                />
+              </div>
+              <div className="form-group role-permission-options">
+                {ADMIN_PERMISSIONS.map((permission) => (
+                  <label key={permission}>
+                    <input
+                      type="checkbox"
+                      checked={rolePermissions.includes(permission)}
+                      onChange={() => toggleRolePermission(permission)}
+                    />
+                    {permission}
+                  </label>
+                ))}
+              </div>
+              <button
+                onClick={() => handleSetRole(roleUsername, rolePermissions)}
+                disabled={loading || !roleUsername.trim()}
+                className="admin-button primary"
+              >
+                Save Role
+              </button>
+            </div>
           </div>
         )}
       </div>
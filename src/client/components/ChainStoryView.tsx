@@ -0,0 +1,240 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { CHAIN_STORY_RULES, ChainStoryValidator } from '../../shared/types/chain-story';
+import { ChainSentenceAddedMessage, ChainStoryCompletedMessage } from '../../shared/types/api';
+import { useChainStory } from '../hooks/useChainStory';
+import { useRealtime } from '../hooks/useRealtime';
+import { LoadingSpinner } from './LoadingSpinner';
+
+const formatCountdown = (ms: number): string => {
+  const totalSeconds = Math.max(0, Math.floor(ms / 1000));
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  const pad = (value: number) => value.toString().padStart(2, '0');
+
+  return hours > 0 ? `${hours}:${pad(minutes)}:${pad(seconds)}` : `${minutes}:${pad(seconds)}`;
+};
+
+export const ChainStoryView: React.FC = () => {
+  const {
+    story,
+    submissions,
+    roundEndsAt,
+    loading,
+    error,
+    submitSentence,
+    refreshStory,
+    applyStoryUpdate,
+  } = useChainStory();
+
+  const [sentence, setSentence] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const [feedback, setFeedback] = useState<{ type: 'success' | 'error'; text: string } | null>(
+    null
+  );
+  const [notification, setNotification] = useState<string | null>(null);
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  const showNotification = useCallback((text: string) => {
+    setNotification(text);
+    setTimeout(() => setNotification(null), 4000);
+  }, []);
+
+  const handleSentenceAdded = useCallback(
+    (message: ChainSentenceAddedMessage) => {
+      applyStoryUpdate(message.data.story);
+      showNotification('New sentence added!');
+    },
+    [applyStoryUpdate, showNotification]
+  );
+
+  const handleStoryCompleted = useCallback(
+    (_message: ChainStoryCompletedMessage) => {
+      showNotification('Story Complete! A new story begins...');
+      void refreshStory();
+    },
+    [refreshStory, showNotification]
+  );
+
+  const { connectionStatus } = useRealtime({
+    onChainSentenceAdded: handleSentenceAdded,
+    onChainStoryCompleted: handleStoryCompleted,
+  });
+
+  // Fall back to polling when realtime is unavailable, and refresh once a round is overdue
+  const roundOverdue = roundEndsAt !== null && now > roundEndsAt + 5000;
+  useEffect(() => {
+    if (connectionStatus === 'connected' && !roundOverdue) return;
+
+    const pollInterval = setInterval(refreshStory, roundOverdue ? 10000 : 30000);
+    return () => clearInterval(pollInterval);
+  }, [connectionStatus, roundOverdue, refreshStory]);
+
+  const validation = ChainStoryValidator.validateSentence(sentence);
+  const length = sentence.trim().length;
+  const nearLimit = length > CHAIN_STORY_RULES.maxSentenceLength - 20;
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!validation.isValid || submitting) return;
+
+    setSubmitting(true);
+    setFeedback(null);
+    try {
+      const message = await submitSentence(sentence.trim());
+      setSentence('');
+      setFeedback({ type: 'success', text: message });
+    } catch (err) {
+      setFeedback({
+        type: 'error',
+        text: err instanceof Error ? err.message : 'Failed to submit sentence',
+      });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  if (loading && !story) {
+    return (
+      <div className="story-container">
+        <LoadingSpinner message="Loading the Chain Story..." size="large" />
+      </div>
+    );
+  }
+
+  if (!story) {
+    return (
+      <div className="story-container">
+        <div className="horror-card text-center">
+          <h2 className="horror-subtitle">The Story Could Not Be Found</h2>
+          <p className="horror-text mb-6">{error || 'Unknown error'}</p>
+          <button className="horror-button" onClick={refreshStory}>
+            🔄 Try Again
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  const isComplete = story.status === 'completed';
+
+  return (
+    <div className="story-container chain-story">
+      <div className="story-header">
+        <h1 className="horror-title">Chain Story</h1>
+        <p className="horror-text text-center opacity-75">
+          One sentence at a time. The top-voted sentence of each round joins the story.
+        </p>
+      </div>
+
+      {notification && <div className="chain-notification horror-card">{notification}</div>}
+
+      {isComplete && (
+        <div className="chain-complete-banner horror-card text-center">
+          <h2 className="horror-subtitle">Story Complete</h2>
+        </div>
+      )}
+
+      <div className="chain-stats horror-card">
+        <span>
+          Sentences: {story.sentences.length}/{CHAIN_STORY_RULES.maxSentences}
+        </span>
+        <span>Upvotes: {story.totalVotes}</span>
+        <span>Contributors: {story.contributors.length}</span>
+        <span>Round: {story.roundNumber}</span>
+        {!isComplete && roundEndsAt !== null && (
+          <span>Round ends in {formatCountdown(roundEndsAt - now)}</span>
+        )}
+      </div>
+
+      <div className="chain-sentences horror-card">
+        {story.sentences.length === 0 ? (
+          <p className="horror-text opacity-75">The page is blank. Write the first sentence...</p>
+        ) : (
+          <ol>
+            {story.sentences.map((entry, index) => (
+              <li key={`${entry.round}-${index}`} className="chain-sentence">
+                <span className="chain-sentence-number">[{index + 1}]</span> {entry.text}
+                <span className="chain-sentence-meta">
+                  {' '}
+                  — u/{entry.author}, {entry.score} upvotes
+                </span>
+              </li>
+            ))}
+          </ol>
+        )}
+      </div>
+
+      {!isComplete && (
+        <form className="chain-submit horror-card" onSubmit={handleSubmit}>
+          <label htmlFor="chain-sentence" className="horror-subtitle">
+            Round {story.roundNumber}: continue the story
+          </label>
+          <textarea
+            id="chain-sentence"
+            className="horror-input"
+            value={sentence}
+            maxLength={CHAIN_STORY_RULES.maxSentenceLength}
+            rows={3}
+            onChange={(event) => setSentence(event.target.value.replace(/[\r\n]/g, ' '))}
+            placeholder="Write the next sentence..."
+            disabled={submitting}
+          />
+          <div className="chain-submit-footer">
+            <span className={nearLimit ? 'text-horror-orange' : 'opacity-75'}>
+              {length}/{CHAIN_STORY_RULES.maxSentenceLength}
+            </span>
+            <button
+              type="submit"
+              className="horror-button"
+              disabled={!validation.isValid || submitting}
+            >
+              {submitting ? 'Submitting...' : 'Submit Sentence'}
+            </button>
+          </div>
+          {length > 0 && !validation.isValid && (
+            <p className="chain-feedback error">{validation.errors[0]}</p>
+          )}
+          {feedback && <p className={`chain-feedback ${feedback.type}`}>{feedback.text}</p>}
+        </form>
+      )}
+
+      {submissions.length > 0 && (
+        <div className="chain-submissions horror-card">
+          <h3 className="horror-subtitle">This round's submissions</h3>
+          <p className="horror-text text-sm opacity-75">Upvote your favorite in the comments.</p>
+          <ul>
+            {submissions.map((submission) => (
+              <li key={submission.commentId}>
+                {submission.text} <span className="opacity-75">— u/{submission.author}</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <details className="chain-rules horror-card">
+        <summary>How to play</summary>
+        <ul>
+          <li>
+            Sentences must be {CHAIN_STORY_RULES.minSentenceLength}–
+            {CHAIN_STORY_RULES.maxSentenceLength} characters. One submission per round.
+          </li>
+          <li>
+            Submissions are posted as "[Round N]" comments. Vote with Reddit upvotes; the top
+            comment wins the round, and ties go to the earliest comment.
+          </li>
+          <li>
+            If nobody submits, the story continues with "{CHAIN_STORY_RULES.fallbackSentence}"
+          </li>
+          <li>The story is complete at {CHAIN_STORY_RULES.maxSentences} sentences.</li>
+        </ul>
+      </details>
+    </div>
+  );
+};
@@ -1,9 +1,14 @@
 /**
  * Content reporting button component for The Haunted Thread
- * Allows users to report inappropriate content
+ * Allows users to report inappropriate content, once per piece of content
  */
 
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
+import {
+  GetReportStatusResponse,
+  ReportContentRequest,
+  ReportContentResponse,
+} from '../../shared/types/api';
 
 interface ContentReportButtonProps {
   contentType: 'chapter' | 'choice' | 'story';
@@ -22,6 +27,31 @@ export const ContentReportButton: React.FC<ContentReportButtonProps> = ({
   const [loading, setLoading] = useState(false);
   const [submitted, setSubmitted] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [alreadyReported, setAlreadyReported] = useState(false);
+  const [wasDuplicate, setWasDuplicate] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    setAlreadyReported(false);
+
+    const loadReportStatus = async () => {
+      try {
+        const params = new URLSearchParams({ contentType, contentId });
+        const response = await fetch(`/api/moderation/report/status?${params.toString()}`);
+        const data: GetReportStatusResponse = await response.json();
+        if (!cancelled && data.success && data.data?.reported) {
+          setAlreadyReported(true);
+        }
+      } catch (err) {
+        console.error('Failed to load report status:', err);
+      }
+    };
+
+    void loadReportStatus();
+    return () => {
+      cancelled = true;
+    };
+  }, [contentType, contentId]);
 
   const reportReasons = [
     'Inappropriate language',
@@ -43,26 +73,29 @@ export const ContentReportButton: React.FC<ContentReportButtonProps> = ({
     setError(null);
 
     try {
+      const request: ReportContentRequest = {
+        contentType,
+        contentId,
+        reason,
+        ...(description.trim() && { description: description.trim() }),
+      };
       const response = await fetch('/api/moderation/report', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify({
-          contentType,
-          contentId,
-          reason,
-          description: description.trim() || undefined,
-        }),
+        body: JSON.stringify(request),
       });
 
-      const data = await response.json();
+      const data: ReportContentResponse = await response.json();
 
       if (data.success) {
+        setWasDuplicate(data.data?.duplicate === true);
         setSubmitted(true);
         setTimeout(() => {
           setShowReportForm(false);
           setSubmitted(false);
+          setAlreadyReported(true);
           setReason('');
           setDescription('');
         }, 2000);
@@ -87,7 +120,18 @@ export const ContentReportButton: React.FC<ContentReportButtonProps> = ({
     return (
       <div className="report-success">
         <span className="report-success-icon">✓</span>
-        Report submitted successfully
+        {wasDuplicate ? 'You had already reported this' : 'Report submitted successfully'}
+      </div>
+    );
+  }
+
+  if (alreadyReported) {
+    return (
+      <div className={`content-report ${className}`}>
+        <span className="report-already" title="Moderators have your report">
+          <span className="report-icon">⚑</span>
+          You reported this
+        </span>
       </div>
     );
   }
@@ -0,0 +1,236 @@
+/**
+ * Hall of Fame Component - Finished stories from every post in the subreddit
+ */
+
+import React, { useEffect, useState } from 'react';
+import { LoadingSpinner } from './LoadingSpinner';
+import { ErrorBoundary } from './ErrorBoundary';
+import { GetHallOfFameResponse } from '../../shared/types/api';
+import {
+  HallOfFamePage,
+  HallOfFameSort,
+  HALL_OF_FAME_SORTS,
+} from '../../shared/types/hall-of-fame';
+import { StoryEnding } from '../../shared/types/story';
+import './StoryReplay.css';
+import './HallOfFame.css';
+
+interface HallOfFameProps {
+  onClose?: () => void;
+}
+
+const PAGE_SIZE = 10;
+
+const SORT_LABELS: Record<HallOfFameSort, string> = {
+  recent: 'Most recent',
+  chapters: 'Chapters',
+  participants: 'Participants',
+  votes: 'Total votes',
+  duration: 'Duration',
+};
+
+const ENDING_TYPES: StoryEnding['type'][] = ['good', 'bad', 'neutral', 'twist'];
+
+const formatDuration = (ms: number): string => {
+  const hours = Math.floor(ms / 3600000);
+  if (hours >= 48) return `${Math.floor(hours / 24)} days`;
+  if (hours >= 1) return `${hours}h ${Math.floor((ms % 3600000) / 60000)}m`;
+  return `${Math.max(1, Math.floor(ms / 60000))}m`;
+};
+
+export const HallOfFame: React.FC<HallOfFameProps> = ({ onClose }) => {
+  const [page, setPage] = useState<HallOfFamePage | null>(null);
+  const [sort, setSort] = useState<HallOfFameSort>('recent');
+  const [order, setOrder] = useState<'asc' | 'desc'>('desc');
+  const [endingType, setEndingType] = useState<StoryEnding['type'] | ''>('');
+  const [offset, setOffset] = useState(0);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const loadPage = async () => {
+      try {
+        setLoading(true);
+        setError(null);
+
+        const params = new URLSearchParams({
+          sort,
+          order,
+          limit: String(PAGE_SIZE),
+          offset: String(offset),
+        });
+        if (endingType) params.set('endingType', endingType);
+
+        const response = await fetch(`/api/hall-of-fame?${params.toString()}`);
+        const result: GetHallOfFameResponse = await response.json();
+
+        if (result.success && result.data) {
+          setPage(result.data);
+        } else {
+          setError(result.error || 'Failed to load the hall of fame');
+        }
+      } catch (err) {
+        setError('Error loading the hall of fame');
+        console.error('Error loading hall of fame:', err);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    void loadPage();
+  }, [sort, order, endingType, offset]);
+
+  const changeSort = (nextSort: HallOfFameSort) => {
+    setSort(nextSort);
+    setOffset(0);
+  };
+
+  const changeEndingType = (nextType: StoryEnding['type'] | '') => {
+    setEndingType(nextType);
+    setOffset(0);
+  };
+
+  const renderUnlockedEndings = () => {
+    if (!page || page.unlockedEndings.length === 0) return null;
+
+    return (
+      <div className="hof-endings">
+        <h3>Endings Unlocked ({page.unlockedEndings.length})</h3>
+        <div className="hof-ending-list">
+          {page.unlockedEndings.map((ending) => (
+            <span
+              key={`${ending.packId}:${ending.endingId}`}
+              className={`hof-ending-chip ${ending.endingType}`}
+              title={`${ending.packId} · first reached ${new Date(ending.firstReachedAt).toLocaleDateString()}`}
+            >
+              {ending.endingTitle} ×{ending.timesReached}
+            </span>
+          ))}
+        </div>
+      </div>
+    );
+  };
+
+  const renderEntries = () => {
+    if (!page || page.entries.length === 0) {
+      return (
+        <div className="no-completed">
+          <p>No finished stories yet. Guide a story to its ending to enter the hall of fame!</p>
+        </div>
+      );
+    }
+
+    return (
+      <ol className="hof-entries" start={offset + 1}>
+        {page.entries.map((entry) => (
+          <li key={entry.id} className="hof-entry">
+            <div className="hof-entry-header">
+              <h4>{entry.endingTitle}</h4>
+              <span className={`hof-ending-type ${entry.endingType}`}>{entry.endingType}</span>
+            </div>
+            <p className="hof-entry-pack">
+              {entry.packTitle} · finished {new Date(entry.completedAt).toLocaleDateString()}
+            </p>
+            <div className="hof-entry-stats">
+              <span>
+                <strong>{entry.chapterCount}</strong> chapters
+              </span>
+              <span>
+                <strong>{entry.participants}</strong> participants
+              </span>
+              <span>
+                <strong>{entry.totalVotes}</strong> votes
+              </span>
+              <span>
+                <strong>{formatDuration(entry.duration)}</strong>
+              </span>
+            </div>
+          </li>
+        ))}
+      </ol>
+    );
+  };
+
+  return (
+    <ErrorBoundary>
+      <div className="story-replay-container">
+        <div className="replay-modal">
+          <div className="modal-header">
+            <h2>🏆 Hall of Fame</h2>
+            <button className="close-button" onClick={onClose}>
+              ×
+            </button>
+          </div>
+
+          <div className="modal-content">
+            {renderUnlockedEndings()}
+
+            <div className="hof-controls">
+              <label>
+                Sort by
+                <select value={sort} onChange={(e) => changeSort(e.target.value as HallOfFameSort)}>
+                  {HALL_OF_FAME_SORTS.map((option) => (
+                    <option key={option} value={option}>
+                      {SORT_LABELS[option]}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <button
+                className="hof-order-button"
+                onClick={() => setOrder(order === 'desc' ? 'asc' : 'desc')}
+                title="Reverse order"
+              >
+                {order === 'desc' ? '↓' : '↑'}
+              </button>
+              <label>
+                Ending
+                <select
+                  value={endingType}
+                  onChange={(e) => changeEndingType(e.target.value as StoryEnding['type'] | '')}
+                >
+                  <option value="">All</option>
+                  {ENDING_TYPES.map((type) => (
+                    <option key={type} value={type}>
+                      {type}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            </div>
+
+            {error && (
+              <div className="error-message">
+                <p>{error}</p>
+              </div>
+            )}
+
+            {loading ? <LoadingSpinner message="Summoning past stories..." /> : renderEntries()}
+
+            {page && page.total > PAGE_SIZE && (
+              <div className="hof-pagination">
+                <button
+                  className="replay-button"
+                  disabled={offset === 0}
+                  onClick={() => setOffset(Math.max(0, offset - PAGE_SIZE))}
+                >
+                  ← Previous
+                </button>
+                <span>
+                  {offset + 1}–{Math.min(offset + PAGE_SIZE, page.total)} of {page.total}
+                </span>
+                <button
+                  className="replay-button"
+                  disabled={offset + PAGE_SIZE >= page.total}
+                  onClick={() => setOffset(offset + PAGE_SIZE)}
+                >
+                  Next →
+                </button>
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </ErrorBoundary>
+  );
+};
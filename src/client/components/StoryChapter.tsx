@@ -20,11 +20,18 @@ export const StoryChapter: React.FC<StoryChapterProps> = ({ chapter, className =
 
       <div className="story-content">
         <div className="horror-text">
-          {content.split('\n').map((paragraph, index) => (
-            <p key={index} className="mb-4 leading-relaxed">
-              {paragraph}
+          {chapter.hiddenForReview ? (
+            <p className="chapter-hidden">
+              This chapter has been hidden while moderators review reports about it. You can still
+              vote on what happens next.
             </p>
-          ))}
+          ) : (
+            content.split('\n').map((paragraph, index) => (
+              <p key={index} className="mb-4 leading-relaxed">
+                {paragraph}
+              </p>
+            ))
+          )}
         </div>
       </div>
     </div>
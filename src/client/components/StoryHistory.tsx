@@ -1,6 +1,7 @@
 import React, { useState } from 'react';
 import { StoryChapter, StoryPath } from '../../shared/types/story';
 import { VotingStats } from '../../shared/types/voting';
+import { VOTING_METHOD_LABELS } from '../../shared/types/vote-tally';
 
 interface StoryHistoryProps {
   path: StoryPath;
@@ -95,7 +96,20 @@ export const StoryHistory: React.FC<StoryHistoryProps> = ({
                       {decision.voteStats.winningPercentage.toFixed(1)}%
                     </span>
                   </div>
+                  {decision.voteStats.method && (
+                    <div className="stat-item">
+                      <span className="stat-label">Method:</span>
+                      <span className="stat-value">
+                        {VOTING_METHOD_LABELS[decision.voteStats.method]}
+                        {decision.voteStats.rounds &&
+                          ` (${decision.voteStats.rounds.length} rounds)`}
+                      </span>
+                    </div>
+                  )}
                 </div>
+                {decision.voteStats.explanation && (
+                  <p className="vote-explanation">{decision.voteStats.explanation}</p>
+                )}
               </div>
             )}
           </div>
@@ -0,0 +1,197 @@
+/**
+ * Story Map for the admin interface
+ * Draws the story pack's branch graph as a node-link diagram, laid out in columns by depth
+ */
+
+import React, { useMemo, useState } from 'react';
+import { StoryMapData, StoryMapEdge, StoryMapNode } from '../../shared/types/story-graph';
+
+interface StoryMapProps {
+  data: StoryMapData;
+}
+
+const COLUMN_WIDTH = 220;
+const ROW_HEIGHT = 70;
+const NODE_WIDTH = 170;
+const NODE_HEIGHT = 40;
+const PADDING = 30;
+
+const truncate = (text: string, length: number) =>
+  text.length > length ? `${text.slice(0, length - 1)}…` : text;
+
+export const StoryMap: React.FC<StoryMapProps> = ({ data }) => {
+  const [selectedId, setSelectedId] = useState<string | null>(data.currentBranchId);
+  const [showCompleted, setShowCompleted] = useState(true);
+
+  // Unreachable nodes get their own column after the deepest one
+  const layout = useMemo(() => {
+    const maxDepth = Math.max(0, ...data.nodes.map((node) => node.depth));
+    const columns = new Map<number, StoryMapNode[]>();
+    data.nodes.forEach((node) => {
+      const column = node.depth < 0 ? maxDepth + 1 : node.depth;
+      columns.set(column, [...(columns.get(column) || []), node]);
+    });
+
+    const positions = new Map<string, { x: number; y: number }>();
+    columns.forEach((nodes, column) => {
+      nodes.forEach((node, row) => {
+        positions.set(node.id, {
+          x: PADDING + column * COLUMN_WIDTH,
+          y: PADDING + row * ROW_HEIGHT,
+        });
+      });
+    });
+
+    const columnCount = Math.max(...columns.keys()) + 1;
+    const rowCount = Math.max(...[...columns.values()].map((nodes) => nodes.length));
+    return {
+      positions,
+      width: PADDING * 2 + (columnCount - 1) * COLUMN_WIDTH + NODE_WIDTH,
+      height: PADDING * 2 + (rowCount - 1) * ROW_HEIGHT + NODE_HEIGHT,
+    };
+  }, [data.nodes]);
+
+  const selectedNode = data.nodes.find((node) => node.id === selectedId) || null;
+  const selectedEdges = data.edges.filter((edge) => edge.from === selectedId);
+
+  const edgeClass = (edge: StoryMapEdge) =>
+    [
+      'story-map-edge',
+      edge.onPath && 'on-path',
+      showCompleted && edge.completed && 'completed',
+      selectedId && edge.from !== selectedId && edge.to !== selectedId && 'dimmed',
+    ]
+      .filter(Boolean)
+      .join(' ');
+
+  const nodeClass = (node: StoryMapNode) =>
+    [
+      'story-map-node',
+      node.kind,
+      node.endingType,
+      node.depth < 0 && 'unreachable',
+      node.onPath && 'on-path',
+      node.isCurrent && 'current',
+      showCompleted && node.completed && 'completed',
+      node.id === selectedId && 'selected',
+    ]
+      .filter(Boolean)
+      .join(' ');
+
+  return (
+    <div className="story-map">
+      <div className="story-map-toolbar">
+        <span>
+          {data.packId} v{data.version} · {data.pathTaken.length} choices made ·{' '}
+          {data.completedPaths.length} completed paths
+        </span>
+        <label>
+          <input
+            type="checkbox"
+            checked={showCompleted}
+            onChange={(e) => setShowCompleted(e.target.checked)}
+          />
+          Show completed paths
+        </label>
+      </div>
+
+      <div className="story-map-legend">
+        <span className="legend-item on-path">Path taken</span>
+        <span className="legend-item current">Current branch</span>
+        <span className="legend-item completed">Completed path</span>
+        <span className="legend-item unreachable">Unreachable</span>
+      </div>
+
+      <div className="story-map-canvas">
+        <svg width={layout.width} height={layout.height} role="img" aria-label="Story map">
+          {data.edges.map((edge) => {
+            const from = layout.positions.get(edge.from);
+            const to = layout.positions.get(edge.to);
+            if (!from || !to) return null;
+
+            const x1 = from.x + NODE_WIDTH;
+            const y1 = from.y + NODE_HEIGHT / 2;
+            const x2 = to.x;
+            const y2 = to.y + NODE_HEIGHT / 2;
+            const midX = (x1 + x2) / 2;
+
+            return (
+              <g key={edge.id} className={edgeClass(edge)}>
+                <path d={`M ${x1} ${y1} C ${midX} ${y1}, ${midX} ${y2}, ${x2} ${y2}`} />
+                <title>
+                  {edge.choiceText}
+                  {edge.votePercentage !== undefined &&
+                    ` — ${edge.votePercentage}% (${edge.voteCount} votes)`}
+                </title>
+                {edge.votePercentage !== undefined && (
+                  <text x={midX} y={(y1 + y2) / 2 - 4} textAnchor="middle">
+                    {edge.votePercentage}%
+                  </text>
+                )}
+              </g>
+            );
+          })}
+
+          {data.nodes.map((node) => {
+            const position = layout.positions.get(node.id);
+            if (!position) return null;
+
+            return (
+              <g
+                key={node.id}
+                className={nodeClass(node)}
+                transform={`translate(${position.x}, ${position.y})`}
+                onClick={() => setSelectedId(node.id === selectedId ? null : node.id)}
+              >
+                <rect
+                  width={NODE_WIDTH}
+                  height={NODE_HEIGHT}
+                  rx={node.kind === 'ending' ? 20 : 6}
+                />
+                <text x={NODE_WIDTH / 2} y={NODE_HEIGHT / 2 + 4} textAnchor="middle">
+                  {truncate(node.title, 22)}
+                </text>
+                <title>{`${node.title} (${node.id})`}</title>
+              </g>
+            );
+          })}
+        </svg>
+      </div>
+
+      {selectedNode && (
+        <div className="story-map-details">
+          <h4>
+            {selectedNode.title} <span className="story-map-id">{selectedNode.id}</span>
+          </h4>
+          <p>
+            {selectedNode.kind === 'ending'
+              ? `Ending (${selectedNode.endingType})`
+              : selectedNode.depth < 0
+                ? 'Unreachable branch'
+                : `Branch at depth ${selectedNode.depth}`}
+            {selectedNode.isCurrent && ' · current branch'}
+            {selectedNode.onPath && !selectedNode.isCurrent && ' · on the path taken'}
+            {selectedNode.completed && ' · part of a completed path'}
+          </p>
+          {selectedEdges.length > 0 && (
+            <ul>
+              {selectedEdges.map((edge) => (
+                <li key={edge.id} className={edge.onPath ? 'on-path' : ''}>
+                  <button className="story-map-link" onClick={() => setSelectedId(edge.to)}>
+                    {edge.choiceText} → {edge.to}
+                  </button>
+                  {edge.votePercentage !== undefined && (
+                    <span className="story-map-votes">
+                      {' '}
+                      {edge.votePercentage}% ({edge.voteCount} votes)
+                    </span>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -2,11 +2,23 @@
  * Story Replay Component - Handles story restart and replay functionality
  */
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { LoadingSpinner } from './LoadingSpinner';
 import { ErrorBoundary } from './ErrorBoundary';
+import { useModeration } from '../contexts/ModerationContext';
+import { StoryPathRecord, StoryPathSummary } from '../../shared/types/archive';
+import { STORY_EXPORT_FORMATS, StoryExportFormat } from '../../shared/types/story-export';
 import './StoryReplay.css';
 
+// Time each chapter stays on screen during playback
+const REPLAY_STEP_MS = 4000;
+
+const EXPORT_LABELS: Record<StoryExportFormat, string> = {
+  markdown: 'Markdown',
+  html: 'HTML',
+  json: 'JSON',
+};
+
 interface StoryBranch {
   branchId: string;
   title: string;
@@ -19,24 +31,9 @@ interface StoryBranch {
   }>;
 }
 
-interface ReplayData {
-  pathId: string;
-  chapters: Array<{
-    id: string;
-    title: string;
-    content: string;
-    choices: Array<{
-      id: string;
-      text: string;
-      description?: string;
-    }>;
-  }>;
-  decisions: string[];
-  ending?: any;
-}
-
 interface CompletedPathsData {
   completedPaths: string[];
+  paths: StoryPathSummary[];
   totalCompleted: number;
   stats: {
     totalChapters: number;
@@ -54,9 +51,14 @@ export const StoryReplay: React.FC<StoryReplayProps> = ({ onRestart, onClose })
   const [activeTab, setActiveTab] = useState<'branches' | 'completed' | 'replay'>('branches');
   const [branches, setBranches] = useState<StoryBranch[]>([]);
   const [completedPaths, setCompletedPaths] = useState<CompletedPathsData | null>(null);
-  const [replayData, setReplayData] = useState<ReplayData | null>(null);
+  const [replayData, setReplayData] = useState<StoryPathRecord | null>(null);
+  // Steps 0..n-1 reveal each chapter and its vote; step n reveals the ending
+  const [replayStep, setReplayStep] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const currentStepRef = useRef<HTMLDivElement | null>(null);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const { hasPermission } = useModeration();
 
   // Load branches and completed paths on mount
   useEffect(() => {
@@ -64,6 +66,22 @@ export const StoryReplay: React.FC<StoryReplayProps> = ({ onRestart, onClose })
     loadCompletedPaths();
   }, []);
 
+  // Advance playback one step at a time until the ending is shown
+  useEffect(() => {
+    if (!isPlaying || !replayData) return;
+    if (replayStep >= replayData.chapters.length) {
+      setIsPlaying(false);
+      return;
+    }
+
+    const timer = setTimeout(() => setReplayStep((step) => step + 1), REPLAY_STEP_MS);
+    return () => clearTimeout(timer);
+  }, [isPlaying, replayStep, replayData]);
+
+  useEffect(() => {
+    currentStepRef.current?.scrollIntoView({ behavior: 'smooth', block: 'nearest' });
+  }, [replayStep]);
+
   const loadBranches = async () => {
     try {
       setLoading(true);
@@ -108,6 +126,8 @@ export const StoryReplay: React.FC<StoryReplayProps> = ({ onRestart, onClose })
 
       if (result.success) {
         setReplayData(result.data);
+        setReplayStep(0);
+        setIsPlaying(true);
         setActiveTab('replay');
       } else {
         setError('Failed to load replay data');
@@ -150,7 +170,7 @@ export const StoryReplay: React.FC<StoryReplayProps> = ({ onRestart, onClose })
           onClose();
         }
       } else {
-        setError('Failed to restart story');
+        setError(result.error || 'Failed to restart story');
       }
     } catch (err) {
       setError('Error restarting story');
@@ -200,8 +220,8 @@ export const StoryReplay: React.FC<StoryReplayProps> = ({ onRestart, onClose })
               </div>
 
               {branch.isCompleted && (
-                <button className="replay-button" onClick={() => loadReplayData(branch.branchId)}>
-                  View Replay
+                <button className="replay-button" onClick={() => setActiveTab('completed')}>
+                  View Completed Paths
                 </button>
               )}
             </div>
@@ -239,17 +259,30 @@ export const StoryReplay: React.FC<StoryReplayProps> = ({ onRestart, onClose })
         </div>
       ) : (
         <div className="completed-list">
-          {completedPaths.completedPaths.map((pathId, index) => (
-            <div key={pathId} className="completed-path-item">
-              <div className="path-info">
-                <h4>Path #{index + 1}</h4>
-                <p className="path-id">{pathId}</p>
+          {completedPaths.completedPaths.map((pathId, index) => {
+            const summary = completedPaths.paths.find((path) => path.pathId === pathId);
+
+            return (
+              <div key={pathId} className="completed-path-item">
+                <div className="path-info">
+                  <h4>
+                    Path #{index + 1}
+                    {summary && `: ${summary.endingTitle}`}
+                  </h4>
+                  <p className="path-id">
+                    {summary
+                      ? `${summary.chapterCount} chapters · ${summary.endingType} ending · ${new Date(summary.completedAt).toLocaleDateString()}`
+                      : pathId}
+                  </p>
+                </div>
+                {summary && (
+                  <button className="replay-button" onClick={() => loadReplayData(pathId)}>
+                    View Replay
+                  </button>
+                )}
               </div>
-              <button className="replay-button" onClick={() => loadReplayData(pathId)}>
-                View Replay
-              </button>
-            </div>
-          ))}
+            );
+          })}
         </div>
       )}
     </div>
@@ -258,52 +291,106 @@ export const StoryReplay: React.FC<StoryReplayProps> = ({ onRestart, onClose })
   const renderReplay = () => {
     if (!replayData) return null;
 
+    const lastStep = replayData.chapters.length;
+
     return (
       <div className="story-replay">
         <div className="replay-header">
           <button className="back-button" onClick={() => setActiveTab('completed')}>
             ← Back to Completed Paths
           </button>
-          <h3>Story Replay: {replayData.pathId}</h3>
+          <h3>Story Replay: {replayData.ending.title}</h3>
+        </div>
+
+        <div className="replay-controls">
+          <button
+            onClick={() => setReplayStep(Math.max(0, replayStep - 1))}
+            disabled={replayStep === 0}
+            title="Previous chapter"
+          >
+            ⏮
+          </button>
+          <button
+            onClick={() => {
+              if (replayStep >= lastStep) setReplayStep(0);
+              setIsPlaying(!isPlaying);
+            }}
+            title={isPlaying ? 'Pause' : 'Play'}
+          >
+            {isPlaying ? '⏸' : '▶'}
+          </button>
+          <button
+            onClick={() => setReplayStep(Math.min(lastStep, replayStep + 1))}
+            disabled={replayStep >= lastStep}
+            title="Next chapter"
+          >
+            ⏭
+          </button>
+          <span className="replay-step-label">
+            {replayStep >= lastStep ? 'Ending' : `Chapter ${replayStep + 1} of ${lastStep}`}
+          </span>
+          <div className="replay-progress">
+            <div
+              className="replay-progress-fill"
+              style={{ width: `${(replayStep / Math.max(1, lastStep)) * 100}%` }}
+            />
+          </div>
         </div>
 
         <div className="replay-content">
-          {replayData.chapters.map((chapter, index) => (
-            <div key={chapter.id} className="replay-chapter">
+          {replayData.chapters.slice(0, replayStep + 1).map((record, index) => (
+            <div
+              key={`${record.chapterId}-${index}`}
+              ref={index === replayStep ? currentStepRef : undefined}
+              className={`replay-chapter ${index === replayStep ? 'current' : ''}`}
+            >
               <div className="chapter-header">
-                <h4>{chapter.title}</h4>
+                <h4>{record.chapter.title}</h4>
                 <span className="chapter-number">Chapter {index + 1}</span>
               </div>
 
               <div className="chapter-content">
-                <p>{chapter.content}</p>
+                <p>{record.chapter.content}</p>
               </div>
 
               <div className="chapter-choices">
-                <h5>Available Choices:</h5>
+                <h5>
+                  The community voted ({record.stats.totalVotes} votes from{' '}
+                  {record.participants.length} players):
+                </h5>
                 <ul>
-                  {chapter.choices.map((choice) => (
-                    <li
-                      key={choice.id}
-                      className={replayData.decisions[index] === choice.id ? 'chosen' : ''}
-                    >
-                      {replayData.decisions[index] === choice.id && (
-                        <span className="chosen-indicator">→ </span>
-                      )}
-                      <strong>{choice.text}</strong>
-                      {choice.description && (
-                        <span className="choice-desc"> - {choice.description}</span>
-                      )}
-                    </li>
-                  ))}
+                  {record.chapter.choices.map((choice) => {
+                    const count = record.voteCounts.find((vc) => vc.choiceId === choice.id);
+                    const chosen = record.winningChoice === choice.id;
+
+                    return (
+                      <li key={choice.id} className={chosen ? 'chosen' : ''}>
+                        {chosen && <span className="chosen-indicator">→ </span>}
+                        <strong>{choice.text}</strong>
+                        <span className="replay-vote-share">
+                          {' '}
+                          {count?.percentage ?? 0}% ({count?.count ?? 0})
+                        </span>
+                        <div className="replay-vote-bar">
+                          <div
+                            className="replay-vote-fill"
+                            style={{ width: `${count?.percentage ?? 0}%` }}
+                          />
+                        </div>
+                      </li>
+                    );
+                  })}
                 </ul>
+                {record.stats.explanation && (
+                  <p className="replay-explanation">{record.stats.explanation}</p>
+                )}
               </div>
             </div>
           ))}
 
-          {replayData.ending && (
-            <div className="replay-ending">
-              <h4>Story Ending</h4>
+          {replayStep >= lastStep && (
+            <div ref={currentStepRef} className={`replay-ending current ${replayData.ending.type}`}>
+              <h4>{replayData.ending.title}</h4>
               <p>{replayData.ending.content}</p>
             </div>
           )}
@@ -324,26 +411,44 @@ export const StoryReplay: React.FC<StoryReplayProps> = ({ onRestart, onClose })
           </div>
 
           <div className="modal-content">
-            {/* Restart Section */}
-            <div className="restart-section">
-              <h3>Restart Story</h3>
-              <p>Begin a new journey through the haunted thread.</p>
-              <div className="restart-buttons">
-                <button
-                  className="restart-button preserve"
-                  onClick={() => handleRestart(true)}
-                  disabled={loading}
-                >
-                  Restart (Keep History)
-                </button>
-                <button
-                  className="restart-button fresh"
-                  onClick={() => handleRestart(false)}
-                  disabled={loading}
-                >
-                  Fresh Start
-                </button>
+            {/* Restart Section - moderators with the reset permission */}
+            {hasPermission('reset') && (
+              <div className="restart-section">
+                <h3>Restart Story</h3>
+                <p>Begin a new journey through the haunted thread.</p>
+                <div className="restart-buttons">
+                  <button
+                    className="restart-button preserve"
+                    onClick={() => handleRestart(true)}
+                    disabled={loading}
+                  >
+                    Restart (Keep History)
+                  </button>
+                  <button
+                    className="restart-button fresh"
+                    onClick={() => handleRestart(false)}
+                    disabled={loading}
+                  >
+                    Fresh Start
+                  </button>
+                </div>
               </div>
+            )}
+
+            {/* Export Section */}
+            <div className="export-section">
+              <span>Share this story:</span>
+              {STORY_EXPORT_FORMATS.map((format) => (
+                <a
+                  key={format}
+                  className="export-link"
+                  href={`/api/story/export?format=${format}&download=true`}
+                  target="_blank"
+                  rel="noreferrer"
+                >
+                  {EXPORT_LABELS[format]}
+                </a>
+              ))}
             </div>
 
             {/* Tab Navigation */}
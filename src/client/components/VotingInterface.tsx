@@ -1,13 +1,18 @@
 import React, { useState, useEffect } from 'react';
 import { StoryChoice } from '../../shared/types/story';
-import { VoteCount, UserVoteStatus } from '../../shared/types/voting';
+import { VoteCount, UserVoteStatus, VotingMethod } from '../../shared/types/voting';
+import { VOTING_METHOD_LABELS, VoteTally } from '../../shared/types/vote-tally';
 
 interface VotingInterfaceProps {
   choices: StoryChoice[];
   voteCounts: VoteCount[];
   userVoteStatus: UserVoteStatus;
   votingActive: boolean;
-  onVote: (choiceId: string) => Promise<void>;
+  votingMethod?: VotingMethod;
+  /** The post doesn't allow changing or retracting a cast vote */
+  votesLocked?: boolean;
+  onVote: (choiceId: string, choiceIds?: string[]) => Promise<void>;
+  onRetract?: () => Promise<void>;
   isLoading?: boolean;
   className?: string;
 }
@@ -17,21 +22,36 @@ export const VotingInterface: React.FC<VotingInterfaceProps> = ({
   voteCounts,
   userVoteStatus,
   votingActive,
+  votingMethod = 'plurality',
+  votesLocked = false,
   onVote,
+  onRetract,
   isLoading = false,
   className = '',
 }) => {
   const [selectedChoice, setSelectedChoice] = useState<string | null>(null);
+  // Ranked ballots keep choices in preference order; approval ballots in click order
+  const [ballot, setBallot] = useState<string[]>([]);
   const [isVoting, setIsVoting] = useState(false);
 
+  const multiChoice = VoteTally.allowsMultipleChoices(votingMethod);
+  const ranked = VoteTally.usesRanking(votingMethod);
+  // Until the round closes a vote can be changed, unless the post locks votes
+  const voteLocked = userVoteStatus.hasVoted && votesLocked;
+
   useEffect(() => {
     if (userVoteStatus.hasVoted && userVoteStatus.choiceId) {
       setSelectedChoice(userVoteStatus.choiceId);
+      setBallot(userVoteStatus.choiceIds ?? [userVoteStatus.choiceId]);
+    } else if (!userVoteStatus.hasVoted) {
+      setSelectedChoice(null);
+      setBallot([]);
     }
   }, [userVoteStatus]);
 
   const handleVote = async (choiceId: string) => {
-    if (!votingActive || userVoteStatus.hasVoted || isVoting) return;
+    if (!votingActive || voteLocked || isVoting) return;
+    if (userVoteStatus.hasVoted && userVoteStatus.choiceId === choiceId) return;
 
     setIsVoting(true);
     try {
@@ -44,6 +64,42 @@ export const VotingInterface: React.FC<VotingInterfaceProps> = ({
     }
   };
 
+  const toggleBallotChoice = (choiceId: string) => {
+    if (!votingActive || voteLocked || isVoting) return;
+
+    setBallot((current) =>
+      current.includes(choiceId) ? current.filter((id) => id !== choiceId) : [...current, choiceId]
+    );
+  };
+
+  const submitBallot = async () => {
+    const [firstChoice] = ballot;
+    if (!firstChoice || !votingActive || voteLocked || isVoting) return;
+
+    setIsVoting(true);
+    try {
+      await onVote(firstChoice, ballot);
+      setSelectedChoice(firstChoice);
+    } catch (error) {
+      console.error('Failed to cast vote:', error);
+    } finally {
+      setIsVoting(false);
+    }
+  };
+
+  const retractVote = async () => {
+    if (!onRetract || !votingActive || !userVoteStatus.hasVoted || votesLocked || isVoting) return;
+
+    setIsVoting(true);
+    try {
+      await onRetract();
+    } catch (error) {
+      console.error('Failed to retract vote:', error);
+    } finally {
+      setIsVoting(false);
+    }
+  };
+
   const getVoteCount = (choiceId: string): number => {
     const voteData = voteCounts.find((vc) => vc.choiceId === choiceId);
     return voteData?.count || 0;
@@ -60,7 +116,7 @@ export const VotingInterface: React.FC<VotingInterfaceProps> = ({
 
   const getButtonClass = (choiceId: string): string => {
     const baseClass = 'voting-button horror-transition';
-    const isSelected = selectedChoice === choiceId;
+    const isSelected = multiChoice ? ballot.includes(choiceId) : selectedChoice === choiceId;
     const hasVoted = userVoteStatus.hasVoted;
 
     if (isSelected) {
@@ -81,11 +137,16 @@ export const VotingInterface: React.FC<VotingInterfaceProps> = ({
   const renderVoteCount = (choiceId: string) => {
     const count = getVoteCount(choiceId);
     const percentage = getVotePercentage(choiceId);
+    const weight = voteCounts.find((vc) => vc.choiceId === choiceId)?.weight;
 
     return (
       <div className="vote-count-display">
         <div className="flex justify-between items-center">
-          <span className="text-sm">Votes: {count}</span>
+          <span className="text-sm">
+            {ranked ? 'First choices' : votingMethod === 'approval' ? 'Approvals' : 'Votes'}:{' '}
+            {count}
+            {weight !== undefined && ` (weight ${weight})`}
+          </span>
           <span className="text-sm font-bold">{percentage.toFixed(1)}%</span>
         </div>
         <div className="vote-progress-bar mt-1">
@@ -109,12 +170,21 @@ export const VotingInterface: React.FC<VotingInterfaceProps> = ({
     <div className={`voting-interface ${className}`}>
       <div className="voting-header text-center mb-6">
         <h2 className="horror-subtitle">{votingActive ? 'Cast Your Vote' : 'Voting Complete'}</h2>
+        <p className="voting-method-label">{VOTING_METHOD_LABELS[votingMethod]} vote</p>
         {votingActive && !userVoteStatus.hasVoted && (
-          <p className="horror-text text-sm mt-2">Choose your path through the darkness...</p>
+          <p className="horror-text text-sm mt-2">
+            {ranked
+              ? 'Rank the paths through the darkness, most wanted first...'
+              : votingMethod === 'approval'
+                ? 'Mark every path you would follow into the darkness...'
+                : 'Choose your path through the darkness...'}
+          </p>
         )}
         {userVoteStatus.hasVoted && (
           <p className="horror-text text-sm mt-2 text-horror-orange">
-            You have cast your vote. Waiting for others...
+            {votesLocked || !votingActive
+              ? 'Your vote is locked in. Waiting for others...'
+              : 'You have cast your vote. Choose again to change it before the round closes.'}
           </p>
         )}
       </div>
@@ -124,10 +194,17 @@ export const VotingInterface: React.FC<VotingInterfaceProps> = ({
           <div key={choice.id} className="voting-choice slide-up-animation">
             <button
               className={getButtonClass(choice.id)}
-              onClick={() => handleVote(choice.id)}
-              disabled={!votingActive || userVoteStatus.hasVoted || isVoting || isLoading}
+              onClick={() =>
+                multiChoice ? toggleBallotChoice(choice.id) : void handleVote(choice.id)
+              }
+              disabled={!votingActive || voteLocked || isVoting || isLoading}
               style={{ animationDelay: `${index * 0.1}s` }}
             >
+              {multiChoice && ballot.includes(choice.id) && (
+                <span className="ballot-marker">
+                  {ranked ? `#${ballot.indexOf(choice.id) + 1}` : '✓'}
+                </span>
+              )}
               <div className="choice-content">
                 <div className="choice-text font-semibold mb-2">{choice.text}</div>
                 {choice.description && (
@@ -148,10 +225,42 @@ export const VotingInterface: React.FC<VotingInterfaceProps> = ({
         ))}
       </div>
 
+      {multiChoice && votingActive && !voteLocked && (
+        <div className="ballot-actions">
+          <button
+            className="horror-button"
+            onClick={() => setBallot([])}
+            disabled={ballot.length === 0 || isVoting}
+          >
+            Clear
+          </button>
+          <button
+            className="horror-button"
+            onClick={() => void submitBallot()}
+            disabled={ballot.length === 0 || isVoting || isLoading}
+          >
+            {userVoteStatus.hasVoted ? 'Update' : 'Submit'} {ranked ? 'Ranking' : 'Approvals'}
+          </button>
+        </div>
+      )}
+
+      {onRetract && votingActive && userVoteStatus.hasVoted && !votesLocked && (
+        <div className="vote-change-actions">
+          <button
+            className="horror-button-small"
+            onClick={() => void retractVote()}
+            disabled={isVoting || isLoading}
+          >
+            ↩️ Retract Vote
+          </button>
+        </div>
+      )}
+
       <div className="voting-stats text-center mt-6">
         <div className="horror-card">
           <p className="horror-text text-sm">
-            Total Votes: <span className="font-bold text-horror-orange">{getTotalVotes()}</span>
+            Total {votingMethod === 'approval' ? 'Approvals' : 'Votes'}:{' '}
+            <span className="font-bold text-horror-orange">{getTotalVotes()}</span>
           </p>
           {!votingActive && (
             <p className="horror-text text-xs mt-2 opacity-75">
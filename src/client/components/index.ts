@@ -7,6 +7,7 @@ export { VotingInterface } from './VotingInterface';
 export { StoryProgress } from './StoryProgress';
 export { StoryHistory } from './StoryHistory';
 export { StoryReplay } from './StoryReplay';
+export { HallOfFame } from './HallOfFame';
 export { LoadingSpinner } from './LoadingSpinner';
 export {
   LoadingOverlay,
@@ -18,4 +19,6 @@ export { VisualEffects } from './VisualEffects';
 export { Transition, ChapterTransition } from './Transitions';
 export { ParticleEffects } from './ParticleEffects';
 export { AdminInterface } from './AdminInterface';
+export { StoryMap } from './StoryMap';
 export { ContentReportButton } from './ContentReportButton';
+export { ChainStoryView } from './ChainStoryView';
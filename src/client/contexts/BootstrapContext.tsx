@@ -0,0 +1,75 @@
+/**
+ * Bootstrap context for The Haunted Thread
+ * Loads the post, viewer and realtime channel once and shares them with the post's hooks
+ */
+
+import React, { useState, useCallback, useEffect, ReactNode } from 'react';
+import { BootstrapData, BootstrapResponse } from '../../shared/types/api';
+import { ApiClient, ErrorReporting } from '../utils/error-handler';
+import { LoadingSpinner } from '../components/LoadingSpinner';
+import { BootstrapContext } from '../hooks/useBootstrap';
+
+interface BootstrapProviderProps {
+  children: ReactNode;
+}
+
+/**
+ * Renders its children only once the bootstrap has loaded, so the hooks below it
+ * always have a real postId and channel to work with
+ */
+export const BootstrapProvider: React.FC<BootstrapProviderProps> = ({ children }) => {
+  const [bootstrap, setBootstrap] = useState<BootstrapData | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const refreshBootstrap = useCallback(async (): Promise<void> => {
+    try {
+      setError(null);
+
+      const data: BootstrapResponse = await ApiClient.get('/api/bootstrap', {
+        timeout: 10000,
+        retries: 2,
+      });
+
+      if (data.success && data.data) {
+        setBootstrap(data.data);
+      } else {
+        throw new Error(data.error || 'Invalid response format');
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unknown error occurred');
+
+      ErrorReporting.reportError(err as Error, {
+        operation: 'bootstrap',
+        url: '/api/bootstrap',
+      });
+    }
+  }, []);
+
+  useEffect(() => {
+    void refreshBootstrap();
+  }, [refreshBootstrap]);
+
+  if (!bootstrap) {
+    return (
+      <div className="story-container">
+        {error ? (
+          <div className="horror-card text-center">
+            <h2 className="horror-subtitle">The Thread Could Not Be Found</h2>
+            <p className="horror-text mb-6">{error}</p>
+            <button className="horror-button" onClick={() => void refreshBootstrap()}>
+              🔄 Try Again
+            </button>
+          </div>
+        ) : (
+          <LoadingSpinner message="Loading The Haunted Thread..." size="large" />
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <BootstrapContext.Provider value={{ ...bootstrap, refreshBootstrap }}>
+      {children}
+    </BootstrapContext.Provider>
+  );
+};
@@ -5,6 +5,9 @@
 
 import React, { createContext, useContext, useState, useCallback, ReactNode } from 'react';
 import { useContentValidation } from '../hooks/useContentValidation';
+import { useBootstrap } from '../hooks/useBootstrap';
+import { AdminIdentity, AdminPermission } from '../../shared/types/admin';
+import { GetAdminIdentityResponse } from '../../shared/types/api';
 
 interface ModerationContextType {
   // Content validation
@@ -25,14 +28,15 @@ interface ModerationContextType {
     contentId: string,
     reason: string,
     description?: string
-  ) => Promise<{ success: boolean; reportId?: string; error?: string }>;
+  ) => Promise<{ success: boolean; reportId?: string; duplicate?: boolean; error?: string }>;
   isReporting: boolean;
 
   // Admin interface
   showAdminInterface: boolean;
   setShowAdminInterface: (show: boolean) => void;
-  adminKey: string;
-  setAdminKey: (key: string) => void;
+  adminIdentity: AdminIdentity | null;
+  hasPermission: (permission: AdminPermission) => boolean;
+  refreshAdminIdentity: () => Promise<void>;
 
   // Moderation state
   moderationEnabled: boolean;
@@ -49,16 +53,35 @@ export const ModerationProvider: React.FC<ModerationProviderProps> = ({ children
   const { validateContent, isValidating } = useContentValidation();
   const [isReporting, setIsReporting] = useState(false);
   const [showAdminInterface, setShowAdminInterface] = useState(false);
-  const [adminKey, setAdminKey] = useState('');
+  const { admin } = useBootstrap();
+  const [adminIdentity, setAdminIdentity] = useState<AdminIdentity | null>(admin ?? null);
   const [moderationEnabled, setModerationEnabled] = useState(true);
 
+  // Admin access follows the viewer's moderator status on the subreddit; the bootstrap
+  // supplies it up front and this re-checks it after roles change
+  const refreshAdminIdentity = useCallback(async (): Promise<void> => {
+    try {
+      const response = await fetch('/api/admin/me');
+      const data: GetAdminIdentityResponse = await response.json();
+      setAdminIdentity((data.success && data.data?.identity) || null);
+    } catch (err) {
+      console.error('Failed to load admin identity:', err);
+      setAdminIdentity(null);
+    }
+  }, []);
+
+  const hasPermission = useCallback(
+    (permission: AdminPermission) => !!adminIdentity?.permissions.includes(permission),
+    [adminIdentity]
+  );
+
   const reportContent = useCallback(
     async (
       contentType: 'chapter' | 'choice' | 'story',
       contentId: string,
       reason: string,
       description?: string
-    ): Promise<{ success: boolean; reportId?: string; error?: string }> => {
+    ): Promise<{ success: boolean; reportId?: string; duplicate?: boolean; error?: string }> => {
       setIsReporting(true);
 
       try {
@@ -81,6 +104,7 @@ export const ModerationProvider: React.FC<ModerationProviderProps> = ({ children
           return {
             success: true,
             reportId: data.data?.reportId,
+            duplicate: data.data?.duplicate === true,
           };
         } else {
           return {
@@ -107,8 +131,9 @@ export const ModerationProvider: React.FC<ModerationProviderProps> = ({ children
     isReporting,
     showAdminInterface,
     setShowAdminInterface,
-    adminKey,
-    setAdminKey,
+    adminIdentity,
+    hasPermission,
+    refreshAdminIdentity,
     moderationEnabled,
     setModerationEnabled,
   };
@@ -2,6 +2,8 @@
  * Hook exports for The Haunted Thread
  */
 
+export { useBootstrap } from './useBootstrap';
 export { useStory } from './useStory';
 export { useVoting } from './useVoting';
 export { useRealtime } from './useRealtime';
+export { useChainStory } from './useChainStory';
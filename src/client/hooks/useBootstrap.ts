@@ -0,0 +1,21 @@
+/**
+ * Bootstrap data shared by BootstrapProvider
+ * Kept apart from the provider component so fast refresh can reload it
+ */
+
+import { createContext, useContext } from 'react';
+import { BootstrapData } from '../../shared/types/api';
+
+export interface BootstrapContextType extends BootstrapData {
+  refreshBootstrap: () => Promise<void>;
+}
+
+export const BootstrapContext = createContext<BootstrapContextType | undefined>(undefined);
+
+export const useBootstrap = (): BootstrapContextType => {
+  const context = useContext(BootstrapContext);
+  if (context === undefined) {
+    throw new Error('useBootstrap must be used within a BootstrapProvider');
+  }
+  return context;
+};
@@ -0,0 +1,93 @@
+import { useState, useEffect, useCallback } from 'react';
+import { ChainStory, ChainSubmission } from '../../shared/types/chain-story';
+import {
+  GetChainStoryResponse,
+  SubmitSentenceRequest,
+  SubmitSentenceResponse,
+} from '../../shared/types/api';
+import { ApiClient, ErrorReporting } from '../utils/error-handler';
+
+interface UseChainStoryReturn {
+  story: ChainStory | null;
+  submissions: ChainSubmission[];
+  roundEndsAt: number | null;
+  loading: boolean;
+  error: string | null;
+  submitSentence: (sentence: string) => Promise<string>;
+  refreshStory: () => Promise<void>;
+  applyStoryUpdate: (story: ChainStory) => void;
+}
+
+export const useChainStory = (): UseChainStoryReturn => {
+  const [story, setStory] = useState<ChainStory | null>(null);
+  const [submissions, setSubmissions] = useState<ChainSubmission[]>([]);
+  const [roundEndsAt, setRoundEndsAt] = useState<number | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchStory = useCallback(async () => {
+    try {
+      setError(null);
+
+      const data: GetChainStoryResponse = await ApiClient.get('/api/chain-story/current', {
+        timeout: 10000,
+        retries: 2,
+      });
+
+      if (data.success && data.data) {
+        setStory(data.data.story);
+        setSubmissions(data.data.submissions);
+        setRoundEndsAt(Date.now() + data.data.roundTimeRemaining);
+      } else {
+        throw new Error(data.error || 'Invalid response format');
+      }
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Unknown error occurred';
+      setError(errorMessage);
+
+      ErrorReporting.reportError(err as Error, {
+        operation: 'fetchChainStory',
+        url: '/api/chain-story/current',
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  const submitSentence = useCallback(async (sentence: string): Promise<string> => {
+    const request: SubmitSentenceRequest = { sentence };
+    const data: SubmitSentenceResponse = await ApiClient.post('/api/chain-story/submit', request, {
+      retries: 0,
+    });
+
+    if (data.data) {
+      setSubmissions((current) => [...current, data.data as ChainSubmission]);
+    }
+
+    return data.message || 'Submitted! Your sentence is being voted on';
+  }, []);
+
+  // Realtime updates carry the whole story; a new round starts with no submissions
+  const applyStoryUpdate = useCallback((updated: ChainStory) => {
+    setStory(updated);
+    setSubmissions((current) =>
+      current.filter((submission) => submission.round === updated.roundNumber)
+    );
+    setRoundEndsAt(new Date(updated.roundEndsAt).getTime());
+  }, []);
+
+  useEffect(() => {
+    void fetchStory();
+  }, [fetchStory]);
+
+  return {
+    story,
+    submissions,
+    roundEndsAt,
+    loading,
+    error,
+    submitSentence,
+    refreshStory: fetchStory,
+    applyStoryUpdate,
+  };
+};
@@ -4,16 +4,22 @@ import {
   RealtimeMessage,
   VoteUpdateMessage,
   ChapterTransitionMessage,
+  ChapterUpdatedMessage,
   StoryResetMessage,
   VotingEndedMessage,
+  ChainSentenceAddedMessage,
+  ChainStoryCompletedMessage,
 } from '../../shared/types/api';
+import { useBootstrap } from './useBootstrap';
 
 interface UseRealtimeProps {
-  postId: string;
   onVoteUpdate?: (message: VoteUpdateMessage) => void;
   onChapterTransition?: (message: ChapterTransitionMessage) => void;
+  onChapterUpdated?: (message: ChapterUpdatedMessage) => void;
   onStoryReset?: (message: StoryResetMessage) => void;
   onVotingEnded?: (message: VotingEndedMessage) => void;
+  onChainSentenceAdded?: (message: ChainSentenceAddedMessage) => void;
+  onChainStoryCompleted?: (message: ChainStoryCompletedMessage) => void;
   onError?: (error: Error) => void;
 }
 
@@ -25,11 +31,13 @@ interface UseRealtimeReturn {
 }
 
 export const useRealtime = ({
-  postId,
   onVoteUpdate,
   onChapterTransition,
+  onChapterUpdated,
   onStoryReset,
   onVotingEnded,
+  onChainSentenceAdded,
+  onChainStoryCompleted,
   onError,
 }: UseRealtimeProps): UseRealtimeReturn => {
   const connectionRef = useRef<any>(null);
@@ -43,8 +51,8 @@ export const useRealtime = ({
   const reconnectDelayMs = 5000; // Increased to reduce connection spam
   const isReconnecting = useRef(false);
 
-  // Generate channel name using the same format as server
-  const channelName = `haunted_thread_${postId}`;
+  // The server names the post's channel in the bootstrap
+  const { realtimeChannel: channelName } = useBootstrap();
 
   // Removed noisy initialization log
 
@@ -64,12 +72,21 @@ export const useRealtime = ({
             console.log('🔄 Chapter transition received');
             onChapterTransition?.(message as ChapterTransitionMessage);
             break;
+          case 'chapter_updated':
+            onChapterUpdated?.(message as ChapterUpdatedMessage);
+            break;
           case 'story_reset':
             onStoryReset?.(message as StoryResetMessage);
             break;
           case 'voting_ended':
             onVotingEnded?.(message as VotingEndedMessage);
             break;
+          case 'chain_sentence_added':
+            onChainSentenceAdded?.(message as ChainSentenceAddedMessage);
+            break;
+          case 'chain_story_completed':
+            onChainStoryCompleted?.(message as ChainStoryCompletedMessage);
+            break;
           case 'connection_test':
             // Silently handle connection tests
             break;
@@ -81,7 +98,16 @@ export const useRealtime = ({
         onError?.(error instanceof Error ? error : new Error('Failed to parse realtime message'));
       }
     },
-    [onVoteUpdate, onChapterTransition, onStoryReset, onVotingEnded, onError]
+    [
+      onVoteUpdate,
+      onChapterTransition,
+      onChapterUpdated,
+      onStoryReset,
+      onVotingEnded,
+      onChainSentenceAdded,
+      onChainStoryCompleted,
+      onError,
+    ]
   );
 
   const handleConnect = useCallback(() => {
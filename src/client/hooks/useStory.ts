@@ -3,6 +3,7 @@ import { StoryChapter, StoryContext, StoryProgression } from '../../shared/types
 import { GetCurrentStoryResponse } from '../../shared/types/api';
 import { ApiClient, ClientPerformanceMonitor, ErrorReporting } from '../utils/error-handler';
 import { useLoading } from '../contexts/LoadingContext';
+import { useBootstrap } from './useBootstrap';
 
 interface UseStoryReturn {
   currentChapter: StoryChapter | null;
@@ -23,9 +24,10 @@ export const useStory = (): UseStoryReturn => {
   const [error, setError] = useState<string | null>(null);
 
   const { startLoading, stopLoading, updateLoading } = useLoading();
+  const { postId, config } = useBootstrap();
 
   const fetchCurrentStory = useCallback(async () => {
-    const loadingId = 'fetch-story';
+    const loadingId = `fetch-story-${postId}`;
 
     try {
       startLoading(loadingId, 'Loading story chapter...', {
@@ -52,13 +54,15 @@ export const useStory = (): UseStoryReturn => {
         setContext(data.data.context);
         setVotingActive(data.data.votingActive);
 
-        // Calculate progression
+        // Calculate progression against this post's chapter limit
         const progression: StoryProgression = {
-          totalChapters: 10, // This should come from the server
+          totalChapters: config.maxChapters,
           currentPosition: data.data.context.pathTaken.length,
           completedPaths: data.data.context.pathTaken,
-          availablePaths: [], // This should be calculated based on current choices
-          progressPercentage: Math.round((data.data.context.pathTaken.length / 10) * 100),
+          availablePaths: data.data.chapter.choices.map((choice) => choice.id),
+          progressPercentage: Math.round(
+            (data.data.context.pathTaken.length / config.maxChapters) * 100
+          ),
         };
         setProgression(progression);
 
@@ -79,6 +83,7 @@ export const useStory = (): UseStoryReturn => {
       // Report error for monitoring
       ErrorReporting.reportError(err as Error, {
         operation: 'fetchCurrentStory',
+        postId,
         url: '/api/story/current',
       });
 
@@ -94,7 +99,7 @@ export const useStory = (): UseStoryReturn => {
     } finally {
       setLoading(false);
     }
-  }, [startLoading, stopLoading, updateLoading]);
+  }, [postId, config.maxChapters, startLoading, stopLoading, updateLoading]);
 
   const refreshStory = useCallback(async () => {
     await fetchCurrentStory();
@@ -4,12 +4,13 @@ import { StoryChapter, StoryContext } from '../../shared/types/story';
 import {
   VoteUpdateMessage,
   ChapterTransitionMessage,
+  ChapterUpdatedMessage,
   StoryResetMessage,
   VotingEndedMessage,
 } from '../../shared/types/api';
 import {
   mergeOptimisticWithServer,
-  calculateOptimisticVoteCounts,
+  calculateOptimisticVoteChange,
   createVoteRollback,
 } from '../utils/optimisticUpdates';
 
@@ -23,7 +24,7 @@ interface SynchronizedState {
 
 interface OptimisticUpdate {
   id: string;
-  type: 'vote' | 'chapter_transition';
+  type: 'vote' | 'vote_retraction' | 'chapter_transition';
   timestamp: number;
   data: any;
   rollback: () => void;
@@ -34,6 +35,7 @@ interface UseSynchronizedStateReturn {
   updateState: (updates: Partial<SynchronizedState>) => void;
   handleVoteUpdate: (message: VoteUpdateMessage) => void;
   handleChapterTransition: (message: ChapterTransitionMessage) => void;
+  handleChapterUpdated: (message: ChapterUpdatedMessage) => void;
   handleStoryReset: (message: StoryResetMessage) => void;
   handleVotingEnded: (message: VotingEndedMessage) => void;
   applyOptimisticUpdate: (update: Omit<OptimisticUpdate, 'timestamp'>) => void;
@@ -99,8 +101,15 @@ export const useSynchronizedState = (
             timestamp: new Date(),
           };
 
-          // Update vote counts optimistically using utility function
-          const newVoteCounts = calculateOptimisticVoteCounts(prevState.voteCounts, choiceId, 1);
+          // A changed vote comes off the old choice as it lands on the new one
+          const previousChoiceId = prevState.userVoteStatus.hasVoted
+            ? prevState.userVoteStatus.choiceId
+            : undefined;
+          const newVoteCounts = calculateOptimisticVoteChange(
+            prevState.voteCounts,
+            previousChoiceId,
+            choiceId
+          );
 
           return {
             ...prevState,
@@ -110,6 +119,29 @@ export const useSynchronizedState = (
         });
         break;
 
+      case 'vote_retraction': {
+        setState((prevState) => {
+          const storedUpdate = optimisticUpdatesRef.current.get(update.id);
+          if (storedUpdate) {
+            storedUpdate.rollback = createVoteRollback(
+              [...prevState.voteCounts],
+              { ...prevState.userVoteStatus },
+              setState
+            );
+          }
+
+          return {
+            ...prevState,
+            userVoteStatus: { hasVoted: false },
+            voteCounts: calculateOptimisticVoteChange(
+              prevState.voteCounts,
+              prevState.userVoteStatus.choiceId
+            ),
+          };
+        });
+        break;
+      }
+
       case 'chapter_transition':
         setState((prevState) => ({
           ...prevState,
@@ -148,7 +180,10 @@ export const useSynchronizedState = (
       // Get current optimistic updates for this chapter
       const optimisticUpdates: OptimisticUpdate[] = [];
       optimisticUpdatesRef.current.forEach((update) => {
-        if (update.type === 'vote' && update.data.chapterId === message.data.chapterId) {
+        if (
+          (update.type === 'vote' || update.type === 'vote_retraction') &&
+          update.data.chapterId === message.data.chapterId
+        ) {
           optimisticUpdates.push(update);
         }
       });
@@ -207,6 +242,25 @@ export const useSynchronizedState = (
     [updateState, clearOptimisticUpdates]
   );
 
+  const handleChapterUpdated = useCallback(
+    (message: ChapterUpdatedMessage) => {
+      const { chapter } = message.data;
+      if (state.currentChapter?.id !== chapter.id) return;
+
+      // A moderator may have hidden a choice; drop its count and any vote the player had on it
+      const choiceIds = new Set(chapter.choices.map((choice) => choice.id));
+      const { userVoteStatus } = state;
+      const lostVote = Boolean(userVoteStatus.choiceId && !choiceIds.has(userVoteStatus.choiceId));
+
+      updateState({
+        currentChapter: chapter,
+        voteCounts: state.voteCounts.filter((count) => choiceIds.has(count.choiceId)),
+        ...(lostVote && { userVoteStatus: { hasVoted: false } }),
+      });
+    },
+    [updateState, state]
+  );
+
   const handleStoryReset = useCallback(
     (message: StoryResetMessage) => {
       console.log('Handling story reset from server:', message);
@@ -237,7 +291,10 @@ export const useSynchronizedState = (
       // Clear optimistic updates for this chapter
       const updatesToRemove: string[] = [];
       optimisticUpdatesRef.current.forEach((update, id) => {
-        if (update.type === 'vote' && update.data.chapterId === message.data.chapterId) {
+        if (
+          (update.type === 'vote' || update.type === 'vote_retraction') &&
+          update.data.chapterId === message.data.chapterId
+        ) {
           updatesToRemove.push(id);
         }
       });
@@ -260,6 +317,7 @@ export const useSynchronizedState = (
     updateState,
     handleVoteUpdate,
     handleChapterTransition,
+    handleChapterUpdated,
     handleStoryReset,
     handleVotingEnded,
     applyOptimisticUpdate,
@@ -3,18 +3,21 @@ import { VoteCount, UserVoteStatus } from '../../shared/types/voting';
 import {
   CastVoteRequest,
   CastVoteResponse,
+  RetractVoteRequest,
   GetVoteCountsResponse,
   GetVoteStatusResponse,
 } from '../../shared/types/api';
 import { ApiClient, ClientPerformanceMonitor, ErrorReporting } from '../utils/error-handler';
 import { useLoading } from '../contexts/LoadingContext';
+import { useBootstrap } from './useBootstrap';
 
 interface UseVotingReturn {
   voteCounts: VoteCount[];
   userVoteStatus: UserVoteStatus;
   loading: boolean;
   error: string | null;
-  castVote: (chapterId: string, choiceId: string) => Promise<void>;
+  castVote: (chapterId: string, choiceId: string, choiceIds?: string[]) => Promise<void>;
+  retractVote: (chapterId: string) => Promise<void>;
   refreshVoteCounts: (chapterId: string) => Promise<void>;
   refreshVoteStatus: (chapterId: string) => Promise<void>;
 }
@@ -26,12 +29,17 @@ export const useVoting = (): UseVotingReturn => {
   const [error, setError] = useState<string | null>(null);
 
   const { startLoading, stopLoading, updateLoading } = useLoading();
+  const { postId, username } = useBootstrap();
 
   const castVote = useCallback(
-    async (chapterId: string, choiceId: string) => {
-      const loadingId = `cast-vote-${chapterId}-${choiceId}`;
+    async (chapterId: string, choiceId: string, choiceIds?: string[]) => {
+      const loadingId = `cast-vote-${postId}-${chapterId}-${choiceId}`;
 
       try {
+        if (!username) {
+          throw new Error('You must be logged in to vote');
+        }
+
         startLoading(loadingId, 'Casting your vote...', {
           type: 'processing',
           timeout: 10000, // 10 second timeout
@@ -43,13 +51,14 @@ export const useVoting = (): UseVotingReturn => {
         const requestBody: CastVoteRequest = {
           chapterId,
           choiceId,
+          ...(choiceIds && { choiceIds }),
         };
 
         const data: CastVoteResponse = await ApiClient.post('/api/vote', requestBody, {
           timeout: 8000, // 8 second timeout
           retries: 2,
           retryCondition: (error, attempt) => {
-            // Don't retry on validation errors (400s) or duplicate votes
+            // Don't retry on validation errors (400s) or locked votes
             if (error.message.includes('already voted') || error.message.includes('validation')) {
               return false;
             }
@@ -63,11 +72,12 @@ export const useVoting = (): UseVotingReturn => {
             hasVoted: true,
             choiceId,
             timestamp: new Date(),
+            ...(choiceIds && { choiceIds }),
           });
 
           updateLoading(loadingId, {
             type: 'success',
-            message: 'Vote cast successfully!',
+            message: data.data?.action === 'changed' ? 'Vote changed!' : 'Vote cast successfully!',
           });
 
           // Refresh vote counts and status immediately after voting
@@ -88,6 +98,7 @@ export const useVoting = (): UseVotingReturn => {
         // Report error for monitoring
         ErrorReporting.reportError(err as Error, {
           operation: 'castVote',
+          postId,
           chapterId,
           choiceId,
           url: '/api/vote',
@@ -107,7 +118,7 @@ export const useVoting = (): UseVotingReturn => {
         setLoading(false);
       }
     },
-    [startLoading, stopLoading, updateLoading]
+    [postId, username, startLoading, stopLoading, updateLoading]
   );
 
   const refreshVoteCounts = useCallback(async (chapterId: string) => {
@@ -161,12 +172,65 @@ export const useVoting = (): UseVotingReturn => {
     }
   }, []);
 
+  const retractVote = useCallback(
+    async (chapterId: string) => {
+      const loadingId = `retract-vote-${postId}-${chapterId}`;
+
+      try {
+        startLoading(loadingId, 'Retracting your vote...', { type: 'processing', timeout: 10000 });
+
+        setLoading(true);
+        setError(null);
+
+        const requestBody: RetractVoteRequest = { chapterId };
+        const data: CastVoteResponse = await ApiClient.post('/api/vote/retract', requestBody, {
+          timeout: 8000,
+          retries: 0,
+        });
+
+        if (!data.success) {
+          throw new Error(data.error || 'Vote could not be retracted');
+        }
+
+        setUserVoteStatus({ hasVoted: false });
+        updateLoading(loadingId, { type: 'success', message: 'Vote retracted' });
+
+        setTimeout(() => {
+          void refreshVoteCounts(chapterId);
+          void refreshVoteStatus(chapterId);
+        }, 500);
+        setTimeout(() => stopLoading(loadingId), 2000);
+      } catch (err) {
+        const errorMessage = err instanceof Error ? err.message : 'Unknown error occurred';
+        setError(errorMessage);
+
+        ErrorReporting.reportError(err as Error, {
+          operation: 'retractVote',
+          postId,
+          chapterId,
+          url: '/api/vote/retract',
+        });
+
+        updateLoading(loadingId, {
+          type: 'error',
+          message: `Failed to retract vote: ${errorMessage}`,
+        });
+        setTimeout(() => stopLoading(loadingId), 5000);
+        throw err;
+      } finally {
+        setLoading(false);
+      }
+    },
+    [postId, startLoading, stopLoading, updateLoading, refreshVoteCounts, refreshVoteStatus]
+  );
+
   return {
     voteCounts,
     userVoteStatus,
     loading,
     error,
     castVote,
+    retractVote,
     refreshVoteCounts,
     refreshVoteStatus,
   };
@@ -8,6 +8,8 @@ import { StoryChapter } from '../../shared/types/story';
 export interface OptimisticVoteUpdate {
   chapterId: string;
   choiceId: string;
+  /** The vote being replaced when the user changes their mind */
+  previousChoiceId?: string;
   userId?: string;
   timestamp: Date;
 }
@@ -95,10 +97,12 @@ export const createVoteRollback = (
 ) => {
   return () => {
     console.log('Rolling back optimistic vote update');
-    setState({
+    // Merge into the current state so a rollback never drops the chapter being voted on
+    setState((prevState: object) => ({
+      ...prevState,
       voteCounts: originalVoteCounts,
       userVoteStatus: originalUserStatus,
-    });
+    }));
   };
 };
 
@@ -124,6 +128,25 @@ export const calculateOptimisticVoteCounts = (
   }));
 };
 
+/**
+ * Moves a user's vote from one choice to another. Leave out `fromChoiceId` for a first vote
+ * and `toChoiceId` for a retraction.
+ */
+export const calculateOptimisticVoteChange = (
+  currentVoteCounts: VoteCount[],
+  fromChoiceId?: string,
+  toChoiceId?: string
+): VoteCount[] => {
+  if (fromChoiceId === toChoiceId) return currentVoteCounts;
+
+  const withoutPrevious = fromChoiceId
+    ? calculateOptimisticVoteCounts(currentVoteCounts, fromChoiceId, -1)
+    : currentVoteCounts;
+  return toChoiceId
+    ? calculateOptimisticVoteCounts(withoutPrevious, toChoiceId, 1)
+    : withoutPrevious;
+};
+
 /**
  * Checks if two vote count arrays are equivalent
  */
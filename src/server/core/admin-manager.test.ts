@@ -0,0 +1,240 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { MemoryPlatform } from '../test/memory-platform';
+import { installMemoryPost, resetMemoryPlatform, startStory } from '../test/story-fixtures';
+import { AuthenticationError, AuthorizationError } from '../utils/error-handler';
+import { AdminManager } from './admin-manager.js';
+import { StoryProgressionEngine } from './story-progression-engine.js';
+import { StoryStateManager } from './story-state-manager.js';
+import { VotingManager } from './voting-manager.js';
+import { VotingScheduler } from './voting-scheduler.js';
+
+let platform: MemoryPlatform;
+let postId: string;
+
+describe('AdminManager', () => {
+  beforeEach(async () => {
+    ({ platform, postId } = await installMemoryPost());
+  });
+
+  afterEach(resetMemoryPlatform);
+
+  describe('authorize', () => {
+    it('requires a signed-in user', async () => {
+      platform.reddit.currentUsername = undefined;
+
+      await expect(AdminManager.authorize('view')).rejects.toBeInstanceOf(AuthenticationError);
+    });
+
+    it('turns away users who do not moderate the subreddit', async () => {
+      await expect(AdminManager.authorize('view')).rejects.toBeInstanceOf(AuthorizationError);
+    });
+
+    it("grants permissions from the moderator's Reddit permissions", async () => {
+      platform.reddit.addModerator('test_player', ['posts']);
+
+      const identity = await AdminManager.authorize('advance');
+
+      expect(identity).toEqual({
+        username: 'test_player',
+        subredditName: 'HauntedThreadTest',
+        permissions: ['view', 'advance', 'reset', 'moderate'],
+        customRole: false,
+      });
+      await expect(AdminManager.authorize('manage_filters')).rejects.toThrow(
+        'The "manage_filters" permission is required'
+      );
+    });
+
+    it('lets a custom role replace the derived permissions', async () => {
+      platform.reddit.addModerator('test_player');
+      const owner = await AdminManager.authorize('manage_roles');
+
+      await AdminManager.setCustomRole(postId, owner, 'test_player', ['view', 'moderate']);
+
+      expect(await AdminManager.getCustomRoles('HauntedThreadTest')).toEqual({
+        test_player: ['view', 'moderate'],
+      });
+      await expect(AdminManager.authorize('moderate')).resolves.toMatchObject({
+        customRole: true,
+      });
+      await expect(AdminManager.authorize('reset')).rejects.toBeInstanceOf(AuthorizationError);
+
+      await AdminManager.setCustomRole(postId, owner, 'test_player');
+      await expect(AdminManager.authorize('reset')).resolves.toMatchObject({ customRole: false });
+    });
+  });
+
+  describe('story controls', () => {
+    it('advances the story with a forced choice and tells connected players', async () => {
+      const chapter = await startStory(postId);
+
+      const result = await AdminManager.advanceStory(
+        postId,
+        'mod_a',
+        'investigate_thread',
+        'Testing'
+      );
+
+      expect(result.success).toBe(true);
+      expect((await StoryStateManager.getCurrentChapter(postId))?.id).toBe(result.newChapter!.id);
+      expect((await VotingManager.getVotingSession(postId, chapter.id))?.status).toBe('completed');
+      expect(platform.realtime.messages(`haunted_thread_${postId}`)).toContainEqual(
+        expect.objectContaining({ type: 'chapter_transition' })
+      );
+
+      const { logs } = await AdminManager.getAdminLogs(postId);
+      expect(logs).toHaveLength(1);
+      expect(logs![0]).toMatchObject({
+        action: 'advance_story',
+        username: 'mod_a',
+        details: { previousChapter: chapter.id, winningChoice: 'investigate_thread' },
+      });
+    });
+
+    it('ends the story when a forced choice leads to an ending', async () => {
+      await startStory(postId);
+      await AdminManager.advanceStory(postId, 'mod_a', 'investigate_thread');
+      await AdminManager.advanceStory(postId, 'mod_a', 'visit_house');
+      const lastChapter = await StoryStateManager.getCurrentChapter(postId);
+
+      const result = await AdminManager.advanceStory(postId, 'mod_a', 'leave_immediately');
+
+      expect(result).toMatchObject({
+        success: true,
+        hasEnded: true,
+        ending: { id: 'escape_attempt_ending' },
+      });
+      expect(result.newChapter).toBeUndefined();
+      expect((await VotingManager.getVotingSession(postId, lastChapter!.id))?.status).toBe(
+        'completed'
+      );
+      // Generic messages go out once the throttle window passes
+      await vi.waitFor(() =>
+        expect(platform.realtime.messages(`haunted_thread_${postId}`)).toContainEqual(
+          expect.objectContaining({
+            type: 'story_ended',
+            data: expect.objectContaining({ chapterId: lastChapter!.id }),
+          })
+        )
+      );
+      const { logs } = await AdminManager.getAdminLogs(postId);
+      expect(logs).toHaveLength(3);
+      expect(logs![0]).toMatchObject({
+        action: 'advance_story',
+        details: { ending: 'escape_attempt_ending', winningChoice: 'leave_immediately' },
+      });
+    });
+
+    it('advances the story once when a forced advance races the scheduled close', async () => {
+      const chapter = await startStory(postId);
+      await VotingManager.castVote(postId, 'user_a', chapter.id, 'close_browser');
+      const session = await VotingManager.getVotingSession(postId, chapter.id);
+      const afterDeadline = new Date((session?.endTime?.getTime() ?? Date.now()) + 1000);
+      // Hold each advance until the other one has started, or long enough that it can't
+      const advanceStory = StoryProgressionEngine.prototype.advanceStory;
+      let started = 0;
+      let bothStarted: () => void;
+      const otherStarted = new Promise<void>((resolve) => (bothStarted = resolve));
+      vi.spyOn(StoryProgressionEngine.prototype, 'advanceStory').mockImplementation(async function (
+        this: StoryProgressionEngine,
+        ...args
+      ) {
+        if (++started === 2) bothStarted();
+        await Promise.race([otherStarted, new Promise((resolve) => setTimeout(resolve, 50))]);
+        return advanceStory.apply(this, args);
+      });
+
+      const [forced, closed] = await Promise.all([
+        AdminManager.advanceStory(postId, 'mod_a', 'investigate_thread'),
+        VotingScheduler.closeRound(postId, chapter.id, afterDeadline),
+      ]);
+
+      expect([forced.success, closed.closed].filter(Boolean)).toHaveLength(1);
+      const context = await StoryStateManager.getStoryContext(postId);
+      expect(context?.pathTaken).toHaveLength(1);
+      expect(context?.currentChapter).toBe(forced.newChapter?.id ?? closed.newChapterId);
+    });
+
+    it('rejects a forced choice the chapter does not offer', async () => {
+      await startStory(postId);
+
+      expect(await AdminManager.advanceStory(postId, 'mod_a', 'not_a_choice')).toEqual({
+        success: false,
+        error: 'Invalid forced choice ID',
+      });
+    });
+
+    it('needs votes to advance without a forced choice', async () => {
+      await startStory(postId);
+
+      expect(await AdminManager.advanceStory(postId, 'mod_a')).toEqual({
+        success: false,
+        error: 'No votes found to determine winner',
+      });
+    });
+
+    it('resets the story to its opening chapter', async () => {
+      const opening = await startStory(postId);
+      await AdminManager.advanceStory(postId, 'mod_a', 'investigate_thread');
+
+      expect(await AdminManager.resetStory(postId, 'mod_a', 'Fresh start')).toEqual({
+        success: true,
+      });
+
+      const current = await StoryStateManager.getCurrentChapter(postId);
+      expect(current?.title).toBe(opening.title);
+      expect(await StoryStateManager.getStoryContext(postId)).toMatchObject({ pathTaken: [] });
+      expect((await VotingManager.getVotingSession(postId, current!.id))?.status).toBe('active');
+      expect(platform.realtime.messages(`haunted_thread_${postId}`)).toContainEqual(
+        expect.objectContaining({ type: 'story_reset' })
+      );
+    });
+
+    it('reports story statistics', async () => {
+      const chapter = await startStory(postId);
+      await VotingManager.castVote(postId, 'user_a', chapter.id, 'investigate_thread');
+      await VotingManager.castVote(postId, 'user_b', chapter.id, 'close_browser');
+
+      const { stats } = await AdminManager.getStoryStats(postId);
+
+      expect(stats).toMatchObject({
+        currentEngagement: 2,
+        votingActive: true,
+        currentChapter: chapter.id,
+      });
+    });
+  });
+
+  describe('moderation', () => {
+    it('flags content and resolves the report', async () => {
+      const { reportId } = await AdminManager.flagContent(
+        postId,
+        'mod_a',
+        'choice',
+        'choice_1',
+        'Off-topic'
+      );
+
+      let { stats } = await AdminManager.getModerationStats(postId);
+      expect(stats).toMatchObject({ totalReports: 1, pendingReports: 1, resolvedReports: 0 });
+
+      expect(await AdminManager.resolveReport(postId, 'mod_b', reportId!, 'dismiss')).toEqual({
+        success: true,
+      });
+
+      ({ stats } = await AdminManager.getModerationStats(postId));
+      expect(stats).toMatchObject({ pendingReports: 0, resolvedReports: 1 });
+      expect(stats!.flaggedContent[0]).toMatchObject({
+        targetId: 'choice_1',
+        status: 'dismissed',
+        moderatedBy: 'mod_b',
+      });
+    });
+
+    it('cannot resolve a report that does not exist', async () => {
+      expect(await AdminManager.resolveReport(postId, 'mod_a', 'report_missing', 'remove')).toEqual(
+        { success: false, error: 'Report not found' }
+      );
+    });
+  });
+});
@@ -3,13 +3,22 @@
  * Handles story management, content moderation, and engagement tracking
  */
 
-import { redis } from '@devvit/web/server';
+import { context, reddit, redis } from '../platform';
 import { StoryStateManager } from './story-state-manager.js';
 import { VotingManager } from './voting-manager.js';
 import { StoryProgressionEngine } from './story-progression-engine.js';
+import { StoryPackManager } from './story-pack-manager.js';
 import { RealtimeManager } from './realtime-manager.js';
-import { StoryChapter } from '../../shared/types/story.js';
+import { VotingScheduler } from './voting-scheduler.js';
+import { StoryChapter, StoryEnding } from '../../shared/types/story.js';
 import { VotingStats } from '../../shared/types/voting.js';
+import {
+  ADMIN_PERMISSIONS,
+  AdminIdentity,
+  AdminLogEntry,
+  AdminPermission,
+} from '../../shared/types/admin.js';
+import { AuthenticationError, AuthorizationError } from '../utils/error-handler';
 
 export interface AdminStats {
   totalChapters: number;
@@ -37,150 +46,303 @@ export interface ModerationReport {
 export class AdminManager {
   private static readonly ADMIN_PREFIX = 'haunted_thread:admin';
   private static readonly MODERATION_PREFIX = 'haunted_thread:moderation';
+  private static readonly ROLES_PREFIX = 'haunted_thread:admin:roles';
 
-  // Simple admin key validation (in production, use proper authentication)
-  private static readonly ADMIN_KEY = process.env.HAUNTED_THREAD_ADMIN_KEY || 'dev-admin-key';
+  // What each Reddit moderator permission grants; every moderator can view
+  private static readonly REDDIT_PERMISSION_GRANTS: Record<string, AdminPermission[]> = {
+    all: ADMIN_PERMISSIONS,
+    posts: ['advance', 'reset', 'moderate'],
+    config: ['manage_filters', 'manage_packs'],
+  };
 
   /**
-   * Validates admin authentication
+   * Resolves the current Reddit user's admin permissions for this subreddit.
+   * Returns null when the user is logged out or does not moderate the subreddit.
    */
-  static validateAdminKey(providedKey: string): boolean {
-    return providedKey === this.ADMIN_KEY;
+  static async getAdminIdentity(): Promise<AdminIdentity | null> {
+    const { subredditName } = context;
+    if (!subredditName) return null;
+
+    const user = await reddit.getCurrentUser();
+    if (!user) return null;
+
+    const modPermissions = await user.getModPermissionsForSubreddit(subredditName);
+    if (modPermissions.length === 0) return null;
+
+    const customPermissions = await this.getCustomRole(subredditName, user.username);
+    const permissions = customPermissions
+      ? customPermissions
+      : ADMIN_PERMISSIONS.filter(
+          (permission) =>
+            permission === 'view' ||
+            modPermissions.some((modPermission) =>
+              this.REDDIT_PERMISSION_GRANTS[modPermission]?.includes(permission)
+            )
+        );
+
+    return {
+      username: user.username,
+      subredditName,
+      permissions,
+      customRole: !!customPermissions,
+    };
+  }
+
+  /**
+   * Whether the current user moderates the subreddit; false when that can't be worked out
+   */
+  static async isModerator(): Promise<boolean> {
+    try {
+      return !!(await this.getAdminIdentity());
+    } catch (error) {
+      console.error('Error checking moderator status:', error);
+      return false;
+    }
   }
 
   /**
-   * Verifies admin key (async version for consistency with other methods)
+   * Ensures the current user is a moderator holding a permission, and returns who they are
    */
-  static async verifyAdminKey(providedKey: string): Promise<boolean> {
-    return this.validateAdminKey(providedKey);
+  static async authorize(permission: AdminPermission): Promise<AdminIdentity> {
+    const username = await reddit.getCurrentUsername();
+    if (!username) {
+      throw new AuthenticationError('You must be logged in to use admin tools');
+    }
+
+    const identity = await this.getAdminIdentity();
+    if (!identity) {
+      throw new AuthorizationError('Only subreddit moderators can use admin tools');
+    }
+
+    if (!identity.permissions.includes(permission)) {
+      throw new AuthorizationError(`The "${permission}" permission is required`);
+    }
+
+    return identity;
   }
 
   /**
-   * Manually advances story to next chapter
+   * Lists the custom roles assigned in a subreddit, keyed by username
+   */
+  static async getCustomRoles(subredditName: string): Promise<Record<string, AdminPermission[]>> {
+    const roles = await redis.hGetAll(`${this.ROLES_PREFIX}:${subredditName}`);
+    return Object.fromEntries(
+      Object.entries(roles).map(([username, data]) => [
+        username,
+        JSON.parse(data) as AdminPermission[],
+      ])
+    );
+  }
+
+  /**
+   * Assigns a custom role to a moderator, or clears it when no permissions are given.
+   * Custom roles replace the permissions derived from Reddit but never grant access to
+   * users who are not moderators.
+   */
+  static async setCustomRole(
+    postId: string,
+    actor: AdminIdentity,
+    username: string,
+    permissions?: AdminPermission[]
+  ): Promise<void> {
+    const key = `${this.ROLES_PREFIX}:${actor.subredditName}`;
+
+    if (permissions) {
+      const role = ADMIN_PERMISSIONS.filter((permission) => permissions.includes(permission));
+      await redis.hSet(key, { [username]: JSON.stringify(role) });
+    } else {
+      await redis.hDel(key, [username]);
+    }
+
+    await this.logAdminAction(postId, actor.username, 'set_role', {
+      username,
+      permissions: permissions || 'reddit_default',
+    });
+  }
+
+  private static async getCustomRole(
+    subredditName: string,
+    username: string
+  ): Promise<AdminPermission[] | null> {
+    const data = await redis.hGet(`${this.ROLES_PREFIX}:${subredditName}`, username);
+    return data ? (JSON.parse(data) as AdminPermission[]) : null;
+  }
+
+  /**
+   * Manually advances story to next chapter. Holds the round's close claim while it does, so a
+   * scheduled close of the same round can't advance the story a second time.
    */
   static async advanceStory(
     postId: string,
-    adminKey: string,
+    actor: string,
     forceChoice?: string,
     reason?: string
   ): Promise<{
     success: boolean;
     newChapter?: StoryChapter;
+    hasEnded?: boolean;
+    ending?: StoryEnding;
     previousStats?: VotingStats;
     error?: string;
   }> {
-    if (!this.validateAdminKey(adminKey)) {
-      return { success: false, error: 'Invalid admin credentials' };
-    }
-
     try {
       const currentChapter = await StoryStateManager.getCurrentChapter(postId);
       if (!currentChapter) {
         return { success: false, error: 'No current chapter found' };
       }
 
-      // Get voting stats before advancing
-      const previousStats = await VotingManager.getVotingStats(postId, currentChapter.id);
+      if (!(await VotingScheduler.claimRoundClose(postId, currentChapter.id))) {
+        return { success: false, error: 'Voting round is already being closed' };
+      }
 
-      // Determine winning choice
-      let winningChoice: string;
-      if (forceChoice) {
-        // Validate forced choice exists
-        const validChoice = currentChapter.choices.find((c) => c.id === forceChoice);
-        if (!validChoice) {
-          return { success: false, error: 'Invalid forced choice ID' };
-        }
-        winningChoice = forceChoice;
-      } else {
-        // Get winning choice from votes
-        const winner = await VotingManager.getWinningChoice(postId, currentChapter.id);
-        if (!winner) {
-          return { success: false, error: 'No votes found to determine winner' };
+      try {
+        const result = await this.advanceClaimedRound(
+          postId,
+          actor,
+          currentChapter,
+          forceChoice,
+          reason
+        );
+        if (!result.success) {
+          await VotingScheduler.releaseRoundClose(postId, currentChapter.id);
         }
-        winningChoice = winner;
+        return result;
+      } catch (error) {
+        await VotingScheduler.releaseRoundClose(postId, currentChapter.id);
+        throw error;
       }
+    } catch (error) {
+      console.error('Error advancing story:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      };
+    }
+  }
 
-      // Generate next chapter
-      const progressionEngine = new StoryProgressionEngine();
-      const progressionResult = await progressionEngine.advanceStory(
-        postId,
-        currentChapter.id,
-        winningChoice
-      );
-
-      if (!progressionResult.success || !progressionResult.newChapter) {
-        return {
-          success: false,
-          error: progressionResult.error || 'Failed to generate next chapter',
-        };
+  private static async advanceClaimedRound(
+    postId: string,
+    actor: string,
+    currentChapter: StoryChapter,
+    forceChoice?: string,
+    reason?: string
+  ): Promise<{
+    success: boolean;
+    newChapter?: StoryChapter;
+    hasEnded?: boolean;
+    ending?: StoryEnding;
+    previousStats?: VotingStats;
+    error?: string;
+  }> {
+    // Get voting stats before advancing
+    const previousStats = await VotingManager.getVotingStats(postId, currentChapter.id);
+
+    // Determine winning choice
+    let winningChoice: string;
+    if (forceChoice) {
+      // Validate forced choice exists
+      const validChoice = currentChapter.choices.find((c) => c.id === forceChoice);
+      if (!validChoice) {
+        return { success: false, error: 'Invalid forced choice ID' };
+      }
+      winningChoice = forceChoice;
+    } else {
+      // Get winning choice from votes
+      const winner = await VotingManager.getWinningChoice(postId, currentChapter.id);
+      if (!winner) {
+        return { success: false, error: 'No votes found to determine winner' };
       }
+      winningChoice = winner;
+    }
 
-      const nextChapter = progressionResult.newChapter;
+    // Generate next chapter
+    const progressionEngine = new StoryProgressionEngine();
+    const progressionResult = await progressionEngine.advanceStory(
+      postId,
+      currentChapter.id,
+      winningChoice
+    );
 
-      // End current voting session
+    if (progressionResult.success && progressionResult.hasEnded && progressionResult.ending) {
+      const ending = progressionResult.ending;
       await VotingManager.endVotingSession(postId, currentChapter.id);
 
-      // Update story state
-      await StoryStateManager.storeChapter(postId, nextChapter);
-      await StoryStateManager.setCurrentChapter(postId, nextChapter.id);
-      await StoryStateManager.addToHistory(postId, currentChapter.id, winningChoice);
-
-      // Update story context
-      await StoryStateManager.updateStoryContext(postId, nextChapter.id, winningChoice);
-
-      // Create voting session for new chapter
-      const choices = nextChapter.choices.map((choice: any) => ({
-        choiceId: choice.id,
-        text: choice.text,
-      }));
-      await VotingManager.createVotingSession(postId, nextChapter.id, choices);
-
-      // Log admin action
-      await this.logAdminAction(postId, 'advance_story', {
+      await this.logAdminAction(postId, actor, 'advance_story', {
         previousChapter: currentChapter.id,
-        newChapter: nextChapter.id,
+        ending: ending.id,
         winningChoice,
         forceChoice: !!forceChoice,
         reason: reason || 'Manual advancement',
       });
 
-      // Broadcast chapter transition
-      const statsToUse = previousStats || {
-        totalVotes: 0,
-        uniqueVoters: 0,
-        votingDuration: 0,
-        winningChoice: winningChoice,
-        winningPercentage: 0,
-      };
-      await RealtimeManager.broadcastChapterTransition(
-        postId,
-        nextChapter,
-        winningChoice,
-        statsToUse
-      );
+      await RealtimeManager.broadcastMessage(postId, {
+        type: 'story_ended',
+        timestamp: new Date(),
+        data: { ending, chapterId: currentChapter.id },
+      });
 
-      const returnResult: {
-        success: boolean;
-        newChapter?: StoryChapter;
-        previousStats?: VotingStats;
-        error?: string;
-      } = {
+      return {
         success: true,
-        newChapter: nextChapter,
+        hasEnded: true,
+        ending,
+        ...(previousStats && { previousStats }),
       };
+    }
 
-      if (previousStats) {
-        returnResult.previousStats = previousStats;
-      }
-
-      return returnResult;
-    } catch (error) {
-      console.error('Error advancing story:', error);
+    if (!progressionResult.success || !progressionResult.newChapter) {
       return {
         success: false,
-        error: error instanceof Error ? error.message : 'Unknown error',
+        error: progressionResult.error || 'Failed to generate next chapter',
       };
     }
+
+    // The progression engine has already stored the new chapter and opened its voting session
+    const nextChapter = progressionResult.newChapter;
+
+    // End current voting session
+    await VotingManager.endVotingSession(postId, currentChapter.id);
+
+    // Log admin action
+    await this.logAdminAction(postId, actor, 'advance_story', {
+      previousChapter: currentChapter.id,
+      newChapter: nextChapter.id,
+      winningChoice,
+      forceChoice: !!forceChoice,
+      reason: reason || 'Manual advancement',
+    });
+
+    // Broadcast chapter transition
+    const statsToUse = previousStats || {
+      totalVotes: 0,
+      uniqueVoters: 0,
+      votingDuration: 0,
+      winningChoice: winningChoice,
+      winningPercentage: 0,
+    };
+    await RealtimeManager.broadcastChapterTransition(
+      postId,
+      nextChapter,
+      winningChoice,
+      statsToUse
+    );
+
+    const returnResult: {
+      success: boolean;
+      newChapter?: StoryChapter;
+      hasEnded?: boolean;
+      previousStats?: VotingStats;
+      error?: string;
+    } = {
+      success: true,
+      newChapter: nextChapter,
+      hasEnded: false,
+    };
+
+    if (previousStats) {
+      returnResult.previousStats = previousStats;
+    }
+
+    return returnResult;
   }
 
   /**
@@ -188,78 +350,17 @@ export class AdminManager {
    */
   static async resetStory(
     postId: string,
-    adminKey: string,
+    actor: string,
     reason?: string
   ): Promise<{ success: boolean; error?: string }> {
-    if (!this.validateAdminKey(adminKey)) {
-      return { success: false, error: 'Invalid admin credentials' };
-    }
-
     try {
       // Clear all story data
       await StoryStateManager.resetStory(postId);
-      await VotingManager.clearStoryVotes(postId);
-
-      // Initialize with first chapter
-      const initialChapter: StoryChapter = {
-        id: 'chapter-1',
-        title: 'The Haunted Thread Begins',
-        content: `Welcome to The Haunted Thread, a community-driven horror experience where your choices shape the nightmare...
-
-You find yourself standing at the entrance of an abandoned mansion on a moonless night. The wind howls through the bare trees, and shadows dance in the corners of your vision. The front door creaks open slightly, as if inviting you inside.
-
-What do you choose to do?`,
-        choices: [
-          {
-            id: 'choice-1',
-            text: 'Enter the mansion through the front door',
-            description: 'Walk boldly through the main entrance',
-            voteCount: 0,
-          },
-          {
-            id: 'choice-2',
-            text: 'Sneak around to find a back entrance',
-            description: 'Look for a more discreet way inside',
-            voteCount: 0,
-          },
-          {
-            id: 'choice-3',
-            text: 'Turn around and leave immediately',
-            description: 'This place gives you a bad feeling',
-            voteCount: 0,
-          },
-        ],
-        visualElements: {
-          atmosphericEffects: ['fog', 'shadows'],
-          colorScheme: {
-            primary: '#8B0000',
-            secondary: '#2F2F2F',
-            background: '#0D0D0D',
-            text: '#E0E0E0',
-            accent: '#FF6B6B',
-            danger: '#FF0000',
-          },
-          typography: {
-            fontFamily: 'serif',
-            headingFont: 'Georgia, serif',
-            bodyFont: 'Times New Roman, serif',
-            fontSize: {
-              small: '0.875rem',
-              medium: '1rem',
-              large: '1.25rem',
-              xlarge: '1.5rem',
-            },
-          },
-          animations: [],
-        },
-        metadata: {
-          createdAt: new Date(),
-          votingStartTime: new Date(),
-          totalVotes: 0,
-          status: 'active' as const,
-          pathPosition: 0,
-        },
-      };
+      await StoryPackManager.applyPendingPackSelection(postId);
+
+      // Initialize with the opening chapter of the post's story pack
+      const progressionEngine = new StoryProgressionEngine();
+      const initialChapter = await progressionEngine.getInitialChapterForPost(postId);
 
       await StoryStateManager.initializeStory(postId, initialChapter);
 
@@ -271,14 +372,14 @@ What do you choose to do?`,
       await VotingManager.createVotingSession(postId, initialChapter.id, choices);
 
       // Log admin action
-      await this.logAdminAction(postId, 'reset_story', {
+      await this.logAdminAction(postId, actor, 'reset_story', {
         reason: reason || 'Manual reset',
       });
 
       // Broadcast story reset
       await RealtimeManager.broadcastStoryReset(
         postId,
-        reason || 'Story reset by administrator',
+        reason || `Story reset by u/${actor}`,
         initialChapter
       );
 
@@ -295,23 +396,17 @@ What do you choose to do?`,
   /**
    * Gets comprehensive story statistics
    */
-  static async getStoryStats(
-    postId: string,
-    adminKey: string
-  ): Promise<{
+  static async getStoryStats(postId: string): Promise<{
     success: boolean;
     stats?: AdminStats;
     error?: string;
   }> {
-    if (!this.validateAdminKey(adminKey)) {
-      return { success: false, error: 'Invalid admin credentials' };
-    }
-
     try {
-      const [storyStats, context, currentChapter] = await Promise.all([
+      const [storyStats, context, currentChapter, votingStats] = await Promise.all([
         StoryStateManager.getStoryStats(postId),
         StoryStateManager.getStoryContext(postId),
         StoryStateManager.getCurrentChapter(postId),
+        VotingManager.getStoryVotingStats(postId),
       ]);
 
       // Get voting statistics for current chapter
@@ -323,16 +418,14 @@ What do you choose to do?`,
         votingActive = session?.status === 'active';
       }
 
-      // Calculate engagement metrics
+      // Engagement is the current round; the other totals span every chapter of the story
       const currentEngagement = currentVotingStats?.totalVotes || 0;
-      const averageVotesPerChapter =
-        storyStats.totalChapters > 0 ? Math.round(currentEngagement / storyStats.totalChapters) : 0;
 
       const stats: AdminStats = {
         totalChapters: storyStats.totalChapters,
-        totalVotes: currentVotingStats?.totalVotes || 0,
-        uniqueParticipants: currentVotingStats?.uniqueVoters || 0,
-        averageVotesPerChapter,
+        totalVotes: votingStats.totalVotes,
+        uniqueParticipants: votingStats.uniqueParticipants,
+        averageVotesPerChapter: votingStats.averageVotesPerChapter,
         storyDuration: storyStats.storyAge,
         currentEngagement,
         ...(context?.storyStartTime && { storyStartTime: context.storyStartTime }),
@@ -355,15 +448,11 @@ What do you choose to do?`,
    */
   static async flagContent(
     postId: string,
-    adminKey: string,
+    actor: string,
     targetType: 'chapter' | 'choice' | 'story',
     targetId: string,
     reason: string
   ): Promise<{ success: boolean; reportId?: string; error?: string }> {
-    if (!this.validateAdminKey(adminKey)) {
-      return { success: false, error: 'Invalid admin credentials' };
-    }
-
     try {
       const reportId = `report_${Date.now()}_${Math.random().toString(36).substring(2, 11)}`;
       const report: ModerationReport = {
@@ -391,7 +480,7 @@ What do you choose to do?`,
       await redis.expire(reportsIndexKey, 86400 * 7);
 
       // Log admin action
-      await this.logAdminAction(postId, 'flag_content', {
+      await this.logAdminAction(postId, actor, 'flag_content', {
         reportId,
         targetType,
         targetId,
@@ -413,15 +502,10 @@ What do you choose to do?`,
    */
   static async resolveReport(
     postId: string,
-    adminKey: string,
+    actor: string,
     reportId: string,
-    action: 'approve' | 'remove' | 'dismiss',
-    moderatorId: string
+    action: 'approve' | 'remove' | 'dismiss'
   ): Promise<{ success: boolean; error?: string }> {
-    if (!this.validateAdminKey(adminKey)) {
-      return { success: false, error: 'Invalid admin credentials' };
-    }
-
     try {
       const reportKey = `${this.MODERATION_PREFIX}:${postId}:reports:${reportId}`;
       const reportData = await redis.get(reportKey);
@@ -435,7 +519,7 @@ What do you choose to do?`,
         ...report,
         reportedAt: new Date(report.reportedAt),
         status: action === 'dismiss' ? 'dismissed' : 'resolved',
-        moderatedBy: moderatorId,
+        moderatedBy: actor,
         moderatedAt: new Date(),
       };
 
@@ -449,10 +533,9 @@ What do you choose to do?`,
       );
 
       // Log admin action
-      await this.logAdminAction(postId, 'resolve_report', {
+      await this.logAdminAction(postId, actor, 'resolve_report', {
         reportId,
         action,
-        moderatorId,
       });
 
       return { success: true };
@@ -468,10 +551,7 @@ What do you choose to do?`,
   /**
    * Gets moderation statistics
    */
-  static async getModerationStats(
-    postId: string,
-    adminKey: string
-  ): Promise<{
+  static async getModerationStats(postId: string): Promise<{
     success: boolean;
     stats?: {
       totalReports: number;
@@ -481,10 +561,6 @@ What do you choose to do?`,
     };
     error?: string;
   }> {
-    if (!this.validateAdminKey(adminKey)) {
-      return { success: false, error: 'Invalid admin credentials' };
-    }
-
     try {
       const reportsIndexKey = `${this.MODERATION_PREFIX}:${postId}:reports_index`;
       const reportsIndex = await redis.hGetAll(reportsIndexKey);
@@ -539,24 +615,27 @@ What do you choose to do?`,
   }
 
   /**
-   * Logs administrative actions for audit trail
+   * Logs administrative actions for audit trail, attributed to the acting moderator
    */
-  private static async logAdminAction(
+  static async logAdminAction(
     postId: string,
+    username: string,
     action: string,
     details: Record<string, any>
   ): Promise<void> {
     try {
       const logKey = `${this.ADMIN_PREFIX}:${postId}:actions`;
-      const timestamp = Date.now().toString();
+      // Random suffix so actions logged in the same millisecond don't overwrite each other
+      const entryKey = `${Date.now()}_${Math.random().toString(36).substring(2, 11)}`;
 
       const logEntry = {
         action,
+        username,
         timestamp: new Date().toISOString(),
         details,
       };
 
-      await redis.hSet(logKey, { [timestamp]: JSON.stringify(logEntry) });
+      await redis.hSet(logKey, { [entryKey]: JSON.stringify(logEntry) });
       await redis.expire(logKey, 86400 * 30); // 30 days TTL
     } catch (error) {
       console.error('Error logging admin action:', error);
@@ -566,22 +645,11 @@ What do you choose to do?`,
   /**
    * Gets admin action logs
    */
-  static async getAdminLogs(
-    postId: string,
-    adminKey: string
-  ): Promise<{
+  static async getAdminLogs(postId: string): Promise<{
     success: boolean;
-    logs?: Array<{
-      action: string;
-      timestamp: Date;
-      details: Record<string, any>;
-    }>;
+    logs?: AdminLogEntry[];
     error?: string;
   }> {
-    if (!this.validateAdminKey(adminKey)) {
-      return { success: false, error: 'Invalid admin credentials' };
-    }
-
     try {
       const logKey = `${this.ADMIN_PREFIX}:${postId}:actions`;
       const logsData = await redis.hGetAll(logKey);
@@ -592,8 +660,10 @@ What do you choose to do?`,
             const log = JSON.parse(logJson);
             return {
               ...log,
+              // Entries logged before moderator attribution have no username
+              username: log.username || 'unknown',
               timestamp: new Date(log.timestamp),
-            };
+            } as AdminLogEntry;
           } catch (error) {
             console.error('Error parsing log entry:', error);
             return null;
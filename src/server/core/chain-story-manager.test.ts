@@ -0,0 +1,45 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { MemoryPlatform } from '../test/memory-platform';
+import { installMemoryPost, resetMemoryPlatform } from '../test/story-fixtures';
+import { RedditErrorHandler } from '../utils/reddit-error-handler';
+import { ChainStoryManager } from './chain-story-manager.js';
+
+let platform: MemoryPlatform;
+let postId: string;
+
+describe('ChainStoryManager', () => {
+  beforeEach(async () => {
+    ({ platform, postId } = await installMemoryPost());
+  });
+
+  afterEach(resetMemoryPlatform);
+
+  it("keeps a round's submissions when its comments can't be read", async () => {
+    const story = await ChainStoryManager.startStory(postId);
+    await platform.reddit.submitComment({
+      id: postId as `t3_${string}`,
+      text: '[Round 1] The lights went out one by one.',
+    });
+    const afterRound = new Date(new Date(story.roundEndsAt).getTime() + 1000);
+    vi.spyOn(RedditErrorHandler, 'getComments').mockRejectedValueOnce(new Error('502 Bad Gateway'));
+
+    await expect(ChainStoryManager.resolveRound(postId, 1, afterRound)).rejects.toThrow(
+      '502 Bad Gateway'
+    );
+
+    expect(await ChainStoryManager.getStory(postId)).toMatchObject({
+      roundNumber: 1,
+      sentences: [],
+    });
+    const retry = platform.scheduler
+      .jobsNamed(ChainStoryManager.JOB_NAME)
+      .filter((job) => job.runAt.getTime() !== new Date(story.roundEndsAt).getTime());
+    expect(retry).toHaveLength(1);
+    expect(retry[0]?.data).toEqual({ postId, roundNumber: 1 });
+
+    // The resolve lock was released, so the retry goes through
+    const result = await ChainStoryManager.resolveRound(postId, 1, afterRound);
+    expect(result.resolved).toBe(true);
+    expect(result.sentence?.text).toBe('The lights went out one by one.');
+  });
+});
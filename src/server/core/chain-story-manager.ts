@@ -0,0 +1,382 @@
+/**
+ * Chain Story mode for The Haunted Thread
+ * Users submit sentences as "[Round N]" comments; the top-scored comment of each round
+ * is appended to the story until it reaches its sentence limit
+ */
+
+import { redis, scheduler } from '../platform';
+import {
+  CHAIN_STORY_RULES,
+  ChainSentence,
+  ChainStory,
+  ChainStoryValidator,
+  ChainSubmission,
+} from '../../shared/types/chain-story.js';
+import { ContentModerator } from './content-moderator.js';
+import { PostConfigManager } from './post-config-manager.js';
+import { RealtimeManager } from './realtime-manager.js';
+import { RedditErrorHandler } from '../utils/reddit-error-handler';
+import { ErrorLogger } from '../utils/error-handler';
+
+export interface ChainRoundResult {
+  resolved: boolean;
+  reason: string;
+  sentence?: ChainSentence;
+  completed?: boolean;
+}
+
+export class ChainStoryManager {
+  static readonly JOB_NAME = 'resolve-chain-round';
+  private static readonly STORY_PREFIX = 'haunted_thread:chain_story';
+  private static readonly SUBMISSION_PREFIX = 'haunted_thread:chain_story:submissions';
+  private static readonly ARCHIVE_PREFIX = 'haunted_thread:chain_story:archive';
+  private static readonly RESOLVE_PREFIX = 'haunted_thread:chain_story:resolve';
+  private static readonly SUBMISSION_TTL = 86400 * 7; // 7 days
+  /** How long after a failed resolution the round is tried again */
+  static readonly RETRY_DELAY_MS = 60 * 1000;
+
+  /**
+   * Gets the post's current chain story, if one has been started
+   */
+  static async getStory(postId: string): Promise<ChainStory | null> {
+    const data = await redis.get(`${this.STORY_PREFIX}:${postId}`);
+    return data ? (JSON.parse(data) as ChainStory) : null;
+  }
+
+  /**
+   * Gets the post's current chain story, starting one if none exists
+   */
+  static async getOrStartStory(postId: string): Promise<ChainStory> {
+    return (await this.getStory(postId)) || this.startStory(postId);
+  }
+
+  /**
+   * Starts a blank chain story and schedules its first round
+   */
+  static async startStory(postId: string): Promise<ChainStory> {
+    const now = new Date();
+    const story: ChainStory = {
+      id: `chain_${now.getTime()}`,
+      postId,
+      sentences: [],
+      roundNumber: 1,
+      roundEndsAt: (await this.getRoundEnd(postId, now)).toISOString(),
+      totalVotes: 0,
+      contributors: [],
+      status: 'active',
+      createdAt: now.toISOString(),
+    };
+
+    await this.saveStory(story);
+    await this.scheduleRound(story);
+
+    ErrorLogger.logInfo('Chain story started', { postId, storyId: story.id });
+
+    return story;
+  }
+
+  /**
+   * Gets the submissions made through the app for the current round of a story
+   */
+  static async getSubmissions(story: ChainStory): Promise<ChainSubmission[]> {
+    const submissions = await redis.hGetAll(this.getSubmissionsKey(story));
+    return Object.values(submissions)
+      .map((data) => JSON.parse(data) as ChainSubmission)
+      .sort((a, b) => a.submittedAt.localeCompare(b.submittedAt));
+  }
+
+  /**
+   * Validates and moderates a sentence, then posts it as a "[Round N]" comment.
+   * Each user may submit one sentence per round.
+   */
+  static async submitSentence(
+    postId: string,
+    username: string,
+    sentence: string
+  ): Promise<{ success: boolean; submission?: ChainSubmission; error?: string }> {
+    const validation = ChainStoryValidator.validateSentence(sentence);
+    if (!validation.isValid) {
+      return { success: false, error: validation.errors.join('; ') };
+    }
+
+    const story = await this.getOrStartStory(postId);
+    if (story.status !== 'active') {
+      return { success: false, error: 'This story is complete and no longer accepts sentences' };
+    }
+
+    const submissionsKey = this.getSubmissionsKey(story);
+    const authorsKey = `${submissionsKey}:authors`;
+    const alreadySubmitted = {
+      success: false,
+      error: `You already submitted a sentence for round ${story.roundNumber}`,
+    };
+    if (await redis.hGet(authorsKey, username)) {
+      return alreadySubmitted;
+    }
+
+    const moderation = await ContentModerator.moderateText(sentence.trim(), postId);
+    if (moderation.violations.some((violation) => violation.action === 'block')) {
+      return { success: false, error: 'Sentence contains content that is not allowed' };
+    }
+    const text = (moderation.filteredContent || sentence).trim();
+
+    // Claim the author's slot before posting, so two submissions sent at once can't both land
+    if (!(await redis.hSetNX(authorsKey, username, 'pending'))) {
+      return alreadySubmitted;
+    }
+    await redis.expire(authorsKey, this.SUBMISSION_TTL);
+
+    let comment: { id: string };
+    try {
+      comment = await RedditErrorHandler.safeSubmitComment(
+        postId,
+        ChainStoryValidator.formatRoundComment(story.roundNumber, text)
+      );
+    } catch (error) {
+      // The sentence never made it to the thread; let the author try again
+      await redis.hDel(authorsKey, [username]);
+      throw error;
+    }
+
+    const submission: ChainSubmission = {
+      commentId: comment.id,
+      author: username,
+      text,
+      round: story.roundNumber,
+      submittedAt: new Date().toISOString(),
+    };
+
+    await redis.hSet(submissionsKey, { [comment.id]: JSON.stringify(submission) });
+    await redis.hSet(authorsKey, { [username]: comment.id });
+    await redis.expire(submissionsKey, this.SUBMISSION_TTL);
+
+    ErrorLogger.logInfo('Chain sentence submitted', {
+      postId,
+      storyId: story.id,
+      round: story.roundNumber,
+      commentId: comment.id,
+      username,
+    });
+
+    return { success: true, submission };
+  }
+
+  /**
+   * Resolves an expired round: appends the top-scored "[Round N]" comment (or the fallback
+   * sentence), then completes the story or opens the next round. Safe to call more than once.
+   * If the round's comments can't be read, it stays open, another try is scheduled and the
+   * error is rethrown.
+   */
+  static async resolveRound(
+    postId: string,
+    roundNumber: number,
+    now: Date = new Date()
+  ): Promise<ChainRoundResult> {
+    const story = await this.getStory(postId);
+    if (!story || story.status !== 'active') {
+      return { resolved: false, reason: 'No active chain story' };
+    }
+
+    if (story.roundNumber !== roundNumber) {
+      return { resolved: false, reason: `Round ${roundNumber} is not the current round` };
+    }
+
+    if (new Date(story.roundEndsAt).getTime() > now.getTime()) {
+      return { resolved: false, reason: 'Round has not ended yet' };
+    }
+
+    // Only the first resolver of a round proceeds
+    const resolveKey = `${this.RESOLVE_PREFIX}:${postId}:${story.id}:${roundNumber}`;
+    const attempt = await redis.incrBy(resolveKey, 1);
+    await redis.expire(resolveKey, 3600);
+    if (attempt > 1) {
+      return { resolved: false, reason: 'Round is already being resolved' };
+    }
+
+    // Until the round is saved, any error puts it back for another try; appending the fallback
+    // sentence instead would lose the round's submissions for good
+    let settled = false;
+    try {
+      const sentence = (await this.pickWinningSentence(postId, story)) || {
+        text: CHAIN_STORY_RULES.fallbackSentence,
+        author: 'system',
+        round: roundNumber,
+        score: 0,
+        addedAt: now.toISOString(),
+      };
+
+      story.sentences.push(sentence);
+      story.totalVotes += sentence.score;
+      if (sentence.author !== 'system' && !story.contributors.includes(sentence.author)) {
+        story.contributors.push(sentence.author);
+      }
+
+      const completed = story.sentences.length >= CHAIN_STORY_RULES.maxSentences;
+      if (completed) {
+        story.status = 'completed';
+        story.completedAt = now.toISOString();
+      } else {
+        story.roundNumber += 1;
+        story.roundEndsAt = (await this.getRoundEnd(postId, now)).toISOString();
+      }
+
+      await this.saveStory(story);
+      settled = true;
+
+      await RealtimeManager.broadcastMessage(postId, {
+        type: 'chain_sentence_added',
+        timestamp: now,
+        data: { story, sentence },
+      });
+
+      if (completed) {
+        await this.archiveStory(story);
+        await RealtimeManager.broadcastMessage(postId, {
+          type: 'chain_story_completed',
+          timestamp: now,
+          data: { story },
+        });
+        await this.startStory(postId);
+      } else {
+        await this.scheduleRound(story);
+      }
+
+      ErrorLogger.logInfo('Chain round resolved', {
+        postId,
+        storyId: story.id,
+        round: roundNumber,
+        author: sentence.author,
+        score: sentence.score,
+        completed,
+      });
+
+      return {
+        resolved: true,
+        reason: completed ? 'Story completed' : 'Sentence added',
+        sentence,
+        completed,
+      };
+    } finally {
+      if (!settled) {
+        await this.reopenFailedRound(postId, story.id, roundNumber);
+      }
+    }
+  }
+
+  /**
+   * Lists the post's completed chain stories, newest first
+   */
+  static async getArchivedStories(postId: string): Promise<ChainStory[]> {
+    const archive = await redis.hGetAll(`${this.ARCHIVE_PREFIX}:${postId}`);
+    return Object.values(archive)
+      .map((data) => JSON.parse(data) as ChainStory)
+      .sort((a, b) => (b.completedAt || '').localeCompare(a.completedAt || ''));
+  }
+
+  /**
+   * Picks the highest-scored valid comment for the story's current round.
+   * Ties go to the earliest comment; blocked or malformed sentences are skipped.
+   */
+  private static async pickWinningSentence(
+    postId: string,
+    story: ChainStory
+  ): Promise<ChainSentence | null> {
+    const submissions = new Map(
+      (await this.getSubmissions(story)).map((submission) => [submission.commentId, submission])
+    );
+    const comments = await RedditErrorHandler.getComments(postId, { sort: 'new', limit: 500 });
+    const storyStart = new Date(story.createdAt).getTime();
+
+    const candidates = comments
+      .map((comment) => ({ comment, parsed: ChainStoryValidator.parseRoundComment(comment.body) }))
+      .filter(
+        ({ comment, parsed }) =>
+          parsed?.round === story.roundNumber &&
+          new Date(comment.createdAt).getTime() >= storyStart &&
+          ChainStoryValidator.validateSentence(parsed.sentence).isValid
+      )
+      .sort(
+        (a, b) =>
+          b.comment.score - a.comment.score ||
+          a.comment.createdAt.localeCompare(b.comment.createdAt)
+      );
+
+    for (const { comment, parsed } of candidates) {
+      if (!parsed) continue;
+
+      const moderation = await ContentModerator.moderateText(parsed.sentence, postId);
+      if (moderation.violations.some((violation) => violation.action === 'block')) continue;
+
+      // Sentences submitted through the app are posted by the app account
+      const submission = submissions.get(comment.id);
+      return {
+        text: (moderation.filteredContent || parsed.sentence).trim(),
+        author: submission?.author || comment.authorName,
+        round: story.roundNumber,
+        score: comment.score,
+        commentId: comment.id,
+        addedAt: new Date().toISOString(),
+      };
+    }
+
+    return null;
+  }
+
+  private static async getRoundEnd(postId: string, from: Date): Promise<Date> {
+    const { votingDurationMinutes } = await PostConfigManager.getConfig(postId);
+    return new Date(from.getTime() + votingDurationMinutes * 60 * 1000);
+  }
+
+  private static async scheduleRound(story: ChainStory): Promise<void> {
+    try {
+      await scheduler.runJob({
+        name: this.JOB_NAME,
+        data: { postId: story.postId, roundNumber: story.roundNumber },
+        runAt: new Date(story.roundEndsAt),
+      });
+    } catch (error) {
+      // Without the scheduler, expired rounds are resolved when the story is next fetched
+      ErrorLogger.logWarning('Failed to schedule chain round resolution', {
+        postId: story.postId,
+        round: story.roundNumber,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+
+  // Releases the resolve lock and schedules another try so the round doesn't stay stuck
+  private static async reopenFailedRound(
+    postId: string,
+    storyId: string,
+    roundNumber: number
+  ): Promise<void> {
+    try {
+      await redis.del(`${this.RESOLVE_PREFIX}:${postId}:${storyId}:${roundNumber}`);
+      await scheduler.runJob({
+        name: this.JOB_NAME,
+        data: { postId, roundNumber },
+        runAt: new Date(Date.now() + this.RETRY_DELAY_MS),
+      });
+    } catch (error) {
+      ErrorLogger.logWarning('Failed to reopen chain round after a failed resolution', {
+        postId,
+        round: roundNumber,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+
+  private static async saveStory(story: ChainStory): Promise<void> {
+    await redis.set(`${this.STORY_PREFIX}:${story.postId}`, JSON.stringify(story));
+  }
+
+  private static async archiveStory(story: ChainStory): Promise<void> {
+    await redis.hSet(`${this.ARCHIVE_PREFIX}:${story.postId}`, {
+      [story.id]: JSON.stringify(story),
+    });
+  }
+
+  private static getSubmissionsKey(story: ChainStory): string {
+    return `${this.SUBMISSION_PREFIX}:${story.postId}:${story.id}:${story.roundNumber}`;
+  }
+}
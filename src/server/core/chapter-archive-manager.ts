@@ -0,0 +1,250 @@
+/**
+ * Permanent chapter archive for The Haunted Thread
+ * Snapshots each chapter's final tallies when its vote closes so history survives the vote TTLs
+ */
+
+import { redis } from '../platform';
+import {
+  ChapterArchiveRecord,
+  StoryPathRecord,
+  StoryPathSummary,
+} from '../../shared/types/archive.js';
+import { StoryEnding } from '../../shared/types/story.js';
+import { StoryStateManager } from './story-state-manager.js';
+import { VotingManager } from './voting-manager.js';
+
+export class ChapterArchiveManager {
+  private static readonly ARCHIVE_PREFIX = 'haunted_thread:archive';
+  // Counts story restarts; each playthrough archives its chapters under its own number
+  private static readonly PLAYTHROUGH_PREFIX = 'haunted_thread:archive_playthrough';
+  // Path records outlive story restarts so completed runs stay replayable
+  private static readonly PATH_RECORD_PREFIX = 'haunted_thread:path_record';
+
+  /**
+   * Records a completed chapter. The first record for a chapter wins; later calls
+   * return it unchanged.
+   */
+  static async archiveChapter(
+    postId: string,
+    chapterId: string,
+    winningChoice: string
+  ): Promise<ChapterArchiveRecord | null> {
+    const archiveKey = this.getArchiveKey(postId, await this.getPlaythrough(postId));
+
+    const existing = await this.getChapterRecord(postId, chapterId);
+    if (existing) return existing;
+
+    const [chapter, session, voteCounts, stats, participants] = await Promise.all([
+      StoryStateManager.getChapter(postId, chapterId),
+      VotingManager.getVotingSession(postId, chapterId),
+      VotingManager.getVoteCounts(postId, chapterId),
+      VotingManager.getVotingStats(postId, chapterId),
+      VotingManager.getChapterVoters(postId, chapterId),
+    ]);
+
+    if (!chapter) {
+      console.error(`Cannot archive chapter ${chapterId}: chapter not found`);
+      return null;
+    }
+
+    const archivedAt = new Date();
+    const record: ChapterArchiveRecord = {
+      chapterId,
+      chapter,
+      pathPosition: chapter.metadata.pathPosition,
+      winningChoice,
+      winningChoiceText:
+        chapter.choices.find((choice) => choice.id === winningChoice)?.text || winningChoice,
+      voteCounts,
+      // A forced advance can pick a choice other than the vote leader
+      stats: {
+        ...(stats || {
+          totalVotes: 0,
+          uniqueVoters: 0,
+          votingDuration: 0,
+          winningPercentage: 0,
+        }),
+        winningChoice,
+        ...(stats?.winningChoice !== winningChoice && {
+          winningPercentage:
+            voteCounts.find((count) => count.choiceId === winningChoice)?.percentage || 0,
+        }),
+      },
+      participants,
+      votingStartTime: session?.startTime || chapter.metadata.votingStartTime,
+      votingEndTime: archivedAt,
+      archivedAt,
+    };
+
+    const written = await redis.hSetNX(archiveKey, chapterId, JSON.stringify(record));
+    if (!written) {
+      // Another close got there first
+      return this.getChapterRecord(postId, chapterId);
+    }
+
+    return record;
+  }
+
+  static async getChapterRecord(
+    postId: string,
+    chapterId: string
+  ): Promise<ChapterArchiveRecord | null> {
+    const archiveKey = this.getArchiveKey(postId, await this.getPlaythrough(postId));
+    const data = await redis.hGet(archiveKey, chapterId);
+    return data ? this.parseRecord(data) : null;
+  }
+
+  /**
+   * Gets every archived chapter of a playthrough (the current one by default) in path order
+   */
+  static async getStoryArchive(
+    postId: string,
+    playthrough?: number
+  ): Promise<ChapterArchiveRecord[]> {
+    const archiveKey = this.getArchiveKey(
+      postId,
+      playthrough ?? (await this.getPlaythrough(postId))
+    );
+    const data = await redis.hGetAll(archiveKey);
+
+    return Object.values(data)
+      .map((raw) => this.parseRecord(raw))
+      .filter((record): record is ChapterArchiveRecord => record !== null)
+      .sort((a, b) => a.pathPosition - b.pathPosition);
+  }
+
+  /**
+   * Number of the story's current playthrough, counting from 0
+   */
+  static async getPlaythrough(postId: string): Promise<number> {
+    return parseInt((await redis.get(`${this.PLAYTHROUGH_PREFIX}:${postId}`)) || '0');
+  }
+
+  /**
+   * Moves a restarted story on to an empty archive; earlier playthroughs stay readable
+   */
+  static async startNewPlaythrough(postId: string): Promise<number> {
+    return redis.incrBy(`${this.PLAYTHROUGH_PREFIX}:${postId}`, 1);
+  }
+
+  /**
+   * Removes every playthrough's archive when a story is restarted without keeping its history
+   */
+  static async clearStoryArchive(postId: string): Promise<void> {
+    const current = await this.getPlaythrough(postId);
+    for (let playthrough = 0; playthrough <= current; playthrough++) {
+      await redis.del(this.getArchiveKey(postId, playthrough));
+    }
+    await redis.del(`${this.PLAYTHROUGH_PREFIX}:${postId}`);
+  }
+
+  /**
+   * Stores a finished run from the archived chapters. Running the same path again
+   * replaces the older run.
+   */
+  static async recordCompletedPath(
+    postId: string,
+    pathId: string,
+    choices: string[],
+    ending: StoryEnding,
+    startedAt: Date
+  ): Promise<StoryPathRecord> {
+    const record: StoryPathRecord = {
+      pathId,
+      choices,
+      chapters: await this.getStoryArchive(postId),
+      ending,
+      startedAt,
+      completedAt: new Date(),
+    };
+
+    await redis.hSet(`${this.PATH_RECORD_PREFIX}:${postId}`, {
+      [pathId]: JSON.stringify(record),
+    });
+    return record;
+  }
+
+  static async getPathRecord(postId: string, pathId: string): Promise<StoryPathRecord | null> {
+    const data = await redis.hGet(`${this.PATH_RECORD_PREFIX}:${postId}`, pathId);
+    return data ? this.parsePathRecord(data) : null;
+  }
+
+  /**
+   * Lists the post's completed runs, most recent first
+   */
+  static async getPathSummaries(postId: string): Promise<StoryPathSummary[]> {
+    const data = await redis.hGetAll(`${this.PATH_RECORD_PREFIX}:${postId}`);
+
+    return Object.values(data)
+      .map((raw) => this.parsePathRecord(raw))
+      .filter((record): record is StoryPathRecord => record !== null)
+      .sort((a, b) => b.completedAt.getTime() - a.completedAt.getTime())
+      .map((record) => ({
+        pathId: record.pathId,
+        endingTitle: record.ending.title,
+        endingType: record.ending.type,
+        chapterCount: record.chapters.length,
+        completedAt: record.completedAt,
+      }));
+  }
+
+  /**
+   * Removes the replayable runs when a story is restarted without keeping its history
+   */
+  static async clearPathRecords(postId: string): Promise<void> {
+    await redis.del(`${this.PATH_RECORD_PREFIX}:${postId}`);
+  }
+
+  private static getArchiveKey(postId: string, playthrough: number): string {
+    return `${this.ARCHIVE_PREFIX}:${postId}:${playthrough}`;
+  }
+
+  private static parsePathRecord(data: string): StoryPathRecord | null {
+    try {
+      const record = JSON.parse(data);
+      return {
+        ...record,
+        chapters: record.chapters.map((chapter: ChapterArchiveRecord) =>
+          this.reviveRecord(chapter)
+        ),
+        startedAt: new Date(record.startedAt),
+        completedAt: new Date(record.completedAt),
+      };
+    } catch (error) {
+      console.error('Error parsing story path record:', error);
+      return null;
+    }
+  }
+
+  private static parseRecord(data: string): ChapterArchiveRecord | null {
+    try {
+      return this.reviveRecord(JSON.parse(data));
+    } catch (error) {
+      console.error('Error parsing chapter archive record:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Turns the date strings of a stored chapter record back into Dates
+   */
+  private static reviveRecord(record: ChapterArchiveRecord): ChapterArchiveRecord {
+    return {
+      ...record,
+      chapter: {
+        ...record.chapter,
+        metadata: {
+          ...record.chapter.metadata,
+          createdAt: new Date(record.chapter.metadata.createdAt),
+          votingStartTime: new Date(record.chapter.metadata.votingStartTime),
+          ...(record.chapter.metadata.votingEndTime && {
+            votingEndTime: new Date(record.chapter.metadata.votingEndTime),
+          }),
+        },
+      },
+      votingStartTime: new Date(record.votingStartTime),
+      votingEndTime: new Date(record.votingEndTime),
+      archivedAt: new Date(record.archivedAt),
+    };
+  }
+}
@@ -0,0 +1,538 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { installMemoryPlatform, MemoryPlatform } from '../test/memory-platform';
+import { resetMemoryPlatform } from '../test/story-fixtures';
+import { ErrorLogger } from '../utils/error-handler';
+import { ContentModerator } from './content-moderator.js';
+import { PostConfigManager } from './post-config-manager.js';
+import { StoryPackManager } from './story-pack-manager.js';
+import { StoryContentManager } from './story-content-manager.js';
+import { StoryChapter } from '../../shared/types/story.js';
+import { StoryPack } from '../../shared/types/story-pack.js';
+
+const postId = 't3_moderated';
+let platform: MemoryPlatform;
+
+describe('ContentModerator', () => {
+  beforeEach(() => {
+    platform = installMemoryPlatform();
+  });
+
+  afterEach(resetMemoryPlatform);
+
+  describe('moderateText', () => {
+    it('passes clean text through untouched', async () => {
+      const result = await ContentModerator.moderateText('The candle flickers in the attic.');
+
+      expect(result).toEqual({
+        isClean: true,
+        violations: [],
+        filteredContent: undefined,
+        requiresReview: false,
+        exceptions: [],
+      });
+    });
+
+    it('censors low-severity profanity without asking for review', async () => {
+      const result = await ContentModerator.moderateText('Oh shit, the door is locked.');
+
+      expect(result.isClean).toBe(false);
+      expect(result.filteredContent).toBe('Oh [censored], the door is locked.');
+      expect(result.requiresReview).toBe(false);
+      expect(result.violations).toEqual([
+        {
+          rule: 'profanity_mild',
+          type: 'profanity',
+          severity: 'low',
+          match: 'shit',
+          action: 'replace',
+          position: 3,
+        },
+      ]);
+    });
+
+    it('flags spam for review', async () => {
+      const result = await ContentModerator.moderateText('Buy now for more scares');
+
+      expect(result.requiresReview).toBe(true);
+      expect(result.violations.map((violation) => violation.type)).toEqual(['spam']);
+    });
+  });
+
+  describe('evasion', () => {
+    it.each([
+      ['leetspeak', 'sh1t'],
+      ['homoglyphs', 'ѕhіt'],
+      ['full-width letters', 'ｓｈｉｔ'],
+      ['zero-width characters', 'sh\u200bi\u200dt'],
+      ['accents', 'shït'],
+      ['inserted punctuation', 's.h.i.t'],
+      ['spaced-out letters', 's h i t'],
+      ['stretched letters', 'shiiiiit'],
+    ])('catches %s', async (_, word) => {
+      const result = await ContentModerator.moderateText(`Well ${word}, the lights went out`);
+
+      expect(result.violations).toEqual([
+        {
+          rule: 'profanity_mild',
+          type: 'profanity',
+          severity: 'low',
+          match: word,
+          action: 'replace',
+          position: 5,
+        },
+      ]);
+      expect(result.filteredContent).toBe('Well [censored], the lights went out');
+    });
+
+    it('blocks harassment written with punctuation between the letters', async () => {
+      const result = await ContentModerator.validateContent('just k.y.s already', 'choice');
+
+      expect(result.isValid).toBe(false);
+      expect(result.violations).toEqual(['harassment (high): "k.y.s"']);
+    });
+
+    it('replaces every disguised match at its original position', async () => {
+      const result = await ContentModerator.moderateText('SH1T, 🕯️ the ѕhiiit candle');
+
+      expect(result.filteredContent).toBe('[censored], 🕯️ the [censored] candle');
+      expect(result.violations.map((violation) => violation.position)).toEqual([0, 14]);
+    });
+
+    it('leaves numbers, prices and ordinary doubled letters alone', async () => {
+      const result = await ContentModerator.moderateText(
+        'Room 101 costs $5 (100% haunted) - assess the class, a b or c!'
+      );
+
+      expect(result.isClean).toBe(true);
+    });
+  });
+
+  describe('context exceptions', () => {
+    it("lets the story pack's vocabulary through and says why", async () => {
+      const result = await ContentModerator.moderateText('Go to hell, the dolls whisper. Die.');
+
+      expect(result.isClean).toBe(true);
+      expect(result.exceptions).toEqual([
+        {
+          rule: 'profanity_mild',
+          type: 'profanity',
+          match: 'hell',
+          position: 6,
+          reason: 'story_vocabulary',
+          explanation: `"hell" is in the story pack's vocabulary`,
+        },
+        expect.objectContaining({ rule: 'death_wish', match: 'Die', reason: 'story_vocabulary' }),
+      ]);
+    });
+
+    it('still blocks harassment the vocabulary does not cover', async () => {
+      const result = await ContentModerator.moderateText('Die in hell, kys');
+
+      expect(result.violations).toEqual([
+        expect.objectContaining({ rule: 'harassment', match: 'kys', action: 'block' }),
+      ]);
+    });
+
+    it('allows phrases a rule excepts when the pack has no vocabulary', async () => {
+      // The opening branch alone, every choice ending the story
+      const builtIn = StoryContentManager.getPack();
+      const opening = builtIn.branches[0]!;
+      const plainPack: StoryPack = {
+        ...builtIn,
+        id: 'plain-thread',
+        branches: [
+          {
+            ...opening,
+            choices: opening.choices.map(({ id, text }) => ({
+              id,
+              text,
+              endingId: builtIn.endings[0]!.id,
+            })),
+          },
+        ],
+      };
+      delete plainPack.vocabulary;
+      await StoryPackManager.savePack(plainPack);
+      await StoryPackManager.setPackForPost(postId, 'plain-thread');
+
+      const result = await ContentModerator.moderateText('Do or die. Now die.', postId);
+
+      expect(result.violations).toEqual([
+        expect.objectContaining({ rule: 'death_wish', match: 'die', position: 15 }),
+      ]);
+      expect(result.exceptions).toEqual([
+        expect.objectContaining({
+          rule: 'death_wish',
+          position: 6,
+          reason: 'allowed_phrase',
+          explanation: '"die" is part of the allowed phrase "Do or die"',
+        }),
+      ]);
+      // A threat is not an idiom
+      const threat = await ContentModerator.moderateText('You will die tonight.', postId);
+      expect(threat.violations).toEqual([
+        expect.objectContaining({ rule: 'death_wish', match: 'die', action: 'block' }),
+      ]);
+    });
+
+    it('only applies player-scoped rules to player-written text', async () => {
+      const chapter = {
+        title: 'Hellfire',
+        content: 'Damn this house. Buy now, before the graphic violence begins.',
+        choices: [{ id: 'run', text: 'Run, you bastard' }],
+      } as StoryChapter;
+
+      const result = await ContentModerator.moderateChapter(chapter, postId);
+
+      expect(result.violations).toEqual([
+        expect.objectContaining({ rule: 'violence_graphic', match: 'graphic violence' }),
+      ]);
+      expect(result.exceptions.map(({ match, reason }) => [match, reason])).toEqual([
+        ['Damn', 'authored_content'],
+        ['Buy now', 'authored_content'],
+        ['bastard', 'authored_content'],
+      ]);
+      expect(
+        (await ContentModerator.moderateText('Run, you bastard', postId)).filteredContent
+      ).toBe('Run, you [censored]');
+    });
+
+    it('saves scope and allowed phrases on custom filters', async () => {
+      await ContentModerator.addCustomFilter(postId, {
+        pattern: 'blood',
+        matcher: 'keywords',
+        severity: 'medium',
+        action: 'flag',
+        scope: 'user',
+        allowedPhrases: ['blood moon'],
+      });
+
+      const [filter] = await ContentModerator.listCustomFilters(postId);
+      expect(filter).toMatchObject({ scope: 'user', allowedPhrases: ['blood moon'] });
+
+      const result = await ContentModerator.moderateText('The blood moon drips blood', postId);
+      expect(result.violations).toEqual([
+        expect.objectContaining({ rule: filter!.id, match: 'blood', position: 21 }),
+      ]);
+      expect(result.exceptions).toEqual([
+        expect.objectContaining({ rule: filter!.id, position: 4, reason: 'allowed_phrase' }),
+      ]);
+
+      const authored = await ContentModerator.moderateText('blood', postId, 'authored');
+      expect(authored.isClean).toBe(true);
+    });
+
+    it('explains exceptions when validating content', async () => {
+      const result = await ContentModerator.validateContent('What the hell', 'choice');
+
+      expect(result).toEqual({
+        isValid: true,
+        violations: [],
+        requiresApproval: false,
+        exceptions: [`profanity_mild: "hell" is in the story pack's vocabulary`],
+      });
+    });
+  });
+
+  describe('validateContent', () => {
+    it('rejects content that matches a blocking filter', async () => {
+      const result = await ContentModerator.validateContent(
+        'A chapter full of graphic violence',
+        'chapter'
+      );
+
+      expect(result.isValid).toBe(false);
+      expect(result.requiresApproval).toBe(true);
+      expect(result.violations).toContain('violence (high): "graphic violence"');
+    });
+
+    it("applies the post's moderation strictness", async () => {
+      await PostConfigManager.setConfig(postId, { moderationStrictness: 'relaxed' });
+      const relaxed = await ContentModerator.validateContent('Oh shit', 'choice', postId);
+      expect(relaxed).toEqual({ isValid: true, violations: [], requiresApproval: false });
+
+      await PostConfigManager.setConfig(postId, { moderationStrictness: 'strict' });
+      const strict = await ContentModerator.validateContent('Buy now', 'choice', postId);
+      expect(strict.isValid).toBe(false);
+    });
+  });
+
+  describe('custom filters', () => {
+    it("applies a post's custom filters until they are removed", async () => {
+      const { filterId } = await ContentModerator.addCustomFilter(postId, {
+        pattern: 'pumpkin spice',
+        severity: 'medium',
+        action: 'replace',
+        replacement: '[seasonal]',
+      });
+
+      expect(await ContentModerator.getCustomFilters(postId)).toHaveLength(1);
+      const filtered = await ContentModerator.moderateText('Pumpkin spice everything', postId);
+      expect(filtered.filteredContent).toBe('[seasonal] everything');
+      expect(filtered.violations[0]).toMatchObject({ type: 'custom', match: 'Pumpkin spice' });
+
+      // Other posts keep the defaults only
+      expect((await ContentModerator.moderateText('Pumpkin spice', 't3_other')).isClean).toBe(true);
+
+      await ContentModerator.removeCustomFilter(postId, filterId!);
+      expect(await ContentModerator.getCustomFilters(postId)).toEqual([]);
+      expect((await ContentModerator.moderateText('Pumpkin spice', postId)).isClean).toBe(true);
+    });
+
+    it.each([
+      ['malformed', '(unclosed', /Invalid regular expression/],
+      ['nested repeats', '(a+)+$', /Nested repeats/],
+      ['repeated alternatives', '(a|aa)*b', /Repeated alternatives/],
+      ['backreferences', '(\\w)\\1', /Backreferences/],
+      ['huge repeat counts', 'a{1,5000}', /Repeat counts above/],
+    ])('refuses %s regex patterns', async (_, pattern, error) => {
+      const result = await ContentModerator.addCustomFilter(postId, {
+        pattern,
+        severity: 'low',
+        action: 'flag',
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toMatch(error);
+      expect(await ContentModerator.listCustomFilters(postId)).toEqual([]);
+    });
+
+    it('matches keyword lists as whole words, including phrases', async () => {
+      await ContentModerator.addCustomFilter(postId, {
+        pattern: 'spoiler, ending (revealed)',
+        matcher: 'keywords',
+        severity: 'medium',
+        action: 'flag',
+      });
+
+      const result = await ContentModerator.moderateText(
+        'SPOILERS aside, spoiler: ending (revealed) here',
+        postId
+      );
+
+      expect(result.violations.map((violation) => violation.match)).toEqual([
+        'spoiler',
+        'ending (revealed)',
+      ]);
+    });
+
+    it('expands wildcards within a word', async () => {
+      await ContentModerator.addCustomFilter(postId, {
+        pattern: 'spoil*, b?rn',
+        matcher: 'wildcard',
+        severity: 'medium',
+        action: 'replace',
+        replacement: '[hidden]',
+      });
+
+      const result = await ContentModerator.moderateText('Spoiled barn, spoil it. Burns', postId);
+
+      expect(result.filteredContent).toBe('[hidden] [hidden], [hidden] it. Burns');
+    });
+
+    it('skips stored patterns that are no longer considered safe', async () => {
+      await platform.redis.set(
+        `haunted_thread:filters:${postId}:filter_legacy`,
+        JSON.stringify({
+          type: 'custom',
+          pattern: '/(x+x+)+y/gi',
+          severity: 'high',
+          action: 'block',
+        })
+      );
+      await platform.redis.hSet(`haunted_thread:filters:${postId}:index`, {
+        filter_legacy: 'custom',
+      });
+      const warn = vi.spyOn(ErrorLogger, 'logWarning');
+
+      expect(await ContentModerator.listCustomFilters(postId)).toEqual([
+        expect.objectContaining({ id: 'filter_legacy', matcher: 'regex', pattern: '(x+x+)+y' }),
+      ]);
+      expect(await ContentModerator.getCustomFilters(postId)).toEqual([]);
+      expect(
+        (await ContentModerator.moderateText('xxxxxxxxxxxxxxxxxxxxxxxxxxxx', postId)).isClean
+      ).toBe(false);
+      await ContentModerator.moderateText('A quiet night.', postId);
+      const unsafe = warn.mock.calls.filter(([message]) => message.includes('unsafe pattern'));
+      expect(unsafe).toEqual([[expect.any(String), { matcher: 'regex', pattern: '(x+x+)+y' }]]);
+    });
+
+    it('previews a filter against sample text without saving it', async () => {
+      const preview = ContentModerator.previewFilter(
+        { pattern: 'cursed', matcher: 'keywords', action: 'replace', replacement: '[redacted]' },
+        'The cursed doll and the CURSED mirror'
+      );
+
+      expect(preview).toEqual({
+        isValid: true,
+        errors: [],
+        matches: [
+          { match: 'cursed', position: 4 },
+          { match: 'CURSED', position: 24 },
+        ],
+        filteredContent: 'The [redacted] doll and the [redacted] mirror',
+      });
+      expect(await ContentModerator.listCustomFilters(postId)).toEqual([]);
+      expect(
+        ContentModerator.previewFilter(
+          { pattern: '(a*)*', matcher: 'regex', action: 'flag' },
+          'aaa'
+        )
+      ).toMatchObject({ isValid: false, matches: [] });
+    });
+
+    it('restores regular expression filters from storage', async () => {
+      await ContentModerator.addCustomFilter(postId, {
+        pattern: /\bghou?ls?\b/gi,
+        severity: 'low',
+        action: 'flag',
+      });
+
+      const result = await ContentModerator.moderateText('Ghouls and ghosts', postId);
+
+      expect(result.violations.map((violation) => violation.match)).toEqual(['Ghouls']);
+    });
+  });
+
+  describe('reports', () => {
+    it('tracks reports from filing to resolution', async () => {
+      const first = await ContentModerator.reportContent(
+        postId,
+        'chapter',
+        'chapter_1',
+        'user_a',
+        'spam'
+      );
+      const second = await ContentModerator.reportContent(
+        postId,
+        'choice',
+        'choice_1',
+        'user_b',
+        'offensive',
+        'Rude choice text'
+      );
+      expect(first.success && second.success).toBe(true);
+
+      await ContentModerator.updateReportStatus(
+        postId,
+        first.reportId!,
+        'resolved',
+        'mod_a',
+        'Removed'
+      );
+      await ContentModerator.updateReportStatus(postId, second.reportId!, 'dismissed', 'mod_a');
+
+      const reports = await ContentModerator.getContentReports(postId);
+      expect(reports.find((report) => report.id === first.reportId)).toMatchObject({
+        status: 'resolved',
+        resolvedBy: 'mod_a',
+        moderatorNotes: 'Removed',
+      });
+      expect(await ContentModerator.getModerationStats(postId)).toEqual({
+        totalReports: 2,
+        pendingReports: 0,
+        resolvedReports: 1,
+        dismissedReports: 1,
+        reportsByType: { chapter: 1, choice: 1 },
+        reportsByStatus: { resolved: 1, dismissed: 1 },
+      });
+    });
+
+    it('lists pending reports for review', async () => {
+      await ContentModerator.reportContent(postId, 'choice', 'choice_1', 'user_a', 'offensive');
+
+      const awaiting = await ContentModerator.getContentAwaitingReview(postId);
+
+      expect(awaiting).toHaveLength(1);
+      expect(awaiting[0]).toMatchObject({ id: 'choice_1', type: 'choice' });
+    });
+
+    it('files one report per player per item and counts repeats', async () => {
+      const first = await ContentModerator.reportContent(
+        postId,
+        'choice',
+        'choice_1',
+        'user_a',
+        'offensive'
+      );
+      const again = await ContentModerator.reportContent(
+        postId,
+        'choice',
+        'choice_1',
+        'user_a',
+        'spam'
+      );
+      await ContentModerator.reportContent(postId, 'choice', 'choice_1', 'user_b', 'offensive');
+
+      expect(again).toEqual({ success: true, reportId: first.reportId, duplicate: true });
+      expect(await ContentModerator.getContentReports(postId)).toHaveLength(2);
+      expect(await ContentModerator.getContentReport(postId, first.reportId!)).toMatchObject({
+        reason: 'offensive',
+        repeatCount: 1,
+      });
+      expect(await ContentModerator.getReporters(postId, 'choice', 'choice_1')).toEqual([
+        'user_a',
+        'user_b',
+      ]);
+      expect(
+        await ContentModerator.getUserReport(postId, 'choice', 'choice_2', 'user_a')
+      ).toBeNull();
+    });
+
+    it('files one report when the same player sends several at once', async () => {
+      const results = await Promise.all(
+        ['offensive', 'spam', 'other'].map((reason) =>
+          ContentModerator.reportContent(postId, 'choice', 'choice_1', 'user_a', reason)
+        )
+      );
+
+      const filed = results.filter((result) => !result.duplicate);
+      expect(filed).toHaveLength(1);
+      expect(results.map((result) => result.reportId)).toEqual(Array(3).fill(filed[0]!.reportId));
+      expect(await ContentModerator.getContentReports(postId)).toHaveLength(1);
+      expect(await ContentModerator.getContentReport(postId, filed[0]!.reportId!)).toMatchObject({
+        repeatCount: 2,
+      });
+      expect(await ContentModerator.getReporterRecords(postId)).toEqual([
+        expect.objectContaining({ username: 'user_a', filed: 1 }),
+      ]);
+    });
+
+    it('flags players whose reports are mostly dismissed', async () => {
+      for (let i = 0; i < 6; i++) {
+        const { reportId } = await ContentModerator.reportContent(
+          postId,
+          'choice',
+          `choice_${i}`,
+          'user_a',
+          'offensive'
+        );
+        await ContentModerator.updateReportStatus(
+          postId,
+          reportId!,
+          i === 0 ? 'resolved' : 'dismissed',
+          'mod_a'
+        );
+      }
+      const { reportId } = await ContentModerator.reportContent(
+        postId,
+        'chapter',
+        'chapter_1',
+        'user_b',
+        'spam'
+      );
+      await ContentModerator.updateReportStatus(postId, reportId!, 'dismissed', 'mod_a');
+
+      expect(await ContentModerator.getReporterRecords(postId)).toEqual([
+        { username: 'user_a', filed: 6, dismissed: 5, upheld: 1, flagged: true },
+        { username: 'user_b', filed: 1, dismissed: 1, upheld: 0, flagged: false },
+      ]);
+    });
+
+    it('cannot update a report that does not exist', async () => {
+      expect(
+        await ContentModerator.updateReportStatus(postId, 'report_missing', 'resolved', 'mod_a')
+      ).toEqual({ success: false, error: 'Report not found' });
+    });
+  });
+});
@@ -3,20 +3,53 @@
  * Implements basic content filtering, inappropriate content detection, and moderation workflows
  */
 
-import { redis } from '@devvit/web/server';
+import { redis } from '../platform';
 import { StoryChapter, StoryChoice } from '../../shared/types/story.js';
+import { ModerationStrictness } from '../../shared/types/post-config.js';
+import { NormalizedText, TextNormalizer, TextSpan } from '../../shared/types/text-normalization.js';
+import {
+  ContentSource,
+  CustomFilterSummary,
+  FilterMatcher,
+  FilterPatternCompiler,
+  FilterPreview,
+  FilterScope,
+  ModerationException,
+} from '../../shared/types/content-filter.js';
+import {
+  ModerationQueue,
+  ReporterRecord,
+  ReportSnapshot,
+} from '../../shared/types/moderation-queue.js';
+import { PostConfigManager } from './post-config-manager.js';
+import { StoryPackManager } from './story-pack-manager.js';
+import { StoryContentManager } from './story-content-manager.js';
+import { StoryStateManager } from './story-state-manager.js';
+import { ErrorLogger } from '../utils/error-handler';
+import { RedisErrorHandler } from '../utils/redis-error-handler';
 
 export interface ContentFilter {
+  /** Names the rule in moderation results */
+  id?: string;
   type: 'profanity' | 'violence' | 'sexual' | 'harassment' | 'spam' | 'custom';
   pattern: string | RegExp;
+  /** How a string pattern is read; regex when omitted */
+  matcher?: FilterMatcher;
   severity: 'low' | 'medium' | 'high';
   action: 'flag' | 'block' | 'replace';
   replacement?: string;
+  /** Which text the rule checks; all content when omitted */
+  scope?: FilterScope;
+  /** Phrases a match may sit inside without counting */
+  allowedPhrases?: string[];
+  /** Lets through words listed in the story pack's vocabulary */
+  allowVocabulary?: boolean;
 }
 
 export interface ModerationResult {
   isClean: boolean;
   violations: Array<{
+    rule: string;
     type: string;
     severity: string;
     match: string;
@@ -25,6 +58,8 @@ export interface ModerationResult {
   }>;
   filteredContent?: string | undefined;
   requiresReview: boolean;
+  /** Matches that were let through, and why */
+  exceptions: ModerationException[];
 }
 
 export interface ContentReport {
@@ -39,38 +74,67 @@ export interface ContentReport {
   moderatorNotes?: string | undefined;
   resolvedAt?: Date | undefined;
   resolvedBy?: string | undefined;
+  /** Moderator handling the report from the queue */
+  assignedTo?: string | undefined;
+  claimedAt?: Date | undefined;
+  /** The reported content and its filter violations when the report was filed */
+  snapshot?: ReportSnapshot | undefined;
+  /** Times the reporter reported the same content again */
+  repeatCount?: number | undefined;
+  /** This report took the content past the post's auto-hide threshold */
+  autoHidden?: boolean | undefined;
 }
 
+type ReporterOutcome = 'filed' | 'dismissed' | 'upheld';
+
 export class ContentModerator {
   private static readonly MODERATION_PREFIX = 'haunted_thread:moderation';
   private static readonly FILTER_PREFIX = 'haunted_thread:filters';
   private static readonly REPORT_PREFIX = 'haunted_thread:reports';
+  private static readonly MAX_TXN_ATTEMPTS = 5;
+  private static readonly MAX_COMPILED_PATTERNS = 500;
+
+  // Custom patterns are validated and compiled once per process, keyed by matcher and pattern;
+  // null marks a stored pattern that failed validation
+  private static readonly compiledPatterns = new Map<string, RegExp | null>();
 
-  // Basic content filters for horror-themed content
+  // Basic content filters for horror-themed content. Words the genre can't do without are
+  // let through by allowed phrases and the story pack's vocabulary, and most rules only
+  // check what players write.
   private static readonly DEFAULT_FILTERS: ContentFilter[] = [
     // Profanity filters
     {
+      id: 'profanity_mild',
       type: 'profanity',
       pattern: /\b(fuck|shit|damn|hell|ass|bitch|bastard)\b/gi,
       severity: 'low',
       action: 'replace',
       replacement: '[censored]',
+      scope: 'user',
+      allowedPhrases: ['gates of hell', 'hell on earth', 'hell house', 'hell hound'],
+      allowVocabulary: true,
     },
     {
+      id: 'profanity_strong',
       type: 'profanity',
       pattern: /\b(motherfucker|cocksucker|asshole|dickhead)\b/gi,
       severity: 'medium',
       action: 'flag',
+      scope: 'user',
     },
 
     // Excessive violence (beyond horror theme)
     {
+      id: 'violence_excessive',
       type: 'violence',
       pattern: /\b(torture|mutilate|dismember|eviscerate|disembowel)\b/gi,
       severity: 'high',
       action: 'flag',
+      scope: 'user',
+      allowVocabulary: true,
     },
     {
+      id: 'violence_graphic',
       type: 'violence',
       pattern: /\b(graphic violence|extreme gore|brutal murder)\b/gi,
       severity: 'high',
@@ -79,12 +143,15 @@ export class ContentModerator {
 
     // Sexual content (not appropriate for horror story)
     {
+      id: 'sexual_suggestive',
       type: 'sexual',
       pattern: /\b(porn|sex|nude|naked|erotic|sexual)\b/gi,
       severity: 'medium',
       action: 'flag',
+      scope: 'user',
     },
     {
+      id: 'sexual_explicit',
       type: 'sexual',
       pattern: /\b(explicit sexual|graphic sexual|sexual violence)\b/gi,
       severity: 'high',
@@ -93,42 +160,59 @@ export class ContentModerator {
 
     // Harassment and hate speech
     {
+      id: 'harassment',
+      type: 'harassment',
+      pattern: /\b(kill yourself|kys|hate you)\b/gi,
+      severity: 'high',
+      action: 'block',
+      scope: 'user',
+    },
+    {
+      id: 'death_wish',
       type: 'harassment',
-      pattern: /\b(kill yourself|kys|die|hate you)\b/gi,
+      pattern: /\bdie\b/gi,
       severity: 'high',
       action: 'block',
+      scope: 'user',
+      allowedPhrases: ['do or die', 'die out', 'die down', 'left to die', 'never die'],
+      allowVocabulary: true,
     },
 
     // Spam patterns
     {
+      id: 'spam_links',
       type: 'spam',
       pattern: /\b(buy now|click here|visit our|www\.|http|\.com)\b/gi,
       severity: 'medium',
       action: 'flag',
+      scope: 'user',
     },
     {
+      id: 'spam_repeated_characters',
       type: 'spam',
       pattern: /(.)\1{10,}/g, // Repeated characters (10+ times)
       severity: 'low',
       action: 'flag',
+      scope: 'user',
     },
   ];
 
   /**
-   * Moderates story chapter content
+   * Moderates story chapter content, which is authored rather than written by players
    */
-  static async moderateChapter(chapter: StoryChapter): Promise<ModerationResult> {
+  static async moderateChapter(chapter: StoryChapter, postId?: string): Promise<ModerationResult> {
     const contentToCheck = `${chapter.title} ${chapter.content}`;
-    const result = await this.moderateText(contentToCheck);
+    const result = await this.moderateText(contentToCheck, postId, 'authored');
 
     // Check choices as well
     for (const choice of chapter.choices) {
-      const choiceResult = await this.moderateChoice(choice);
+      const choiceResult = await this.moderateChoice(choice, postId);
       if (!choiceResult.isClean) {
         result.isClean = false;
         result.violations.push(...choiceResult.violations);
         result.requiresReview = result.requiresReview || choiceResult.requiresReview;
       }
+      result.exceptions.push(...choiceResult.exceptions);
     }
 
     return result;
@@ -137,52 +221,97 @@ export class ContentModerator {
   /**
    * Moderates story choice content
    */
-  static async moderateChoice(choice: StoryChoice): Promise<ModerationResult> {
+  static async moderateChoice(choice: StoryChoice, postId?: string): Promise<ModerationResult> {
     const contentToCheck = `${choice.text} ${choice.description || ''}`;
-    return this.moderateText(contentToCheck);
+    return this.moderateText(contentToCheck, postId, 'authored');
   }
 
   /**
-   * Moderates arbitrary text content
+   * Moderates arbitrary text content.
+   * With a postId, the post's custom filters, moderation strictness and story pack vocabulary
+   * apply. Filters match against normalized forms of the text, so leetspeak, homoglyphs,
+   * invisible characters, spaced-out letters and stretched words are caught; matches are
+   * reported and replaced at their position in the original text. Matches a rule's exceptions
+   * let through are listed in `exceptions` instead of `violations`.
    */
-  static async moderateText(text: string): Promise<ModerationResult> {
+  static async moderateText(
+    text: string,
+    postId?: string,
+    source: ContentSource = 'user'
+  ): Promise<ModerationResult> {
     const violations: ModerationResult['violations'] = [];
-    let filteredContent = text;
+    const exceptions: ModerationException[] = [];
+    const replacements: Array<TextSpan & { replacement: string }> = [];
     let requiresReview = false;
 
     // Get custom filters from Redis
-    const customFilters = await this.getCustomFilters();
-    const allFilters = [...this.DEFAULT_FILTERS, ...customFilters];
+    const customFilters = await this.getCustomFilters(postId);
+    const strictness = postId
+      ? (await PostConfigManager.getConfig(postId)).moderationStrictness
+      : 'standard';
+    const allFilters = this.applyStrictness(
+      [...this.DEFAULT_FILTERS, ...customFilters],
+      strictness
+    );
+    const vocabulary = await this.getStoryVocabulary(postId);
+    const views = TextNormalizer.views(text);
 
     for (const filter of allFilters) {
       const pattern =
-        typeof filter.pattern === 'string' ? new RegExp(filter.pattern, 'gi') : filter.pattern;
-
-      const matches = text.match(pattern);
-      if (matches) {
-        for (const match of matches) {
-          violations.push({
+        typeof filter.pattern === 'string'
+          ? this.compilePattern(filter.matcher ?? 'regex', filter.pattern)
+          : filter.pattern;
+      if (!pattern) continue;
+
+      const rule = filter.id ?? filter.type;
+      const allowedSpans = filter.allowedPhrases?.length
+        ? this.findAllowedPhrases(views, filter.allowedPhrases)
+        : [];
+
+      for (const span of TextNormalizer.findMatches(views, pattern)) {
+        const match = text.slice(span.start, span.end);
+        const exception = this.findException(
+          filter,
+          source,
+          match,
+          span,
+          text,
+          allowedSpans,
+          vocabulary
+        );
+        if (exception) {
+          exceptions.push({
+            rule,
             type: filter.type,
-            severity: filter.severity,
-            match: match,
-            action: filter.action,
-            position: text.indexOf(match),
+            match,
+            position: span.start,
+            ...exception,
           });
+          continue;
+        }
 
-          // Apply filter action
-          switch (filter.action) {
-            case 'replace':
-              if (filter.replacement) {
-                filteredContent = filteredContent.replace(pattern, filter.replacement);
-              }
-              break;
-            case 'flag':
-              requiresReview = true;
-              break;
-            case 'block':
-              requiresReview = true;
-              break;
-          }
+        violations.push({
+          rule,
+          type: filter.type,
+          severity: filter.severity,
+          match,
+          action: filter.action,
+          position: span.start,
+        });
+
+        // Apply filter action
+        switch (filter.action) {
+          case 'replace':
+            if (filter.replacement) {
+              replacements.push({ ...span, replacement: filter.replacement });
+            }
+            break;
+          case 'flag':
+            requiresReview = true;
+            break;
+          case 'block':
+            requiresReview = true;
+            break;
         }
       }
     }
@@ -194,13 +323,127 @@ export class ContentModerator {
     return {
       isClean: violations.length === 0,
       violations,
-      filteredContent: violations.length > 0 ? filteredContent : undefined,
+      filteredContent: violations.length > 0 ? this.replaceSpans(text, replacements) : undefined,
       requiresReview: requiresReview || hasHighSeverityViolations || hasBlockingViolations,
+      exceptions,
     };
   }
 
   /**
-   * Reports inappropriate content
+   * Why a rule lets a match through, if it does: the rule doesn't check authored content,
+   * the match sits inside one of its allowed phrases, or it is a story vocabulary word
+   */
+  private static findException(
+    filter: ContentFilter,
+    source: ContentSource,
+    match: string,
+    span: TextSpan,
+    text: string,
+    allowedSpans: TextSpan[],
+    vocabulary: Set<string>
+  ): Pick<ModerationException, 'reason' | 'explanation'> | null {
+    if (filter.scope === 'user' && source === 'authored') {
+      return {
+        reason: 'authored_content',
+        explanation: 'The rule only checks player-written text',
+      };
+    }
+
+    const phrase = allowedSpans.find(
+      (allowed) => allowed.start <= span.start && span.end <= allowed.end
+    );
+    if (phrase) {
+      return {
+        reason: 'allowed_phrase',
+        explanation: `"${match}" is part of the allowed phrase "${text.slice(phrase.start, phrase.end)}"`,
+      };
+    }
+
+    if (
+      filter.allowVocabulary &&
+      TextNormalizer.views(match).some((view) => vocabulary.has(view.text))
+    ) {
+      return {
+        reason: 'story_vocabulary',
+        explanation: `"${match}" is in the story pack's vocabulary`,
+      };
+    }
+
+    return null;
+  }
+
+  private static findAllowedPhrases(views: NormalizedText[], phrases: string[]): TextSpan[] {
+    const pattern = this.compilePattern('keywords', phrases.join('\n'));
+    return pattern ? TextNormalizer.findMatches(views, pattern) : [];
+  }
+
+  /**
+   * Lowercased vocabulary of the story pack the post runs, or of the built-in pack
+   */
+  private static async getStoryVocabulary(postId?: string): Promise<Set<string>> {
+    let packKey: string | undefined;
+    try {
+      packKey = postId ? await StoryPackManager.loadPackForPost(postId) : undefined;
+    } catch (error) {
+      // A broken pack can't be played, so none of its words are let through either
+      ErrorLogger.logWarning('Story vocabulary unavailable', {
+        postId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      return new Set();
+    }
+
+    const vocabulary = StoryContentManager.getPack(packKey).vocabulary ?? [];
+    return new Set(vocabulary.map((word) => word.toLowerCase()));
+  }
+
+  /**
+   * Swaps spans of the original text for their replacements. Where replacements overlap, the
+   * one that starts first wins.
+   */
+  private static replaceSpans(
+    text: string,
+    replacements: Array<TextSpan & { replacement: string }>
+  ): string {
+    let result = '';
+    let cursor = 0;
+
+    const ordered = [...replacements].sort((a, b) => a.start - b.start || b.end - a.end);
+    for (const { start, end, replacement } of ordered) {
+      if (start < cursor) continue;
+      result += text.slice(cursor, start) + replacement;
+      cursor = end;
+    }
+
+    return result + text.slice(cursor);
+  }
+
+  /**
+   * Adjusts filters for a post's strictness: relaxed ignores low-severity filters,
+   * strict blocks anything above low severity that would otherwise only be flagged
+   */
+  private static applyStrictness(
+    filters: ContentFilter[],
+    strictness: ModerationStrictness
+  ): ContentFilter[] {
+    switch (strictness) {
+      case 'relaxed':
+        return filters.filter((filter) => filter.severity !== 'low');
+      case 'strict':
+        return filters.map((filter) =>
+          filter.action === 'flag' && filter.severity !== 'low'
+            ? { ...filter, action: 'block' }
+            : filter
+        );
+      default:
+        return filters;
+    }
+  }
+
+  /**
+   * Reports inappropriate content, keeping a snapshot of the content as it reads right now.
+   * Each player gets one report per item, even when several are sent at once: reporting it
+   * again counts a repeat on their first report and returns that report with duplicate set.
    */
   static async reportContent(
     postId: string,
@@ -209,7 +452,7 @@ export class ContentModerator {
     reportedBy: string,
     reason: string,
     description?: string
-  ): Promise<{ success: boolean; reportId?: string; error?: string }> {
+  ): Promise<{ success: boolean; reportId?: string; duplicate?: boolean; error?: string }> {
     try {
       const reportId = `report_${Date.now()}_${Math.random().toString(36).substring(2, 11)}`;
 
@@ -222,17 +465,21 @@ export class ContentModerator {
         description,
         reportedAt: new Date(),
         status: 'pending',
+        snapshot: await this.captureSnapshot(postId, contentType, contentId),
       };
 
-      const reportKey = `${this.REPORT_PREFIX}:${postId}:${reportId}`;
-      await redis.set(
-        reportKey,
-        JSON.stringify({
-          ...report,
-          reportedAt: report.reportedAt.toISOString(),
-        })
-      );
-      await redis.expire(reportKey, 86400 * 30); // 30 days TTL
+      // The report is stored before it claims the player's slot for this item, so a claimed
+      // slot always points at a filed report and a report sent at the same time sees it
+      await this.storeReport(postId, report);
+
+      const reportersKey = this.reportersKey(postId, contentType, contentId);
+      const heldBy = await this.claimReporterSlot(postId, reportersKey, reportedBy, reportId);
+      if (heldBy !== reportId) {
+        await redis.del(`${this.REPORT_PREFIX}:${postId}:${reportId}`);
+        await this.countRepeat(postId, heldBy);
+        return { success: true, reportId: heldBy, duplicate: true };
+      }
+      await redis.expire(reportersKey, 86400 * 30);
 
       // Add to reports index for easy retrieval
       const reportsIndexKey = `${this.REPORT_PREFIX}:${postId}:index`;
@@ -241,6 +488,7 @@ export class ContentModerator {
 
       // Track report statistics
       await this.updateReportStats(postId, 'new_report', contentType);
+      await this.recordReporterOutcome(postId, reportedBy, 'filed');
 
       return { success: true, reportId };
     } catch (error) {
@@ -252,6 +500,71 @@ export class ContentModerator {
     }
   }
 
+  /**
+   * Reads the reported content and runs every filter over it. Player-scoped rules apply too,
+   * so moderators see everything the filters would catch.
+   */
+  private static async captureSnapshot(
+    postId: string,
+    contentType: ContentReport['contentType'],
+    contentId: string
+  ): Promise<ReportSnapshot> {
+    const capturedAt = new Date().toISOString();
+    const chapter = await this.findReportedChapter(postId, contentType, contentId);
+    if (!chapter) {
+      return { capturedAt, text: null, violations: [] };
+    }
+
+    let text: string | null = chapter.content;
+    let checked = `${chapter.title}\n${chapter.content}`;
+    if (contentType === 'choice') {
+      const choice = chapter.choices.find((candidate) => candidate.id === contentId);
+      text = choice ? [choice.text, choice.description].filter(Boolean).join('\n') : null;
+      checked = text ?? '';
+    }
+
+    const { violations } = await this.moderateText(checked, postId);
+    return {
+      capturedAt,
+      chapterId: chapter.id,
+      title: chapter.title,
+      text,
+      violations: violations.map(({ rule, type, severity, match, action }) => ({
+        rule,
+        type,
+        severity,
+        match,
+        action,
+      })),
+    };
+  }
+
+  /**
+   * The chapter a report points at: the chapter itself, the chapter offering a reported
+   * choice, or for story reports the chapter being played
+   */
+  static async findReportedChapter(
+    postId: string,
+    contentType: ContentReport['contentType'],
+    contentId: string
+  ): Promise<StoryChapter | null> {
+    switch (contentType) {
+      case 'chapter':
+        return StoryStateManager.getChapter(postId, contentId);
+      case 'choice': {
+        const current = await StoryStateManager.getCurrentChapter(postId);
+        if (current?.choices.some((choice) => choice.id === contentId)) return current;
+        const chapters = await StoryStateManager.getAllChapters(postId);
+        return (
+          chapters.find((chapter) => chapter.choices.some((choice) => choice.id === contentId)) ??
+          null
+        );
+      }
+      default:
+        return StoryStateManager.getCurrentChapter(postId);
+    }
+  }
+
   /**
    * Gets all content reports for a post
    */
@@ -269,12 +582,7 @@ export class ContentModerator {
 
         if (reportData) {
           try {
-            const report = JSON.parse(reportData);
-            reports.push({
-              ...report,
-              reportedAt: new Date(report.reportedAt),
-              resolvedAt: report.resolvedAt ? new Date(report.resolvedAt) : undefined,
-            });
+            reports.push(this.parseReport(reportData));
           } catch (error) {
             console.error('Error parsing report data:', error);
           }
@@ -289,6 +597,65 @@ export class ContentModerator {
     }
   }
 
+  /**
+   * Gets one content report
+   */
+  static async getContentReport(postId: string, reportId: string): Promise<ContentReport | null> {
+    const reportData = await redis.get(`${this.REPORT_PREFIX}:${postId}:${reportId}`);
+    return reportData ? this.parseReport(reportData) : null;
+  }
+
+  /**
+   * The report a player filed about a piece of content, if they have reported it
+   */
+  static async getUserReport(
+    postId: string,
+    contentType: ContentReport['contentType'],
+    contentId: string,
+    username: string
+  ): Promise<ContentReport | null> {
+    const reportId = await redis.hGet(this.reportersKey(postId, contentType, contentId), username);
+    return reportId ? this.getContentReport(postId, reportId) : null;
+  }
+
+  /**
+   * Every player who has reported a piece of content
+   */
+  static async getReporters(
+    postId: string,
+    contentType: ContentReport['contentType'],
+    contentId: string
+  ): Promise<string[]> {
+    return Object.keys(await redis.hGetAll(this.reportersKey(postId, contentType, contentId)));
+  }
+
+  /**
+   * How each player's reports on a post have fared, most dismissed first
+   */
+  static async getReporterRecords(postId: string): Promise<ReporterRecord[]> {
+    const counts = await redis.hGetAll(`${this.REPORT_PREFIX}:${postId}:reporter_stats`);
+    const records = new Map<string, ReporterRecord>();
+
+    for (const [field, value] of Object.entries(counts)) {
+      const separator = field.lastIndexOf(':');
+      const username = field.slice(0, separator);
+      const outcome = field.slice(separator + 1) as ReporterOutcome;
+      const record = records.get(username) ?? {
+        username,
+        filed: 0,
+        dismissed: 0,
+        upheld: 0,
+        flagged: false,
+      };
+      record[outcome] = Number(value) || 0;
+      records.set(username, record);
+    }
+
+    return [...records.values()]
+      .map((record) => ({ ...record, flagged: ModerationQueue.isReporterFlagged(record) }))
+      .sort((a, b) => b.dismissed - a.dismissed);
+  }
+
   /**
    * Updates the status of a content report
    */
@@ -300,34 +667,30 @@ export class ContentModerator {
     moderatorNotes?: string | undefined
   ): Promise<{ success: boolean; error?: string }> {
     try {
-      const reportKey = `${this.REPORT_PREFIX}:${postId}:${reportId}`;
-      const reportData = await redis.get(reportKey);
+      const report = await this.getContentReport(postId, reportId);
 
-      if (!reportData) {
+      if (!report) {
         return { success: false, error: 'Report not found' };
       }
 
-      const report = JSON.parse(reportData);
-      const updatedReport: ContentReport = {
+      const closing = status === 'resolved' || status === 'dismissed';
+      await this.storeReport(postId, {
         ...report,
-        reportedAt: new Date(report.reportedAt),
         status,
         moderatorNotes,
-        resolvedAt: status === 'resolved' || status === 'dismissed' ? new Date() : undefined,
+        resolvedAt: closing ? new Date() : undefined,
         resolvedBy: moderatorId,
-      };
-
-      await redis.set(
-        reportKey,
-        JSON.stringify({
-          ...updatedReport,
-          reportedAt: updatedReport.reportedAt.toISOString(),
-          resolvedAt: updatedReport.resolvedAt?.toISOString(),
-        })
-      );
+      });
 
       // Update report statistics
       await this.updateReportStats(postId, 'status_change', report.contentType, status);
+      if (closing && (report.status === 'pending' || report.status === 'reviewing')) {
+        await this.recordReporterOutcome(
+          postId,
+          report.reportedBy,
+          status === 'dismissed' ? 'dismissed' : 'upheld'
+        );
+      }
 
       return { success: true };
     } catch (error) {
@@ -340,30 +703,207 @@ export class ContentModerator {
   }
 
   /**
-   * Adds a custom content filter
+   * Hands an open report to a moderator, or back to the queue when assignee is null. With
+   * onlyIfUnclaimed set, a report another moderator holds is left with them; the check and the
+   * write happen in one transaction, so two moderators claiming at once can't both get it.
+   */
+  static async assignReport(
+    postId: string,
+    reportId: string,
+    assignee: string | null,
+    onlyIfUnclaimed = false
+  ): Promise<{ success: boolean; report?: ContentReport; error?: string }> {
+    try {
+      const reportKey = `${this.REPORT_PREFIX}:${postId}:${reportId}`;
+
+      for (let attempt = 1; attempt <= this.MAX_TXN_ATTEMPTS; attempt++) {
+        const txn = await redis.watch(reportKey);
+        const report = await this.getContentReport(postId, reportId);
+
+        if (!report) {
+          await txn.unwatch();
+          return { success: false, error: 'Report not found' };
+        }
+        if (report.status === 'resolved' || report.status === 'dismissed') {
+          await txn.unwatch();
+          return { success: false, error: `Report is already ${report.status}` };
+        }
+        if (onlyIfUnclaimed && report.assignedTo && report.assignedTo !== assignee) {
+          await txn.unwatch();
+          return { success: false, error: `Report is already claimed by ${report.assignedTo}` };
+        }
+
+        const updated: ContentReport = {
+          ...report,
+          status: assignee ? 'reviewing' : 'pending',
+          assignedTo: assignee ?? undefined,
+          claimedAt: assignee ? new Date() : undefined,
+        };
+
+        await txn.multi();
+        await txn.set(reportKey, this.serializeReport(updated));
+        await txn.expire(reportKey, 86400 * 30);
+        if (await RedisErrorHandler.commitTransaction(txn)) {
+          return { success: true, report: updated };
+        }
+      }
+
+      return { success: false, error: 'Report is being updated elsewhere, please try again' };
+    } catch (error) {
+      console.error('Error assigning report:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      };
+    }
+  }
+
+  /**
+   * Notes on a report that it got the reported content hidden automatically
+   */
+  static async markAutoHidden(postId: string, reportId: string): Promise<void> {
+    const report = await this.getContentReport(postId, reportId);
+    if (report) {
+      await this.storeReport(postId, { ...report, autoHidden: true });
+    }
+  }
+
+  // Every write keeps the report for another 30 days; the snapshot is carried over unchanged
+  private static async storeReport(postId: string, report: ContentReport): Promise<void> {
+    const reportKey = `${this.REPORT_PREFIX}:${postId}:${report.id}`;
+    await redis.set(reportKey, this.serializeReport(report));
+    await redis.expire(reportKey, 86400 * 30);
+  }
+
+  private static serializeReport(report: ContentReport): string {
+    return JSON.stringify({
+      ...report,
+      reportedAt: report.reportedAt.toISOString(),
+      resolvedAt: report.resolvedAt?.toISOString(),
+      claimedAt: report.claimedAt?.toISOString(),
+    });
+  }
+
+  /**
+   * Claims a player's one report slot for an item and returns the report holding it. A slot left
+   * pointing at a report that has expired is taken over.
+   */
+  private static async claimReporterSlot(
+    postId: string,
+    reportersKey: string,
+    username: string,
+    reportId: string
+  ): Promise<string> {
+    for (let attempt = 1; attempt <= this.MAX_TXN_ATTEMPTS; attempt++) {
+      if (await redis.hSetNX(reportersKey, username, reportId)) return reportId;
+
+      const txn = await redis.watch(reportersKey);
+      const heldBy = await redis.hGet(reportersKey, username);
+      if (heldBy && (await redis.exists(`${this.REPORT_PREFIX}:${postId}:${heldBy}`))) {
+        await txn.unwatch();
+        return heldBy;
+      }
+
+      await txn.multi();
+      await txn.hSet(reportersKey, { [username]: reportId });
+      if (await RedisErrorHandler.commitTransaction(txn)) return reportId;
+    }
+    throw new Error('Too many simultaneous reports, please try again');
+  }
+
+  // Repeats of the same report can arrive together, so each one is counted in its own transaction
+  private static async countRepeat(postId: string, reportId: string): Promise<void> {
+    const reportKey = `${this.REPORT_PREFIX}:${postId}:${reportId}`;
+    for (let attempt = 1; attempt <= this.MAX_TXN_ATTEMPTS; attempt++) {
+      const txn = await redis.watch(reportKey);
+      const report = await this.getContentReport(postId, reportId);
+      if (!report) {
+        await txn.unwatch();
+        return;
+      }
+
+      await txn.multi();
+      await txn.set(
+        reportKey,
+        this.serializeReport({ ...report, repeatCount: (report.repeatCount ?? 0) + 1 })
+      );
+      await txn.expire(reportKey, 86400 * 30);
+      if (await RedisErrorHandler.commitTransaction(txn)) return;
+    }
+    ErrorLogger.logWarning('Report repeat was not counted', { postId, reportId });
+  }
+
+  private static reportersKey(
+    postId: string,
+    contentType: ContentReport['contentType'],
+    contentId: string
+  ): string {
+    return `${this.REPORT_PREFIX}:${postId}:reporters:${contentType}:${contentId}`;
+  }
+
+  private static async recordReporterOutcome(
+    postId: string,
+    username: string,
+    outcome: ReporterOutcome
+  ): Promise<void> {
+    const statsKey = `${this.REPORT_PREFIX}:${postId}:reporter_stats`;
+    await redis.hIncrBy(statsKey, `${username}:${outcome}`, 1);
+    await redis.expire(statsKey, 86400 * 30);
+  }
+
+  private static parseReport(reportData: string): ContentReport {
+    const report = JSON.parse(reportData);
+    return {
+      ...report,
+      reportedAt: new Date(report.reportedAt),
+      resolvedAt: report.resolvedAt ? new Date(report.resolvedAt) : undefined,
+      claimedAt: report.claimedAt ? new Date(report.claimedAt) : undefined,
+    };
+  }
+
+  /**
+   * Adds a custom content filter. The pattern is checked for syntax errors and catastrophic
+   * backtracking first, and the filter is refused if it fails.
    */
   static async addCustomFilter(
     postId: string,
     filter: Omit<ContentFilter, 'type'> & { type?: ContentFilter['type'] }
   ): Promise<{ success: boolean; filterId?: string; error?: string }> {
     try {
+      const matcher = filter.matcher ?? 'regex';
+      const pattern = typeof filter.pattern === 'string' ? filter.pattern : filter.pattern.source;
+      const validation = FilterPatternCompiler.validate(matcher, pattern);
+      if (!validation.isValid) {
+        return { success: false, error: validation.errors.join('; ') };
+      }
+      const allowedPhrases = filter.allowedPhrases?.map((phrase) => phrase.trim()).filter(Boolean);
+      if (allowedPhrases?.length) {
+        const phraseValidation = FilterPatternCompiler.validate(
+          'keywords',
+          allowedPhrases.join('\n')
+        );
+        if (!phraseValidation.isValid) {
+          return {
+            success: false,
+            error: `Allowed phrases: ${phraseValidation.errors.join('; ')}`,
+          };
+        }
+      }
+
       const filterId = `filter_${Date.now()}_${Math.random().toString(36).substring(2, 11)}`;
-      const customFilter: ContentFilter = {
+      const customFilter: Omit<CustomFilterSummary, 'id'> = {
         type: filter.type || 'custom',
-        pattern: filter.pattern,
+        matcher,
+        pattern,
         severity: filter.severity,
         action: filter.action,
         ...(filter.replacement && { replacement: filter.replacement }),
+        ...(filter.scope && { scope: filter.scope }),
+        ...(allowedPhrases?.length && { allowedPhrases }),
       };
 
       const filterKey = `${this.FILTER_PREFIX}:${postId}:${filterId}`;
-      await redis.set(
-        filterKey,
-        JSON.stringify({
-          ...customFilter,
-          pattern: customFilter.pattern.toString(), // Convert RegExp to string for storage
-        })
-      );
+      await redis.set(filterKey, JSON.stringify(customFilter));
       await redis.expire(filterKey, 86400 * 30); // 30 days TTL
 
       // Add to filters index
@@ -382,17 +922,30 @@ export class ContentModerator {
   }
 
   /**
-   * Gets custom content filters for a post
+   * Gets custom content filters for a post, compiled and ready to match. Stored patterns
+   * that no longer pass validation are skipped.
    */
   static async getCustomFilters(postId?: string): Promise<ContentFilter[]> {
     if (!postId) return [];
 
+    const filters: ContentFilter[] = [];
+    for (const { id, ...filter } of await this.listCustomFilters(postId)) {
+      const pattern = this.compilePattern(filter.matcher, filter.pattern);
+      if (pattern) filters.push({ ...filter, id, pattern });
+    }
+    return filters;
+  }
+
+  /**
+   * Lists a post's custom filters as stored
+   */
+  static async listCustomFilters(postId: string): Promise<CustomFilterSummary[]> {
     try {
       const filtersIndexKey = `${this.FILTER_PREFIX}:${postId}:index`;
       const filtersIndex = await redis.hGetAll(filtersIndexKey);
       const filterIds = Object.keys(filtersIndex);
 
-      const filters: ContentFilter[] = [];
+      const filters: CustomFilterSummary[] = [];
 
       for (const filterId of filterIds) {
         const filterKey = `${this.FILTER_PREFIX}:${postId}:${filterId}`;
@@ -401,14 +954,15 @@ export class ContentModerator {
         if (filterData) {
           try {
             const filter = JSON.parse(filterData);
-            // Convert string pattern back to RegExp if needed
-            if (typeof filter.pattern === 'string' && filter.pattern.startsWith('/')) {
-              const match = filter.pattern.match(/^\/(.+)\/([gimuy]*)$/);
-              if (match) {
-                filter.pattern = new RegExp(match[1], match[2]);
-              }
-            }
-            filters.push(filter);
+            // Filters saved before matchers existed are regexes, some stored as "/source/flags"
+            const legacyRegex =
+              !filter.matcher && /^\/(.+)\/([gimsuy]*)$/.exec(String(filter.pattern));
+            filters.push({
+              ...filter,
+              id: filterId,
+              matcher: filter.matcher ?? 'regex',
+              pattern: legacyRegex ? legacyRegex[1] : String(filter.pattern),
+            });
           } catch (error) {
             console.error('Error parsing filter data:', error);
           }
@@ -422,6 +976,61 @@ export class ContentModerator {
     }
   }
 
+  /**
+   * Shows what a filter would match in a sample text, and the text after replacement,
+   * without saving anything
+   */
+  static previewFilter(
+    filter: Pick<CustomFilterSummary, 'matcher' | 'pattern' | 'action'> & { replacement?: string },
+    sampleText: string
+  ): FilterPreview {
+    const validation = FilterPatternCompiler.validate(filter.matcher, filter.pattern);
+    const pattern = validation.isValid && this.compilePattern(filter.matcher, filter.pattern);
+    if (!pattern) {
+      return { isValid: false, errors: validation.errors, matches: [] };
+    }
+
+    const spans = TextNormalizer.findMatches(TextNormalizer.views(sampleText), pattern);
+    const { replacement } = filter;
+
+    return {
+      isValid: true,
+      errors: [],
+      matches: spans.map((span) => ({
+        match: sampleText.slice(span.start, span.end),
+        position: span.start,
+      })),
+      ...(filter.action === 'replace' &&
+        replacement &&
+        spans.length > 0 && {
+          filteredContent: this.replaceSpans(
+            sampleText,
+            spans.map((span) => ({ ...span, replacement }))
+          ),
+        }),
+    };
+  }
+
+  private static compilePattern(matcher: FilterMatcher, pattern: string): RegExp | null {
+    const key = `${matcher}:${pattern}`;
+    const cached = this.compiledPatterns.get(key);
+    if (cached !== undefined) return cached;
+
+    const compiled = FilterPatternCompiler.validate(matcher, pattern).isValid
+      ? FilterPatternCompiler.compile(matcher, pattern)
+      : null;
+    if (!compiled) {
+      // Cached as null, so an unsafe pattern is reported once rather than on every check
+      ErrorLogger.logWarning('Skipping filter with an unsafe pattern', { matcher, pattern });
+    }
+
+    if (this.compiledPatterns.size >= this.MAX_COMPILED_PATTERNS) {
+      this.compiledPatterns.clear();
+    }
+    this.compiledPatterns.set(key, compiled);
+    return compiled;
+  }
+
   /**
    * Removes a custom content filter
    */
@@ -540,18 +1149,23 @@ export class ContentModerator {
    */
   static async validateContent(
     content: string,
-    _contentType: 'chapter' | 'choice' | 'story'
+    _contentType: 'chapter' | 'choice' | 'story',
+    postId?: string
   ): Promise<{
     isValid: boolean;
     filteredContent?: string;
     violations: string[];
     requiresApproval: boolean;
+    exceptions?: string[];
   }> {
-    const moderationResult = await this.moderateText(content);
+    const moderationResult = await this.moderateText(content, postId);
 
     const violations = moderationResult.violations.map(
       (v) => `${v.type} (${v.severity}): "${v.match}"`
     );
+    const exceptions = moderationResult.exceptions.map(
+      (exception) => `${exception.rule}: ${exception.explanation}`
+    );
 
     const hasBlockingViolations = moderationResult.violations.some((v) => v.action === 'block');
     const requiresApproval = moderationResult.requiresReview;
@@ -563,17 +1177,21 @@ export class ContentModerator {
       }),
       violations,
       requiresApproval,
+      ...(exceptions.length > 0 && { exceptions }),
     };
   }
 
   /**
-   * Gets content that requires moderation review
+   * Gets content that requires moderation review, as it read when it was reported. Reports
+   * filed before snapshots were kept fall back to the reporter's description.
    */
   static async getContentAwaitingReview(postId: string): Promise<
     Array<{
       id: string;
+      reportId: string;
       type: 'chapter' | 'choice' | 'story';
       content: string;
+      reason: string;
       violations: string[];
       reportedAt: Date;
     }>
@@ -586,9 +1204,13 @@ export class ContentModerator {
 
       return pendingReports.map((report) => ({
         id: report.contentId,
+        reportId: report.id,
         type: report.contentType,
-        content: report.description || 'No content description available',
-        violations: [report.reason],
+        content: report.snapshot?.text ?? report.description ?? 'No content description available',
+        reason: report.reason,
+        violations: (report.snapshot?.violations ?? []).map(
+          (v) => `${v.type} (${v.severity}): "${v.match}"`
+        ),
         reportedAt: report.reportedAt,
       }));
     } catch (error) {
@@ -0,0 +1,152 @@
+/**
+ * Hall of Fame for The Haunted Thread
+ * Keeps a record of every finished story across the subreddit's posts for browsing and comparison
+ */
+
+import { redis } from '../platform';
+import { StoryContext, StoryEnding } from '../../shared/types/story.js';
+import {
+  HallOfFameEntry,
+  HallOfFamePage,
+  HallOfFameSort,
+  UnlockedEnding,
+} from '../../shared/types/hall-of-fame.js';
+import { ChapterArchiveManager } from './chapter-archive-manager.js';
+import { StoryContentManager } from './story-content-manager.js';
+
+export interface HallOfFameQuery {
+  sort: HallOfFameSort;
+  order: 'asc' | 'desc';
+  limit: number;
+  offset: number;
+  endingType?: StoryEnding['type'];
+  packId?: string;
+}
+
+export class HallOfFameManager {
+  // Redis data is already scoped to the app installation, so one index covers the subreddit
+  private static readonly HALL_OF_FAME_KEY = 'haunted_thread:hall_of_fame';
+
+  /**
+   * Records a story that just reached an ending. A playthrough is only recorded once.
+   */
+  static async recordCompletedStory(
+    postId: string,
+    finalContext: StoryContext,
+    ending: StoryEnding,
+    packKey?: string
+  ): Promise<HallOfFameEntry> {
+    const pack = StoryContentManager.getPack(packKey);
+    const archive = await ChapterArchiveManager.getStoryArchive(postId);
+
+    const participants = new Set(archive.flatMap((record) => record.participants));
+    const completedAt = new Date();
+    const startedAt = finalContext.storyStartTime;
+
+    const entry: HallOfFameEntry = {
+      id: `${postId}_${startedAt.getTime()}`,
+      postId,
+      packId: pack.id,
+      packTitle: pack.title,
+      endingId: ending.id,
+      endingTitle: ending.title,
+      endingType: ending.type,
+      chapterCount: finalContext.pathTaken.length,
+      participants: participants.size,
+      totalVotes: archive.reduce((sum, record) => sum + record.stats.totalVotes, 0),
+      duration: completedAt.getTime() - startedAt.getTime(),
+      startedAt,
+      completedAt,
+    };
+
+    await redis.hSetNX(this.HALL_OF_FAME_KEY, entry.id, JSON.stringify(entry));
+    return entry;
+  }
+
+  /**
+   * Lists finished stories, filtered and sorted, along with every ending reached so far
+   */
+  static async browse(query: HallOfFameQuery): Promise<HallOfFamePage> {
+    const entries = await this.getAllEntries();
+
+    const filtered = entries.filter(
+      (entry) =>
+        (!query.endingType || entry.endingType === query.endingType) &&
+        (!query.packId || entry.packId === query.packId)
+    );
+
+    const direction = query.order === 'asc' ? 1 : -1;
+    filtered.sort(
+      (a, b) => direction * (this.sortValue(a, query.sort) - this.sortValue(b, query.sort))
+    );
+
+    return {
+      entries: filtered.slice(query.offset, query.offset + query.limit),
+      total: filtered.length,
+      unlockedEndings: this.summarizeEndings(entries),
+    };
+  }
+
+  private static sortValue(entry: HallOfFameEntry, sort: HallOfFameSort): number {
+    switch (sort) {
+      case 'chapters':
+        return entry.chapterCount;
+      case 'participants':
+        return entry.participants;
+      case 'votes':
+        return entry.totalVotes;
+      case 'duration':
+        return entry.duration;
+      default:
+        return entry.completedAt.getTime();
+    }
+  }
+
+  private static summarizeEndings(entries: HallOfFameEntry[]): UnlockedEnding[] {
+    const endings = new Map<string, UnlockedEnding>();
+
+    for (const entry of entries) {
+      const key = `${entry.packId}:${entry.endingId}`;
+      const existing = endings.get(key);
+      if (existing) {
+        existing.timesReached++;
+        if (entry.completedAt < existing.firstReachedAt) {
+          existing.firstReachedAt = entry.completedAt;
+        }
+      } else {
+        endings.set(key, {
+          packId: entry.packId,
+          endingId: entry.endingId,
+          endingTitle: entry.endingTitle,
+          endingType: entry.endingType,
+          timesReached: 1,
+          firstReachedAt: entry.completedAt,
+        });
+      }
+    }
+
+    return [...endings.values()].sort(
+      (a, b) => a.firstReachedAt.getTime() - b.firstReachedAt.getTime()
+    );
+  }
+
+  private static async getAllEntries(): Promise<HallOfFameEntry[]> {
+    const data = await redis.hGetAll(this.HALL_OF_FAME_KEY);
+    const entries: HallOfFameEntry[] = [];
+
+    for (const raw of Object.values(data)) {
+      try {
+        const parsed = JSON.parse(raw);
+        entries.push({
+          ...parsed,
+          startedAt: new Date(parsed.startedAt),
+          completedAt: new Date(parsed.completedAt),
+        });
+      } catch (error) {
+        console.error('Error parsing hall of fame entry:', error);
+      }
+    }
+
+    return entries;
+  }
+}
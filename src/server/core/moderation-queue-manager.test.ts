@@ -0,0 +1,350 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { MemoryPlatform } from '../test/memory-platform';
+import { installMemoryPost, resetMemoryPlatform, startStory } from '../test/story-fixtures';
+import { AdminManager } from './admin-manager.js';
+import { ContentModerator } from './content-moderator.js';
+import { ModerationQueueManager } from './moderation-queue-manager.js';
+import { StoryStateManager } from './story-state-manager.js';
+import { StoryHistoryTracker } from './story-history-tracker.js';
+import { VotingManager } from './voting-manager.js';
+import { PostConfigManager } from './post-config-manager.js';
+import { StoryChapter } from '../../shared/types/story.js';
+
+let platform: MemoryPlatform;
+let postId: string;
+let chapter: StoryChapter;
+
+const report = async (contentType: 'chapter' | 'choice', contentId: string, user = 'user_a') =>
+  (await ContentModerator.reportContent(postId, contentType, contentId, user, 'offensive'))
+    .reportId!;
+
+const fileReport = (contentType: 'chapter' | 'choice', contentId: string, user: string) =>
+  ModerationQueueManager.fileReport(postId, contentType, contentId, user, 'offensive');
+
+describe('ModerationQueueManager', () => {
+  beforeEach(async () => {
+    ({ platform, postId } = await installMemoryPost());
+    chapter = await startStory(postId);
+  });
+
+  afterEach(resetMemoryPlatform);
+
+  describe('snapshots', () => {
+    it('keeps the reported text as it was when the report was filed', async () => {
+      const reportId = await report('chapter', chapter.id);
+
+      await StoryStateManager.storeChapter(postId, { ...chapter, content: 'Rewritten.' });
+
+      const [item] = await ModerationQueueManager.getQueue(postId);
+      expect(item).toMatchObject({ reportId, contentType: 'chapter' });
+      expect(item!.snapshot).toMatchObject({
+        chapterId: chapter.id,
+        title: chapter.title,
+        text: chapter.content,
+      });
+
+      const [awaiting] = await ContentModerator.getContentAwaitingReview(postId);
+      expect(awaiting!.content).toBe(chapter.content);
+    });
+
+    it('records the choice text and the violations found in it', async () => {
+      const choice = chapter.choices[0]!;
+      await StoryStateManager.storeChapter(postId, {
+        ...chapter,
+        choices: [{ ...choice, text: 'Tell them to kys' }, ...chapter.choices.slice(1)],
+      });
+
+      await report('choice', choice.id);
+
+      const [item] = await ModerationQueueManager.getQueue(postId);
+      expect(item!.snapshot).toMatchObject({ chapterId: chapter.id });
+      expect(item!.snapshot!.text).toContain('Tell them to kys');
+      expect(item!.snapshot!.violations).toEqual([
+        expect.objectContaining({ rule: 'harassment', match: 'kys', action: 'block' }),
+      ]);
+    });
+  });
+
+  describe('queue', () => {
+    it('puts unclaimed reports first and ages them against the SLA', async () => {
+      const older = await report('chapter', chapter.id);
+      const claimed = await report('choice', chapter.choices[0]!.id);
+      await ModerationQueueManager.claimReport(postId, 'mod_a', claimed);
+
+      const later = new Date(Date.now() + 3 * 60 * 60 * 1000);
+      const queue = await ModerationQueueManager.getQueue(postId, later);
+
+      expect(queue.map((item) => item.reportId)).toEqual([older, claimed]);
+      expect(queue[0]).toMatchObject({ sla: 'due_soon', status: 'pending' });
+      expect(queue[1]).toMatchObject({ assignedTo: 'mod_a', status: 'reviewing' });
+    });
+
+    it("won't let a second moderator take a claimed report", async () => {
+      const reportId = await report('chapter', chapter.id);
+      await ModerationQueueManager.claimReport(postId, 'mod_a', reportId);
+
+      expect(await ModerationQueueManager.claimReport(postId, 'mod_b', reportId)).toEqual({
+        success: false,
+        error: 'Report is already claimed by mod_a',
+      });
+
+      const released = await ModerationQueueManager.assignReport(postId, 'mod_a', reportId, null);
+      expect(released.item).toMatchObject({ status: 'pending' });
+      expect(released.item).not.toHaveProperty('assignedTo');
+      expect(
+        (await ModerationQueueManager.claimReport(postId, 'mod_b', reportId)).item
+      ).toMatchObject({ assignedTo: 'mod_b' });
+    });
+
+    it('gives a report to only one of two moderators claiming it at once', async () => {
+      const reportId = await report('chapter', chapter.id);
+
+      const results = await Promise.all([
+        ModerationQueueManager.claimReport(postId, 'mod_a', reportId),
+        ModerationQueueManager.claimReport(postId, 'mod_b', reportId),
+      ]);
+
+      const winner = results.find((result) => result.success)?.item?.assignedTo;
+      expect(results.filter((result) => result.success)).toHaveLength(1);
+      expect(results.find((result) => !result.success)?.error).toBe(
+        `Report is already claimed by ${winner}`
+      );
+      expect(await ContentModerator.getContentReport(postId, reportId)).toMatchObject({
+        assignedTo: winner,
+      });
+    });
+
+    it('closes reports in bulk and lists the ones it skipped', async () => {
+      const first = await report('chapter', chapter.id);
+      const second = await report('chapter', chapter.id, 'user_b');
+      await ContentModerator.updateReportStatus(postId, second, 'dismissed', 'mod_b');
+
+      const outcome = await ModerationQueueManager.bulkUpdate(
+        postId,
+        'mod_a',
+        [first, second, 'report_missing'],
+        'resolved'
+      );
+
+      expect(outcome).toEqual({
+        updated: [first],
+        failed: [
+          { reportId: second, error: 'Report is already dismissed' },
+          { reportId: 'report_missing', error: 'Report not found' },
+        ],
+      });
+      expect(await ModerationQueueManager.getQueue(postId)).toEqual([]);
+
+      const { logs } = await AdminManager.getAdminLogs(postId);
+      expect(logs).toContainEqual(
+        expect.objectContaining({
+          action: 'bulk_update_reports',
+          details: {
+            status: 'resolved',
+            reportIds: [first],
+            failedReportIds: [second, 'report_missing'],
+          },
+        })
+      );
+    });
+  });
+
+  describe('actions', () => {
+    it('hides a reported choice and withdraws the votes cast for it', async () => {
+      const [hidden, kept] = chapter.choices;
+      await VotingManager.castVote(postId, 'user_a', chapter.id, hidden!.id);
+      await VotingManager.castVote(postId, 'user_b', chapter.id, kept!.id);
+      const reportId = await report('choice', hidden!.id);
+
+      const result = await ModerationQueueManager.applyAction(
+        postId,
+        'mod_a',
+        reportId,
+        'hide_choice'
+      );
+
+      expect(result.success).toBe(true);
+      const stored = await StoryStateManager.getChapter(postId, chapter.id);
+      expect(stored!.choices.map((choice) => choice.id)).not.toContain(hidden!.id);
+
+      const counts = await VotingManager.getVoteCounts(postId, chapter.id);
+      expect(counts.map((count) => count.choiceId)).not.toContain(hidden!.id);
+      expect(counts.find((count) => count.choiceId === kept!.id)?.count).toBe(1);
+      expect((await VotingManager.castVote(postId, 'user_c', chapter.id, hidden!.id)).success).toBe(
+        false
+      );
+
+      expect(platform.realtime.messages(`haunted_thread_${postId}`)).toContainEqual(
+        expect.objectContaining({
+          type: 'chapter_updated',
+          data: expect.objectContaining({ reason: 'hide_choice' }),
+        })
+      );
+      expect(await ContentModerator.getContentReport(postId, reportId)).toMatchObject({
+        status: 'resolved',
+        resolvedBy: 'mod_a',
+        moderatorNotes: 'Choice hidden',
+      });
+
+      const { logs } = await AdminManager.getAdminLogs(postId);
+      expect(logs).toContainEqual(
+        expect.objectContaining({
+          action: 'queue_action',
+          username: 'mod_a',
+          details: expect.objectContaining({ choiceId: hidden!.id, withdrawnVotes: 1 }),
+        })
+      );
+    });
+
+    it('replaces reported chapter text and keeps the old text in the log', async () => {
+      const reportId = await report('chapter', chapter.id);
+
+      const result = await ModerationQueueManager.applyAction(
+        postId,
+        'mod_a',
+        reportId,
+        'edit_chapter',
+        { content: '  A quieter telling.  ' }
+      );
+
+      expect(result.chapter).toMatchObject({ id: chapter.id, content: 'A quieter telling.' });
+      expect((await StoryStateManager.getChapter(postId, chapter.id))?.content).toBe(
+        'A quieter telling.'
+      );
+
+      const { logs } = await AdminManager.getAdminLogs(postId);
+      expect(logs).toContainEqual(
+        expect.objectContaining({
+          action: 'queue_action',
+          details: expect.objectContaining({
+            action: 'edit_chapter',
+            previousContent: chapter.content,
+          }),
+        })
+      );
+    });
+
+    it('only applies an action to the kind of content it is for', async () => {
+      const reportId = await report('chapter', chapter.id);
+
+      expect(
+        await ModerationQueueManager.applyAction(postId, 'mod_a', reportId, 'hide_choice')
+      ).toEqual({ success: false, error: 'hide_choice only applies to choice reports' });
+      expect(
+        await ModerationQueueManager.applyAction(postId, 'mod_a', reportId, 'edit_chapter', {
+          content: '   ',
+        })
+      ).toEqual({ success: false, error: 'New chapter text is required' });
+    });
+  });
+
+  describe('auto-hide', () => {
+    beforeEach(async () => {
+      await PostConfigManager.setConfig(postId, { autoHideReportThreshold: 2 });
+    });
+
+    it('takes a choice out of voting once enough players report it', async () => {
+      const choice = chapter.choices[0]!;
+
+      expect(await fileReport('choice', choice.id, 'user_a')).toMatchObject({
+        autoHidden: false,
+      });
+      expect(await fileReport('choice', choice.id, 'user_a')).toMatchObject({ duplicate: true });
+      expect(
+        (await StoryStateManager.getChapter(postId, chapter.id))!.choices.map(({ id }) => id)
+      ).toContain(choice.id);
+
+      const second = await fileReport('choice', choice.id, 'user_b');
+
+      expect(second).toMatchObject({ success: true, autoHidden: true });
+      expect(
+        (await StoryStateManager.getChapter(postId, chapter.id))!.choices.map(({ id }) => id)
+      ).not.toContain(choice.id);
+      expect((await VotingManager.castVote(postId, 'user_c', chapter.id, choice.id)).success).toBe(
+        false
+      );
+      expect(await ModerationQueueManager.getQueue(postId)).toContainEqual(
+        expect.objectContaining({ reportId: second.reportId, autoHidden: true })
+      );
+
+      const { logs } = await AdminManager.getAdminLogs(postId);
+      expect(logs).toContainEqual(
+        expect.objectContaining({
+          action: 'auto_hide',
+          username: ModerationQueueManager.SYSTEM_ACTOR,
+          details: expect.objectContaining({ contentId: choice.id, reporters: 2 }),
+        })
+      );
+    });
+
+    it("doesn't count players whose reports are mostly dismissed", async () => {
+      for (let i = 0; i < 5; i++) {
+        const reportId = await report('chapter', `old_chapter_${i}`, 'user_a');
+        await ContentModerator.updateReportStatus(postId, reportId, 'dismissed', 'mod_a');
+      }
+
+      await fileReport('chapter', chapter.id, 'user_a');
+      expect(await fileReport('chapter', chapter.id, 'user_b')).toMatchObject({
+        autoHidden: false,
+      });
+      const queue = await ModerationQueueManager.getQueue(postId);
+      expect(queue.find((item) => item.reportedBy === 'user_a')).toMatchObject({
+        reporterFlagged: true,
+      });
+      expect(queue.find((item) => item.reportedBy === 'user_b')).not.toHaveProperty(
+        'reporterFlagged'
+      );
+
+      expect(await fileReport('chapter', chapter.id, 'user_c')).toMatchObject({
+        autoHidden: true,
+      });
+    });
+
+    it('holds back a reported chapter until a moderator restores it', async () => {
+      await fileReport('chapter', chapter.id, 'user_a');
+      const { reportId } = await fileReport('chapter', chapter.id, 'user_b');
+
+      const hidden = await StoryStateManager.getChapter(postId, chapter.id);
+      expect(hidden).toMatchObject({ hiddenForReview: true, content: chapter.content });
+      // Players only ever receive the hidden chapter without its text
+      expect(platform.realtime.messages(`haunted_thread_${postId}`)).toContainEqual(
+        expect.objectContaining({
+          type: 'chapter_updated',
+          data: expect.objectContaining({
+            reason: 'auto_hide',
+            chapter: expect.objectContaining({ hiddenForReview: true, content: '' }),
+          }),
+        })
+      );
+      const exported = await StoryHistoryTracker.getExportDocument(postId);
+      expect(exported?.chapters[0]?.content).not.toContain(chapter.content);
+      const forModerators = await StoryHistoryTracker.getExportDocument(postId, true);
+      expect(forModerators?.chapters[0]?.content).toBe(chapter.content);
+
+      const restored = await ModerationQueueManager.applyAction(
+        postId,
+        'mod_a',
+        reportId!,
+        'restore_chapter'
+      );
+
+      expect(restored.success).toBe(true);
+      expect(await StoryStateManager.getChapter(postId, chapter.id)).not.toHaveProperty(
+        'hiddenForReview'
+      );
+      expect(await ContentModerator.getContentReport(postId, reportId!)).toMatchObject({
+        status: 'resolved',
+        moderatorNotes: 'Chapter restored',
+      });
+    });
+
+    it('can be turned off', async () => {
+      await PostConfigManager.setConfig(postId, { autoHideReportThreshold: 0 });
+
+      await fileReport('chapter', chapter.id, 'user_a');
+      expect(await fileReport('chapter', chapter.id, 'user_b')).toMatchObject({
+        autoHidden: false,
+      });
+    });
+  });
+});
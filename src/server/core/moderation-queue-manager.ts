@@ -0,0 +1,386 @@
+/**
+ * Review queue for reported content in The Haunted Thread
+ * Moderators claim reports, close them in bulk and act on the reported chapter or choice
+ * straight from the queue. Content reported by enough players is hidden before anyone gets
+ * to it. Every change is written to the admin log.
+ */
+
+import { ContentModerator, ContentReport } from './content-moderator.js';
+import { AdminManager } from './admin-manager.js';
+import { StoryStateManager } from './story-state-manager.js';
+import { VotingManager } from './voting-manager.js';
+import { RealtimeManager } from './realtime-manager.js';
+import { PostConfigManager } from './post-config-manager.js';
+import { StoryChapter } from '../../shared/types/story.js';
+import {
+  ModerationQueue,
+  ModerationQueueItem,
+  QUEUE_ACTIONS,
+  QueueAction,
+  ReportedContentType,
+} from '../../shared/types/moderation-queue.js';
+
+export interface BulkReportUpdate {
+  updated: string[];
+  failed: Array<{ reportId: string; error: string }>;
+}
+
+export class ModerationQueueManager {
+  /** Written to the admin log as the moderator behind automatic actions */
+  static readonly SYSTEM_ACTOR = 'system';
+
+  // Resolution notes used when the moderator doesn't write their own
+  private static readonly ACTION_NOTES: Record<QueueAction, string> = {
+    hide_choice: 'Choice hidden',
+    edit_chapter: 'Chapter text edited',
+    restore_chapter: 'Chapter restored',
+  };
+
+  /**
+   * Files a player's report, then hides the content if enough players have now reported it.
+   * Repeat reports from the same player are counted on their first report and hide nothing.
+   */
+  static async fileReport(
+    postId: string,
+    contentType: ReportedContentType,
+    contentId: string,
+    reportedBy: string,
+    reason: string,
+    description?: string
+  ): Promise<{
+    success: boolean;
+    reportId?: string;
+    duplicate?: boolean;
+    autoHidden?: boolean;
+    error?: string;
+  }> {
+    const result = await ContentModerator.reportContent(
+      postId,
+      contentType,
+      contentId,
+      reportedBy,
+      reason,
+      description
+    );
+    if (!result.success || result.duplicate || !result.reportId) {
+      return result;
+    }
+
+    const autoHidden = await this.autoHide(postId, contentType, contentId, result.reportId);
+    return { ...result, autoHidden };
+  }
+
+  /**
+   * Open reports, unclaimed and longest-waiting first
+   */
+  static async getQueue(postId: string, now: Date = new Date()): Promise<ModerationQueueItem[]> {
+    const [reports, reporters] = await Promise.all([
+      ContentModerator.getContentReports(postId),
+      this.getFlaggedReporters(postId),
+    ]);
+    return ModerationQueue.sort(
+      reports
+        .filter((report) => this.isOpen(report))
+        .map((report) => this.toQueueItem(report, now, reporters.has(report.reportedBy)))
+    );
+  }
+
+  /**
+   * Assigns a report to the moderator asking for it, unless someone else already has it
+   */
+  static async claimReport(
+    postId: string,
+    moderator: string,
+    reportId: string
+  ): Promise<{ success: boolean; item?: ModerationQueueItem; error?: string }> {
+    return this.assign(postId, moderator, reportId, moderator, 'claim_report', true);
+  }
+
+  /**
+   * Assigns a report to any moderator, or returns it to the queue when assignee is null
+   */
+  static async assignReport(
+    postId: string,
+    actor: string,
+    reportId: string,
+    assignee: string | null
+  ): Promise<{ success: boolean; item?: ModerationQueueItem; error?: string }> {
+    return this.assign(postId, actor, reportId, assignee, 'assign_report');
+  }
+
+  private static async assign(
+    postId: string,
+    actor: string,
+    reportId: string,
+    assignee: string | null,
+    logAction: string,
+    onlyIfUnclaimed = false
+  ): Promise<{ success: boolean; item?: ModerationQueueItem; error?: string }> {
+    const result = await ContentModerator.assignReport(postId, reportId, assignee, onlyIfUnclaimed);
+    if (!result.success || !result.report) {
+      return { success: false, error: result.error || 'Failed to assign report' };
+    }
+
+    await AdminManager.logAdminAction(postId, actor, logAction, { reportId, assignee });
+    return { success: true, item: this.toQueueItem(result.report) };
+  }
+
+  /**
+   * Resolves or dismisses several open reports at once. Reports that can't be closed are
+   * listed with the reason rather than failing the whole batch.
+   */
+  static async bulkUpdate(
+    postId: string,
+    actor: string,
+    reportIds: string[],
+    status: 'resolved' | 'dismissed',
+    moderatorNotes?: string
+  ): Promise<BulkReportUpdate> {
+    const outcome: BulkReportUpdate = { updated: [], failed: [] };
+
+    for (const reportId of new Set(reportIds)) {
+      const report = await ContentModerator.getContentReport(postId, reportId);
+      if (!report) {
+        outcome.failed.push({ reportId, error: 'Report not found' });
+        continue;
+      }
+      if (!this.isOpen(report)) {
+        outcome.failed.push({ reportId, error: `Report is already ${report.status}` });
+        continue;
+      }
+
+      const result = await ContentModerator.updateReportStatus(
+        postId,
+        reportId,
+        status,
+        actor,
+        moderatorNotes
+      );
+      if (result.success) {
+        outcome.updated.push(reportId);
+      } else {
+        outcome.failed.push({ reportId, error: result.error || 'Failed to update report' });
+      }
+    }
+
+    await AdminManager.logAdminAction(postId, actor, 'bulk_update_reports', {
+      status,
+      reportIds: outcome.updated,
+      failedReportIds: outcome.failed.map(({ reportId }) => reportId),
+    });
+
+    return outcome;
+  }
+
+  /**
+   * Acts on the content behind a report, tells connected players, and resolves the report.
+   * hide_choice needs a choice report; edit_chapter needs a chapter report and the new text;
+   * restore_chapter needs a chapter report for a hidden chapter.
+   */
+  static async applyAction(
+    postId: string,
+    actor: string,
+    reportId: string,
+    action: QueueAction,
+    options: { content?: string; title?: string; moderatorNotes?: string } = {}
+  ): Promise<{ success: boolean; chapter?: StoryChapter; error?: string }> {
+    try {
+      const report = await ContentModerator.getContentReport(postId, reportId);
+      if (!report) {
+        return { success: false, error: 'Report not found' };
+      }
+      if (!this.isOpen(report)) {
+        return { success: false, error: `Report is already ${report.status}` };
+      }
+      if (report.contentType !== QUEUE_ACTIONS[action]) {
+        return {
+          success: false,
+          error: `${action} only applies to ${QUEUE_ACTIONS[action]} reports`,
+        };
+      }
+
+      const chapter = await ContentModerator.findReportedChapter(
+        postId,
+        report.contentType,
+        report.contentId
+      );
+      if (!chapter) {
+        return { success: false, error: 'The reported content no longer exists' };
+      }
+
+      let updated: StoryChapter;
+      let details: Record<string, unknown>;
+
+      if (action === 'hide_choice') {
+        const removal = await this.hideChoice(postId, chapter, report.contentId);
+        if (!removal.success || !removal.chapter) {
+          return { success: false, error: removal.error || 'Failed to hide choice' };
+        }
+        updated = removal.chapter;
+        details = {
+          chapterId: chapter.id,
+          choiceId: report.contentId,
+          withdrawnVotes: removal.withdrawnVotes,
+        };
+      } else if (action === 'edit_chapter') {
+        const content = options.content?.trim();
+        if (!content) {
+          return { success: false, error: 'New chapter text is required' };
+        }
+        updated = {
+          ...this.unhide(chapter),
+          content,
+          ...(options.title?.trim() && { title: options.title.trim() }),
+        };
+        details = {
+          chapterId: chapter.id,
+          previousTitle: chapter.title,
+          previousContent: chapter.content,
+        };
+      } else {
+        if (!chapter.hiddenForReview) {
+          return { success: false, error: 'Chapter is not hidden' };
+        }
+        updated = this.unhide(chapter);
+        details = { chapterId: chapter.id };
+      }
+
+      await StoryStateManager.storeChapter(postId, updated);
+      await RealtimeManager.broadcastChapterUpdate(postId, updated, action);
+      await ContentModerator.updateReportStatus(
+        postId,
+        reportId,
+        'resolved',
+        actor,
+        options.moderatorNotes || this.ACTION_NOTES[action]
+      );
+      await AdminManager.logAdminAction(postId, actor, 'queue_action', {
+        reportId,
+        action,
+        ...details,
+      });
+
+      return { success: true, chapter: updated };
+    } catch (error) {
+      console.error('Error applying queue action:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      };
+    }
+  }
+
+  /**
+   * Hides reported content once the post's threshold of players have reported it. Reports from
+   * players whose reports are mostly dismissed don't count towards it. A choice is taken out
+   * of voting; a chapter stays playable but its text is held back until it's reviewed.
+   */
+  private static async autoHide(
+    postId: string,
+    contentType: ReportedContentType,
+    contentId: string,
+    reportId: string
+  ): Promise<boolean> {
+    if (contentType === 'story') return false;
+
+    const { autoHideReportThreshold } = await PostConfigManager.getConfig(postId);
+    if (autoHideReportThreshold === 0) return false;
+
+    const [reporters, flagged] = await Promise.all([
+      ContentModerator.getReporters(postId, contentType, contentId),
+      this.getFlaggedReporters(postId),
+    ]);
+    const counted = reporters.filter((username) => !flagged.has(username)).length;
+    if (counted < autoHideReportThreshold) return false;
+
+    const chapter = await ContentModerator.findReportedChapter(postId, contentType, contentId);
+    if (!chapter) return false;
+
+    let updated: StoryChapter;
+    if (contentType === 'choice') {
+      if (!chapter.choices.some((choice) => choice.id === contentId)) return false;
+      const removal = await this.hideChoice(postId, chapter, contentId);
+      if (!removal.success || !removal.chapter) return false;
+      updated = removal.chapter;
+    } else {
+      if (chapter.hiddenForReview) return false;
+      updated = { ...chapter, hiddenForReview: true };
+    }
+
+    await StoryStateManager.storeChapter(postId, updated);
+    await RealtimeManager.broadcastChapterUpdate(postId, updated, 'auto_hide');
+    await ContentModerator.markAutoHidden(postId, reportId);
+    await AdminManager.logAdminAction(postId, this.SYSTEM_ACTOR, 'auto_hide', {
+      reportId,
+      contentType,
+      contentId,
+      chapterId: chapter.id,
+      reporters: counted,
+    });
+
+    return true;
+  }
+
+  private static async hideChoice(
+    postId: string,
+    chapter: StoryChapter,
+    choiceId: string
+  ): Promise<{
+    success: boolean;
+    chapter?: StoryChapter;
+    withdrawnVotes?: number;
+    error?: string;
+  }> {
+    const removal = await VotingManager.removeChoice(postId, chapter.id, choiceId);
+    if (!removal.success) {
+      return removal;
+    }
+
+    return {
+      success: true,
+      chapter: { ...chapter, choices: chapter.choices.filter((choice) => choice.id !== choiceId) },
+      withdrawnVotes: removal.withdrawnVotes ?? 0,
+    };
+  }
+
+  private static unhide(chapter: StoryChapter): StoryChapter {
+    const visible = { ...chapter };
+    delete visible.hiddenForReview;
+    return visible;
+  }
+
+  private static async getFlaggedReporters(postId: string): Promise<Set<string>> {
+    const records = await ContentModerator.getReporterRecords(postId);
+    return new Set(records.filter((record) => record.flagged).map((record) => record.username));
+  }
+
+  private static isOpen(report: ContentReport): boolean {
+    return report.status === 'pending' || report.status === 'reviewing';
+  }
+
+  private static toQueueItem(
+    report: ContentReport,
+    now: Date = new Date(),
+    reporterFlagged = false
+  ): ModerationQueueItem {
+    const ageMinutes = ModerationQueue.ageMinutes(report.reportedAt, now);
+    return {
+      reportId: report.id,
+      contentType: report.contentType,
+      contentId: report.contentId,
+      reason: report.reason,
+      ...(report.description && { description: report.description }),
+      reportedBy: report.reportedBy,
+      reportedAt: report.reportedAt.toISOString(),
+      status: report.status,
+      ...(report.assignedTo && { assignedTo: report.assignedTo }),
+      ...(report.claimedAt && { claimedAt: report.claimedAt.toISOString() }),
+      ...(report.snapshot && { snapshot: report.snapshot }),
+      ...(report.repeatCount && { repeatCount: report.repeatCount }),
+      ...(report.autoHidden && { autoHidden: true }),
+      ...(reporterFlagged && { reporterFlagged }),
+      ageMinutes,
+      sla: ModerationQueue.slaStatus(ageMinutes),
+    };
+  }
+}
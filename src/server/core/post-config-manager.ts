@@ -0,0 +1,53 @@
+/**
+ * Per-post configuration storage for The Haunted Thread
+ */
+
+import { redis } from '../platform';
+import {
+  DEFAULT_POST_CONFIG,
+  PostConfig,
+  PostConfigValidator,
+} from '../../shared/types/post-config.js';
+import { ErrorLogger } from '../utils/error-handler';
+
+export class PostConfigManager {
+  private static readonly CONFIG_PREFIX = 'haunted_thread:post_config';
+
+  /**
+   * Gets a post's configuration, filling unset fields with defaults
+   */
+  static async getConfig(postId: string): Promise<PostConfig> {
+    try {
+      const data = await redis.get(`${this.CONFIG_PREFIX}:${postId}`);
+      if (!data) return { ...DEFAULT_POST_CONFIG };
+
+      return { ...DEFAULT_POST_CONFIG, ...(JSON.parse(data) as Partial<PostConfig>) };
+    } catch (error) {
+      ErrorLogger.logWarning('Failed to load post config, using defaults', {
+        postId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      return { ...DEFAULT_POST_CONFIG };
+    }
+  }
+
+  /**
+   * Validates and merges config updates into a post's stored configuration
+   */
+  static async setConfig(
+    postId: string,
+    updates: Partial<PostConfig>
+  ): Promise<{ success: boolean; config?: PostConfig; errors?: string[] }> {
+    const validation = PostConfigValidator.validate(updates);
+    if (!validation.isValid) {
+      return { success: false, errors: validation.errors };
+    }
+
+    const config: PostConfig = { ...(await this.getConfig(postId)), ...updates };
+    await redis.set(`${this.CONFIG_PREFIX}:${postId}`, JSON.stringify(config));
+
+    ErrorLogger.logInfo('Post config saved', { postId, ...config });
+
+    return { success: true, config };
+  }
+}
@@ -0,0 +1,162 @@
+/**
+ * Post status for The Haunted Thread
+ * Keeps a story post's flair and feed preview in step with where its story is
+ */
+
+import { redis, scheduler } from '../platform';
+import { StoryEnding } from '../../shared/types/story.js';
+import { StoryPackManager } from './story-pack-manager.js';
+import { StoryContentManager } from './story-content-manager.js';
+import { buildSplash } from './post.js';
+import { RedditErrorHandler } from '../utils/reddit-error-handler';
+import { ErrorLogger } from '../utils/error-handler';
+
+/**
+ * voting: players are deciding the given chapter; ended: the story reached an ending
+ */
+export type PostStatus =
+  | { state: 'voting'; chapterNumber: number }
+  | { state: 'ended'; ending: Pick<StoryEnding, 'title' | 'type'> };
+
+interface StoredPostStatus {
+  status: PostStatus;
+  applied: boolean;
+  updatedAt: string;
+}
+
+export class PostStatusManager {
+  static readonly JOB_NAME = 'refresh-post-status';
+  private static readonly STATUS_PREFIX = 'haunted_thread:post_status';
+  private static readonly RATE_LIMIT_RETRY_MS = 60000;
+  private static readonly FLAIR_MAX_LENGTH = 64;
+
+  private static readonly FLAIR_COLORS: Record<StoryEnding['type'] | 'voting', string> = {
+    voting: '#8b0000',
+    good: '#2e7d32',
+    bad: '#4a0000',
+    neutral: '#555555',
+    twist: '#6a1b9a',
+  };
+
+  /**
+   * Records the post's new status and updates its flair and preview. When Reddit rate limits
+   * the update, a job retries it later with whatever status is current by then.
+   * Never throws: a stale flair must not block the story.
+   */
+  static async updateStatus(postId: string, status: PostStatus): Promise<void> {
+    try {
+      const stored = await this.getStoredStatus(postId);
+      if (stored?.applied && JSON.stringify(stored.status) === JSON.stringify(status)) return;
+
+      await this.storeStatus(postId, {
+        status,
+        applied: false,
+        updatedAt: new Date().toISOString(),
+      });
+      await this.applyStatus(postId, status);
+    } catch (error) {
+      ErrorLogger.logWarning('Failed to update post status', {
+        postId,
+        state: status.state,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+
+  /**
+   * Re-applies the stored status if it has not reached Reddit yet. Run by the retry job;
+   * returns whether it was applied.
+   */
+  static async refreshStatus(postId: string): Promise<boolean> {
+    const stored = await this.getStoredStatus(postId);
+    if (!stored || stored.applied) return false;
+
+    try {
+      await this.applyStatus(postId, stored.status);
+      return true;
+    } catch (error) {
+      ErrorLogger.logWarning('Post status retry failed', {
+        postId,
+        state: stored.status.state,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      return false;
+    }
+  }
+
+  /**
+   * Flair text, e.g. "Chapter 4 – Voting" or "Ending: Forever Online"
+   */
+  static getFlairText(status: PostStatus): string {
+    if (status.state === 'voting') return `Chapter ${status.chapterNumber} – Voting`;
+
+    const text = `Ending: ${status.ending.title}`;
+    return text.length <= this.FLAIR_MAX_LENGTH ? text : 'Completed';
+  }
+
+  private static async applyStatus(postId: string, status: PostStatus): Promise<void> {
+    const packKey = await StoryPackManager.loadPackForPost(postId);
+    const pack = StoryContentManager.getPack(packKey);
+
+    // Flair can be switched off in a subreddit, so the preview is updated either way
+    const results = await Promise.allSettled([
+      RedditErrorHandler.safeSetPostFlair(postId, {
+        text: this.getFlairText(status),
+        backgroundColor:
+          this.FLAIR_COLORS[status.state === 'voting' ? 'voting' : status.ending.type],
+        textColor: 'light',
+      }),
+      RedditErrorHandler.safeSetSplash(
+        postId,
+        status.state === 'voting'
+          ? buildSplash(
+              pack.title,
+              `Chapter ${status.chapterNumber} – Voting. ${pack.description || 'Vote to decide what happens next.'}`,
+              '🕯️ Cast Your Vote'
+            )
+          : buildSplash(
+              pack.title,
+              `Completed · Ending: ${status.ending.title}. Open the thread to relive every choice.`,
+              '📜 Read the Story'
+            )
+      ),
+    ]);
+
+    const failures = results.flatMap((result) =>
+      result.status === 'rejected' ? [result.reason as unknown] : []
+    );
+    if (failures.some((error) => RedditErrorHandler.isRateLimited(error))) {
+      await this.scheduleRetry(postId);
+    }
+    if (failures.length > 0) throw failures[0];
+
+    const stored = await this.getStoredStatus(postId);
+    // A newer status may have been stored while this one was being applied
+    if (stored && JSON.stringify(stored.status) === JSON.stringify(status)) {
+      await this.storeStatus(postId, { ...stored, applied: true });
+    }
+  }
+
+  private static async scheduleRetry(postId: string): Promise<void> {
+    const jobId = await scheduler.runJob({
+      name: this.JOB_NAME,
+      data: { postId },
+      runAt: new Date(Date.now() + this.RATE_LIMIT_RETRY_MS),
+    });
+
+    ErrorLogger.logWarning('Post status update rate limited, retry scheduled', {
+      postId,
+      jobId,
+      retryInMs: this.RATE_LIMIT_RETRY_MS,
+    });
+  }
+
+  private static async getStoredStatus(postId: string): Promise<StoredPostStatus | null> {
+    const data = await redis.get(`${this.STATUS_PREFIX}:${postId}`);
+    return data ? (JSON.parse(data) as StoredPostStatus) : null;
+  }
+
+  private static async storeStatus(postId: string, stored: StoredPostStatus): Promise<void> {
+    await redis.set(`${this.STATUS_PREFIX}:${postId}`, JSON.stringify(stored));
+  }
+}
@@ -1,29 +1,163 @@
-import { context, reddit } from '@devvit/web/server';
+import { context, reddit } from '../platform';
+import type { SubmitCustomPostSplashOptions } from '@devvit/web/server';
+import type { Form } from '@devvit/web/shared';
+import {
+  DEFAULT_POST_CONFIG,
+  MODERATION_STRICTNESS_LEVELS,
+  POST_CONFIG_LIMITS,
+  StoryMode,
+} from '../../shared/types/post-config.js';
+import { StoryPackSummary } from '../../shared/types/story-pack.js';
+import { VOTING_METHODS } from '../../shared/types/voting.js';
+import { VOTING_METHOD_LABELS } from '../../shared/types/vote-tally.js';
 
-export const createPost = async () => {
+export const CREATE_POST_FORM_NAME = 'createStoryPost';
+
+/**
+ * The post's splash screen, also used as its preview in the feed
+ */
+export const buildSplash = (
+  storyTitle: string,
+  description: string,
+  buttonLabel: string
+): SubmitCustomPostSplashOptions => ({
+  appDisplayName: 'The Haunted Thread',
+  backgroundUri: 'default-splash.png',
+  buttonLabel,
+  description,
+  entry: 'index.html',
+  heading: `👻 ${storyTitle}`,
+  appIconUri: 'default-icon.png',
+});
+
+export const createPost = async (
+  pack?: StoryPackSummary,
+  storyMode: StoryMode = DEFAULT_POST_CONFIG.storyMode
+) => {
   const { subredditName } = context;
   if (!subredditName) {
     throw new Error('subredditName is required');
   }
 
+  const isChain = storyMode === 'chain';
+  const storyTitle = isChain ? 'Chain Story' : pack?.title || 'The Haunted Thread';
+  const description = isChain
+    ? 'Write a horror story together, one sentence at a time. The top-voted sentence of each round joins the story.'
+    : pack?.description ||
+      'A community-driven horror story. Vote on each chapter to decide what happens next.';
+
   return await reddit.submitCustomPost({
-    splash: {
-      // Halloween-themed splash screen
-      appDisplayName: 'Pumpkin Collector',
-      backgroundUri: 'default-splash.png',
-      buttonLabel: '🎃 Start Collecting!',
-      description:
-        'Help the friendly ghost collect pumpkins while avoiding spooky monsters! Use WASD or arrow keys to move.',
-      entry: 'index.html',
-      heading: '👻 Halloween Pumpkin Collector 🎃',
-      appIconUri: 'default-icon.png',
-    },
+    splash: buildSplash(
+      storyTitle,
+      description,
+      isChain ? '✍️ Add a Sentence' : '🕯️ Enter the Thread'
+    ),
     postData: {
-      gameType: 'halloween-pumpkin-collector',
-      theme: 'spooky',
-      highScore: 0,
+      storyMode,
+      packId: isChain ? null : pack?.id || null,
+      packVersion: isChain ? null : pack?.version || null,
     },
     subredditName: subredditName,
-    title: '🎃 Halloween Pumpkin Collector - Spooky Fun Game! 👻',
+    title: isChain
+      ? '👻 Chain Story - Write the next sentence'
+      : `👻 ${storyTitle} - Vote to decide what happens next`,
   });
 };
+
+/**
+ * Builds the moderator form shown before creating a story post
+ */
+export const buildCreatePostForm = (packs: StoryPackSummary[]): Form => ({
+  title: 'Create Haunted Thread Story Post',
+  acceptLabel: 'Create Post',
+  fields: [
+    {
+      type: 'select',
+      name: 'storyMode',
+      label: 'Story mode',
+      helpText:
+        'Branching: vote on story choices. Chain: the community writes one sentence per round.',
+      required: true,
+      options: [
+        { label: 'Branching story', value: 'branching' },
+        { label: 'Chain story', value: 'chain' },
+      ],
+      defaultValue: [DEFAULT_POST_CONFIG.storyMode],
+    },
+    {
+      type: 'select',
+      name: 'storyPack',
+      label: 'Story pack',
+      helpText: 'Used in branching mode',
+      required: true,
+      options: packs.map((pack) => ({
+        label: `${pack.title} (v${pack.version})`,
+        value: `${pack.id}@${pack.version}`,
+      })),
+      ...(packs[0] && { defaultValue: [`${packs[0].id}@${packs[0].version}`] }),
+    },
+    {
+      type: 'number',
+      name: 'votingDurationMinutes',
+      label: 'Voting round length (minutes)',
+      helpText: `Between ${POST_CONFIG_LIMITS.votingDurationMinutes.min} and ${POST_CONFIG_LIMITS.votingDurationMinutes.max}`,
+      required: true,
+      defaultValue: DEFAULT_POST_CONFIG.votingDurationMinutes,
+    },
+    {
+      type: 'number',
+      name: 'maxChapters',
+      label: 'Max chapters',
+      helpText: `The story ends on its closest ending once this many chapters have been voted on (${POST_CONFIG_LIMITS.maxChapters.min}-${POST_CONFIG_LIMITS.maxChapters.max})`,
+      required: true,
+      defaultValue: DEFAULT_POST_CONFIG.maxChapters,
+    },
+    {
+      type: 'select',
+      name: 'moderationStrictness',
+      label: 'Moderation strictness',
+      required: true,
+      options: MODERATION_STRICTNESS_LEVELS.map((level) => ({
+        label: level.charAt(0).toUpperCase() + level.slice(1),
+        value: level,
+      })),
+      defaultValue: [DEFAULT_POST_CONFIG.moderationStrictness],
+    },
+    {
+      type: 'select',
+      name: 'votingMethod',
+      label: 'Voting method',
+      helpText:
+        'Used in branching mode. Ranked choice runs an instant runoff; approval lets voters back several choices.',
+      required: true,
+      options: VOTING_METHODS.map((method) => ({
+        label: VOTING_METHOD_LABELS[method],
+        value: method,
+      })),
+      defaultValue: [DEFAULT_POST_CONFIG.votingMethod],
+    },
+    {
+      type: 'boolean',
+      name: 'recapComments',
+      label: 'Post chapter recaps in the thread',
+      helpText:
+        'Keeps a stickied comment with the winning choice, vote breakdown and a teaser of the next chapter',
+      defaultValue: DEFAULT_POST_CONFIG.recapComments,
+    },
+    {
+      type: 'boolean',
+      name: 'lockVotes',
+      label: 'Lock votes once cast',
+      helpText: 'When on, players cannot change or retract a vote before the round closes',
+      defaultValue: DEFAULT_POST_CONFIG.lockVotes,
+    },
+    {
+      type: 'number',
+      name: 'autoHideReportThreshold',
+      label: 'Hide content reported by this many players',
+      helpText: `Hides a reported choice or chapter until a moderator reviews it. 0 turns this off (${POST_CONFIG_LIMITS.autoHideReportThreshold.min}-${POST_CONFIG_LIMITS.autoHideReportThreshold.max})`,
+      required: true,
+      defaultValue: DEFAULT_POST_CONFIG.autoHideReportThreshold,
+    },
+  ],
+});
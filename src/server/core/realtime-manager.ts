@@ -3,10 +3,11 @@
  * Handles post-specific channel management, message throttling, and batching
  */
 
-import { realtime } from '@devvit/web/server';
+import { realtime } from '../platform';
 // Realtime message types are defined inline to avoid serialization issues
 import { VoteCount, VotingStats } from '../../shared/types/voting.js';
-import { StoryChapter } from '../../shared/types/story.js';
+import { StoryChapter, StoryUtils } from '../../shared/types/story.js';
+import { VoteChange } from '../../shared/types/api.js';
 import { ErrorLogger, PerformanceMonitor } from '../utils/error-handler';
 
 // Message throttling and batching utilities
@@ -176,7 +177,8 @@ export class RealtimeManager {
     postId: string,
     chapterId: string,
     voteCounts: VoteCount[],
-    totalVotes: number
+    totalVotes: number,
+    change?: VoteChange
   ): Promise<void> {
     const stopTimer = PerformanceMonitor.startTimer('realtime_vote_update');
 
@@ -191,6 +193,7 @@ export class RealtimeManager {
           chapterId,
           voteCounts,
           totalVotes,
+          ...(change && { change }),
         },
       };
 
@@ -264,6 +267,43 @@ export class RealtimeManager {
     }
   }
 
+  /**
+   * Broadcasts a moderator's change to a chapter's text or choices (immediate, not throttled)
+   */
+  static async broadcastChapterUpdate(
+    postId: string,
+    chapter: StoryChapter,
+    reason: string
+  ): Promise<void> {
+    try {
+      const channel = this.getChannelName(postId);
+
+      const message = {
+        type: 'chapter_updated',
+        timestamp: new Date().toISOString(),
+        data: {
+          // Every player on the channel gets this, so a hidden chapter's text stays on the server
+          chapter: StoryUtils.redactHiddenContent(chapter),
+          reason,
+        },
+      };
+
+      await realtime.send(channel, JSON.parse(JSON.stringify(message)));
+
+      ErrorLogger.logInfo('Chapter update broadcasted', {
+        channel,
+        chapterId: chapter.id,
+        reason,
+      });
+    } catch (error) {
+      ErrorLogger.logWarning('Error broadcasting chapter update', {
+        postId,
+        chapterId: chapter.id,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+
   /**
    * Broadcasts a story reset notification (immediate, not throttled)
    */
@@ -0,0 +1,171 @@
+/**
+ * Recap comments for The Haunted Thread
+ * Keeps one stickied comment on the story post that sums up the latest resolved chapter
+ * for people reading the thread without opening the webview
+ */
+
+import { redis, reddit } from '../platform';
+import { ChapterArchiveRecord } from '../../shared/types/archive.js';
+import { StoryChapter, StoryEnding } from '../../shared/types/story.js';
+import { PostConfigManager } from './post-config-manager.js';
+import { RedditErrorHandler } from '../utils/reddit-error-handler';
+import { ErrorLogger } from '../utils/error-handler';
+
+/**
+ * What follows the resolved chapter: the next chapter while the story goes on, or its ending
+ */
+export type RecapFollowUp = { chapter: StoryChapter } | { ending: StoryEnding };
+
+export class RecapCommentManager {
+  private static readonly RECAP_PREFIX = 'haunted_thread:recap_comment';
+  private static readonly RECAP_HEADER = '👻 **The Haunted Thread — Chapter Recap**';
+  private static readonly RECAP_PATTERN = /^👻 \*\*The Haunted Thread — Chapter Recap\*\*/;
+  private static readonly TEASER_LENGTH = 200;
+
+  /**
+   * Posts the recap for a resolved chapter, or edits the existing recap comment.
+   * Does nothing when the post has recaps turned off; failures are logged, never thrown.
+   */
+  static async publishRecap(
+    postId: string,
+    record: ChapterArchiveRecord,
+    followUp: RecapFollowUp
+  ): Promise<void> {
+    try {
+      const { recapComments } = await PostConfigManager.getConfig(postId);
+      if (!recapComments) return;
+
+      const text = this.formatRecap(record, followUp);
+      const commentId = await this.upsertComment(postId, text);
+
+      ErrorLogger.logInfo('Recap comment published', {
+        postId,
+        chapterId: record.chapterId,
+        commentId,
+      });
+    } catch (error) {
+      ErrorLogger.logWarning('Failed to publish recap comment', {
+        postId,
+        chapterId: record.chapterId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+
+  /**
+   * Builds the comment body: winning choice, vote breakdown and a teaser of what comes next
+   */
+  static formatRecap(record: ChapterArchiveRecord, followUp: RecapFollowUp): string {
+    const { chapter, stats } = record;
+    const lines: string[] = [
+      this.RECAP_HEADER,
+      '',
+      `### Chapter ${record.pathPosition}: ${this.inline(chapter.title)}`,
+      '',
+      `**The community chose:** ${this.inline(record.winningChoiceText)}` +
+        (stats.totalVotes > 0 ? ` (${stats.winningPercentage}%)` : ''),
+      '',
+    ];
+
+    if (record.voteCounts.length > 0) {
+      lines.push('|Choice|Votes|Share|', '|:--|--:|--:|');
+      record.voteCounts.forEach((count) => {
+        const text =
+          chapter.choices.find((choice) => choice.id === count.choiceId)?.text || count.choiceId;
+        const cell = this.inline(text).replace(/\|/g, '\\|');
+        lines.push(
+          `|${count.choiceId === record.winningChoice ? `**${cell}**` : cell}|${count.count}|${count.percentage}%|`
+        );
+      });
+      lines.push('');
+    }
+
+    lines.push(
+      `${stats.totalVotes} vote${stats.totalVotes === 1 ? '' : 's'} from ${stats.uniqueVoters} player${stats.uniqueVoters === 1 ? '' : 's'}` +
+        (stats.explanation ? ` · ${this.inline(stats.explanation)}` : ''),
+      '',
+      '---',
+      ''
+    );
+
+    if ('chapter' in followUp) {
+      lines.push(
+        `**Next — Chapter ${followUp.chapter.metadata.pathPosition}: ${this.inline(followUp.chapter.title)}**`,
+        '',
+        `>${this.teaser(followUp.chapter.content)}`,
+        '',
+        '*Open the post to vote on what happens next.*'
+      );
+    } else {
+      lines.push(
+        `**The End: ${this.inline(followUp.ending.title)}** (${followUp.ending.type} ending)`,
+        '',
+        `>${this.teaser(followUp.ending.content)}`,
+        '',
+        '*Open the post to read the full ending and replay the story.*'
+      );
+    }
+
+    return lines.join('\n');
+  }
+
+  /**
+   * Edits the stored recap comment, or submits and stickies a new one when there is none
+   * or it was removed
+   */
+  private static async upsertComment(postId: string, text: string): Promise<string> {
+    const key = `${this.RECAP_PREFIX}:${postId}`;
+    const existingId = await redis.get(key);
+
+    if (existingId) {
+      const edited = await RedditErrorHandler.withErrorHandling(
+        async () => {
+          const comment = await reddit.getCommentById(existingId as `t1_${string}`);
+          if (!RedditErrorHandler.validateCommentFormat(comment.body, this.RECAP_PATTERN).valid) {
+            return false;
+          }
+          await comment.edit({ text });
+          return true;
+        },
+        'EDIT_RECAP_COMMENT',
+        false
+      );
+      if (edited) return existingId;
+    }
+
+    const { id } = await RedditErrorHandler.safeSubmitComment(postId, text);
+    await redis.set(key, id);
+
+    await RedditErrorHandler.withErrorHandling(
+      async () => {
+        const comment = await reddit.getCommentById(id as `t1_${string}`);
+        await comment.distinguish(true);
+        return true;
+      },
+      'STICKY_RECAP_COMMENT',
+      false
+    );
+
+    return id;
+  }
+
+  // First sentence or so of the passage, kept on one line for a Markdown quote
+  private static teaser(content: string): string {
+    const text = this.inline(content);
+    if (text.length <= this.TEASER_LENGTH) return text;
+
+    const cut = text.slice(0, this.TEASER_LENGTH);
+    const sentenceEnd = Math.max(
+      cut.lastIndexOf('. '),
+      cut.lastIndexOf('! '),
+      cut.lastIndexOf('? ')
+    );
+    return sentenceEnd > this.TEASER_LENGTH / 2
+      ? cut.slice(0, sentenceEnd + 1)
+      : `${cut.slice(0, cut.lastIndexOf(' ')).trimEnd()}…`;
+  }
+
+  private static inline(text: string): string {
+    return text.replace(/\s+/g, ' ').trim();
+  }
+}
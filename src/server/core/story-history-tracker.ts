@@ -3,9 +3,24 @@
  * Handles displaying story progression indicators, history viewing, and narrative branch tracking
  */
 
-import { StoryChapter, StoryContext } from '../../shared/types/story.js';
-import { VotingStats } from '../../shared/types/voting.js';
+import { StoryChapter, StoryContext, StoryUtils } from '../../shared/types/story.js';
+import { VoteCount, VotingStats } from '../../shared/types/voting.js';
+import {
+  StoryMapCompletedPath,
+  StoryMapData,
+  StoryMapEdge,
+  StoryMapNode,
+} from '../../shared/types/story-graph.js';
+import { StoryPack } from '../../shared/types/story-pack.js';
+import {
+  StoryExportChapter,
+  StoryExportChoice,
+  StoryExportDocument,
+} from '../../shared/types/story-export.js';
 import { StoryStateManager } from './story-state-manager.js';
+import { StoryContentManager } from './story-content-manager.js';
+import { StoryPackManager } from './story-pack-manager.js';
+import { ChapterArchiveManager } from './chapter-archive-manager.js';
 import { VotingManager } from './voting-manager.js';
 
 export interface StoryHistoryEntry {
@@ -39,46 +54,25 @@ export interface BranchPath {
 }
 
 export class StoryHistoryTracker {
+  private static readonly HIDDEN_CHAPTER_TEXT =
+    'This chapter is hidden while moderators review reports about it.';
+
   /**
-   * Gets comprehensive story history with voting statistics
+   * Gets comprehensive story history with voting statistics, read from the chapter archive
    */
   static async getStoryHistory(postId: string): Promise<StoryHistoryEntry[]> {
     try {
-      const [rawHistory, allChapters] = await Promise.all([
-        StoryStateManager.getStoryHistory(postId),
-        StoryStateManager.getAllChapters(postId),
-      ]);
-
-      const historyEntries: StoryHistoryEntry[] = [];
-
-      // Create a map of chapters for quick lookup
-      const chapterMap = new Map(allChapters.map((ch) => [ch.id, ch]));
-
-      for (const entry of rawHistory) {
-        const chapter = chapterMap.get(entry.chapterId);
-        if (!chapter) continue;
-
-        // Get voting stats for this chapter
-        const voteStats = await VotingManager.getVotingStats(postId, entry.chapterId);
-        if (!voteStats) continue;
-
-        // Find the choice text
-        const choice = chapter.choices.find((c) => c.id === entry.winningChoice);
-        const choiceText = choice?.text || 'Unknown choice';
-
-        historyEntries.push({
-          chapterId: entry.chapterId,
-          chapterTitle: chapter.title,
-          winningChoice: entry.winningChoice,
-          choiceText,
-          voteStats,
-          timestamp: entry.timestamp,
-          pathPosition: chapter.metadata.pathPosition,
-        });
-      }
-
-      // Sort by path position (chronological order)
-      return historyEntries.sort((a, b) => a.pathPosition - b.pathPosition);
+      const archive = await ChapterArchiveManager.getStoryArchive(postId);
+
+      return archive.map((record) => ({
+        chapterId: record.chapterId,
+        chapterTitle: record.chapter.title,
+        winningChoice: record.winningChoice,
+        choiceText: record.winningChoiceText,
+        voteStats: record.stats,
+        timestamp: record.votingEndTime,
+        pathPosition: record.pathPosition,
+      }));
     } catch (error) {
       console.error('Error getting story history:', error);
       return [];
@@ -246,27 +240,14 @@ export class StoryHistoryTracker {
     }>
   > {
     try {
-      const history = await this.getStoryHistory(postId);
-      const recentHistory = history.slice(-limit);
-
-      const chapters = await StoryStateManager.getAllChapters(postId);
-      const chapterMap = new Map(chapters.map((ch) => [ch.id, ch]));
-
-      const previousChapters = [];
-
-      for (const entry of recentHistory) {
-        const chapter = chapterMap.get(entry.chapterId);
-        if (chapter) {
-          previousChapters.push({
-            chapter,
-            winningChoice: entry.winningChoice,
-            choiceText: entry.choiceText,
-            voteStats: entry.voteStats,
-          });
-        }
-      }
-
-      return previousChapters;
+      const archive = await ChapterArchiveManager.getStoryArchive(postId);
+
+      return archive.slice(-limit).map((record) => ({
+        chapter: record.chapter,
+        winningChoice: record.winningChoice,
+        choiceText: record.winningChoiceText,
+        voteStats: record.stats,
+      }));
     } catch (error) {
       console.error('Error getting previous chapters:', error);
       return [];
@@ -319,6 +300,276 @@ export class StoryHistoryTracker {
     }
   }
 
+  /**
+   * Collects a story for export: every archived chapter, the chapter still being voted on
+   * and the ending once one has been reached. Chapters hidden for review leave their text out
+   * unless includeHidden is set.
+   */
+  static async getExportDocument(
+    postId: string,
+    includeHidden = false
+  ): Promise<StoryExportDocument | null> {
+    const context = await StoryStateManager.getStoryContext(postId);
+    if (!context) return null;
+
+    const packKey = await StoryPackManager.loadPackForPost(postId);
+    const pack = StoryContentManager.getPack(packKey);
+
+    const [archive, currentChapter, pathRecord] = await Promise.all([
+      ChapterArchiveManager.getStoryArchive(postId),
+      StoryStateManager.getCurrentChapter(postId),
+      ChapterArchiveManager.getPathRecord(postId, StoryUtils.generatePathId(context.pathTaken)),
+    ]);
+
+    // A path record for this exact path means this run reached its ending
+    const ending =
+      pathRecord && pathRecord.completedAt >= context.storyStartTime ? pathRecord.ending : null;
+
+    const chapters: StoryExportChapter[] = archive.map((record, index) => ({
+      number: index + 1,
+      title: record.chapter.title,
+      content: this.exportContent(record.chapter, includeHidden),
+      choices: this.exportChoices(record.chapter, record.voteCounts, record.winningChoice),
+      status: 'decided',
+      totalVotes: record.stats.totalVotes,
+      ...(record.stats.explanation && { explanation: record.stats.explanation }),
+    }));
+    const participants = new Set(archive.flatMap((record) => record.participants));
+
+    if (!ending && currentChapter && !archive.some((r) => r.chapterId === currentChapter.id)) {
+      const [voteCounts, voters, totalVotes] = await Promise.all([
+        VotingManager.getVoteCounts(postId, currentChapter.id),
+        VotingManager.getChapterVoters(postId, currentChapter.id),
+        VotingManager.getTotalVotes(postId, currentChapter.id),
+      ]);
+      voters.forEach((voter) => participants.add(voter));
+
+      chapters.push({
+        number: chapters.length + 1,
+        title: currentChapter.title,
+        content: this.exportContent(currentChapter, includeHidden),
+        choices: this.exportChoices(currentChapter, voteCounts),
+        status: 'voting',
+        totalVotes,
+      });
+    }
+
+    return {
+      postId,
+      title: pack.title,
+      packId: pack.id,
+      status: ending ? 'completed' : 'in_progress',
+      startedAt: context.storyStartTime.toISOString(),
+      exportedAt: new Date().toISOString(),
+      chapters,
+      ...(ending && {
+        ending: { title: ending.title, type: ending.type, content: ending.content },
+      }),
+      totals: {
+        chapters: chapters.length,
+        votes: chapters.reduce((sum, chapter) => sum + chapter.totalVotes, 0),
+        participants: participants.size,
+      },
+    };
+  }
+
+  private static exportContent(chapter: StoryChapter, includeHidden: boolean): string {
+    return chapter.hiddenForReview && !includeHidden ? this.HIDDEN_CHAPTER_TEXT : chapter.content;
+  }
+
+  private static exportChoices(
+    chapter: StoryChapter,
+    voteCounts: VoteCount[],
+    winningChoice?: string
+  ): StoryExportChoice[] {
+    return chapter.choices.map((choice) => {
+      const count = voteCounts.find((vc) => vc.choiceId === choice.id);
+      return {
+        id: choice.id,
+        text: choice.text,
+        votes: count?.count ?? 0,
+        percentage: count?.percentage ?? 0,
+        chosen: choice.id === winningChoice,
+      };
+    });
+  }
+
+  /**
+   * Builds the post's story pack graph with the path taken, per-choice vote shares
+   * and completed paths overlaid
+   */
+  static async getStoryMap(postId: string): Promise<StoryMapData> {
+    const packKey = await StoryPackManager.loadPackForPost(postId);
+    const pack = StoryContentManager.getPack(packKey);
+
+    const [context, archive, completedPathIds] = await Promise.all([
+      StoryStateManager.getStoryContext(postId),
+      ChapterArchiveManager.getStoryArchive(postId),
+      StoryStateManager.getCompletedPaths(postId),
+    ]);
+
+    const pathTaken = context?.pathTaken || [];
+    const pathEdges = this.walkPath(pack, pathTaken);
+    const currentBranchId = StoryContentManager.resolveBranchForPath(pathTaken, packKey);
+
+    // The nth archived chapter is the vote taken at the nth branch of the path
+    const voteCounts = new Map<string, VoteCount[]>();
+    for (const [index, record] of archive.entries()) {
+      const step = pathEdges[index];
+      if (!step || record.winningChoice !== step.choiceId || voteCounts.has(step.from)) continue;
+      voteCounts.set(step.from, record.voteCounts);
+    }
+
+    const completedPaths = completedPathIds.map((pathId) => this.decodePathId(pack, pathId));
+    const completedEdges = new Set<string>();
+    const completedEndings = new Set<string>();
+    completedPaths.forEach((path) => {
+      this.walkPath(pack, path.choices).forEach((step) => completedEdges.add(step.id));
+      if (path.endingId) completedEndings.add(path.endingId);
+    });
+
+    const pathEdgeIds = new Set(pathEdges.map((step) => step.id));
+    const pathNodes = new Set(pathEdges.flatMap((step) => [step.from, step.to]));
+    pathNodes.add(pack.startBranch);
+
+    const edges: StoryMapEdge[] = pack.branches.flatMap((branch) =>
+      branch.choices.flatMap((choice) => {
+        const to = choice.nextBranch || choice.endingId;
+        if (!to) return [];
+
+        const id = `${branch.id}:${choice.id}`;
+        const votes = voteCounts.get(branch.id)?.find((count) => count.choiceId === choice.id);
+        return [
+          {
+            id,
+            from: branch.id,
+            to,
+            choiceId: choice.id,
+            choiceText: choice.text,
+            onPath: pathEdgeIds.has(id),
+            completed: completedEdges.has(id),
+            ...(votes && { votePercentage: votes.percentage, voteCount: votes.count }),
+          },
+        ];
+      })
+    );
+
+    const depths = this.computeDepths(pack);
+    const completedNodes = new Set(
+      edges.filter((edge) => edge.completed).flatMap((edge) => [edge.from, edge.to])
+    );
+
+    const nodes: StoryMapNode[] = [
+      ...pack.branches.map((branch) => ({
+        id: branch.id,
+        kind: 'branch' as const,
+        title: branch.title,
+        depth: depths.get(branch.id) ?? -1,
+        isStart: branch.id === pack.startBranch,
+        isCurrent: branch.id === currentBranchId,
+        onPath: pathNodes.has(branch.id),
+        completed: completedNodes.has(branch.id),
+      })),
+      ...pack.endings.map((ending) => ({
+        id: ending.id,
+        kind: 'ending' as const,
+        title: ending.title,
+        depth: depths.get(ending.id) ?? -1,
+        endingType: ending.type,
+        isStart: false,
+        isCurrent: false,
+        onPath: pathNodes.has(ending.id),
+        completed: completedEndings.has(ending.id),
+      })),
+    ];
+
+    return {
+      packId: pack.id,
+      version: pack.version,
+      startBranch: pack.startBranch,
+      currentBranchId,
+      pathTaken,
+      nodes,
+      edges,
+      completedPaths,
+    };
+  }
+
+  /**
+   * Follows choice ids from the start branch, stopping where the path leaves the pack
+   */
+  private static walkPath(
+    pack: StoryPack,
+    choices: string[]
+  ): Array<{ id: string; from: string; to: string; choiceId: string }> {
+    const steps: Array<{ id: string; from: string; to: string; choiceId: string }> = [];
+    let branch = pack.branches.find((candidate) => candidate.id === pack.startBranch);
+
+    for (const choiceId of choices) {
+      const choice = branch?.choices.find((candidate) => candidate.id === choiceId);
+      const to = choice?.nextBranch || choice?.endingId;
+      if (!branch || !to) break;
+
+      steps.push({ id: `${branch.id}:${choiceId}`, from: branch.id, to, choiceId });
+      branch = pack.branches.find((candidate) => candidate.id === choice?.nextBranch);
+    }
+
+    return steps;
+  }
+
+  /**
+   * Completed path ids are "path_" plus the winning choice ids joined by "_". Choice ids
+   * may contain underscores themselves, so the id is matched against the pack's choices.
+   */
+  private static decodePathId(pack: StoryPack, pathId: string): StoryMapCompletedPath {
+    const branches = new Map(pack.branches.map((branch) => [branch.id, branch]));
+
+    const match = (
+      branchId: string,
+      rest: string
+    ): { choices: string[]; endingId?: string } | null => {
+      for (const choice of branches.get(branchId)?.choices || []) {
+        if (rest === choice.id) {
+          return { choices: [choice.id], ...(choice.endingId && { endingId: choice.endingId }) };
+        }
+        if (choice.nextBranch && rest.startsWith(`${choice.id}_`)) {
+          const tail = match(choice.nextBranch, rest.slice(choice.id.length + 1));
+          if (tail) return { ...tail, choices: [choice.id, ...tail.choices] };
+        }
+      }
+      return null;
+    };
+
+    const decoded = match(pack.startBranch, pathId.replace(/^path_/, ''));
+    return {
+      pathId,
+      choices: decoded?.choices || [],
+      ...(decoded?.endingId && { endingId: decoded.endingId }),
+    };
+  }
+
+  /**
+   * Breadth-first distance of every branch and ending from the start branch
+   */
+  private static computeDepths(pack: StoryPack): Map<string, number> {
+    const branches = new Map(pack.branches.map((branch) => [branch.id, branch]));
+    const depths = new Map<string, number>([[pack.startBranch, 0]]);
+    const queue = [pack.startBranch];
+
+    while (queue.length > 0) {
+      const branchId = queue.shift()!;
+      const depth = depths.get(branchId)!;
+      branches.get(branchId)?.choices.forEach((choice) => {
+        const to = choice.nextBranch || choice.endingId;
+        if (!to || depths.has(to)) return;
+        depths.set(to, depth + 1);
+        if (choice.nextBranch) queue.push(to);
+      });
+    }
+
+    return depths;
+  }
+
   /**
    * Calculates average chapter duration from history
    */
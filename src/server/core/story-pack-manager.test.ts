@@ -0,0 +1,119 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { installMemoryPlatform, MemoryPlatform } from '../test/memory-platform';
+import { resetMemoryPlatform } from '../test/story-fixtures';
+import { StoryPackError } from '../utils/error-handler';
+import { StoryPackManager } from './story-pack-manager.js';
+import { StoryContentManager } from './story-content-manager.js';
+import { StoryProgressionEngine } from './story-progression-engine.js';
+import { StoryStateManager } from './story-state-manager.js';
+import { AdminManager } from './admin-manager.js';
+import { createPost } from './post.js';
+import { StoryPack } from '../../shared/types/story-pack.js';
+
+const postId = 't3_packed';
+let platform: MemoryPlatform;
+
+// The built-in opening branch, every choice ending the story
+const smallPack = (id: string): StoryPack => {
+  const builtIn = StoryContentManager.getPack();
+  const opening = builtIn.branches[0]!;
+  return {
+    ...builtIn,
+    id,
+    branches: [
+      {
+        ...opening,
+        choices: opening.choices.map(({ id: choiceId, text }) => ({
+          id: choiceId,
+          text,
+          endingId: builtIn.endings[0]!.id,
+        })),
+      },
+    ],
+  };
+};
+
+describe('StoryPackManager', () => {
+  beforeEach(() => {
+    platform = installMemoryPlatform();
+  });
+
+  afterEach(resetMemoryPlatform);
+
+  it('plays the built-in pack when nothing is selected, lint findings and all', async () => {
+    expect(await StoryPackManager.loadPackForPost(postId)).toBe(
+      StoryContentManager.getDefaultPackKey()
+    );
+    expect(await StoryPackManager.lintPackForPost(postId)).toBeNull();
+  });
+
+  it('refuses to store a pack that fails lint', async () => {
+    const result = await StoryPackManager.savePack({
+      ...StoryContentManager.getPack(),
+      id: 'copied-thread',
+    });
+
+    expect(result).toMatchObject({ success: false, error: 'Story pack failed lint' });
+    expect(result.lint?.errors.length).toBeGreaterThan(0);
+  });
+
+  it('loads the selected pack', async () => {
+    await StoryPackManager.savePack(smallPack('small-thread'));
+    await StoryPackManager.setPackForPost(postId, 'small-thread');
+
+    expect(await StoryPackManager.loadPackForPost(postId)).toBe('small-thread@1.0.0');
+  });
+
+  it('holds a selection made mid-story until the story restarts', async () => {
+    // Restarting updates the Reddit post, so this story needs one
+    const { id: postId } = await createPost();
+    const opening = await new StoryProgressionEngine().getInitialChapterForPost(postId);
+    await StoryStateManager.initializeStory(postId, opening);
+    await StoryPackManager.savePack(smallPack('small-thread'));
+
+    const result = await StoryPackManager.setPackForPost(postId, 'small-thread');
+
+    expect(result).toMatchObject({ success: true, pending: true });
+    expect(await StoryPackManager.loadPackForPost(postId)).toBe(
+      StoryContentManager.getDefaultPackKey()
+    );
+    expect(await StoryPackManager.getPendingPackSelection(postId)).toMatchObject({
+      packId: 'small-thread',
+    });
+
+    expect((await AdminManager.resetStory(postId, 'mod_a')).success).toBe(true);
+
+    expect(await StoryPackManager.loadPackForPost(postId)).toBe('small-thread@1.0.0');
+    expect(await StoryPackManager.getPendingPackSelection(postId)).toBeNull();
+  });
+
+  it('surfaces a selected pack that fails lint instead of playing the built-in pack', async () => {
+    const broken = smallPack('broken-thread');
+    await StoryPackManager.savePack(broken);
+    await StoryPackManager.setPackForPost(postId, 'broken-thread');
+
+    // Stored before the linter learned to catch it
+    broken.branches[0]!.choices[0] = { id: 'wander', text: 'Wander off', nextBranch: 'nowhere' };
+    await platform.redis.set(
+      'haunted_thread:story_pack:broken-thread:1.0.0',
+      JSON.stringify(broken)
+    );
+
+    const load = StoryPackManager.loadPackForPost(postId);
+    await expect(load).rejects.toBeInstanceOf(StoryPackError);
+    await expect(load).rejects.toThrow(
+      'Story pack "broken-thread" v1.0.0 failed lint: branches[0].choices[0].nextBranch: Choice "wander" leads to missing branch "nowhere"'
+    );
+    expect((await StoryPackManager.lintPackForPost(postId))?.isValid).toBe(false);
+  });
+
+  it('surfaces a selected pack that has gone missing', async () => {
+    await StoryPackManager.savePack(smallPack('lost-thread'));
+    await StoryPackManager.setPackForPost(postId, 'lost-thread');
+    await platform.redis.del('haunted_thread:story_pack:lost-thread:1.0.0');
+
+    await expect(StoryPackManager.loadPackForPost(postId)).rejects.toThrow(
+      'Story pack "lost-thread" v1.0.0 selected for this post could not be found'
+    );
+  });
+});
@@ -0,0 +1,296 @@
+/**
+ * Story pack storage for The Haunted Thread
+ * Parses JSON/YAML packs, stores them in Redis and tracks which pack each post runs
+ */
+
+import { redis } from '../platform';
+import { parse as parseYaml } from 'yaml';
+import { StoryPack, StoryPackSummary, StoryPackValidator } from '../../shared/types/story-pack.js';
+import { StoryGraphLinter, StoryLintReport } from '../../shared/types/story-graph.js';
+import { ValidationResult } from '../../shared/types/story.js';
+import { StoryContentManager } from './story-content-manager.js';
+import { StoryStateManager } from './story-state-manager.js';
+import { ErrorLogger, StoryPackError } from '../utils/error-handler';
+
+export interface PostPackSelection {
+  packId: string;
+  version: string;
+  selectedAt: string;
+}
+
+export class StoryPackManager {
+  private static readonly PACK_PREFIX = 'haunted_thread:story_pack';
+  private static readonly PACK_INDEX_KEY = 'haunted_thread:story_pack:index';
+  private static readonly POST_PACK_PREFIX = 'haunted_thread:post_pack';
+  private static readonly PENDING_PACK_PREFIX = 'haunted_thread:post_pack:pending';
+
+  /**
+   * Parses pack source text. YAML is a superset of JSON, so JSON sources parse either way.
+   */
+  static parsePack(
+    source: string,
+    format: 'json' | 'yaml' = 'yaml'
+  ): { pack?: StoryPack; validation: ValidationResult; lint?: StoryLintReport } {
+    let parsed: unknown;
+
+    try {
+      parsed = format === 'json' ? JSON.parse(source) : parseYaml(source);
+    } catch (error) {
+      return {
+        validation: {
+          isValid: false,
+          errors: [
+            `Failed to parse ${format.toUpperCase()}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+          ],
+        },
+      };
+    }
+
+    const validation = StoryPackValidator.validatePack(parsed);
+    if (!validation.isValid) return { validation };
+
+    const pack = parsed as StoryPack;
+    return { pack, validation, lint: StoryGraphLinter.lint(pack) };
+  }
+
+  /**
+   * Validates, lints and stores a pack version. Stored versions are immutable.
+   */
+  static async savePack(pack: StoryPack): Promise<{
+    success: boolean;
+    validation: ValidationResult;
+    lint?: StoryLintReport;
+    error?: string;
+  }> {
+    const validation = StoryPackValidator.validatePack(pack);
+    if (!validation.isValid) {
+      return { success: false, validation, error: 'Story pack failed validation' };
+    }
+
+    const lint = StoryGraphLinter.lint(pack);
+    if (!lint.isValid) {
+      return { success: false, validation, lint, error: 'Story pack failed lint' };
+    }
+
+    if (pack.id === StoryContentManager.DEFAULT_PACK_ID) {
+      return {
+        success: false,
+        validation,
+        error: `Pack id "${pack.id}" is reserved for the built-in story`,
+      };
+    }
+
+    try {
+      const packKey = `${this.PACK_PREFIX}:${pack.id}:${pack.version}`;
+      const existing = await redis.get(packKey);
+      if (existing) {
+        return {
+          success: false,
+          validation,
+          lint,
+          error: `Version ${pack.version} of pack "${pack.id}" already exists`,
+        };
+      }
+
+      await redis.set(packKey, JSON.stringify(pack));
+      await redis.hSet(`${this.PACK_PREFIX}:${pack.id}:versions`, {
+        [pack.version]: new Date().toISOString(),
+      });
+      await redis.hSet(this.PACK_INDEX_KEY, { [pack.id]: pack.version });
+
+      ErrorLogger.logInfo('Story pack saved', {
+        packId: pack.id,
+        version: pack.version,
+        branches: pack.branches.length,
+        endings: pack.endings.length,
+      });
+
+      return { success: true, validation, lint };
+    } catch (error) {
+      ErrorLogger.logWarning('Failed to save story pack', {
+        packId: pack.id,
+        version: pack.version,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      return { success: false, validation, lint, error: 'Failed to store story pack' };
+    }
+  }
+
+  /**
+   * Gets a pack by id and version (latest version when omitted)
+   */
+  static async getPack(packId: string, version?: string): Promise<StoryPack | null> {
+    if (packId === StoryContentManager.DEFAULT_PACK_ID) {
+      const builtIn = StoryContentManager.getPack(StoryContentManager.getDefaultPackKey());
+      return !version || version === builtIn.version ? builtIn : null;
+    }
+
+    try {
+      const resolvedVersion = version || (await redis.hGet(this.PACK_INDEX_KEY, packId));
+      if (!resolvedVersion) return null;
+
+      const data = await redis.get(`${this.PACK_PREFIX}:${packId}:${resolvedVersion}`);
+      return data ? (JSON.parse(data) as StoryPack) : null;
+    } catch (error) {
+      ErrorLogger.logWarning('Failed to load story pack', {
+        packId,
+        version,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      return null;
+    }
+  }
+
+  /**
+   * Lists the built-in pack and the latest version of every stored pack
+   */
+  static async listPacks(): Promise<StoryPackSummary[]> {
+    const summaries = [
+      StoryPackValidator.summarize(
+        StoryContentManager.getPack(StoryContentManager.getDefaultPackKey())
+      ),
+    ];
+
+    const index = await redis.hGetAll(this.PACK_INDEX_KEY);
+    for (const [packId, version] of Object.entries(index)) {
+      const pack = await this.getPack(packId, version);
+      if (pack) summaries.push(StoryPackValidator.summarize(pack));
+    }
+
+    return summaries;
+  }
+
+  /**
+   * Lists the stored versions of a pack
+   */
+  static async getPackVersions(packId: string): Promise<string[]> {
+    if (packId === StoryContentManager.DEFAULT_PACK_ID) {
+      return [StoryContentManager.getPack(StoryContentManager.getDefaultPackKey()).version];
+    }
+
+    const versions = await redis.hGetAll(`${this.PACK_PREFIX}:${packId}:versions`);
+    return Object.entries(versions)
+      .sort(([, a], [, b]) => a.localeCompare(b))
+      .map(([version]) => version);
+  }
+
+  /**
+   * Selects the pack a post runs. A story that has already started keeps its pack, since its
+   * path only makes sense in that pack's branches: the selection is held as pending and takes
+   * over when the story is restarted.
+   */
+  static async setPackForPost(
+    postId: string,
+    packId: string,
+    version?: string
+  ): Promise<{
+    success: boolean;
+    selection?: PostPackSelection;
+    pending?: boolean;
+    error?: string;
+  }> {
+    const pack = await this.getPack(packId, version);
+    if (!pack) {
+      return {
+        success: false,
+        error: version
+          ? `Story pack "${packId}" version ${version} not found`
+          : `Story pack "${packId}" not found`,
+      };
+    }
+
+    const selection: PostPackSelection = {
+      packId: pack.id,
+      version: pack.version,
+      selectedAt: new Date().toISOString(),
+    };
+
+    const pending = !!(await StoryStateManager.getStoryContext(postId));
+    if (pending) {
+      await redis.set(`${this.PENDING_PACK_PREFIX}:${postId}`, JSON.stringify(selection));
+    } else {
+      await redis.set(`${this.POST_PACK_PREFIX}:${postId}`, JSON.stringify(selection));
+      await redis.del(`${this.PENDING_PACK_PREFIX}:${postId}`);
+    }
+
+    ErrorLogger.logInfo('Story pack selected for post', { postId, ...selection, pending });
+
+    return { success: true, selection, pending };
+  }
+
+  /**
+   * Gets the selection waiting for the post's story to restart, if there is one
+   */
+  static async getPendingPackSelection(postId: string): Promise<PostPackSelection | null> {
+    const data = await redis.get(`${this.PENDING_PACK_PREFIX}:${postId}`);
+    return data ? (JSON.parse(data) as PostPackSelection) : null;
+  }
+
+  /**
+   * Makes a pending selection the post's pack. Called when the story restarts, before its
+   * opening chapter is picked.
+   */
+  static async applyPendingPackSelection(postId: string): Promise<PostPackSelection | null> {
+    const pending = await this.getPendingPackSelection(postId);
+    if (!pending) return null;
+
+    await redis.set(`${this.POST_PACK_PREFIX}:${postId}`, JSON.stringify(pending));
+    await redis.del(`${this.PENDING_PACK_PREFIX}:${postId}`);
+
+    ErrorLogger.logInfo('Pending story pack applied', { postId, ...pending });
+    return pending;
+  }
+
+  /**
+   * Gets the pack selection for a post, if one was made
+   */
+  static async getPackSelection(postId: string): Promise<PostPackSelection | null> {
+    const data = await redis.get(`${this.POST_PACK_PREFIX}:${postId}`);
+    return data ? (JSON.parse(data) as PostPackSelection) : null;
+  }
+
+  /**
+   * Lints the pack selected for a post. Returns null when the post runs the built-in pack,
+   * whose findings are reported when it loads, or when the selected pack can't be found.
+   */
+  static async lintPackForPost(postId: string): Promise<StoryLintReport | null> {
+    const selection = await this.getPackSelection(postId);
+    if (!selection || selection.packId === StoryContentManager.DEFAULT_PACK_ID) return null;
+
+    const pack = await this.getPack(selection.packId, selection.version);
+    return pack ? StoryGraphLinter.lint(pack) : null;
+  }
+
+  /**
+   * Loads the post's pack into StoryContentManager and returns its registry key, or the
+   * built-in pack's key when nothing is selected. Throws a StoryPackError when the selected
+   * pack is missing or fails lint, rather than quietly playing a different story.
+   */
+  static async loadPackForPost(postId: string): Promise<string> {
+    const selection = await this.getPackSelection(postId);
+    if (!selection) return StoryContentManager.getDefaultPackKey();
+
+    const packKey = StoryContentManager.getPackKey(selection.packId, selection.version);
+    if (StoryContentManager.hasPack(packKey)) return packKey;
+
+    const pack = await this.getPack(selection.packId, selection.version);
+    if (!pack) {
+      throw new StoryPackError(
+        `Story pack "${selection.packId}" v${selection.version} selected for this post could not be found`,
+        selection.packId,
+        selection.version
+      );
+    }
+
+    try {
+      return StoryContentManager.loadPack(pack);
+    } catch (error) {
+      ErrorLogger.logWarning('Failed to load story pack for post', {
+        postId,
+        ...selection,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      throw error;
+    }
+  }
+}
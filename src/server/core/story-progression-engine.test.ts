@@ -0,0 +1,118 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { MemoryPlatform } from '../test/memory-platform';
+import { installMemoryPost, resetMemoryPlatform, startStory } from '../test/story-fixtures';
+import { StoryProgressionEngine } from './story-progression-engine.js';
+import { StoryStateManager } from './story-state-manager.js';
+import { VotingManager } from './voting-manager.js';
+import { HallOfFameManager } from './hall-of-fame-manager.js';
+
+let platform: MemoryPlatform;
+let engine: StoryProgressionEngine;
+let postId: string;
+
+// Every player backs the same choice, then the round closes and the story moves on
+const playRound = async (chapterId: string, choiceId: string, voters = 3) => {
+  for (let i = 0; i < voters; i++) {
+    await VotingManager.castVote(postId, `user_${i}`, chapterId, choiceId);
+  }
+  return engine.advanceStory(postId, chapterId);
+};
+
+describe('StoryProgressionEngine', () => {
+  beforeEach(async () => {
+    ({ platform, postId } = await installMemoryPost());
+    engine = new StoryProgressionEngine();
+  });
+
+  afterEach(resetMemoryPlatform);
+
+  it('picks the choice with the most votes', async () => {
+    const chapter = await startStory(postId);
+    await VotingManager.castVote(postId, 'user_a', chapter.id, 'close_browser');
+    await VotingManager.castVote(postId, 'user_b', chapter.id, 'investigate_thread');
+    await VotingManager.castVote(postId, 'user_c', chapter.id, 'investigate_thread');
+
+    const result = await engine.determineWinningChoice(postId, chapter.id);
+
+    expect(result).toMatchObject({ winningChoice: 'investigate_thread', isTie: false });
+  });
+
+  it('moves to the branch the winning choice leads to and opens a new round', async () => {
+    const chapter = await startStory(postId);
+
+    const result = await playRound(chapter.id, 'investigate_thread');
+
+    expect(result.success).toBe(true);
+    expect(result.hasEnded).toBe(false);
+    const newChapter = result.newChapter!;
+    expect(newChapter.title).toContain('Down the Digital Rabbit Hole');
+    expect((await StoryStateManager.getCurrentChapter(postId))?.id).toBe(newChapter.id);
+    expect(await StoryStateManager.getStoryContext(postId)).toMatchObject({
+      currentChapter: newChapter.id,
+      pathTaken: ['investigate_thread'],
+    });
+    expect((await VotingManager.getVotingSession(postId, newChapter.id))?.status).toBe('active');
+    expect(await VotingManager.getTotalVotes(postId, newChapter.id)).toBe(0);
+  });
+
+  it('posts a sticky recap of the resolved chapter', async () => {
+    const chapter = await startStory(postId);
+
+    await playRound(chapter.id, 'investigate_thread');
+
+    const recaps = [...platform.reddit.comments.values()];
+    expect(recaps).toHaveLength(1);
+    expect(recaps[0]!.stickied).toBe(true);
+    expect(recaps[0]!.body).toContain('Down the Digital Rabbit Hole');
+  });
+
+  it('ends the story when a choice leads to an ending', async () => {
+    let chapter = await startStory(postId);
+    for (const choiceId of ['investigate_thread', 'visit_house']) {
+      chapter = (await playRound(chapter.id, choiceId)).newChapter!;
+    }
+
+    const result = await playRound(chapter.id, 'leave_immediately');
+
+    expect(result).toMatchObject({ success: true, hasEnded: true });
+    expect(result.ending?.id).toBe('escape_attempt_ending');
+    expect((await StoryStateManager.getProgression(postId))?.progressPercentage).toBe(100);
+    expect(platform.reddit.flair.get(postId)?.text).toBe('Ending: The Futile Flight');
+
+    const hallOfFame = await HallOfFameManager.browse({
+      sort: 'recent',
+      order: 'desc',
+      limit: 10,
+      offset: 0,
+    });
+    expect(hallOfFame.entries).toHaveLength(1);
+    expect(hallOfFame.entries[0]).toMatchObject({
+      postId,
+      endingId: 'escape_attempt_ending',
+      chapterCount: 3,
+      participants: 3,
+      totalVotes: 9,
+    });
+  });
+
+  it('refuses to advance from a chapter that is no longer current', async () => {
+    const chapter = await startStory(postId);
+    await playRound(chapter.id, 'investigate_thread');
+
+    const result = await engine.advanceStory(postId, chapter.id, 'close_browser');
+
+    expect(result).toEqual({
+      success: false,
+      error: `Chapter ${chapter.id} is not the current chapter`,
+    });
+  });
+
+  it('does not advance a round nobody voted in', async () => {
+    const chapter = await startStory(postId);
+
+    const result = await engine.advanceStory(postId, chapter.id);
+
+    expect(result).toEqual({ success: false, error: 'No winning choice determined' });
+    expect((await StoryStateManager.getCurrentChapter(postId))?.id).toBe(chapter.id);
+  });
+});
@@ -14,6 +14,12 @@ import {
 import { VotingManager } from './voting-manager.js';
 import { StoryStateManager } from './story-state-manager.js';
 import { StoryContentManager } from './story-content-manager.js';
+import { StoryPackManager } from './story-pack-manager.js';
+import { PostConfigManager } from './post-config-manager.js';
+import { ChapterArchiveManager } from './chapter-archive-manager.js';
+import { HallOfFameManager } from './hall-of-fame-manager.js';
+import { RecapCommentManager } from './recap-comment-manager.js';
+import { PostStatusManager } from './post-status-manager.js';
 
 export class StoryProgressionEngine {
   // Note: These will be used in future enhancements
@@ -31,15 +37,23 @@ export class StoryProgressionEngine {
   }
 
   /**
-   * Gets the initial story chapter
+   * Gets the initial story chapter of a story pack (the built-in pack by default)
    */
-  getInitialChapter(): StoryChapter {
-    const openingBranch = StoryContentManager.getBranch('opening');
+  getInitialChapter(packKey?: string): StoryChapter {
+    const openingBranch = StoryContentManager.getStartBranch(packKey);
     if (!openingBranch) {
       throw new Error('Opening story branch not found');
     }
 
-    return StoryContentManager.branchToChapter(openingBranch, 1);
+    return StoryContentManager.branchToChapter(openingBranch, 1, packKey);
+  }
+
+  /**
+   * Gets the initial story chapter of the pack selected for a post
+   */
+  async getInitialChapterForPost(postId: string): Promise<StoryChapter> {
+    const packKey = await StoryPackManager.loadPackForPost(postId);
+    return this.getInitialChapter(packKey);
   }
 
   /**
@@ -54,10 +68,10 @@ export class StoryProgressionEngine {
     isTie: boolean;
   }> {
     try {
-      // Get vote counts for all choices
-      const voteCounts = await VotingManager.getVoteCounts(postId, chapterId);
+      // Count the ballots with the session's voting method
+      const tally = await VotingManager.getTally(postId, chapterId);
 
-      if (voteCounts.length === 0) {
+      if (!tally || !tally.winningChoice) {
         return {
           winningChoice: null,
           voteStats: null,
@@ -65,35 +79,16 @@ export class StoryProgressionEngine {
         };
       }
 
-      // Sort by vote count (highest first)
-      const sortedCounts = voteCounts.sort((a, b) => b.count - a.count);
-
-      // Check for tie between top choices
-      const topChoice = sortedCounts[0];
-      if (!topChoice) {
-        return {
-          winningChoice: null,
-          voteStats: null,
-          isTie: false,
-        };
-      }
-
-      const secondChoice = sortedCounts[1];
-      const isTie = secondChoice && topChoice.count === secondChoice.count && topChoice.count > 0;
+      const isTie = tally.tiedChoices.length > 1;
 
       // Get voting statistics
       const voteStats = await VotingManager.getVotingStats(postId, chapterId);
 
-      // If there's a tie, use tiebreaker logic
-      let winningChoice = topChoice.choiceId;
-      if (isTie) {
-        winningChoice = this.resolveTie(sortedCounts.filter((c) => c.count === topChoice.count));
-      }
-
+      // Ties are already settled by the tally, so the published result and the advance agree
       return {
-        winningChoice: topChoice.count > 0 ? winningChoice : null,
+        winningChoice: tally.winningChoice,
         voteStats,
-        isTie: isTie || false,
+        isTie,
       };
     } catch (error) {
       console.error('Error determining winning choice:', error);
@@ -129,6 +124,14 @@ export class StoryProgressionEngine {
         };
       }
 
+      // Only the chapter players are voting on can move the story forward
+      if (context.currentChapter !== currentChapterId) {
+        return {
+          success: false,
+          error: `Chapter ${currentChapterId} is not the current chapter`,
+        };
+      }
+
       // Determine winning choice if not provided
       let finalWinningChoice = winningChoice;
       if (!finalWinningChoice) {
@@ -143,12 +146,27 @@ export class StoryProgressionEngine {
         };
       }
 
-      // Check if this choice leads to an ending using the new content system
-      const currentBranchId = this.getCurrentBranchId(context);
-      const ending = StoryContentManager.getEndingForChoice(currentBranchId, finalWinningChoice);
+      // Check if this choice leads to an ending in the post's story pack
+      const packKey = await StoryPackManager.loadPackForPost(postId);
+      const currentBranchId = this.getCurrentBranchId(context, packKey);
+      let ending = StoryContentManager.getEndingForChoice(
+        currentBranchId,
+        finalWinningChoice,
+        packKey
+      );
+
+      // Stories that reach the post's chapter limit end on the closest matching ending
+      const { maxChapters } = await PostConfigManager.getConfig(postId);
+      if (!ending && context.pathTaken.length + 1 >= maxChapters) {
+        ending = StoryContentManager.getClosestEnding(
+          [...context.pathTaken, finalWinningChoice],
+          packKey
+        );
+      }
+
       if (ending) {
         // Story has ended
-        await this.handleStoryEnding(postId, context, finalWinningChoice, ending);
+        await this.handleStoryEnding(postId, context, finalWinningChoice, ending, packKey);
         return {
           success: true,
           hasEnded: true,
@@ -160,7 +178,8 @@ export class StoryProgressionEngine {
       const nextChapter = await this.generateNextChapter(
         currentChapterId,
         finalWinningChoice,
-        context
+        context,
+        packKey
       );
 
       if (!nextChapter) {
@@ -193,19 +212,24 @@ export class StoryProgressionEngine {
   async generateNextChapter(
     currentChapterId: string,
     winningChoice: string,
-    context: StoryContext
+    context: StoryContext,
+    packKey?: string
   ): Promise<StoryChapter | null> {
     try {
       // Get current branch and determine next branch
-      const currentBranchId = this.getCurrentBranchId(context);
-      const nextBranchId = StoryContentManager.getNextBranch(currentBranchId, winningChoice);
+      const currentBranchId = this.getCurrentBranchId(context, packKey);
+      const nextBranchId = StoryContentManager.getNextBranch(
+        currentBranchId,
+        winningChoice,
+        packKey
+      );
 
       if (nextBranchId) {
-        // Use predefined branching content
-        const nextBranch = StoryContentManager.getBranch(nextBranchId);
+        // Use the story pack's branching content
+        const nextBranch = StoryContentManager.getBranch(nextBranchId, packKey);
         if (nextBranch) {
           const chapterNumber = context.pathTaken.length + 1;
-          return StoryContentManager.branchToChapter(nextBranch, chapterNumber);
+          return StoryContentManager.branchToChapter(nextBranch, chapterNumber, packKey);
         }
       }
 
@@ -225,7 +249,8 @@ export class StoryProgressionEngine {
     postId: string,
     context: StoryContext,
     finalChoice: string,
-    ending: StoryEnding
+    ending: StoryEnding,
+    packKey?: string
   ): Promise<void> {
     try {
       // Update context with final choice
@@ -240,10 +265,22 @@ export class StoryProgressionEngine {
 
       // Add to history
       await StoryStateManager.addToHistory(postId, context.currentChapter, finalChoice);
+      const record = await ChapterArchiveManager.archiveChapter(
+        postId,
+        context.currentChapter,
+        finalChoice
+      );
 
       // Track completed path
-      const pathId = this.generatePathId(finalContext.pathTaken);
+      const pathId = StoryUtils.generatePathId(finalContext.pathTaken);
       await StoryStateManager.addCompletedPath(postId, pathId);
+      await ChapterArchiveManager.recordCompletedPath(
+        postId,
+        pathId,
+        finalContext.pathTaken,
+        ending,
+        context.storyStartTime
+      );
 
       // Update progression to show completion
       const progression = await StoryStateManager.getProgression(postId);
@@ -255,18 +292,23 @@ export class StoryProgressionEngine {
         };
         await StoryStateManager.storeProgression(postId, completedProgression);
       }
+
+      // Add the finished run to the subreddit's hall of fame
+      await HallOfFameManager.recordCompletedStory(postId, finalContext, ending, packKey);
+
+      await PostStatusManager.updateStatus(postId, {
+        state: 'ended',
+        ending: { title: ending.title, type: ending.type },
+      });
+
+      if (record) {
+        await RecapCommentManager.publishRecap(postId, record, { ending });
+      }
     } catch (error) {
       console.error('Error handling story ending:', error);
     }
   }
 
-  /**
-   * Generates a unique path ID based on choices taken
-   */
-  private generatePathId(pathTaken: string[]): string {
-    return `path_${pathTaken.join('_')}`;
-  }
-
   /**
    * Updates story state after chapter transition
    */
@@ -292,10 +334,16 @@ export class StoryProgressionEngine {
 
       // Add to history
       await StoryStateManager.addToHistory(postId, oldContext.currentChapter, winningChoice);
+      const record = await ChapterArchiveManager.archiveChapter(
+        postId,
+        oldContext.currentChapter,
+        winningChoice
+      );
 
       // Update progression
       const progression = await StoryStateManager.getProgression(postId);
       if (progression && updatedContext) {
+        const { maxChapters } = await PostConfigManager.getConfig(postId);
         const newProgression = {
           ...progression,
           currentPosition: updatedContext.pathTaken.length,
@@ -303,7 +351,7 @@ export class StoryProgressionEngine {
           availablePaths: newChapter.choices.map((choice) => choice.id),
           progressPercentage: StoryUtils.calculateProgress(
             updatedContext.pathTaken.length,
-            progression.totalChapters + 1
+            maxChapters
           ),
         };
         await StoryStateManager.storeProgression(postId, newProgression);
@@ -316,26 +364,22 @@ export class StoryProgressionEngine {
         newChapter.choices.map((choice) => ({
           choiceId: choice.id,
           text: choice.text,
-        })),
-        60 // 60 minutes voting duration
+        }))
       );
+
+      await PostStatusManager.updateStatus(postId, {
+        state: 'voting',
+        chapterNumber: newChapter.metadata.pathPosition,
+      });
+
+      if (record) {
+        await RecapCommentManager.publishRecap(postId, record, { chapter: newChapter });
+      }
     } catch (error) {
       console.error('Error updating story state:', error);
     }
   }
 
-  /**
-   * Resolves tie votes using tiebreaker logic
-   */
-  private resolveTie(tiedChoices: Array<{ choiceId: string; count: number }>): string {
-    // Simple tiebreaker: random selection
-    // Could be enhanced with more sophisticated logic
-    if (tiedChoices.length === 0) return 'default_choice';
-    const randomIndex = Math.floor(Math.random() * tiedChoices.length);
-    const selectedChoice = tiedChoices[randomIndex];
-    return selectedChoice?.choiceId || 'default_choice';
-  }
-
   /**
    * Generates next chapter ID based on current chapter and choice
    */
@@ -575,10 +619,11 @@ export class StoryProgressionEngine {
   /**
    * Gets the current branch ID based on story context
    */
-  private getCurrentBranchId(context: StoryContext): string {
-    // If this is the beginning of the story, start with opening branch
-    if (context.pathTaken.length === 0) {
-      return 'opening';
+  private getCurrentBranchId(context: StoryContext, packKey?: string): string {
+    // Follow the winning choices through the story pack
+    const packBranchId = StoryContentManager.resolveBranchForPath(context.pathTaken, packKey);
+    if (packBranchId) {
+      return packBranchId;
     }
 
     // Map path taken to branch IDs based on story structure
@@ -0,0 +1,125 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { MemoryPlatform } from '../test/memory-platform';
+import { installMemoryPost, resetMemoryPlatform, openStory } from '../test/story-fixtures';
+import { StoryStateManager } from './story-state-manager.js';
+import { VotingManager } from './voting-manager.js';
+import { ChapterArchiveManager } from './chapter-archive-manager.js';
+
+let platform: MemoryPlatform;
+let postId: string;
+
+describe('StoryStateManager', () => {
+  beforeEach(async () => {
+    ({ platform, postId } = await installMemoryPost());
+  });
+
+  afterEach(resetMemoryPlatform);
+
+  it('initializes a story on its opening chapter', async () => {
+    const chapter = await openStory(postId);
+
+    expect((await StoryStateManager.getCurrentChapter(postId))?.id).toBe(chapter.id);
+    expect(await StoryStateManager.getStoryContext(postId)).toMatchObject({
+      currentChapter: chapter.id,
+      pathTaken: [],
+      previousChoices: [],
+    });
+    expect(await StoryStateManager.getProgression(postId)).toMatchObject({
+      currentPosition: 1,
+      availablePaths: chapter.choices.map((choice) => choice.id),
+      progressPercentage: 0,
+    });
+    expect(await StoryStateManager.validateStoryState(postId)).toEqual({
+      isValid: true,
+      errors: [],
+    });
+  });
+
+  it('shows a new story as voting on chapter 1 in the post flair', async () => {
+    await openStory(postId);
+
+    expect(platform.reddit.flair.get(postId)?.text).toBe('Chapter 1 – Voting');
+    expect(platform.reddit.posts.get(postId)?.splash?.buttonLabel).toBe('🕯️ Cast Your Vote');
+  });
+
+  it('records the path as choices are made', async () => {
+    const chapter = await openStory(postId);
+    const choiceId = chapter.choices[0]!.id;
+
+    const context = await StoryStateManager.updateStoryContext(postId, 'next_chapter', choiceId);
+
+    expect(context).toMatchObject({ currentChapter: 'next_chapter', pathTaken: [choiceId] });
+    expect(await StoryStateManager.getStoryContext(postId)).toMatchObject({
+      pathTaken: [choiceId],
+      previousChoices: [choiceId],
+    });
+  });
+
+  it('reports missing state instead of throwing', async () => {
+    expect(await StoryStateManager.getStoryContext(postId)).toBeNull();
+    expect(await StoryStateManager.updateStoryContext(postId, 'chapter', 'choice')).toBeNull();
+    expect((await StoryStateManager.validateStoryState(postId)).errors).toEqual([
+      'No current chapter found',
+      'No story context found',
+      'No progression data found',
+    ]);
+  });
+
+  it('clears chapters and votes on reset but keeps completed paths', async () => {
+    const chapter = await openStory(postId);
+    await VotingManager.createVotingSession(
+      postId,
+      chapter.id,
+      chapter.choices.map((choice) => ({ choiceId: choice.id, text: choice.text }))
+    );
+    await VotingManager.castVote(postId, 'user_a', chapter.id, chapter.choices[0]!.id);
+    await StoryStateManager.addCompletedPath(postId, 'path_a');
+    await StoryStateManager.storeProgression(postId, {
+      totalChapters: 3,
+      currentPosition: 3,
+      completedPaths: ['path_a'],
+      availablePaths: [],
+      progressPercentage: 100,
+    });
+
+    await StoryStateManager.resetStory(postId);
+
+    expect(await StoryStateManager.getCurrentChapter(postId)).toBeNull();
+    expect(await StoryStateManager.getStoryContext(postId)).toBeNull();
+    expect(await StoryStateManager.getAllChapters(postId)).toEqual([]);
+    expect(await VotingManager.getTotalVotes(postId, chapter.id)).toBe(0);
+    expect(await StoryStateManager.getCompletedPaths(postId)).toEqual(['path_a']);
+  });
+
+  it('keeps the finished playthrough archived when the story restarts', async () => {
+    const chapter = await openStory(postId);
+    await ChapterArchiveManager.archiveChapter(postId, chapter.id, chapter.choices[0]!.id);
+
+    await StoryStateManager.resetStory(postId);
+
+    expect(await ChapterArchiveManager.getPlaythrough(postId)).toBe(1);
+    expect(await ChapterArchiveManager.getStoryArchive(postId)).toEqual([]);
+    expect(await ChapterArchiveManager.getStoryArchive(postId, 0)).toEqual([
+      expect.objectContaining({ chapterId: chapter.id, winningChoice: chapter.choices[0]!.id }),
+    ]);
+
+    // The restarted story archives its own chapters without touching the first run's
+    const next = await openStory(postId);
+    await ChapterArchiveManager.archiveChapter(postId, next.id, next.choices[1]!.id);
+    expect(await ChapterArchiveManager.getStoryArchive(postId)).toEqual([
+      expect.objectContaining({ chapterId: next.id }),
+    ]);
+    expect(await ChapterArchiveManager.getStoryArchive(postId, 0)).toHaveLength(1);
+  });
+
+  it('drops every archived playthrough when the history is not kept', async () => {
+    const chapter = await openStory(postId);
+    await ChapterArchiveManager.archiveChapter(postId, chapter.id, chapter.choices[0]!.id);
+    await StoryStateManager.resetStory(postId);
+
+    await StoryStateManager.resetStory(postId, false);
+
+    expect(await ChapterArchiveManager.getPlaythrough(postId)).toBe(0);
+    expect(await ChapterArchiveManager.getStoryArchive(postId, 0)).toEqual([]);
+  });
+});
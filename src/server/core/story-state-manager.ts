@@ -3,13 +3,14 @@
  * Handles storing and retrieving story chapters, progression state, and history tracking
  */
 
-import { redis } from '@devvit/web/server';
+import { redis } from '../platform';
 import {
   StoryChapter,
   StoryContext,
   StoryProgression,
   ValidationResult,
 } from '../../shared/types/story.js';
+import { StoryPathRecord } from '../../shared/types/archive.js';
 
 export class StoryStateManager {
   private static readonly STORY_PREFIX = 'haunted_thread:story';
@@ -275,6 +276,13 @@ export class StoryStateManager {
 
     await this.storeProgression(postId, initialProgression);
 
+    // A fresh or restarted story shows as voting on its first chapter
+    const { PostStatusManager } = await import('./post-status-manager.js');
+    await PostStatusManager.updateStatus(postId, {
+      state: 'voting',
+      chapterNumber: firstChapter.metadata.pathPosition,
+    });
+
     return initialContext;
   }
 
@@ -323,6 +331,20 @@ export class StoryStateManager {
     // Delete the chapter hash itself
     await redis.del(chapterSetKey);
 
+    // Votes are indexed per story, so every chapter's ballots and counters go too
+    const { VotingManager } = await import('./voting-manager.js');
+    await VotingManager.clearStoryVotes(postId);
+
+    // The next playthrough archives its chapters separately; the finished one is only
+    // removed along with the rest of the history
+    const { ChapterArchiveManager } = await import('./chapter-archive-manager.js');
+    if (preserveHistory) {
+      await ChapterArchiveManager.startNewPlaythrough(postId);
+    } else {
+      await ChapterArchiveManager.clearStoryArchive(postId);
+      await ChapterArchiveManager.clearPathRecords(postId);
+    }
+
     // If preserving history, restore completed paths
     if (preserveHistory && completedPaths.length > 0) {
       await this.storeCompletedPaths(postId, completedPaths);
@@ -466,6 +488,8 @@ export class StoryStateManager {
 
     // Import StoryContentManager dynamically to avoid circular imports
     const { StoryContentManager } = await import('./story-content-manager.js');
+    const { StoryPackManager } = await import('./story-pack-manager.js');
+    const packKey = await StoryPackManager.loadPackForPost(postId);
 
     const alternatives: Array<{
       branchId: string;
@@ -480,7 +504,7 @@ export class StoryStateManager {
     }> = [];
 
     // Get all available branches
-    const allBranches = StoryContentManager.getAllBranches();
+    const allBranches = StoryContentManager.getAllBranches(packKey);
 
     for (const branch of allBranches) {
       const isCompleted = completedPaths.some((path) => path.includes(branch.id));
@@ -502,46 +526,11 @@ export class StoryStateManager {
   }
 
   /**
-   * Gets story replay data for a specific path
+   * Gets the recorded run for a completed path
    */
-  static async getStoryReplay(
-    postId: string,
-    pathId: string
-  ): Promise<{
-    pathId: string;
-    chapters: StoryChapter[];
-    decisions: string[];
-    ending?: any;
-  } | null> {
-    const history = await this.getStoryHistory(postId);
-    const completedPaths = await this.getCompletedPaths(postId);
-
-    if (!completedPaths.includes(pathId)) {
-      return null; // Path not completed
-    }
-
-    // Filter history for this specific path
-    const pathHistory = history.filter(
-      (entry) => entry.chapterId.includes(pathId) || entry.winningChoice.includes(pathId)
-    );
-
-    const chapters: StoryChapter[] = [];
-    const decisions: string[] = [];
-
-    for (const entry of pathHistory) {
-      const chapter = await this.getChapter(postId, entry.chapterId);
-      if (chapter) {
-        chapters.push(chapter);
-        decisions.push(entry.winningChoice);
-      }
-    }
-
-    return {
-      pathId,
-      chapters,
-      decisions,
-      ending: undefined, // Could be populated with ending data
-    };
+  static async getStoryReplay(postId: string, pathId: string): Promise<StoryPathRecord | null> {
+    const { ChapterArchiveManager } = await import('./chapter-archive-manager.js');
+    return ChapterArchiveManager.getPathRecord(postId, pathId);
   }
 
   /**
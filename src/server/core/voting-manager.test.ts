@@ -0,0 +1,270 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { PlatformServices } from '../platform';
+import { installMemoryPlatform, MemoryPlatform } from '../test/memory-platform';
+import { VotingManager } from './voting-manager.js';
+import { PostConfigManager } from './post-config-manager.js';
+
+const CHOICES = [
+  { choiceId: 'stay', text: 'Stay in the thread' },
+  { choiceId: 'reply', text: 'Reply to the stranger' },
+  { choiceId: 'log_off', text: 'Log off' },
+];
+const CHAPTER_ID = 'chapter_1';
+
+let platform: MemoryPlatform;
+let postId: string;
+
+const startRound = async (lockVotes = false) => {
+  await PostConfigManager.setConfig(postId, { lockVotes });
+  await VotingManager.createVotingSession(postId, CHAPTER_ID, CHOICES);
+};
+
+// Counters and ballots are written by the same transaction, so both views must agree exactly
+const expectConsistentCounts = async (expected: Record<string, number>) => {
+  const counts = await VotingManager.getVoteCounts(postId, CHAPTER_ID);
+  const tally = await VotingManager.getTally(postId, CHAPTER_ID);
+  const total = Object.values(expected).reduce((sum, count) => sum + count, 0);
+
+  for (const choice of CHOICES) {
+    const expectedCount = expected[choice.choiceId] ?? 0;
+    expect(counts.find((count) => count.choiceId === choice.choiceId)?.count ?? 0).toBe(
+      expectedCount
+    );
+    expect(tally?.counts.find((count) => count.choiceId === choice.choiceId)?.count ?? 0).toBe(
+      expectedCount
+    );
+  }
+  expect(await VotingManager.getTotalVotes(postId, CHAPTER_ID)).toBe(total);
+  expect(await VotingManager.getChapterVoters(postId, CHAPTER_ID)).toHaveLength(total);
+};
+
+// Reads the first-preference and approval counters as stored, bypassing the tally
+const storedCounts = async () => {
+  const counts: Record<string, number> = {};
+  for (const { choiceId } of CHOICES) {
+    counts[choiceId] = Number(
+      (await platform.redis.get(`haunted_thread:vote_count:${postId}:${CHAPTER_ID}:${choiceId}`)) ??
+        0
+    );
+  }
+  return counts;
+};
+
+const storedBallots = async () =>
+  Object.fromEntries(
+    Object.entries(
+      await platform.redis.hGetAll(`haunted_thread:ballots:${postId}:${CHAPTER_ID}`)
+    ).map(([userId, raw]) => [userId, JSON.parse(raw) as unknown])
+  );
+
+const countBy = (choiceIds: string[]) =>
+  choiceIds.reduce<Record<string, number>>((counts, choiceId) => {
+    counts[choiceId] = (counts[choiceId] ?? 0) + 1;
+    return counts;
+  }, {});
+
+describe('VotingManager concurrency', () => {
+  beforeEach(() => {
+    platform = installMemoryPlatform();
+    // Vote caches live in process memory, so every test votes on a post of its own
+    postId = `t3_${Math.random().toString(36).slice(2)}`;
+  });
+
+  afterEach(() => PlatformServices.reset());
+
+  it('counts every vote exactly when many players vote at once', async () => {
+    await startRound();
+    const picks = Array.from({ length: 60 }, (_, i) => CHOICES[i % CHOICES.length]!.choiceId);
+
+    const results = await Promise.all(
+      picks.map((choiceId, i) => VotingManager.castVote(postId, `user_${i}`, CHAPTER_ID, choiceId))
+    );
+
+    expect(results.every((result) => result.success && result.action === 'cast')).toBe(true);
+    await expectConsistentCounts(countBy(picks));
+  });
+
+  it('accepts only one of a burst of duplicate votes when votes are locked', async () => {
+    await startRound(true);
+
+    const results = await Promise.all(
+      CHOICES.flatMap((choice) =>
+        [0, 1, 2].map(() => VotingManager.castVote(postId, 'user_a', CHAPTER_ID, choice.choiceId))
+      )
+    );
+
+    const accepted = results.filter((result) => result.success);
+    expect(accepted).toHaveLength(1);
+    expect(platform.redis.conflicts).toBeGreaterThan(0);
+    expect(
+      results
+        .filter((result) => !result.success)
+        .every((result) => result.message.includes('votes are locked'))
+    ).toBe(true);
+
+    const status = await VotingManager.hasUserVoted(postId, 'user_a', CHAPTER_ID);
+    await expectConsistentCounts({ [status.choiceId!]: 1 });
+  });
+
+  it('keeps one ballot per player when the same player changes their vote concurrently', async () => {
+    await startRound();
+
+    const results = await Promise.all(
+      ['stay', 'reply', 'log_off', 'reply'].map((choiceId) =>
+        VotingManager.castVote(postId, 'user_a', CHAPTER_ID, choiceId)
+      )
+    );
+
+    expect(results.filter((result) => result.action === 'cast')).toHaveLength(1);
+    const status = await VotingManager.hasUserVoted(postId, 'user_a', CHAPTER_ID);
+    await expectConsistentCounts({ [status.choiceId!]: 1 });
+    expect(await VotingManager.getParticipation(postId, 'user_a')).toBe(1);
+  });
+
+  it('stays exact when votes, changes and retractions race', async () => {
+    await startRound();
+    const players = Array.from({ length: 20 }, (_, i) => `user_${i}`);
+    await Promise.all(
+      players.map((userId) => VotingManager.castVote(postId, userId, CHAPTER_ID, 'stay'))
+    );
+
+    await Promise.all(
+      players.flatMap((userId, i) => [
+        VotingManager.castVote(postId, userId, CHAPTER_ID, i % 2 ? 'reply' : 'log_off'),
+        ...(i % 3 === 0 ? [VotingManager.retractVote(postId, userId, CHAPTER_ID)] : []),
+      ])
+    );
+
+    const finalVotes: string[] = [];
+    for (const userId of players) {
+      const status = await VotingManager.hasUserVoted(postId, userId, CHAPTER_ID);
+      if (status.hasVoted && status.choiceId) finalVotes.push(status.choiceId);
+      expect(await VotingManager.getParticipation(postId, userId)).toBe(status.hasVoted ? 1 : 0);
+    }
+    await expectConsistentCounts(countBy(finalVotes));
+  });
+
+  it('rejects votes that lose the race against the round closing', async () => {
+    await startRound();
+
+    const [results] = await Promise.all([
+      Promise.all(
+        Array.from({ length: 30 }, (_, i) =>
+          VotingManager.castVote(postId, `user_${i}`, CHAPTER_ID, 'reply')
+        )
+      ),
+      VotingManager.endVotingSession(postId, CHAPTER_ID),
+    ]);
+
+    const accepted = results.filter((result) => result.success);
+    expect(accepted.length).toBeLessThan(results.length);
+    expect(
+      results
+        .filter((result) => !result.success)
+        .every((result) => result.message === 'Voting is not currently active for this chapter')
+    ).toBe(true);
+    await expectConsistentCounts({ reply: accepted.length });
+  });
+});
+
+describe('VotingManager ballots', () => {
+  beforeEach(() => {
+    platform = installMemoryPlatform();
+    postId = `t3_${Math.random().toString(36).slice(2)}`;
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    PlatformServices.reset();
+  });
+
+  it('keeps the weight of the first ballot when a player changes their vote', async () => {
+    await PostConfigManager.setConfig(postId, { votingMethod: 'participation_weighted' });
+    await VotingManager.createVotingSession(postId, CHAPTER_ID, CHOICES);
+
+    await VotingManager.castVote(postId, 'user_a', CHAPTER_ID, 'stay', { weight: 1.2 });
+    // Casting the first vote raised user_a's participation, and with it the weight offered now
+    await VotingManager.castVote(postId, 'user_a', CHAPTER_ID, 'reply', { weight: 1.3 });
+
+    const tally = await VotingManager.getTally(postId, CHAPTER_ID);
+    expect(tally?.counts.find((count) => count.choiceId === 'reply')).toMatchObject({
+      count: 1,
+      weight: 1.2,
+    });
+    expect(tally?.totalWeight).toBe(1.2);
+  });
+
+  it('strikes a removed choice from approval ballots and their counters', async () => {
+    await PostConfigManager.setConfig(postId, { votingMethod: 'approval' });
+    await VotingManager.createVotingSession(postId, CHAPTER_ID, CHOICES);
+    await VotingManager.castVote(postId, 'user_a', CHAPTER_ID, 'stay', {
+      choiceIds: ['stay', 'reply'],
+    });
+    await VotingManager.castVote(postId, 'user_b', CHAPTER_ID, 'reply');
+
+    const removal = await VotingManager.removeChoice(postId, CHAPTER_ID, 'reply');
+
+    // user_b approved nothing else, so their vote is withdrawn
+    expect(removal).toEqual({ success: true, withdrawnVotes: 1 });
+    expect(await storedBallots()).toEqual({ user_a: { choiceIds: ['stay'], weight: 1 } });
+    expect(await storedCounts()).toEqual({ stay: 1, reply: 0, log_off: 0 });
+    expect((await VotingManager.hasUserVoted(postId, 'user_b', CHAPTER_ID)).hasVoted).toBe(false);
+    expect(await VotingManager.getTally(postId, CHAPTER_ID)).toMatchObject({
+      winningChoice: 'stay',
+      totalBallots: 1,
+    });
+  });
+
+  it('leaves a round closed when it closes while a choice is being removed', async () => {
+    await startRound();
+    const getVotingSession = VotingManager.getVotingSession.bind(VotingManager);
+    let closed = false;
+    vi.spyOn(VotingManager, 'getVotingSession').mockImplementation(async (...args) => {
+      const session = await getVotingSession(...args);
+      // The round closes right after removeChoice first reads it
+      if (!closed) {
+        closed = true;
+        await VotingManager.endVotingSession(...args);
+      }
+      return session;
+    });
+
+    const removal = await VotingManager.removeChoice(postId, CHAPTER_ID, 'reply');
+
+    expect(removal).toEqual({
+      success: false,
+      error: 'Voting session changed while the choice was being removed',
+    });
+    const session = await VotingManager.getVotingSession(postId, CHAPTER_ID);
+    expect(session?.status).toBe('completed');
+    expect(session?.choices).toHaveLength(CHOICES.length);
+  });
+
+  it('moves ranked ballots on to their next preference when a choice is removed', async () => {
+    await PostConfigManager.setConfig(postId, { votingMethod: 'ranked_choice' });
+    await VotingManager.createVotingSession(postId, CHAPTER_ID, CHOICES);
+    await VotingManager.castVote(postId, 'user_a', CHAPTER_ID, 'reply', {
+      choiceIds: ['reply', 'log_off'],
+    });
+    await VotingManager.castVote(postId, 'user_b', CHAPTER_ID, 'stay', {
+      choiceIds: ['stay', 'reply'],
+    });
+
+    const removal = await VotingManager.removeChoice(postId, CHAPTER_ID, 'reply');
+
+    expect(removal).toEqual({ success: true, withdrawnVotes: 0 });
+    expect(await storedBallots()).toEqual({
+      user_a: { choiceIds: ['log_off'], weight: 1 },
+      user_b: { choiceIds: ['stay'], weight: 1 },
+    });
+    expect(await storedCounts()).toEqual({ stay: 1, reply: 0, log_off: 1 });
+    const votes = await VotingManager.getAllVotes(postId, CHAPTER_ID);
+    expect(votes.find((vote) => vote.userId === 'user_a')).toMatchObject({ choiceId: 'log_off' });
+    expect((await VotingManager.hasUserVoted(postId, 'user_a', CHAPTER_ID)).choiceId).toBe(
+      'log_off'
+    );
+    const tally = await VotingManager.getTally(postId, CHAPTER_ID);
+    expect(tally?.rounds?.[0]?.counts).toEqual({ stay: 1, log_off: 1 });
+    expect(await VotingManager.getTotalVotes(postId, CHAPTER_ID)).toBe(2);
+  });
+});
@@ -3,7 +3,7 @@
  * Handles vote storage, counting, aggregation, and duplicate prevention using Redis transactions
  */
 
-import { redis } from '@devvit/web/server';
+import { redis } from '../platform';
 import {
   Vote,
   VotingSession,
@@ -11,8 +11,11 @@ import {
   VoteCount,
   UserVoteStatus,
   VotingStats,
+  VotingMethod,
 } from '../../shared/types/voting.js';
+import { Ballot, TallyResult, VoteTally } from '../../shared/types/vote-tally.js';
 import { RedisOptimizer } from '../utils/redis-optimizer';
+import { RedisErrorHandler } from '../utils/redis-error-handler';
 import { ErrorLogger, PerformanceMonitor, CircuitBreaker } from '../utils/error-handler';
 
 export class VotingManager {
@@ -20,93 +23,290 @@ export class VotingManager {
   private static readonly SESSION_PREFIX = 'haunted_thread:voting_session';
   private static readonly USER_VOTE_PREFIX = 'haunted_thread:user_vote';
   private static readonly VOTE_COUNT_PREFIX = 'haunted_thread:vote_count';
+  private static readonly BALLOT_PREFIX = 'haunted_thread:ballots';
+  // Story-level index: chapters with a voting session (chapterId -> votes cast) and
+  // the story's voters (userId -> chapters voted on). Unlike per-chapter keys these don't expire.
+  private static readonly STORY_CHAPTERS_PREFIX = 'haunted_thread:story_chapters';
+  private static readonly PARTICIPATION_PREFIX = 'haunted_thread:participation';
+  // Attempts at a vote transaction before giving up, and the base pause between them
+  private static readonly MAX_TXN_ATTEMPTS = 5;
+  private static readonly TXN_RETRY_DELAY_MS = 20;
 
   // Circuit breakers for different operations
   private static readonly countCircuitBreaker = new CircuitBreaker(3, 15000, 'count_operations');
 
   /**
-   * Casts a vote using Redis transactions to prevent race conditions
+   * Casts a vote atomically. The user's vote and the voting session are WATCHed while they are
+   * checked, so a concurrent vote from the same user or the session closing aborts the commit
+   * and the whole check is redone.
+   * choiceId is the first preference; ranked and approval ballots pass the full list in choiceIds.
+   * The weight only applies to a first vote; a changed vote keeps the weight it was cast with.
    */
   static async castVote(
     postId: string,
     userId: string,
     chapterId: string,
-    choiceId: string
+    choiceId: string,
+    ballot: { choiceIds?: string[]; weight?: number } = {}
+  ): Promise<VoteResult> {
+    try {
+      return await this.runVoteTransaction('cast', { postId, userId, chapterId }, () =>
+        this.attemptCastVote(postId, userId, chapterId, choiceId, ballot)
+      );
+    } catch (error) {
+      console.error('Error casting vote:', error);
+      return {
+        success: false,
+        message: 'Failed to cast vote due to server error',
+      };
+    }
+  }
+
+  /**
+   * Withdraws a user's vote while the session is active, unless the post locks votes
+   */
+  static async retractVote(postId: string, userId: string, chapterId: string): Promise<VoteResult> {
+    try {
+      return await this.runVoteTransaction('retract', { postId, userId, chapterId }, () =>
+        this.attemptRetractVote(postId, userId, chapterId)
+      );
+    } catch (error) {
+      console.error('Error retracting vote:', error);
+      return {
+        success: false,
+        message: 'Failed to retract vote due to server error',
+      };
+    }
+  }
+
+  /**
+   * Runs a vote transaction until it commits, with a short jittered pause between attempts
+   * so the requests that collided don't collide again
+   */
+  private static async runVoteTransaction(
+    operation: 'cast' | 'retract' | 'remove_choice',
+    details: { postId: string; userId: string; chapterId: string },
+    attempt: () => Promise<VoteResult | null>
   ): Promise<VoteResult> {
+    for (let attemptNumber = 1; attemptNumber <= this.MAX_TXN_ATTEMPTS; attemptNumber++) {
+      const result = await attempt();
+      if (result) return result;
+
+      await new Promise((resolve) =>
+        setTimeout(resolve, Math.random() * this.TXN_RETRY_DELAY_MS * attemptNumber)
+      );
+    }
+
+    ErrorLogger.logWarning('Vote transaction kept conflicting', {
+      ...details,
+      operation,
+      attempts: this.MAX_TXN_ATTEMPTS,
+    });
+    return {
+      success: false,
+      message: 'Too many simultaneous votes, please try again',
+    };
+  }
+
+  /**
+   * One read-check-write pass of castVote; null when EXEC was aborted by a conflict
+   */
+  private static async attemptCastVote(
+    postId: string,
+    userId: string,
+    chapterId: string,
+    choiceId: string,
+    ballot: { choiceIds?: string[]; weight?: number }
+  ): Promise<VoteResult | null> {
     const userVoteKey = `${this.USER_VOTE_PREFIX}:${postId}:${chapterId}:${userId}`;
+    const sessionKey = `${this.SESSION_PREFIX}:${postId}:${chapterId}`;
     const voteCountKey = `${this.VOTE_COUNT_PREFIX}:${postId}:${chapterId}:${choiceId}`;
     const totalVotesKey = `${this.VOTE_COUNT_PREFIX}:${postId}:${chapterId}:total`;
     const uniqueVotersKey = `${this.VOTE_COUNT_PREFIX}:${postId}:${chapterId}:unique_voters`;
+    const ballotsKey = `${this.BALLOT_PREFIX}:${postId}:${chapterId}`;
+    const participationKey = `${this.PARTICIPATION_PREFIX}:${postId}`;
+    const storyChaptersKey = `${this.STORY_CHAPTERS_PREFIX}:${postId}`;
 
-    try {
-      // Use Redis transaction to ensure atomicity
-      const txn = await redis.watch(userVoteKey);
-      await txn.multi();
-
-      // Check if user has already voted
-      const existingVote = await redis.get(userVoteKey);
-      if (existingVote) {
-        return {
-          success: false,
-          message: 'User has already voted for this chapter',
-          userPreviousVote: existingVote,
-        };
-      }
+    // Reads happen after WATCH and before MULTI; a write to either key in between fails EXEC
+    const txn = await redis.watch(userVoteKey, sessionKey);
 
-      // Check if voting session is still active
-      const session = await this.getVotingSession(postId, chapterId);
-      if (!session || session.status !== 'active') {
-        return {
-          success: false,
-          message: 'Voting is not currently active for this chapter',
-        };
-      }
+    // A second vote replaces the first unless the post locks votes
+    const existingVote = await redis.get(userVoteKey);
+    const session = await this.getVotingSession(postId, chapterId);
 
-      // Create vote record
-      const vote: Vote = {
-        userId,
-        chapterId,
-        choiceId,
-        timestamp: new Date(),
+    if (!session || session.status !== 'active') {
+      await txn.unwatch();
+      return {
+        success: false,
+        message: 'Voting is not currently active for this chapter',
       };
+    }
 
-      const voteKey = `${this.VOTE_PREFIX}:${postId}:${chapterId}:${userId}`;
-
-      // Execute transaction
-      await txn.set(userVoteKey, choiceId);
-      await txn.expire(userVoteKey, 86400); // 24 hours TTL
-      await txn.set(
-        voteKey,
-        JSON.stringify({
-          ...vote,
-          timestamp: vote.timestamp.toISOString(),
-        })
-      );
-      await txn.expire(voteKey, 86400);
-      await txn.incrBy(voteCountKey, 1);
-      await txn.expire(voteCountKey, 86400);
+    if (existingVote && session.lockVotes) {
+      await txn.unwatch();
+      return {
+        success: false,
+        message: 'User has already voted for this chapter and votes are locked',
+        userPreviousVote: existingVote,
+      };
+    }
+
+    const method = session.method ?? 'plurality';
+    const choiceIds = ballot.choiceIds ?? [choiceId];
+
+    const ballotCheck = VoteTally.validateBallot(
+      method,
+      choiceIds,
+      session.choices.map((choice) => choice.choiceId)
+    );
+    if (!ballotCheck.isValid || choiceIds[0] !== choiceId) {
+      await txn.unwatch();
+      return {
+        success: false,
+        message: ballotCheck.errors[0] ?? 'The first choice on the ballot must match the vote',
+      };
+    }
+
+    const voteKey = `${this.VOTE_PREFIX}:${postId}:${chapterId}:${userId}`;
+    // The ballot is only rewritten together with the watched user vote key
+    const previousBallot = existingVote
+      ? await this.getUserBallot(postId, chapterId, userId, existingVote)
+      : null;
+    // A changed vote keeps the weight of the first ballot; casting it raised the participation
+    // count that the weight is worked out from
+    const weight = previousBallot ? previousBallot.weight : (ballot.weight ?? 1);
+
+    // Create vote record
+    const vote: Vote = {
+      userId,
+      chapterId,
+      choiceId,
+      timestamp: new Date(),
+      ...(choiceIds.length > 1 && { choiceIds }),
+      ...(weight !== 1 && { weight }),
+    };
+
+    await txn.multi();
+
+    if (previousBallot) {
+      for (const countedId of this.getCountedChoices(method, previousBallot.choiceIds)) {
+        await txn.incrBy(`${this.VOTE_COUNT_PREFIX}:${postId}:${chapterId}:${countedId}`, -1);
+      }
+    }
+    await txn.set(userVoteKey, choiceId);
+    await txn.expire(userVoteKey, 86400); // 24 hours TTL
+    await txn.set(
+      voteKey,
+      JSON.stringify({
+        ...vote,
+        timestamp: vote.timestamp.toISOString(),
+      })
+    );
+    await txn.expire(voteKey, 86400);
+    for (const countedId of this.getCountedChoices(method, choiceIds)) {
+      const countKey = `${this.VOTE_COUNT_PREFIX}:${postId}:${chapterId}:${countedId}`;
+      await txn.incrBy(countKey, 1);
+      await txn.expire(countKey, 86400);
+    }
+    await txn.hSet(ballotsKey, { [userId]: JSON.stringify({ choiceIds, weight }) });
+    await txn.expire(ballotsKey, 86400);
+    // A changed vote is still one voter, so the totals only move for a first vote
+    if (!previousBallot) {
       await txn.incrBy(totalVotesKey, 1);
       await txn.expire(totalVotesKey, 86400);
       await txn.hSet(uniqueVotersKey, { [userId]: '1' });
       await txn.expire(uniqueVotersKey, 86400);
+      await txn.hIncrBy(participationKey, userId, 1);
+      await txn.hIncrBy(storyChaptersKey, chapterId, 1);
+    }
+
+    if (!(await RedisErrorHandler.commitTransaction(txn))) return null;
+
+    if (existingVote) {
+      await RedisOptimizer.invalidateVoteCaches(postId, chapterId, userId);
+    }
+
+    // Get updated vote count
+    const newVoteCount = await redis.get(voteCountKey);
+
+    return {
+      success: true,
+      message: existingVote ? 'Vote changed successfully' : 'Vote cast successfully',
+      voteCount: parseInt(newVoteCount || '0'),
+      action: existingVote ? 'changed' : 'cast',
+      ...(existingVote && { userPreviousVote: existingVote }),
+    };
+  }
 
-      await txn.exec();
+  /**
+   * One read-check-write pass of retractVote; null when EXEC was aborted by a conflict
+   */
+  private static async attemptRetractVote(
+    postId: string,
+    userId: string,
+    chapterId: string,
+    ignoreLock = false
+  ): Promise<VoteResult | null> {
+    const userVoteKey = `${this.USER_VOTE_PREFIX}:${postId}:${chapterId}:${userId}`;
+    const sessionKey = `${this.SESSION_PREFIX}:${postId}:${chapterId}`;
+    const participationKey = `${this.PARTICIPATION_PREFIX}:${postId}`;
+
+    const txn = await redis.watch(userVoteKey, sessionKey);
 
-      // Get updated vote count
-      const newVoteCount = await redis.get(voteCountKey);
+    const existingVote = await redis.get(userVoteKey);
+    if (!existingVote) {
+      await txn.unwatch();
+      return { success: false, message: 'User has not voted for this chapter' };
+    }
 
+    const session = await this.getVotingSession(postId, chapterId);
+    if (!session || session.status !== 'active') {
+      await txn.unwatch();
       return {
-        success: true,
-        message: 'Vote cast successfully',
-        voteCount: parseInt(newVoteCount || '0'),
+        success: false,
+        message: 'Voting is not currently active for this chapter',
       };
-    } catch (error) {
-      console.error('Error casting vote:', error);
+    }
+
+    if (session.lockVotes && !ignoreLock) {
+      await txn.unwatch();
       return {
         success: false,
-        message: 'Failed to cast vote due to server error',
+        message: 'Votes are locked and cannot be retracted',
+        userPreviousVote: existingVote,
       };
     }
+
+    const previousBallot = await this.getUserBallot(postId, chapterId, userId, existingVote);
+
+    await txn.multi();
+
+    await txn.del(userVoteKey, `${this.VOTE_PREFIX}:${postId}:${chapterId}:${userId}`);
+    for (const countedId of this.getCountedChoices(
+      session.method ?? 'plurality',
+      previousBallot.choiceIds
+    )) {
+      await txn.incrBy(`${this.VOTE_COUNT_PREFIX}:${postId}:${chapterId}:${countedId}`, -1);
+    }
+    await txn.incrBy(`${this.VOTE_COUNT_PREFIX}:${postId}:${chapterId}:total`, -1);
+    await txn.hDel(`${this.VOTE_COUNT_PREFIX}:${postId}:${chapterId}:unique_voters`, [userId]);
+    await txn.hDel(`${this.BALLOT_PREFIX}:${postId}:${chapterId}`, [userId]);
+    await txn.hIncrBy(participationKey, userId, -1);
+    await txn.hIncrBy(`${this.STORY_CHAPTERS_PREFIX}:${postId}`, chapterId, -1);
+
+    if (!(await RedisErrorHandler.commitTransaction(txn))) return null;
+
+    if (parseInt((await redis.hGet(participationKey, userId)) || '0') <= 0) {
+      await redis.hDel(participationKey, [userId]);
+    }
+    await RedisOptimizer.invalidateVoteCaches(postId, chapterId, userId);
+
+    return {
+      success: true,
+      message: 'Vote retracted successfully',
+      action: 'retracted',
+      userPreviousVote: existingVote,
+    };
   }
 
   /**
@@ -124,6 +324,13 @@ export class VotingManager {
           return [];
         }
 
+        // Runoffs and weights can't be read off the counters, so count the ballots instead
+        if (session.method && session.method !== 'plurality') {
+          const tally = await this.tallySession(postId, chapterId, session);
+          stopTimer();
+          return tally.counts;
+        }
+
         const choiceIds = session.choices.map((choice) => choice.choiceId);
 
         // Use optimized batch retrieval
@@ -175,10 +382,7 @@ export class VotingManager {
 
       if (!session) return null;
 
-      const voteCounts = await this.getVoteCounts(postId, chapterId);
-      const winningChoice = voteCounts.reduce((prev, current) =>
-        current.count > prev.count ? current : prev
-      );
+      const tally = await this.tallySession(postId, chapterId, session);
 
       const votingDuration = session.endTime
         ? session.endTime.getTime() - session.startTime.getTime()
@@ -188,8 +392,12 @@ export class VotingManager {
         totalVotes: parseInt(totalVotes || '0'),
         uniqueVoters: uniqueVoters || 0,
         votingDuration,
-        winningChoice: winningChoice.choiceId,
-        winningPercentage: winningChoice.percentage,
+        winningChoice: tally.winningChoice ?? session.choices[0]?.choiceId ?? '',
+        winningPercentage: tally.winningPercentage,
+        method: tally.method,
+        explanation: tally.explanation,
+        totalWeight: tally.totalWeight,
+        ...(tally.rounds && { rounds: tally.rounds }),
       };
     } catch (error) {
       console.error('Error getting voting stats:', error);
@@ -221,6 +429,9 @@ export class VotingManager {
             try {
               const vote = JSON.parse(voteData);
               (result as any).timestamp = new Date(vote.timestamp);
+              if (Array.isArray(vote.choiceIds)) {
+                (result as UserVoteStatus).choiceIds = vote.choiceIds;
+              }
             } catch (error) {
               ErrorLogger.logWarning('Error parsing vote timestamp', {
                 postId,
@@ -249,16 +460,21 @@ export class VotingManager {
   }
 
   /**
-   * Creates a new voting session for a chapter
+   * Creates a new voting session for a chapter.
+   * Without an explicit duration the post's configured voting duration is used.
    */
   static async createVotingSession(
     postId: string,
     chapterId: string,
     choices: Array<{ choiceId: string; text: string }>,
-    durationMinutes: number = 60
+    durationMinutes?: number
   ): Promise<VotingSession> {
     const sessionKey = `${this.SESSION_PREFIX}:${postId}:${chapterId}`;
 
+    const { PostConfigManager } = await import('./post-config-manager.js');
+    const config = await PostConfigManager.getConfig(postId);
+    durationMinutes ??= config.votingDurationMinutes;
+
     const startTime = new Date();
     const endTime = new Date(startTime.getTime() + durationMinutes * 60 * 1000);
 
@@ -267,6 +483,8 @@ export class VotingManager {
       startTime,
       endTime,
       status: 'active',
+      method: config.votingMethod,
+      lockVotes: config.lockVotes,
       totalVotes: 0,
       choices: choices.map((choice) => ({
         choiceId: choice.choiceId,
@@ -285,6 +503,13 @@ export class VotingManager {
     await redis.set(sessionKey, JSON.stringify(sessionData));
     await redis.expire(sessionKey, 86400); // 24 hours TTL
 
+    // Adding zero registers the chapter without resetting a vote total already recorded
+    await redis.hIncrBy(`${this.STORY_CHAPTERS_PREFIX}:${postId}`, chapterId, 0);
+
+    // Close the round automatically once it expires
+    const { VotingScheduler } = await import('./voting-scheduler.js');
+    await VotingScheduler.scheduleRoundClosure(postId, chapterId, endTime);
+
     return session;
   }
 
@@ -411,25 +636,134 @@ export class VotingManager {
     }
   }
 
+  /**
+   * Puts a session back as it was before endVotingSession, votes and all
+   */
+  static async reopenVotingSession(postId: string, session: VotingSession): Promise<void> {
+    const sessionKey = `${this.SESSION_PREFIX}:${postId}:${session.chapterId}`;
+    await redis.set(
+      sessionKey,
+      JSON.stringify({
+        ...session,
+        status: 'active',
+        startTime: session.startTime.toISOString(),
+        endTime: session.endTime?.toISOString(),
+      })
+    );
+    await redis.expire(sessionKey, 86400);
+    await RedisOptimizer.invalidateCachePattern(sessionKey);
+  }
+
   /**
    * Gets the winning choice for a completed voting session
    */
   static async getWinningChoice(postId: string, chapterId: string): Promise<string | null> {
     try {
-      const voteCounts = await this.getVoteCounts(postId, chapterId);
-      if (voteCounts.length === 0) return null;
-
-      const winner = voteCounts.reduce((prev, current) =>
-        current.count > prev.count ? current : prev
-      );
-
-      return winner.choiceId;
+      const tally = await this.getTally(postId, chapterId);
+      return tally?.winningChoice ?? null;
     } catch (error) {
       console.error('Error getting winning choice:', error);
       return null;
     }
   }
 
+  /**
+   * Counts a chapter's ballots with the session's voting method
+   */
+  static async getTally(postId: string, chapterId: string): Promise<TallyResult | null> {
+    const session = await this.getVotingSession(postId, chapterId);
+    if (!session) return null;
+    return this.tallySession(postId, chapterId, session);
+  }
+
+  private static async tallySession(
+    postId: string,
+    chapterId: string,
+    session: VotingSession
+  ): Promise<TallyResult> {
+    const method: VotingMethod = session.method ?? 'plurality';
+    const ballots = await this.getBallots(postId, chapterId);
+    return VoteTally.tally(method, session.choices, ballots, chapterId);
+  }
+
+  /**
+   * Reads the stored ballots, falling back to vote records for votes cast before ballots existed
+   */
+  private static async getBallots(postId: string, chapterId: string): Promise<Ballot[]> {
+    const data = await redis.hGetAll(`${this.BALLOT_PREFIX}:${postId}:${chapterId}`);
+    const entries = Object.entries(data);
+
+    if (entries.length === 0) {
+      const votes = await this.getAllVotes(postId, chapterId);
+      return votes.map((vote) => ({
+        userId: vote.userId,
+        choiceIds: vote.choiceIds ?? [vote.choiceId],
+        weight: vote.weight ?? 1,
+      }));
+    }
+
+    const ballots: Ballot[] = [];
+    for (const [userId, raw] of entries) {
+      try {
+        const parsed = JSON.parse(raw) as { choiceIds: string[]; weight: number };
+        ballots.push({ userId, choiceIds: parsed.choiceIds, weight: parsed.weight ?? 1 });
+      } catch (error) {
+        console.error('Error parsing ballot:', error);
+      }
+    }
+    return ballots;
+  }
+
+  /**
+   * Reads one user's stored ballot; votes cast before ballots existed count as a single choice
+   */
+  private static async getUserBallot(
+    postId: string,
+    chapterId: string,
+    userId: string,
+    choiceId: string
+  ): Promise<{ choiceIds: string[]; weight: number }> {
+    const raw = await redis.hGet(`${this.BALLOT_PREFIX}:${postId}:${chapterId}`, userId);
+    if (raw) {
+      try {
+        const parsed = JSON.parse(raw) as { choiceIds: string[]; weight: number };
+        return { choiceIds: parsed.choiceIds, weight: parsed.weight ?? 1 };
+      } catch (error) {
+        console.error('Error parsing ballot:', error);
+      }
+    }
+    return { choiceIds: [choiceId], weight: 1 };
+  }
+
+  // Approval counters track every approved choice; the others track first preferences
+  private static getCountedChoices(method: VotingMethod, choiceIds: string[]): string[] {
+    return method === 'approval' ? choiceIds : choiceIds.slice(0, 1);
+  }
+
+  /**
+   * Number of chapters of this story the user has voted on so far
+   */
+  static async getParticipation(postId: string, userId: string): Promise<number> {
+    const count = await redis.hGet(`${this.PARTICIPATION_PREFIX}:${postId}`, userId);
+    return parseInt(count || '0');
+  }
+
+  /**
+   * Gets the usernames of everyone who voted on a chapter
+   */
+  static async getChapterVoters(postId: string, chapterId: string): Promise<string[]> {
+    const uniqueVotersKey = `${this.VOTE_COUNT_PREFIX}:${postId}:${chapterId}:unique_voters`;
+    return Object.keys(await redis.hGetAll(uniqueVotersKey));
+  }
+
+  /**
+   * Gets the number of ballots cast for a chapter
+   */
+  static async getTotalVotes(postId: string, chapterId: string): Promise<number> {
+    const total = await redis.get(`${this.VOTE_COUNT_PREFIX}:${postId}:${chapterId}:total`);
+    return parseInt(total || '0');
+  }
+
   /**
    * Gets all votes for a chapter (for debugging/admin purposes)
    * Note: This method is limited since we can't use pattern matching in Devvit Redis
@@ -476,13 +810,18 @@ export class VotingManager {
       const votersData = await redis.hGetAll(uniqueVotersKey);
       const voterIds = Object.keys(votersData);
 
-      // Delete individual vote records
+      // Delete individual vote records and take the chapter off each voter's participation
+      const participationKey = `${this.PARTICIPATION_PREFIX}:${postId}`;
       for (const userId of voterIds) {
         const voteKey = `${this.VOTE_PREFIX}:${postId}:${chapterId}:${userId}`;
         const userVoteKey = `${this.USER_VOTE_PREFIX}:${postId}:${chapterId}:${userId}`;
         await redis.del(voteKey);
         await redis.del(userVoteKey);
+        if ((await redis.hIncrBy(participationKey, userId, -1)) <= 0) {
+          await redis.hDel(participationKey, [userId]);
+        }
       }
+      await redis.hDel(`${this.STORY_CHAPTERS_PREFIX}:${postId}`, [chapterId]);
 
       // Get session to know available choices
       const session = await this.getVotingSession(postId, chapterId);
@@ -497,6 +836,7 @@ export class VotingManager {
       const keysToDelete = [
         `${this.VOTE_COUNT_PREFIX}:${postId}:${chapterId}:total`,
         uniqueVotersKey,
+        `${this.BALLOT_PREFIX}:${postId}:${chapterId}`,
         `${this.SESSION_PREFIX}:${postId}:${chapterId}`,
       ];
 
@@ -508,6 +848,179 @@ export class VotingManager {
     }
   }
 
+  /**
+   * Takes a choice out of a chapter's round. In an active round the choice is struck from every
+   * ballot, even when the post locks votes; a ballot left empty is withdrawn so that player can
+   * vote again.
+   */
+  static async removeChoice(
+    postId: string,
+    chapterId: string,
+    choiceId: string
+  ): Promise<{ success: boolean; withdrawnVotes?: number; error?: string }> {
+    const session = await this.getVotingSession(postId, chapterId);
+
+    if (!session) {
+      return { success: false, error: 'No voting session for this chapter' };
+    }
+    if (!session.choices.some((choice) => choice.choiceId === choiceId)) {
+      return { success: false, error: 'Choice is not part of this round' };
+    }
+    if (session.choices.length <= 1) {
+      return { success: false, error: 'A round needs at least one choice' };
+    }
+
+    let shortened = false;
+    for (let attempt = 1; attempt <= this.MAX_TXN_ATTEMPTS && !shortened; attempt++) {
+      const result = await this.attemptShortenSession(postId, chapterId, choiceId, session.status);
+      if (typeof result === 'string') {
+        return { success: false, error: result };
+      }
+      shortened = result;
+    }
+    if (!shortened) {
+      return { success: false, error: 'Voting session kept changing, please try again' };
+    }
+
+    let withdrawnVotes = 0;
+    if (session.status === 'active') {
+      for (const ballot of await this.getBallots(postId, chapterId)) {
+        if (!ballot.choiceIds.includes(choiceId)) continue;
+        const result = await this.runVoteTransaction(
+          'remove_choice',
+          { postId, userId: ballot.userId, chapterId },
+          () => this.attemptStrikeChoice(postId, ballot.userId, chapterId, choiceId)
+        );
+        if (result.success && result.action === 'retracted') withdrawnVotes++;
+      }
+    }
+
+    return { success: true, withdrawnVotes };
+  }
+
+  /**
+   * One pass of writing a round's choices without the removed one; false when EXEC was aborted
+   * by a conflict, or an error when the round closed or reopened since it was first read.
+   * castVote watches the session key, so a vote in flight retries against the shorter list.
+   */
+  private static async attemptShortenSession(
+    postId: string,
+    chapterId: string,
+    choiceId: string,
+    status: VotingSession['status']
+  ): Promise<boolean | string> {
+    const sessionKey = `${this.SESSION_PREFIX}:${postId}:${chapterId}`;
+    const txn = await redis.watch(sessionKey);
+    const session = await this.getVotingSession(postId, chapterId);
+
+    if (!session || session.status !== status) {
+      await txn.unwatch();
+      return 'Voting session changed while the choice was being removed';
+    }
+    if (!session.choices.some((choice) => choice.choiceId === choiceId)) {
+      await txn.unwatch();
+      return true;
+    }
+    if (session.choices.length <= 1) {
+      await txn.unwatch();
+      return 'A round needs at least one choice';
+    }
+
+    await txn.multi();
+    await txn.set(
+      sessionKey,
+      JSON.stringify({
+        ...session,
+        startTime: session.startTime.toISOString(),
+        endTime: session.endTime?.toISOString(),
+        choices: session.choices.filter((choice) => choice.choiceId !== choiceId),
+      })
+    );
+    await txn.expire(sessionKey, 86400);
+    if (!(await RedisErrorHandler.commitTransaction(txn))) return false;
+
+    await RedisOptimizer.invalidateCachePattern(sessionKey);
+    return true;
+  }
+
+  /**
+   * One read-check-write pass of striking a removed choice from a user's ballot; null when EXEC
+   * was aborted by a conflict. Ranked ballots move on to their next preference.
+   */
+  private static async attemptStrikeChoice(
+    postId: string,
+    userId: string,
+    chapterId: string,
+    choiceId: string
+  ): Promise<VoteResult | null> {
+    const userVoteKey = `${this.USER_VOTE_PREFIX}:${postId}:${chapterId}:${userId}`;
+    const voteKey = `${this.VOTE_PREFIX}:${postId}:${chapterId}:${userId}`;
+    const ballotsKey = `${this.BALLOT_PREFIX}:${postId}:${chapterId}`;
+
+    const txn = await redis.watch(userVoteKey);
+
+    const existingVote = await redis.get(userVoteKey);
+    const session = await this.getVotingSession(postId, chapterId);
+    if (!existingVote || !session || session.status !== 'active') {
+      await txn.unwatch();
+      return { success: false, message: 'No vote to update for this chapter' };
+    }
+
+    const previousBallot = await this.getUserBallot(postId, chapterId, userId, existingVote);
+    const choiceIds = previousBallot.choiceIds.filter((id) => id !== choiceId);
+    if (choiceIds.length === previousBallot.choiceIds.length) {
+      await txn.unwatch();
+      return { success: true, message: 'Ballot does not include the choice' };
+    }
+    if (choiceIds.length === 0) {
+      await txn.unwatch();
+      return this.attemptRetractVote(postId, userId, chapterId, true);
+    }
+
+    const method = session.method ?? 'plurality';
+    const storedVote = await redis.get(voteKey);
+    const timestamp = storedVote
+      ? (JSON.parse(storedVote) as { timestamp: string }).timestamp
+      : new Date().toISOString();
+    const vote = {
+      userId,
+      chapterId,
+      choiceId: choiceIds[0]!,
+      timestamp,
+      ...(choiceIds.length > 1 && { choiceIds }),
+      ...(previousBallot.weight !== 1 && { weight: previousBallot.weight }),
+    };
+
+    await txn.multi();
+
+    for (const countedId of this.getCountedChoices(method, previousBallot.choiceIds)) {
+      await txn.incrBy(`${this.VOTE_COUNT_PREFIX}:${postId}:${chapterId}:${countedId}`, -1);
+    }
+    for (const countedId of this.getCountedChoices(method, choiceIds)) {
+      const countKey = `${this.VOTE_COUNT_PREFIX}:${postId}:${chapterId}:${countedId}`;
+      await txn.incrBy(countKey, 1);
+      await txn.expire(countKey, 86400);
+    }
+    await txn.set(userVoteKey, vote.choiceId);
+    await txn.expire(userVoteKey, 86400);
+    await txn.set(voteKey, JSON.stringify(vote));
+    await txn.expire(voteKey, 86400);
+    await txn.hSet(ballotsKey, {
+      [userId]: JSON.stringify({ choiceIds, weight: previousBallot.weight }),
+    });
+
+    if (!(await RedisErrorHandler.commitTransaction(txn))) return null;
+
+    await RedisOptimizer.invalidateVoteCaches(postId, chapterId, userId);
+
+    return {
+      success: true,
+      message: 'Vote changed successfully',
+      action: 'changed',
+      userPreviousVote: existingVote,
+    };
+  }
+
   /**
    * Resets voting for a chapter and creates a new voting session
    */
@@ -522,8 +1035,8 @@ export class VotingManager {
       // Clear all votes for this chapter
       await this.clearChapterVotes(postId, chapterId);
 
-      // Create a new voting session with the same choices (default 60 minutes)
-      await this.createVotingSession(postId, chapterId, session.choices, 60);
+      // Create a new voting session with the same choices and the post's voting duration
+      await this.createVotingSession(postId, chapterId, session.choices);
 
       ErrorLogger.logInfo('Voting reset for chapter', {
         postId,
@@ -538,19 +1051,20 @@ export class VotingManager {
   }
 
   /**
-   * Removes all voting data for a story
-   * Note: This is a simplified version since we can't use pattern matching
+   * Removes all voting data for a story, using the story's chapter index
    */
-  static async clearStoryVotes(_postId: string): Promise<void> {
+  static async clearStoryVotes(postId: string): Promise<void> {
     try {
-      // This method would need to be enhanced to track all chapters for a story
-      // For now, we'll provide a basic implementation
-      console.warn(
-        'clearStoryVotes: Limited implementation - cannot clear all data without chapter tracking'
-      );
+      const chapterIds = await this.getStoryChapterIds(postId);
+
+      for (const chapterId of chapterIds) {
+        await this.clearChapterVotes(postId, chapterId);
+      }
 
-      // We could implement this by maintaining a set of chapter IDs per story
-      // Similar to how we track chapters in the story state manager
+      await redis.del(`${this.STORY_CHAPTERS_PREFIX}:${postId}`);
+      await redis.del(`${this.PARTICIPATION_PREFIX}:${postId}`);
+
+      ErrorLogger.logInfo('Story votes cleared', { postId, chapterCount: chapterIds.length });
     } catch (error) {
       console.error('Error clearing story votes:', error);
     }
@@ -558,24 +1072,31 @@ export class VotingManager {
 
   /**
    * Gets voting statistics for the entire story
-   * Note: Limited implementation due to Redis pattern matching restrictions
    */
-  static async getStoryVotingStats(_postId: string): Promise<{
+  static async getStoryVotingStats(postId: string): Promise<{
     totalVotes: number;
     totalChapters: number;
     uniqueParticipants: number;
     averageVotesPerChapter: number;
   }> {
     try {
-      // This would need to be enhanced with proper chapter tracking
-      // For now, return basic stats
-      console.warn('getStoryVotingStats: Limited implementation - requires chapter tracking');
+      const [chapterData, participationData] = await Promise.all([
+        redis.hGetAll(`${this.STORY_CHAPTERS_PREFIX}:${postId}`),
+        redis.hGetAll(`${this.PARTICIPATION_PREFIX}:${postId}`),
+      ]);
+
+      const chapterVotes = Object.values(chapterData).map((count) => parseInt(count || '0'));
+      const totalVotes = chapterVotes.reduce((sum, count) => sum + count, 0);
+      const totalChapters = chapterVotes.length;
+      const uniqueParticipants = Object.values(participationData).filter(
+        (count) => parseInt(count || '0') > 0
+      ).length;
 
       return {
-        totalVotes: 0,
-        totalChapters: 0,
-        uniqueParticipants: 0,
-        averageVotesPerChapter: 0,
+        totalVotes,
+        totalChapters,
+        uniqueParticipants,
+        averageVotesPerChapter: totalChapters > 0 ? Math.round(totalVotes / totalChapters) : 0,
       };
     } catch (error) {
       console.error('Error getting story voting stats:', error);
@@ -588,6 +1109,14 @@ export class VotingManager {
     }
   }
 
+  /**
+   * Chapters of the story that have had a voting session
+   */
+  static async getStoryChapterIds(postId: string): Promise<string[]> {
+    const chapterData = await redis.hGetAll(`${this.STORY_CHAPTERS_PREFIX}:${postId}`);
+    return Object.keys(chapterData);
+  }
+
   /**
    * Validates voting data integrity
    */
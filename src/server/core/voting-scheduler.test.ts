@@ -0,0 +1,135 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { MemoryPlatform } from '../test/memory-platform';
+import { installMemoryPost, resetMemoryPlatform, startRound } from '../test/story-fixtures';
+import {
+  DevvitRoundJobRunner,
+  InProcessRoundJobRunner,
+  VotingScheduler,
+} from './voting-scheduler.js';
+import { StoryProgressionEngine } from './story-progression-engine.js';
+import { StoryStateManager } from './story-state-manager.js';
+import { VotingManager } from './voting-manager.js';
+
+let platform: MemoryPlatform;
+let postId: string;
+
+const afterDeadline = (endTime?: Date) => new Date((endTime?.getTime() ?? Date.now()) + 1000);
+
+describe('VotingScheduler', () => {
+  beforeEach(async () => {
+    ({ platform, postId } = await installMemoryPost());
+  });
+
+  afterEach(() => {
+    VotingScheduler.setRunner(new DevvitRoundJobRunner());
+    resetMemoryPlatform();
+  });
+
+  it('schedules a closure job for the end of each round', async () => {
+    const { chapter, session } = await startRound(postId);
+
+    const jobs = platform.scheduler.jobsNamed(VotingScheduler.JOB_NAME);
+    expect(jobs).toHaveLength(1);
+    expect(jobs[0]).toMatchObject({
+      data: { postId, chapterId: chapter.id },
+      runAt: session.endTime,
+    });
+  });
+
+  it('leaves a round open until its deadline, then advances the story', async () => {
+    const { chapter, session } = await startRound(postId);
+    await VotingManager.castVote(postId, 'user_a', chapter.id, 'investigate_thread');
+
+    const early = await VotingScheduler.closeRound(postId, chapter.id, new Date());
+    expect(early).toMatchObject({ closed: false, reason: 'Voting session has not expired yet' });
+
+    const result = await VotingScheduler.closeRound(
+      postId,
+      chapter.id,
+      afterDeadline(session.endTime)
+    );
+
+    expect(result).toMatchObject({ closed: true, winningChoice: 'investigate_thread' });
+    expect(result.newChapterId).toBeDefined();
+    const context = await StoryStateManager.getStoryContext(postId);
+    expect(context?.currentChapter).toBe(result.newChapterId);
+    expect((await VotingManager.getVotingSession(postId, chapter.id))?.status).toBe('completed');
+  });
+
+  it('closes a round only once when two closes race', async () => {
+    const { chapter, session } = await startRound(postId);
+    await VotingManager.castVote(postId, 'user_a', chapter.id, 'close_browser');
+    const now = afterDeadline(session.endTime);
+
+    const results = await Promise.all([
+      VotingScheduler.closeRound(postId, chapter.id, now),
+      VotingScheduler.closeRound(postId, chapter.id, now),
+    ]);
+
+    expect(results.filter((result) => result.closed)).toHaveLength(1);
+    const again = await VotingScheduler.closeRound(postId, chapter.id, now);
+    expect(again.closed).toBe(false);
+  });
+
+  it('reopens the round and retries when the story fails to advance', async () => {
+    const { chapter, session } = await startRound(postId);
+    await VotingManager.castVote(postId, 'user_a', chapter.id, 'investigate_thread');
+    const now = afterDeadline(session.endTime);
+    const advance = vi
+      .spyOn(StoryProgressionEngine.prototype, 'advanceStory')
+      .mockResolvedValueOnce({ success: false, error: 'Chapter generation failed' });
+
+    const failed = await VotingScheduler.closeRound(postId, chapter.id, now);
+
+    expect(failed).toMatchObject({ closed: false, reason: 'Chapter generation failed' });
+    const reopened = await VotingManager.getVotingSession(postId, chapter.id);
+    expect(reopened?.status).toBe('active');
+    const { winningChoice } = await new StoryProgressionEngine().determineWinningChoice(
+      postId,
+      chapter.id
+    );
+    expect(winningChoice).toBe('investigate_thread');
+    // A retry is scheduled alongside the job that just ran
+    const retry = platform.scheduler
+      .jobsNamed(VotingScheduler.JOB_NAME)
+      .filter((job) => job.runAt.getTime() !== session.endTime?.getTime());
+    expect(retry).toHaveLength(1);
+
+    // The close lock was released, so the retry goes through
+    const result = await VotingScheduler.closeRound(postId, chapter.id, now);
+    expect(result).toMatchObject({ closed: true, winningChoice: 'investigate_thread' });
+    expect(advance).toHaveBeenCalledTimes(2);
+  });
+
+  it('reopens the round when advancing throws', async () => {
+    const { chapter, session } = await startRound(postId);
+    await VotingManager.castVote(postId, 'user_a', chapter.id, 'investigate_thread');
+    const now = afterDeadline(session.endTime);
+    vi.spyOn(StoryProgressionEngine.prototype, 'advanceStory').mockRejectedValueOnce(
+      new Error('Redis went away')
+    );
+
+    await expect(VotingScheduler.closeRound(postId, chapter.id, now)).rejects.toThrow(
+      'Redis went away'
+    );
+
+    expect((await VotingManager.getVotingSession(postId, chapter.id))?.status).toBe('active');
+    const result = await VotingScheduler.closeRound(postId, chapter.id, now);
+    expect(result.closed).toBe(true);
+  });
+
+  it('runs due rounds through the in-process runner', async () => {
+    const runner = new InProcessRoundJobRunner(false);
+    VotingScheduler.setRunner(runner);
+    const { chapter, session } = await startRound(postId);
+    await VotingManager.castVote(postId, 'user_a', chapter.id, 'close_browser');
+
+    expect(await runner.runDueJobs(new Date())).toEqual([]);
+    const results = await runner.runDueJobs(afterDeadline(session.endTime));
+
+    expect(results).toHaveLength(1);
+    expect(results[0]).toMatchObject({ closed: true, winningChoice: 'close_browser' });
+    // The next chapter's round is now pending
+    expect(runner.getPendingJobs()).toHaveLength(results[0]?.hasEnded ? 0 : 1);
+  });
+});
@@ -0,0 +1,375 @@
+/**
+ * Voting round scheduler for The Haunted Thread
+ * Closes expired voting sessions and advances the story without manual intervention
+ */
+
+import { redis, scheduler } from '../platform';
+import { VotingManager } from './voting-manager.js';
+import { StoryStateManager } from './story-state-manager.js';
+import { StoryProgressionEngine } from './story-progression-engine.js';
+import { RealtimeManager } from './realtime-manager.js';
+import { ErrorLogger } from '../utils/error-handler';
+import { StoryEnding } from '../../shared/types/story.js';
+import { VotingSession } from '../../shared/types/voting.js';
+
+export interface RoundClosureJob {
+  postId: string;
+  chapterId: string;
+  runAt: Date;
+}
+
+export interface RoundClosureResult {
+  closed: boolean;
+  reason: string;
+  winningChoice?: string;
+  newChapterId?: string;
+  hasEnded?: boolean;
+  ending?: StoryEnding;
+}
+
+/**
+ * Backend that runs round closure jobs at their scheduled time
+ */
+export interface RoundJobRunner {
+  schedule(job: RoundClosureJob): Promise<string>;
+  cancel(jobId: string): Promise<void>;
+}
+
+/**
+ * Runs round closures through Devvit scheduled jobs
+ */
+export class DevvitRoundJobRunner implements RoundJobRunner {
+  async schedule(job: RoundClosureJob): Promise<string> {
+    return scheduler.runJob({
+      name: VotingScheduler.JOB_NAME,
+      data: { postId: job.postId, chapterId: job.chapterId },
+      runAt: job.runAt,
+    });
+  }
+
+  async cancel(jobId: string): Promise<void> {
+    await scheduler.cancelJob(jobId);
+  }
+}
+
+/**
+ * In-process stand-in for the Devvit scheduler, used in tests and local playtests.
+ * Jobs fire on a timer unless `autoRun` is disabled, in which case `runDueJobs` drives them.
+ */
+export class InProcessRoundJobRunner implements RoundJobRunner {
+  private readonly jobs = new Map<string, RoundClosureJob>();
+  private readonly timers = new Map<string, ReturnType<typeof setTimeout>>();
+  private nextId = 1;
+
+  constructor(private readonly autoRun: boolean = true) {}
+
+  async schedule(job: RoundClosureJob): Promise<string> {
+    const jobId = `local_${this.nextId++}`;
+    this.jobs.set(jobId, job);
+
+    if (this.autoRun) {
+      const delay = Math.max(0, job.runAt.getTime() - Date.now());
+      this.timers.set(
+        jobId,
+        setTimeout(() => {
+          void this.runJob(jobId);
+        }, delay)
+      );
+    }
+
+    return jobId;
+  }
+
+  async cancel(jobId: string): Promise<void> {
+    const timer = this.timers.get(jobId);
+    if (timer) clearTimeout(timer);
+    this.timers.delete(jobId);
+    this.jobs.delete(jobId);
+  }
+
+  /**
+   * Runs every job whose time has come and returns their results
+   */
+  async runDueJobs(now: Date = new Date()): Promise<RoundClosureResult[]> {
+    const due = Array.from(this.jobs.entries()).filter(
+      ([, job]) => job.runAt.getTime() <= now.getTime()
+    );
+
+    const results: RoundClosureResult[] = [];
+    for (const [jobId] of due) {
+      const result = await this.runJob(jobId, now);
+      if (result) results.push(result);
+    }
+    return results;
+  }
+
+  getPendingJobs(): RoundClosureJob[] {
+    return Array.from(this.jobs.values());
+  }
+
+  private async runJob(jobId: string, now?: Date): Promise<RoundClosureResult | null> {
+    const job = this.jobs.get(jobId);
+    if (!job) return null;
+
+    await this.cancel(jobId);
+    return VotingScheduler.closeRound(job.postId, job.chapterId, now);
+  }
+}
+
+export class VotingScheduler {
+  static readonly JOB_NAME = 'close-voting-round';
+  private static readonly JOB_PREFIX = 'haunted_thread:scheduler:round_job';
+  private static readonly CLOSE_PREFIX = 'haunted_thread:scheduler:round_close';
+  /** How long after a failed close the round is tried again */
+  static readonly RETRY_DELAY_MS = 60 * 1000;
+
+  private static runner: RoundJobRunner = new DevvitRoundJobRunner();
+  private static fallbackRunner: InProcessRoundJobRunner | null = null;
+
+  /**
+   * Replaces the job runner (e.g. with an InProcessRoundJobRunner in tests)
+   */
+  static setRunner(runner: RoundJobRunner): void {
+    this.runner = runner;
+  }
+
+  /**
+   * Schedules the closure of a voting round at its end time, replacing any earlier job
+   */
+  static async scheduleRoundClosure(postId: string, chapterId: string, runAt: Date): Promise<void> {
+    const jobKey = `${this.JOB_PREFIX}:${postId}:${chapterId}`;
+    const job: RoundClosureJob = { postId, chapterId, runAt };
+
+    try {
+      await this.cancelRoundClosure(postId, chapterId);
+      await redis.del(`${this.CLOSE_PREFIX}:${postId}:${chapterId}`);
+
+      let jobId: string;
+      try {
+        jobId = await this.runner.schedule(job);
+      } catch (error) {
+        // The Devvit scheduler is unavailable outside an installed app; keep rounds moving locally
+        ErrorLogger.logWarning('Scheduler unavailable, using in-process round timer', {
+          postId,
+          chapterId,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+        this.fallbackRunner ??= new InProcessRoundJobRunner();
+        jobId = await this.fallbackRunner.schedule(job);
+      }
+
+      await redis.set(jobKey, jobId);
+      await redis.expire(jobKey, 86400);
+
+      ErrorLogger.logInfo('Voting round closure scheduled', {
+        postId,
+        chapterId,
+        jobId,
+        runAt: runAt.toISOString(),
+      });
+    } catch (error) {
+      ErrorLogger.logWarning('Failed to schedule voting round closure', {
+        postId,
+        chapterId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+
+  /**
+   * Cancels a pending round closure job, if one exists
+   */
+  static async cancelRoundClosure(postId: string, chapterId: string): Promise<void> {
+    const jobKey = `${this.JOB_PREFIX}:${postId}:${chapterId}`;
+    const jobId = await redis.get(jobKey);
+    if (!jobId) return;
+
+    try {
+      if (jobId.startsWith('local_') && this.fallbackRunner) {
+        await this.fallbackRunner.cancel(jobId);
+      } else {
+        await this.runner.cancel(jobId);
+      }
+    } catch (error) {
+      ErrorLogger.logWarning('Failed to cancel voting round closure', {
+        postId,
+        chapterId,
+        jobId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+
+    await redis.del(jobKey);
+  }
+
+  /**
+   * Closes an expired voting round: ends the session, picks the winner, advances the story
+   * and broadcasts the results. Safe to call more than once for the same round. If the story
+   * can't be advanced, the round is reopened and another close is scheduled.
+   */
+  static async closeRound(
+    postId: string,
+    chapterId: string,
+    now: Date = new Date()
+  ): Promise<RoundClosureResult> {
+    const session = await VotingManager.getVotingSession(postId, chapterId);
+    if (!session) {
+      return { closed: false, reason: 'Voting session not found' };
+    }
+
+    if (session.status !== 'active') {
+      return { closed: false, reason: `Voting session is already ${session.status}` };
+    }
+
+    if (session.endTime && session.endTime.getTime() > now.getTime()) {
+      return { closed: false, reason: 'Voting session has not expired yet' };
+    }
+
+    // Only the first closer of a round proceeds
+    if (!(await this.claimRoundClose(postId, chapterId))) {
+      return { closed: false, reason: 'Voting round is already being closed' };
+    }
+
+    // Until the round is settled, any early return or error puts it back for another try
+    let settled = false;
+    try {
+      await redis.del(`${this.JOB_PREFIX}:${postId}:${chapterId}`);
+
+      const storyContext = await StoryStateManager.getStoryContext(postId);
+      if (!storyContext || storyContext.currentChapter !== chapterId) {
+        // The story moved on without this round (e.g. a manual advance); just retire it
+        await VotingManager.endVotingSession(postId, chapterId);
+        settled = true;
+        return { closed: true, reason: 'Chapter is no longer current' };
+      }
+
+      const progressionEngine = new StoryProgressionEngine();
+      const { winningChoice } = await progressionEngine.determineWinningChoice(postId, chapterId);
+
+      if (!winningChoice) {
+        // Nobody voted: reopen the round for another full duration
+        const durationMinutes = session.endTime
+          ? Math.max(
+              1,
+              Math.round((session.endTime.getTime() - session.startTime.getTime()) / 60000)
+            )
+          : 60;
+        await VotingManager.createVotingSession(
+          postId,
+          chapterId,
+          session.choices.map((choice) => ({ choiceId: choice.choiceId, text: choice.text })),
+          durationMinutes
+        );
+
+        ErrorLogger.logInfo('Voting round extended with no votes', {
+          postId,
+          chapterId,
+          durationMinutes,
+        });
+        settled = true;
+        return { closed: false, reason: 'No votes were cast; round extended' };
+      }
+
+      const ended = await VotingManager.endVotingSession(postId, chapterId);
+      if (ended) {
+        await RealtimeManager.broadcastVotingEnded(postId, chapterId, winningChoice, ended.stats);
+      }
+
+      const result = await progressionEngine.advanceStory(postId, chapterId, winningChoice);
+      if (!result.success) {
+        ErrorLogger.logWarning('Scheduled story advancement failed', {
+          postId,
+          chapterId,
+          winningChoice,
+          error: result.error,
+        });
+        return { closed: false, reason: result.error || 'Failed to advance story', winningChoice };
+      }
+      settled = true;
+
+      if (result.newChapter && !result.hasEnded && ended) {
+        await RealtimeManager.broadcastChapterTransition(
+          postId,
+          result.newChapter,
+          winningChoice,
+          ended.stats
+        );
+      }
+
+      if (result.hasEnded && result.ending) {
+        await RealtimeManager.broadcastMessage(postId, {
+          type: 'story_ended',
+          timestamp: new Date(),
+          data: {
+            ending: result.ending,
+            chapterId,
+          },
+        });
+      }
+
+      ErrorLogger.logInfo('Voting round closed by scheduler', {
+        postId,
+        chapterId,
+        winningChoice,
+        newChapter: result.newChapter?.id,
+        hasEnded: result.hasEnded,
+      });
+
+      const closure: RoundClosureResult = {
+        closed: true,
+        reason: result.hasEnded ? 'Story ended' : 'Story advanced',
+        winningChoice,
+      };
+      if (result.newChapter) closure.newChapterId = result.newChapter.id;
+      if (result.hasEnded !== undefined) closure.hasEnded = result.hasEnded;
+      if (result.ending) closure.ending = result.ending;
+      return closure;
+    } finally {
+      if (!settled) {
+        await this.reopenFailedRound(postId, chapterId, session);
+      }
+    }
+  }
+
+  /**
+   * Claims the right to move a story on from a round; false when a scheduled close or a forced
+   * advance already holds it. The claim is kept once the round is settled.
+   */
+  static async claimRoundClose(postId: string, chapterId: string): Promise<boolean> {
+    const closeKey = `${this.CLOSE_PREFIX}:${postId}:${chapterId}`;
+    const attempt = await redis.incrBy(closeKey, 1);
+    await redis.expire(closeKey, 3600);
+    return attempt === 1;
+  }
+
+  /**
+   * Releases a claim taken by claimRoundClose when the round could not be settled
+   */
+  static async releaseRoundClose(postId: string, chapterId: string): Promise<void> {
+    await redis.del(`${this.CLOSE_PREFIX}:${postId}:${chapterId}`);
+  }
+
+  // Restores the round and releases the close lock, then schedules another close so the story
+  // doesn't stay stuck on a completed round nobody can close
+  private static async reopenFailedRound(
+    postId: string,
+    chapterId: string,
+    session: VotingSession
+  ): Promise<void> {
+    try {
+      await VotingManager.reopenVotingSession(postId, session);
+      await this.releaseRoundClose(postId, chapterId);
+      await this.scheduleRoundClosure(
+        postId,
+        chapterId,
+        new Date(Date.now() + this.RETRY_DELAY_MS)
+      );
+    } catch (error) {
+      ErrorLogger.logWarning('Failed to reopen voting round after a failed close', {
+        postId,
+        chapterId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+}
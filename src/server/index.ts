@@ -1,12 +1,52 @@
 import express from 'express';
 import {
+  AddContentFilterRequest,
+  AssignReportRequest,
+  BootstrapData,
+  BulkUpdateReportsRequest,
   CastVoteRequest,
   CastVoteResponse,
   GetVoteCountsResponse,
   GetVoteStatusResponse,
+  GetHallOfFameResponse,
+  GetPostConfigResponse,
+  PreviewContentFilterRequest,
+  QueueActionRequest,
+  RetractVoteRequest,
+  SetAdminRoleRequest,
+  SetRecapCommentsRequest,
+  SubmitSentenceRequest,
+  SubmitSentenceResponse,
 } from '../shared/types/api';
-import { reddit, createServer, context, getServerPort } from '@devvit/web/server';
-import { createPost } from './core/post';
+import { createServer, getServerPort } from '@devvit/web/server';
+import { reddit, context } from './platform';
+import type { UiResponse } from '@devvit/web/shared';
+import { createPost, buildCreatePostForm, CREATE_POST_FORM_NAME } from './core/post';
+import {
+  PostConfig,
+  PostConfigValidator,
+  ModerationStrictness,
+  StoryMode,
+} from '../shared/types/post-config.js';
+import { StoryPackValidator } from '../shared/types/story-pack.js';
+import { StoryGraphLinter } from '../shared/types/story-graph.js';
+import { ADMIN_PERMISSIONS } from '../shared/types/admin.js';
+import {
+  FILTER_MATCHER_LABELS,
+  FILTER_SCOPE_LABELS,
+  FilterMatcher,
+  FilterScope,
+} from '../shared/types/content-filter.js';
+import { QUEUE_ACTIONS, QueueAction } from '../shared/types/moderation-queue.js';
+import { VotingMethod } from '../shared/types/voting.js';
+import { VoteTally } from '../shared/types/vote-tally.js';
+import { HALL_OF_FAME_SORTS, HallOfFameSort } from '../shared/types/hall-of-fame.js';
+import { StoryEnding, StoryUtils } from '../shared/types/story.js';
+import {
+  STORY_EXPORT_FORMATS,
+  StoryExportFormat,
+  StoryExporter,
+} from '../shared/types/story-export.js';
 import { VotingManager } from './core/voting-manager.js';
 import { RealtimeManager } from './core/realtime-manager.js';
 import {
@@ -88,7 +128,7 @@ router.post<{}, CastVoteResponse, CastVoteRequest>(
   '/api/vote',
   RateLimiter.middleware(20, 60000), // 20 votes per minute
   validateRequest((req) => {
-    const { chapterId, choiceId } = req.body;
+    const { chapterId, choiceId, choiceIds } = req.body;
 
     if (!chapterId || typeof chapterId !== 'string') {
       throw new Error('chapterId is required and must be a string');
@@ -97,9 +137,16 @@ router.post<{}, CastVoteResponse, CastVoteRequest>(
     if (!choiceId || typeof choiceId !== 'string') {
       throw new Error('choiceId is required and must be a string');
     }
+
+    if (
+      choiceIds !== undefined &&
+      (!Array.isArray(choiceIds) || choiceIds.some((id) => typeof id !== 'string'))
+    ) {
+      throw new Error('choiceIds must be an array of strings');
+    }
   }),
   asyncHandler(async (req, res): Promise<void> => {
-    const { chapterId, choiceId } = req.body;
+    const { chapterId, choiceId, choiceIds } = req.body;
     const { postId } = context;
 
     if (!postId) {
@@ -130,24 +177,49 @@ router.post<{}, CastVoteResponse, CastVoteRequest>(
       chapterId,
     });
 
+    // Weighted methods scale the ballot by the voter's karma or story participation.
+    // VotingManager only uses it for a first vote; a changed vote keeps its original weight.
+    let weight = 1;
+    if (votingSession?.method === 'karma_weighted') {
+      const user = await reddit.getCurrentUser();
+      weight = VoteTally.karmaWeight((user?.linkKarma ?? 0) + (user?.commentKarma ?? 0));
+    } else if (votingSession?.method === 'participation_weighted') {
+      weight = VoteTally.participationWeight(await VotingManager.getParticipation(postId, userId));
+    }
+
     // Cast vote using VotingManager
-    const result = await VotingManager.castVote(postId!, userId, chapterId, choiceId);
+    const result = await VotingManager.castVote(postId!, userId, chapterId, choiceId, {
+      ...(choiceIds && { choiceIds }),
+      weight,
+    });
 
     if (result.success) {
-      ErrorLogger.logInfo('Vote cast successfully', {
-        postId,
-        chapterId,
-        choiceId,
-        userId,
-        voteCount: result.voteCount,
-      });
+      ErrorLogger.logInfo(
+        result.action === 'changed' ? 'Vote changed successfully' : 'Vote cast successfully',
+        {
+          postId,
+          chapterId,
+          choiceId,
+          userId,
+          voteCount: result.voteCount,
+          ...(result.userPreviousVote && { previousChoiceId: result.userPreviousVote }),
+        }
+      );
 
       // Broadcast vote update to all connected clients
       try {
         const voteCounts = await VotingManager.getVoteCounts(postId!, chapterId);
-        const totalVotes = voteCounts.reduce((sum, count) => sum + count.count, 0);
+        const totalVotes = await VotingManager.getTotalVotes(postId!, chapterId);
 
-        await RealtimeManager.broadcastVoteUpdate(postId!, chapterId, voteCounts, totalVotes);
+        await RealtimeManager.broadcastVoteUpdate(
+          postId!,
+          chapterId,
+          voteCounts,
+          totalVotes,
+          result.action === 'changed' && result.userPreviousVote
+            ? { action: 'changed', previousChoiceId: result.userPreviousVote, choiceId }
+            : undefined
+        );
       } catch (broadcastError) {
         // Log but don't fail the vote - realtime is not critical
         ErrorLogger.logWarning('Failed to broadcast vote update', {
@@ -174,6 +246,66 @@ router.post<{}, CastVoteResponse, CastVoteRequest>(
   })
 );
 
+// Retract the current user's vote while the round is open
+router.post(
+  '/api/vote/retract',
+  RateLimiter.middleware(20, 60000), // 20 requests per minute
+  validateRequest((req) => {
+    const { chapterId } = req.body as RetractVoteRequest;
+
+    if (!chapterId || typeof chapterId !== 'string') {
+      throw new Error('chapterId is required and must be a string');
+    }
+  }),
+  asyncHandler(async (req, res): Promise<void> => {
+    const { chapterId } = req.body as RetractVoteRequest;
+    const { postId } = context;
+
+    if (!postId) {
+      throw new ValidationError('postId is required but missing from context');
+    }
+
+    const username = await reddit.getCurrentUsername();
+    if (!username) {
+      throw new ValidationError('User authentication required');
+    }
+
+    const result = await VotingManager.retractVote(postId, username, chapterId);
+
+    if (result.success && result.userPreviousVote) {
+      ErrorLogger.logInfo('Vote retracted', {
+        postId,
+        chapterId,
+        userId: username,
+        previousChoiceId: result.userPreviousVote,
+      });
+
+      try {
+        const voteCounts = await VotingManager.getVoteCounts(postId, chapterId);
+        const totalVotes = await VotingManager.getTotalVotes(postId, chapterId);
+
+        await RealtimeManager.broadcastVoteUpdate(postId, chapterId, voteCounts, totalVotes, {
+          action: 'retracted',
+          previousChoiceId: result.userPreviousVote,
+        });
+      } catch (broadcastError) {
+        ErrorLogger.logWarning('Failed to broadcast vote update', {
+          postId,
+          chapterId,
+          error: broadcastError instanceof Error ? broadcastError.message : 'Unknown error',
+        });
+      }
+    }
+
+    const response: CastVoteResponse = {
+      success: result.success,
+      data: result,
+      ...(!result.success && { error: result.message }),
+    };
+    res.json(response);
+  })
+);
+
 // Get vote counts for a chapter
 router.get<{ chapterId: string }, GetVoteCountsResponse>(
   '/api/vote/counts/:chapterId',
@@ -336,14 +468,7 @@ router.post(
 router.get(
   '/api/admin/performance',
   RateLimiter.middleware(10, 60000), // 10 requests per minute
-  validateRequest((req) => {
-    const adminKey = req.query.adminKey as string;
-    if (!adminKey || typeof adminKey !== 'string') {
-      throw new Error('adminKey query parameter is required and must be a string');
-    }
-  }),
-  asyncHandler(async (req, res): Promise<void> => {
-    const adminKey = req.query.adminKey as string;
+  asyncHandler(async (_req, res): Promise<void> => {
     const { postId } = context;
 
     if (!postId) {
@@ -353,9 +478,7 @@ router.get(
     console.log(`Admin performance metrics request: postId=${postId}`);
 
     const { AdminManager } = await import('./core/admin-manager.js');
-    if (!AdminManager.validateAdminKey(adminKey)) {
-      throw new ValidationError('Invalid admin credentials');
-    }
+    await AdminManager.authorize('view');
 
     // Get performance metrics
     const { PerformanceMonitor } = await import('./utils/error-handler');
@@ -385,14 +508,7 @@ router.get(
 router.post(
   '/api/admin/performance/clear',
   RateLimiter.middleware(5, 300000), // 5 requests per 5 minutes
-  validateRequest((req) => {
-    const { adminKey } = req.body;
-    if (!adminKey || typeof adminKey !== 'string') {
-      throw new Error('adminKey is required and must be a string');
-    }
-  }),
-  asyncHandler(async (req, res): Promise<void> => {
-    const { adminKey } = req.body;
+  asyncHandler(async (_req, res): Promise<void> => {
     const { postId } = context;
 
     if (!postId) {
@@ -402,9 +518,7 @@ router.post(
     console.log(`Admin clear performance metrics request: postId=${postId}`);
 
     const { AdminManager } = await import('./core/admin-manager.js');
-    if (!AdminManager.validateAdminKey(adminKey)) {
-      throw new ValidationError('Invalid admin credentials');
-    }
+    await AdminManager.authorize('view');
 
     // Clear performance metrics
     const { PerformanceMonitor } = await import('./utils/error-handler');
@@ -477,18 +591,93 @@ router.get(
 
 // ===== ADMINISTRATIVE ENDPOINTS =====
 
-// Manual story advancement (admin only)
+// Get the current user's moderator status and admin permissions
+router.get(
+  '/api/admin/me',
+  RateLimiter.middleware(30, 60000), // 30 requests per minute
+  asyncHandler(async (_req, res): Promise<void> => {
+    const { AdminManager } = await import('./core/admin-manager.js');
+    const identity = await AdminManager.getAdminIdentity();
+
+    res.set({
+      'Cache-Control': 'private, no-cache',
+    });
+
+    res.json({
+      success: true,
+      data: identity ? { isModerator: true, identity } : { isModerator: false },
+    });
+  })
+);
+
+// List custom moderator roles for this subreddit (admin only)
+router.get(
+  '/api/admin/roles',
+  RateLimiter.middleware(10, 60000), // 10 requests per minute
+  asyncHandler(async (_req, res): Promise<void> => {
+    const { AdminManager } = await import('./core/admin-manager.js');
+    const admin = await AdminManager.authorize('manage_roles');
+    const roles = await AdminManager.getCustomRoles(admin.subredditName);
+
+    res.json({
+      success: true,
+      data: { roles },
+    });
+  })
+);
+
+// Assign or clear a moderator's custom role (admin only)
 router.post(
-  '/api/admin/advance',
-  RateLimiter.middleware(5, 300000), // 5 requests per 5 minutes
+  '/api/admin/roles',
+  RateLimiter.middleware(10, 300000), // 10 requests per 5 minutes
   validateRequest((req) => {
-    const { adminKey } = req.body;
-    if (!adminKey || typeof adminKey !== 'string') {
-      throw new Error('adminKey is required and must be a string');
+    const { username, permissions } = req.body as SetAdminRoleRequest;
+
+    if (!username || typeof username !== 'string') {
+      throw new Error('username is required and must be a string');
+    }
+
+    if (
+      permissions !== undefined &&
+      (!Array.isArray(permissions) ||
+        permissions.some((permission) => !ADMIN_PERMISSIONS.includes(permission)))
+    ) {
+      throw new Error(`permissions must be an array of: ${ADMIN_PERMISSIONS.join(', ')}`);
     }
   }),
   asyncHandler(async (req, res): Promise<void> => {
-    const { adminKey, forceChoice, reason } = req.body;
+    const { username, permissions } = req.body as SetAdminRoleRequest;
+    const { postId } = context;
+
+    if (!postId) {
+      throw new ValidationError('postId is required but missing from context');
+    }
+
+    const { AdminManager } = await import('./core/admin-manager.js');
+    const admin = await AdminManager.authorize('manage_roles');
+    const normalizedUsername = username.replace(/^u\//, '');
+
+    await AdminManager.setCustomRole(postId, admin, normalizedUsername, permissions);
+
+    ErrorLogger.logInfo('Moderator role updated', {
+      username: normalizedUsername,
+      permissions: permissions || 'reddit_default',
+      updatedBy: admin.username,
+    });
+
+    res.json({
+      success: true,
+      data: { roles: await AdminManager.getCustomRoles(admin.subredditName) },
+    });
+  })
+);
+
+// Manual story advancement (admin only)
+router.post(
+  '/api/admin/advance',
+  RateLimiter.middleware(5, 300000), // 5 requests per 5 minutes
+  asyncHandler(async (req, res): Promise<void> => {
+    const { forceChoice, reason } = req.body;
     const { postId } = context;
 
     if (!postId) {
@@ -498,12 +687,15 @@ router.post(
     console.log(`Admin advance story request: postId=${postId}, forceChoice=${forceChoice}`);
 
     const { AdminManager } = await import('./core/admin-manager.js');
-    const result = await AdminManager.advanceStory(postId, adminKey, forceChoice, reason);
+    const admin = await AdminManager.authorize('advance');
+    const result = await AdminManager.advanceStory(postId, admin.username, forceChoice, reason);
 
     if (result.success) {
       ErrorLogger.logInfo('Story advanced by admin', {
         postId,
+        username: admin.username,
         newChapter: result.newChapter?.id,
+        ending: result.ending?.id,
         forceChoice: !!forceChoice,
       });
     } else {
@@ -518,6 +710,8 @@ router.post(
       data: result.success
         ? {
             newChapter: result.newChapter,
+            hasEnded: result.hasEnded,
+            ending: result.ending,
             previousStats: result.previousStats,
           }
         : undefined,
@@ -530,14 +724,8 @@ router.post(
 router.post(
   '/api/admin/reset',
   RateLimiter.middleware(2, 300000), // 2 requests per 5 minutes
-  validateRequest((req) => {
-    const { adminKey } = req.body;
-    if (!adminKey || typeof adminKey !== 'string') {
-      throw new Error('adminKey is required and must be a string');
-    }
-  }),
   asyncHandler(async (req, res): Promise<void> => {
-    const { adminKey, reason } = req.body;
+    const { reason } = req.body;
     const { postId } = context;
 
     if (!postId) {
@@ -547,11 +735,13 @@ router.post(
     console.log(`Admin reset story request: postId=${postId}, reason=${reason}`);
 
     const { AdminManager } = await import('./core/admin-manager.js');
-    const result = await AdminManager.resetStory(postId, adminKey, reason);
+    const admin = await AdminManager.authorize('reset');
+    const result = await AdminManager.resetStory(postId, admin.username, reason);
 
     if (result.success) {
       ErrorLogger.logInfo('Story reset by admin', {
         postId,
+        username: admin.username,
         reason: reason || 'No reason provided',
       });
     } else {
@@ -568,21 +758,54 @@ router.post(
   })
 );
 
+// Turn this post's chapter recap comments on or off (admin only)
+router.post(
+  '/api/admin/recap-comments',
+  RateLimiter.middleware(10, 300000), // 10 requests per 5 minutes
+  validateRequest((req) => {
+    const { enabled } = req.body as SetRecapCommentsRequest;
+    if (typeof enabled !== 'boolean') {
+      throw new Error('enabled is required and must be a boolean');
+    }
+  }),
+  asyncHandler(async (req, res): Promise<void> => {
+    const { enabled } = req.body as SetRecapCommentsRequest;
+    const { postId } = context;
+
+    if (!postId) {
+      throw new ValidationError('postId is required but missing from context');
+    }
+
+    const { AdminManager } = await import('./core/admin-manager.js');
+    const { PostConfigManager } = await import('./core/post-config-manager.js');
+    const admin = await AdminManager.authorize('advance');
+    const result = await PostConfigManager.setConfig(postId, { recapComments: enabled });
+
+    if (result.success) {
+      await AdminManager.logAdminAction(postId, admin.username, 'set_recap_comments', { enabled });
+    }
+
+    const response: GetPostConfigResponse = {
+      success: result.success,
+      ...(result.config && { data: { postId, config: result.config } }),
+      ...(result.errors && { error: result.errors.join('; ') }),
+    };
+    res.json(response);
+  })
+);
+
 // Reset voting for current chapter (admin only)
 router.post(
   '/api/admin/reset-voting',
   RateLimiter.middleware(5, 300000), // 5 requests per 5 minutes
   validateRequest((req) => {
-    const { adminKey, chapterId } = req.body;
-    if (!adminKey || typeof adminKey !== 'string') {
-      throw new Error('adminKey is required and must be a string');
-    }
+    const { chapterId } = req.body;
     if (!chapterId || typeof chapterId !== 'string') {
       throw new Error('chapterId is required and must be a string');
     }
   }),
   asyncHandler(async (req, res): Promise<void> => {
-    const { adminKey, chapterId } = req.body;
+    const { chapterId } = req.body;
     const { postId } = context;
 
     if (!postId) {
@@ -592,24 +815,17 @@ router.post(
     console.log(`Admin reset voting request: postId=${postId}, chapterId=${chapterId}`);
 
     const { AdminManager } = await import('./core/admin-manager.js');
-
-    // Verify admin key
-    const isValid = await AdminManager.verifyAdminKey(adminKey);
-    if (!isValid) {
-      res.json({
-        success: false,
-        message: 'Invalid admin key',
-      });
-      return;
-    }
+    const admin = await AdminManager.authorize('reset');
 
     try {
       // Reset voting for the chapter
       await VotingManager.resetVotingForChapter(postId, chapterId);
+      await AdminManager.logAdminAction(postId, admin.username, 'reset_voting', { chapterId });
 
       ErrorLogger.logInfo('Voting reset by admin', {
         postId,
         chapterId,
+        username: admin.username,
       });
 
       res.json({
@@ -632,14 +848,7 @@ router.post(
 router.get(
   '/api/admin/stats',
   RateLimiter.middleware(10, 60000), // 10 requests per minute
-  validateRequest((req) => {
-    const adminKey = req.query.adminKey as string;
-    if (!adminKey || typeof adminKey !== 'string') {
-      throw new Error('adminKey query parameter is required and must be a string');
-    }
-  }),
-  asyncHandler(async (req, res): Promise<void> => {
-    const adminKey = req.query.adminKey as string;
+  asyncHandler(async (_req, res): Promise<void> => {
     const { postId } = context;
 
     if (!postId) {
@@ -649,7 +858,8 @@ router.get(
     console.log(`Admin stats request: postId=${postId}`);
 
     const { AdminManager } = await import('./core/admin-manager.js');
-    const result = await AdminManager.getStoryStats(postId, adminKey);
+    await AdminManager.authorize('view');
+    const result = await AdminManager.getStoryStats(postId);
 
     if (result.success) {
       // Set cache headers for admin data
@@ -666,16 +876,40 @@ router.get(
   })
 );
 
+// Get the story pack graph with this post's progress overlaid (admin only)
+router.get(
+  '/api/admin/story-map',
+  RateLimiter.middleware(20, 60000), // 20 requests per minute
+  asyncHandler(async (_req, res): Promise<void> => {
+    const { postId } = context;
+
+    if (!postId) {
+      throw new ValidationError('postId is required but missing from context');
+    }
+
+    const { AdminManager } = await import('./core/admin-manager.js');
+    await AdminManager.authorize('view');
+
+    const { StoryHistoryTracker } = await import('./core/story-history-tracker.js');
+    const storyMap = await StoryHistoryTracker.getStoryMap(postId);
+
+    res.set({
+      'Cache-Control': 'private, max-age=30, stale-while-revalidate=60',
+    });
+
+    res.json({
+      success: true,
+      data: storyMap,
+    });
+  })
+);
+
 // Flag content for moderation (admin only)
 router.post(
   '/api/admin/moderate',
   RateLimiter.middleware(10, 60000), // 10 requests per minute
   validateRequest((req) => {
-    const { adminKey, action, targetType, targetId } = req.body;
-
-    if (!adminKey || typeof adminKey !== 'string') {
-      throw new Error('adminKey is required and must be a string');
-    }
+    const { action, targetType, targetId } = req.body;
 
     if (!action || !['flag', 'remove', 'approve'].includes(action)) {
       throw new Error('action must be one of: flag, remove, approve');
@@ -690,7 +924,7 @@ router.post(
     }
   }),
   asyncHandler(async (req, res): Promise<void> => {
-    const { adminKey, action, targetType, targetId, reason } = req.body;
+    const { action, targetType, targetId, reason } = req.body;
     const { postId } = context;
 
     if (!postId) {
@@ -702,11 +936,12 @@ router.post(
     );
 
     const { AdminManager } = await import('./core/admin-manager.js');
+    const admin = await AdminManager.authorize('moderate');
 
     if (action === 'flag') {
       const result = await AdminManager.flagContent(
         postId,
-        adminKey,
+        admin.username,
         targetType,
         targetId,
         reason || 'No reason provided'
@@ -754,14 +989,7 @@ router.post(
 router.get(
   '/api/admin/moderation',
   RateLimiter.middleware(10, 60000), // 10 requests per minute
-  validateRequest((req) => {
-    const adminKey = req.query.adminKey as string;
-    if (!adminKey || typeof adminKey !== 'string') {
-      throw new Error('adminKey query parameter is required and must be a string');
-    }
-  }),
-  asyncHandler(async (req, res): Promise<void> => {
-    const adminKey = req.query.adminKey as string;
+  asyncHandler(async (_req, res): Promise<void> => {
     const { postId } = context;
 
     if (!postId) {
@@ -771,7 +999,8 @@ router.get(
     console.log(`Admin moderation stats request: postId=${postId}`);
 
     const { AdminManager } = await import('./core/admin-manager.js');
-    const result = await AdminManager.getModerationStats(postId, adminKey);
+    await AdminManager.authorize('view');
+    const result = await AdminManager.getModerationStats(postId);
 
     if (result.success) {
       // Set cache headers for admin data
@@ -792,14 +1021,7 @@ router.get(
 router.get(
   '/api/admin/logs',
   RateLimiter.middleware(5, 60000), // 5 requests per minute
-  validateRequest((req) => {
-    const adminKey = req.query.adminKey as string;
-    if (!adminKey || typeof adminKey !== 'string') {
-      throw new Error('adminKey query parameter is required and must be a string');
-    }
-  }),
-  asyncHandler(async (req, res): Promise<void> => {
-    const adminKey = req.query.adminKey as string;
+  asyncHandler(async (_req, res): Promise<void> => {
     const { postId } = context;
 
     if (!postId) {
@@ -809,7 +1031,8 @@ router.get(
     console.log(`Admin logs request: postId=${postId}`);
 
     const { AdminManager } = await import('./core/admin-manager.js');
-    const result = await AdminManager.getAdminLogs(postId, adminKey);
+    await AdminManager.authorize('view');
+    const result = await AdminManager.getAdminLogs(postId);
 
     if (result.success) {
       // Set cache headers for admin data
@@ -871,8 +1094,8 @@ router.post(
       `Content report: postId=${postId}, contentType=${contentType}, contentId=${contentId}, reportedBy=${reportedBy}`
     );
 
-    const { ContentModerator } = await import('./core/content-moderator.js');
-    const result = await ContentModerator.reportContent(
+    const { ModerationQueueManager } = await import('./core/moderation-queue-manager.js');
+    const result = await ModerationQueueManager.fileReport(
       postId,
       contentType,
       contentId,
@@ -882,12 +1105,13 @@ router.post(
     );
 
     if (result.success) {
-      ErrorLogger.logInfo('Content reported', {
+      ErrorLogger.logInfo(result.duplicate ? 'Content reported again' : 'Content reported', {
         postId,
         contentType,
         contentId,
         reportedBy,
         reportId: result.reportId,
+        autoHidden: result.autoHidden === true,
       });
     } else {
       ErrorLogger.logWarning('Content report failed', {
@@ -901,24 +1125,67 @@ router.post(
 
     res.json({
       success: result.success,
-      data: result.success ? { reportId: result.reportId } : undefined,
+      data: result.success
+        ? {
+            reportId: result.reportId,
+            duplicate: result.duplicate === true,
+            autoHidden: result.autoHidden === true,
+          }
+        : undefined,
       error: result.error,
     });
   })
 );
 
-// Get content reports (admin only)
+// Whether the current player has already reported a piece of content
 router.get(
-  '/api/admin/reports',
-  RateLimiter.middleware(10, 60000), // 10 requests per minute
+  '/api/moderation/report/status',
+  RateLimiter.middleware(60, 60000), // 60 requests per minute
   validateRequest((req) => {
-    const adminKey = req.query.adminKey as string;
-    if (!adminKey || typeof adminKey !== 'string') {
-      throw new Error('adminKey query parameter is required and must be a string');
+    const { contentType, contentId } = req.query;
+
+    if (typeof contentType !== 'string' || !['chapter', 'choice', 'story'].includes(contentType)) {
+      throw new Error('contentType must be one of: chapter, choice, story');
+    }
+
+    if (!contentId || typeof contentId !== 'string') {
+      throw new Error('contentId is required and must be a string');
     }
   }),
   asyncHandler(async (req, res): Promise<void> => {
-    const adminKey = req.query.adminKey as string;
+    const { contentType, contentId } = req.query;
+    const { postId } = context;
+
+    if (!postId) {
+      throw new ValidationError('postId is required but missing from context');
+    }
+
+    const username = await reddit.getCurrentUsername();
+    if (!username) {
+      res.json({ success: true, data: { reported: false } });
+      return;
+    }
+
+    const { ContentModerator } = await import('./core/content-moderator.js');
+    const report = await ContentModerator.getUserReport(
+      postId,
+      contentType as 'chapter' | 'choice' | 'story',
+      contentId as string,
+      username
+    );
+
+    res.json({
+      success: true,
+      data: report ? { reported: true, status: report.status } : { reported: false },
+    });
+  })
+);
+
+// Get content reports (admin only)
+router.get(
+  '/api/admin/reports',
+  RateLimiter.middleware(10, 60000), // 10 requests per minute
+  asyncHandler(async (_req, res): Promise<void> => {
     const { postId } = context;
 
     if (!postId) {
@@ -928,9 +1195,7 @@ router.get(
     console.log(`Admin reports request: postId=${postId}`);
 
     const { AdminManager } = await import('./core/admin-manager.js');
-    if (!AdminManager.validateAdminKey(adminKey)) {
-      throw new ValidationError('Invalid admin credentials');
-    }
+    await AdminManager.authorize('view');
 
     const { ContentModerator } = await import('./core/content-moderator.js');
     const reports = await ContentModerator.getContentReports(postId);
@@ -952,13 +1217,9 @@ router.post(
   '/api/admin/reports/:reportId/status',
   RateLimiter.middleware(20, 60000), // 20 requests per minute
   validateRequest((req) => {
-    const { adminKey, status } = req.body;
+    const { status } = req.body;
     const { reportId } = req.params;
 
-    if (!adminKey || typeof adminKey !== 'string') {
-      throw new Error('adminKey is required and must be a string');
-    }
-
     if (!reportId || typeof reportId !== 'string') {
       throw new Error('reportId is required and must be a string');
     }
@@ -968,7 +1229,7 @@ router.post(
     }
   }),
   asyncHandler(async (req, res): Promise<void> => {
-    const { adminKey, status, moderatorNotes } = req.body;
+    const { status, moderatorNotes } = req.body;
     const { reportId } = req.params;
     const { postId } = context;
 
@@ -981,28 +1242,27 @@ router.post(
     );
 
     const { AdminManager } = await import('./core/admin-manager.js');
-    if (!AdminManager.validateAdminKey(adminKey)) {
-      throw new ValidationError('Invalid admin credentials');
-    }
-
-    // Get moderator ID (in a real system, this would come from authentication)
-    const moderatorId = 'admin'; // Placeholder
+    const admin = await AdminManager.authorize('moderate');
 
     const { ContentModerator } = await import('./core/content-moderator');
     const result = await (ContentModerator.updateReportStatus as any)(
       postId,
       reportId,
       status,
-      moderatorId,
+      admin.username,
       moderatorNotes
     );
 
     if (result.success) {
+      await AdminManager.logAdminAction(postId, admin.username, 'update_report_status', {
+        reportId,
+        status,
+      });
       ErrorLogger.logInfo('Report status updated', {
         postId,
         reportId,
         status,
-        moderatorId,
+        moderatorId: admin.username,
       });
     } else {
       ErrorLogger.logWarning('Report status update failed', {
@@ -1020,16 +1280,266 @@ router.post(
   })
 );
 
-// Validate content before posting
-router.post(
-  '/api/moderation/validate',
-  RateLimiter.middleware(30, 60000), // 30 requests per minute
-  validateRequest((req) => {
-    const { content, contentType } = req.body;
-
-    if (!content || typeof content !== 'string') {
-      throw new Error('content is required and must be a string');
-    }
+const MAX_CHAPTER_TEXT_LENGTH = 5000;
+const MAX_BULK_REPORTS = 50;
+
+// Open reports with their content snapshots, oldest past SLA first (admin only)
+router.get(
+  '/api/admin/queue',
+  RateLimiter.middleware(20, 60000), // 20 requests per minute
+  asyncHandler(async (_req, res): Promise<void> => {
+    const { postId } = context;
+
+    if (!postId) {
+      throw new ValidationError('postId is required but missing from context');
+    }
+
+    const { AdminManager } = await import('./core/admin-manager.js');
+    await AdminManager.authorize('view');
+
+    const { ModerationQueueManager } = await import('./core/moderation-queue-manager.js');
+    const items = await ModerationQueueManager.getQueue(postId);
+
+    res.json({
+      success: true,
+      data: { items },
+    });
+  })
+);
+
+// Claim a report for the current moderator (admin only)
+router.post(
+  '/api/admin/queue/:reportId/claim',
+  RateLimiter.middleware(30, 60000), // 30 requests per minute
+  asyncHandler(async (req, res): Promise<void> => {
+    const { reportId } = req.params;
+    const { postId } = context;
+
+    if (!postId) {
+      throw new ValidationError('postId is required but missing from context');
+    }
+
+    const { AdminManager } = await import('./core/admin-manager.js');
+    const admin = await AdminManager.authorize('moderate');
+
+    const { ModerationQueueManager } = await import('./core/moderation-queue-manager.js');
+    const result = await ModerationQueueManager.claimReport(postId, admin.username, reportId!);
+
+    if (result.success) {
+      ErrorLogger.logInfo('Report claimed', { postId, reportId, moderator: admin.username });
+    }
+
+    res.json({
+      success: result.success,
+      data: result.item,
+      error: result.error,
+    });
+  })
+);
+
+// Assign a report to a moderator, or return it to the queue (admin only)
+router.post(
+  '/api/admin/queue/:reportId/assign',
+  RateLimiter.middleware(30, 60000), // 30 requests per minute
+  validateRequest((req) => {
+    const { assignee } = req.body as AssignReportRequest;
+
+    if (assignee !== null && (typeof assignee !== 'string' || !assignee.trim())) {
+      throw new Error('assignee must be a username or null');
+    }
+  }),
+  asyncHandler(async (req, res): Promise<void> => {
+    const { reportId } = req.params;
+    const { assignee } = req.body as AssignReportRequest;
+    const { postId } = context;
+
+    if (!postId) {
+      throw new ValidationError('postId is required but missing from context');
+    }
+
+    const { AdminManager } = await import('./core/admin-manager.js');
+    const admin = await AdminManager.authorize('moderate');
+
+    const { ModerationQueueManager } = await import('./core/moderation-queue-manager.js');
+    const result = await ModerationQueueManager.assignReport(
+      postId,
+      admin.username,
+      reportId!,
+      assignee ? assignee.trim().replace(/^u\//, '') : null
+    );
+
+    if (result.success) {
+      ErrorLogger.logInfo('Report assigned', { postId, reportId, assignee });
+    }
+
+    res.json({
+      success: result.success,
+      data: result.item,
+      error: result.error,
+    });
+  })
+);
+
+// Resolve or dismiss several reports at once (admin only)
+router.post(
+  '/api/admin/queue/bulk',
+  RateLimiter.middleware(10, 60000), // 10 requests per minute
+  validateRequest((req) => {
+    const { reportIds, status } = req.body as BulkUpdateReportsRequest;
+
+    if (
+      !Array.isArray(reportIds) ||
+      reportIds.length === 0 ||
+      reportIds.some((reportId) => typeof reportId !== 'string')
+    ) {
+      throw new Error('reportIds must be a non-empty array of report ids');
+    }
+
+    if (reportIds.length > MAX_BULK_REPORTS) {
+      throw new Error(`At most ${MAX_BULK_REPORTS} reports can be updated at once`);
+    }
+
+    if (status !== 'resolved' && status !== 'dismissed') {
+      throw new Error('status must be one of: resolved, dismissed');
+    }
+  }),
+  asyncHandler(async (req, res): Promise<void> => {
+    const { reportIds, status, moderatorNotes } = req.body as BulkUpdateReportsRequest;
+    const { postId } = context;
+
+    if (!postId) {
+      throw new ValidationError('postId is required but missing from context');
+    }
+
+    const { AdminManager } = await import('./core/admin-manager.js');
+    const admin = await AdminManager.authorize('moderate');
+
+    const { ModerationQueueManager } = await import('./core/moderation-queue-manager.js');
+    const result = await ModerationQueueManager.bulkUpdate(
+      postId,
+      admin.username,
+      reportIds,
+      status,
+      moderatorNotes
+    );
+
+    ErrorLogger.logInfo('Reports updated in bulk', {
+      postId,
+      status,
+      updated: result.updated.length,
+      failed: result.failed.length,
+    });
+
+    res.json({
+      success: true,
+      data: result,
+    });
+  })
+);
+
+// Act on the content behind a report: hide a choice or edit chapter text (admin only)
+router.post(
+  '/api/admin/queue/:reportId/action',
+  RateLimiter.middleware(10, 60000), // 10 requests per minute
+  validateRequest((req) => {
+    const { action, content, title } = req.body as QueueActionRequest;
+
+    if (!action || !(action in QUEUE_ACTIONS)) {
+      throw new Error(`action must be one of: ${Object.keys(QUEUE_ACTIONS).join(', ')}`);
+    }
+
+    if (action === 'edit_chapter') {
+      if (!content || typeof content !== 'string' || !content.trim()) {
+        throw new Error('content is required to edit a chapter');
+      }
+      if (content.length > MAX_CHAPTER_TEXT_LENGTH) {
+        throw new Error(`content must be ${MAX_CHAPTER_TEXT_LENGTH} characters or fewer`);
+      }
+      if (title !== undefined && (typeof title !== 'string' || title.length > 200)) {
+        throw new Error('title must be a string of 200 characters or fewer');
+      }
+    }
+  }),
+  asyncHandler(async (req, res): Promise<void> => {
+    const { reportId } = req.params;
+    const { action, content, title, moderatorNotes } = req.body as QueueActionRequest;
+    const { postId } = context;
+
+    if (!postId) {
+      throw new ValidationError('postId is required but missing from context');
+    }
+
+    console.log(`Admin queue action: postId=${postId}, reportId=${reportId}, action=${action}`);
+
+    const { AdminManager } = await import('./core/admin-manager.js');
+    const admin = await AdminManager.authorize('moderate');
+
+    const { ModerationQueueManager } = await import('./core/moderation-queue-manager.js');
+    const result = await ModerationQueueManager.applyAction(
+      postId,
+      admin.username,
+      reportId!,
+      action as QueueAction,
+      {
+        ...(content && { content }),
+        ...(title && { title }),
+        ...(moderatorNotes && { moderatorNotes }),
+      }
+    );
+
+    if (result.success) {
+      ErrorLogger.logInfo('Queue action applied', { postId, reportId, action });
+    } else {
+      ErrorLogger.logWarning('Queue action failed', {
+        postId,
+        reportId,
+        action,
+        error: result.error,
+      });
+    }
+
+    res.json({
+      success: result.success,
+      data: result.success ? { chapter: result.chapter } : undefined,
+      error: result.error,
+    });
+  })
+);
+
+// Players whose reports moderators mostly dismiss (admin only)
+router.get(
+  '/api/admin/reporters',
+  RateLimiter.middleware(10, 60000), // 10 requests per minute
+  asyncHandler(async (_req, res): Promise<void> => {
+    const { postId } = context;
+
+    if (!postId) {
+      throw new ValidationError('postId is required but missing from context');
+    }
+
+    const { AdminManager } = await import('./core/admin-manager.js');
+    await AdminManager.authorize('view');
+
+    const { ContentModerator } = await import('./core/content-moderator.js');
+    const records = await ContentModerator.getReporterRecords(postId);
+
+    res.json({
+      success: true,
+      data: { reporters: records.filter((record) => record.flagged) },
+    });
+  })
+);
+
+// Validate content before posting
+router.post(
+  '/api/moderation/validate',
+  RateLimiter.middleware(30, 60000), // 30 requests per minute
+  validateRequest((req) => {
+    const { content, contentType } = req.body;
+
+    if (!content || typeof content !== 'string') {
+      throw new Error('content is required and must be a string');
+    }
 
     if (!contentType || !['chapter', 'choice', 'story'].includes(contentType)) {
       throw new Error('contentType must be one of: chapter, choice, story');
@@ -1048,7 +1558,7 @@ router.post(
     );
 
     const { ContentModerator } = await import('./core/content-moderator.js');
-    const result = await ContentModerator.validateContent(content, contentType);
+    const result = await ContentModerator.validateContent(content, contentType, postId);
 
     // Set cache headers for validation results
     res.set({
@@ -1062,6 +1572,7 @@ router.post(
         filteredContent: result.filteredContent,
         violations: result.violations,
         requiresApproval: result.requiresApproval,
+        exceptions: result.exceptions,
       },
     });
   })
@@ -1071,117 +1582,616 @@ router.post(
 router.get(
   '/api/admin/review-queue',
   RateLimiter.middleware(10, 60000), // 10 requests per minute
+  asyncHandler(async (_req, res): Promise<void> => {
+    const { postId } = context;
+
+    if (!postId) {
+      throw new ValidationError('postId is required but missing from context');
+    }
+
+    console.log(`Admin review queue request: postId=${postId}`);
+
+    const { AdminManager } = await import('./core/admin-manager.js');
+    await AdminManager.authorize('view');
+
+    const { ContentModerator } = await import('./core/content-moderator.js');
+    const contentAwaitingReview = await ContentModerator.getContentAwaitingReview(postId);
+
+    // Set cache headers for admin data
+    res.set({
+      'Cache-Control': 'private, max-age=30, stale-while-revalidate=60',
+    });
+
+    res.json({
+      success: true,
+      data: { contentAwaitingReview },
+    });
+  })
+);
+
+const FILTER_MATCHERS = Object.keys(FILTER_MATCHER_LABELS) as FilterMatcher[];
+const FILTER_SCOPES = Object.keys(FILTER_SCOPE_LABELS) as FilterScope[];
+const MAX_FILTER_SAMPLE_LENGTH = 2000;
+
+// List the post's custom content filters (admin only)
+router.get(
+  '/api/admin/filters',
+  RateLimiter.middleware(30, 60000), // 30 requests per minute
+  asyncHandler(async (_req, res): Promise<void> => {
+    const { postId } = context;
+
+    if (!postId) {
+      throw new ValidationError('postId is required but missing from context');
+    }
+
+    const { AdminManager } = await import('./core/admin-manager.js');
+    await AdminManager.authorize('manage_filters');
+
+    const { ContentModerator } = await import('./core/content-moderator.js');
+    const filters = await ContentModerator.listCustomFilters(postId);
+
+    res.json({
+      success: true,
+      data: { filters },
+    });
+  })
+);
+
+// Add custom content filter (admin only)
+router.post(
+  '/api/admin/filters',
+  RateLimiter.middleware(5, 300000), // 5 requests per 5 minutes
+  validateRequest((req) => {
+    const { pattern, matcher, severity, action, scope, allowedPhrases } =
+      req.body as AddContentFilterRequest;
+
+    if (!pattern || typeof pattern !== 'string') {
+      throw new Error('pattern is required and must be a string');
+    }
+
+    if (matcher !== undefined && !FILTER_MATCHERS.includes(matcher)) {
+      throw new Error(`matcher must be one of: ${FILTER_MATCHERS.join(', ')}`);
+    }
+
+    if (scope !== undefined && !FILTER_SCOPES.includes(scope)) {
+      throw new Error(`scope must be one of: ${FILTER_SCOPES.join(', ')}`);
+    }
+
+    if (
+      allowedPhrases !== undefined &&
+      (!Array.isArray(allowedPhrases) ||
+        allowedPhrases.some((phrase) => typeof phrase !== 'string'))
+    ) {
+      throw new Error('allowedPhrases must be an array of strings');
+    }
+
+    if (!severity || !['low', 'medium', 'high'].includes(severity)) {
+      throw new Error('severity must be one of: low, medium, high');
+    }
+
+    if (!action || !['flag', 'block', 'replace'].includes(action)) {
+      throw new Error('action must be one of: flag, block, replace');
+    }
+  }),
+  asyncHandler(async (req, res): Promise<void> => {
+    const { pattern, matcher, severity, action, replacement, scope, allowedPhrases } =
+      req.body as AddContentFilterRequest;
+    const { postId } = context;
+
+    if (!postId) {
+      throw new ValidationError('postId is required but missing from context');
+    }
+
+    console.log(
+      `Admin add filter: postId=${postId}, matcher=${matcher || 'regex'}, pattern=${pattern}, severity=${severity}, action=${action}`
+    );
+
+    const { AdminManager } = await import('./core/admin-manager.js');
+    const admin = await AdminManager.authorize('manage_filters');
+
+    const { ContentModerator } = await import('./core/content-moderator.js');
+    const result = await ContentModerator.addCustomFilter(postId, {
+      pattern,
+      severity,
+      action,
+      ...(matcher && { matcher }),
+      ...(replacement && { replacement }),
+      ...(scope && { scope }),
+      ...(allowedPhrases && { allowedPhrases }),
+    });
+
+    if (result.success) {
+      await AdminManager.logAdminAction(postId, admin.username, 'add_filter', {
+        filterId: result.filterId,
+        matcher: matcher || 'regex',
+        pattern,
+        severity,
+        action,
+        scope: scope || 'all',
+      });
+      ErrorLogger.logInfo('Custom filter added', {
+        postId,
+        username: admin.username,
+        filterId: result.filterId,
+        pattern,
+        severity,
+        action,
+      });
+    } else {
+      ErrorLogger.logWarning('Custom filter addition failed', {
+        postId,
+        pattern,
+        error: result.error,
+      });
+    }
+
+    res.json({
+      success: result.success,
+      data: result.success ? { filterId: result.filterId } : undefined,
+      error: result.error,
+    });
+  })
+);
+
+// Try a filter pattern against sample text without saving it (admin only)
+router.post(
+  '/api/admin/filters/preview',
+  RateLimiter.middleware(30, 60000), // 30 requests per minute
   validateRequest((req) => {
-    const adminKey = req.query.adminKey as string;
-    if (!adminKey || typeof adminKey !== 'string') {
-      throw new Error('adminKey query parameter is required and must be a string');
+    const { pattern, matcher, action, sampleText } = req.body as PreviewContentFilterRequest;
+
+    if (!pattern || typeof pattern !== 'string') {
+      throw new Error('pattern is required and must be a string');
+    }
+
+    if (!FILTER_MATCHERS.includes(matcher)) {
+      throw new Error(`matcher must be one of: ${FILTER_MATCHERS.join(', ')}`);
+    }
+
+    if (!action || !['flag', 'block', 'replace'].includes(action)) {
+      throw new Error('action must be one of: flag, block, replace');
+    }
+
+    if (typeof sampleText !== 'string' || sampleText.length > MAX_FILTER_SAMPLE_LENGTH) {
+      throw new Error(
+        `sampleText must be a string of at most ${MAX_FILTER_SAMPLE_LENGTH} characters`
+      );
     }
   }),
   asyncHandler(async (req, res): Promise<void> => {
-    const adminKey = req.query.adminKey as string;
+    const { pattern, matcher, action, replacement, sampleText } =
+      req.body as PreviewContentFilterRequest;
+
+    const { AdminManager } = await import('./core/admin-manager.js');
+    await AdminManager.authorize('manage_filters');
+
+    const { ContentModerator } = await import('./core/content-moderator.js');
+    const preview = ContentModerator.previewFilter(
+      { pattern, matcher, action, ...(replacement && { replacement }) },
+      sampleText
+    );
+
+    res.json({
+      success: true,
+      data: preview,
+    });
+  })
+);
+
+// ===== STORY PACK ENDPOINTS =====
+
+// List available story packs and the pack selected for this post (admin only)
+router.get(
+  '/api/admin/story-packs',
+  RateLimiter.middleware(30, 60000), // 30 requests per minute
+  asyncHandler(async (_req, res): Promise<void> => {
     const { postId } = context;
 
     if (!postId) {
       throw new ValidationError('postId is required but missing from context');
     }
 
-    console.log(`Admin review queue request: postId=${postId}`);
+    const { AdminManager } = await import('./core/admin-manager.js');
+    await AdminManager.authorize('view');
+
+    const { StoryPackManager } = await import('./core/story-pack-manager.js');
+    const [packs, selection, pendingSelection] = await Promise.all([
+      StoryPackManager.listPacks(),
+      StoryPackManager.getPackSelection(postId),
+      StoryPackManager.getPendingPackSelection(postId),
+    ]);
+
+    res.json({
+      success: true,
+      data: { packs, selection, pendingSelection },
+    });
+  })
+);
+
+// Validate and store a story pack from JSON or YAML source (admin only)
+router.post(
+  '/api/admin/story-packs',
+  RateLimiter.middleware(10, 300000), // 10 uploads per 5 minutes
+  validateRequest((req) => {
+    const { source, format } = req.body;
+
+    if (!source || typeof source !== 'string') {
+      throw new Error('source is required and must be a string');
+    }
+
+    if (format !== undefined && !['json', 'yaml'].includes(format)) {
+      throw new Error('format must be one of: json, yaml');
+    }
+  }),
+  asyncHandler(async (req, res): Promise<void> => {
+    const { source, format, dryRun } = req.body;
+
+    const { AdminManager } = await import('./core/admin-manager.js');
+    const admin = await AdminManager.authorize('manage_packs');
+
+    const { StoryPackManager } = await import('./core/story-pack-manager.js');
+    const { pack, validation, lint } = StoryPackManager.parsePack(source, format);
+
+    if (!pack || dryRun === true) {
+      const passed = !!pack && !!lint?.isValid;
+      res.status(passed ? 200 : 400).json({
+        success: passed,
+        data: { validation, lint },
+        ...(passed
+          ? {}
+          : { error: pack ? 'Story pack failed lint' : 'Story pack failed validation' }),
+      });
+      return;
+    }
+
+    const result = await StoryPackManager.savePack(pack);
+
+    if (result.success) {
+      const { postId } = context;
+      if (postId) {
+        await AdminManager.logAdminAction(postId, admin.username, 'upload_story_pack', {
+          packId: pack.id,
+          version: pack.version,
+        });
+      }
+      ErrorLogger.logInfo('Story pack uploaded', {
+        packId: pack.id,
+        version: pack.version,
+        username: admin.username,
+      });
+    }
+
+    res.status(result.success ? 200 : 400).json({
+      success: result.success,
+      data: {
+        packId: pack.id,
+        version: pack.version,
+        validation: result.validation,
+        lint: result.lint,
+      },
+      error: result.error,
+    });
+  })
+);
+
+// Lint a stored story pack's branch graph (admin only)
+router.get(
+  '/api/admin/story-packs/lint',
+  RateLimiter.middleware(30, 60000), // 30 requests per minute
+  validateRequest((req) => {
+    const { packId, version } = req.query;
+
+    if (!packId || typeof packId !== 'string') {
+      throw new Error('packId is required and must be a string');
+    }
+
+    if (version !== undefined && typeof version !== 'string') {
+      throw new Error('version must be a string');
+    }
+  }),
+  asyncHandler(async (req, res): Promise<void> => {
+    const { packId, version } = req.query;
+
+    const { AdminManager } = await import('./core/admin-manager.js');
+    await AdminManager.authorize('view');
+
+    const { StoryPackManager } = await import('./core/story-pack-manager.js');
+    const pack = await StoryPackManager.getPack(packId as string, version as string | undefined);
+    if (!pack) {
+      res.status(404).json({ success: false, error: `Story pack "${packId as string}" not found` });
+      return;
+    }
+
+    res.json({
+      success: true,
+      data: { lint: StoryGraphLinter.lint(pack) },
+    });
+  })
+);
+
+// Select the story pack this post runs (admin only)
+router.post(
+  '/api/admin/story-packs/select',
+  RateLimiter.middleware(10, 300000), // 10 requests per 5 minutes
+  validateRequest((req) => {
+    const { packId, version } = req.body;
+
+    if (!packId || typeof packId !== 'string') {
+      throw new Error('packId is required and must be a string');
+    }
+
+    if (version !== undefined && typeof version !== 'string') {
+      throw new Error('version must be a string');
+    }
+  }),
+  asyncHandler(async (req, res): Promise<void> => {
+    const { packId, version } = req.body;
+    const { postId } = context;
+
+    if (!postId) {
+      throw new ValidationError('postId is required but missing from context');
+    }
+
+    const { AdminManager } = await import('./core/admin-manager.js');
+    const admin = await AdminManager.authorize('manage_packs');
+
+    const { StoryPackManager } = await import('./core/story-pack-manager.js');
+    const result = await StoryPackManager.setPackForPost(postId, packId, version);
+
+    if (result.selection) {
+      await AdminManager.logAdminAction(postId, admin.username, 'select_story_pack', {
+        packId: result.selection.packId,
+        version: result.selection.version,
+        pending: !!result.pending,
+      });
+    }
+
+    res.status(result.success ? 200 : 404).json({
+      success: result.success,
+      data: result.selection
+        ? {
+            selection: result.selection,
+            pending: !!result.pending,
+            message: result.pending
+              ? 'Story pack selected; it takes over when the story is restarted'
+              : 'Story pack selected; the story will begin from its opening chapter',
+          }
+        : undefined,
+      error: result.error,
+    });
+  })
+);
+
+// ===== HALL OF FAME ENDPOINTS =====
+
+// Browse finished stories from every post in the subreddit
+router.get(
+  '/api/hall-of-fame',
+  RateLimiter.middleware(30, 60000), // 30 requests per minute
+  validateRequest((req) => {
+    const { sort, order, limit, offset, endingType, packId } = req.query;
+
+    if (sort !== undefined && !HALL_OF_FAME_SORTS.includes(sort as HallOfFameSort)) {
+      throw new Error(`sort must be one of: ${HALL_OF_FAME_SORTS.join(', ')}`);
+    }
+
+    if (order !== undefined && order !== 'asc' && order !== 'desc') {
+      throw new Error('order must be asc or desc');
+    }
+
+    for (const [name, value] of Object.entries({ limit, offset })) {
+      if (value !== undefined && !/^\d+$/.test(String(value))) {
+        throw new Error(`${name} must be a non-negative integer`);
+      }
+    }
+
+    if (
+      endingType !== undefined &&
+      !['good', 'bad', 'neutral', 'twist'].includes(endingType as string)
+    ) {
+      throw new Error('endingType must be good, bad, neutral or twist');
+    }
+
+    if (packId !== undefined && typeof packId !== 'string') {
+      throw new Error('packId must be a string');
+    }
+  }),
+  asyncHandler(async (req, res): Promise<void> => {
+    const { sort, order, limit, offset, endingType, packId } = req.query;
+
+    const { HallOfFameManager } = await import('./core/hall-of-fame-manager.js');
+    const page = await HallOfFameManager.browse({
+      sort: (sort as HallOfFameSort | undefined) ?? 'recent',
+      order: order === 'asc' ? 'asc' : 'desc',
+      limit: Math.min(50, Math.max(1, parseInt((limit as string | undefined) ?? '20'))),
+      offset: parseInt((offset as string | undefined) ?? '0'),
+      ...(endingType && { endingType: endingType as StoryEnding['type'] }),
+      ...(packId && { packId: packId as string }),
+    });
+
+    const response: GetHallOfFameResponse = { success: true, data: page };
+    res.json(response);
+  })
+);
+
+// ===== CHAIN STORY ENDPOINTS =====
+
+// Start a client session: the post, the viewer, their moderator status and the realtime channel
+router.get(
+  '/api/bootstrap',
+  RateLimiter.middleware(30, 60000), // 30 requests per minute
+  asyncHandler(async (_req, res): Promise<void> => {
+    const { postId, subredditName } = context;
+
+    if (!postId) {
+      throw new ValidationError('postId is required but missing from context');
+    }
 
     const { AdminManager } = await import('./core/admin-manager.js');
-    if (!AdminManager.validateAdminKey(adminKey)) {
-      throw new ValidationError('Invalid admin credentials');
+    const { PostConfigManager } = await import('./core/post-config-manager.js');
+    const [username, admin, config] = await Promise.all([
+      reddit.getCurrentUsername(),
+      AdminManager.getAdminIdentity(),
+      PostConfigManager.getConfig(postId),
+    ]);
+
+    const data: BootstrapData = {
+      postId,
+      subredditName: subredditName ?? null,
+      username: username ?? null,
+      isModerator: !!admin,
+      realtimeChannel: RealtimeManager.getClientChannelName(postId),
+      config,
+    };
+    if (admin) data.admin = admin;
+
+    res.set({
+      'Cache-Control': 'private, no-cache',
+    });
+
+    res.json({
+      success: true,
+      data,
+    });
+  })
+);
+
+// Get this post's story settings (mode, voting duration, limits)
+router.get(
+  '/api/post/config',
+  asyncHandler(async (_req, res): Promise<void> => {
+    const { postId } = context;
+
+    if (!postId) {
+      throw new ValidationError('postId is required but missing from context');
+    }
+
+    const { PostConfigManager } = await import('./core/post-config-manager.js');
+    const config = await PostConfigManager.getConfig(postId);
+
+    res.json({
+      success: true,
+      data: { postId, config },
+    });
+  })
+);
+
+// Get the current chain story, resolving an overdue round first
+router.get(
+  '/api/chain-story/current',
+  RateLimiter.middleware(60, 60000), // 60 requests per minute
+  asyncHandler(async (_req, res): Promise<void> => {
+    const { postId } = context;
+
+    if (!postId) {
+      throw new ValidationError('postId is required but missing from context');
+    }
+
+    const { PostConfigManager } = await import('./core/post-config-manager.js');
+    const { storyMode } = await PostConfigManager.getConfig(postId);
+    if (storyMode !== 'chain') {
+      throw new ValidationError('Chain story mode is not enabled for this post');
+    }
+
+    const { ChainStoryManager } = await import('./core/chain-story-manager.js');
+    let story = await ChainStoryManager.getOrStartStory(postId);
+
+    if (story.status === 'active' && new Date(story.roundEndsAt).getTime() <= Date.now()) {
+      try {
+        await ChainStoryManager.resolveRound(postId, story.roundNumber);
+        story = await ChainStoryManager.getOrStartStory(postId);
+      } catch (error) {
+        // The round stays open and is retried; players still see the story as it stands
+        ErrorLogger.logWarning('Failed to resolve overdue chain round', {
+          postId,
+          round: story.roundNumber,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+      }
     }
 
-    const { ContentModerator } = await import('./core/content-moderator.js');
-    const contentAwaitingReview = await ContentModerator.getContentAwaitingReview(postId);
-
-    // Set cache headers for admin data
-    res.set({
-      'Cache-Control': 'private, max-age=30, stale-while-revalidate=60',
-    });
+    const submissions = await ChainStoryManager.getSubmissions(story);
 
     res.json({
       success: true,
-      data: { contentAwaitingReview },
+      data: {
+        postId,
+        story,
+        submissions,
+        roundTimeRemaining: Math.max(0, new Date(story.roundEndsAt).getTime() - Date.now()),
+      },
     });
   })
 );
 
-// Add custom content filter (admin only)
+// Submit a sentence for the current chain story round
 router.post(
-  '/api/admin/filters',
-  RateLimiter.middleware(5, 300000), // 5 requests per 5 minutes
+  '/api/chain-story/submit',
+  RateLimiter.middleware(5, 60000), // 5 submissions per minute
   validateRequest((req) => {
-    const { adminKey, pattern, severity, action } = req.body;
-
-    if (!adminKey || typeof adminKey !== 'string') {
-      throw new Error('adminKey is required and must be a string');
-    }
-
-    if (!pattern || typeof pattern !== 'string') {
-      throw new Error('pattern is required and must be a string');
-    }
-
-    if (!severity || !['low', 'medium', 'high'].includes(severity)) {
-      throw new Error('severity must be one of: low, medium, high');
-    }
-
-    if (!action || !['flag', 'block', 'replace'].includes(action)) {
-      throw new Error('action must be one of: flag, block, replace');
+    const { sentence } = req.body;
+    if (!sentence || typeof sentence !== 'string') {
+      throw new Error('sentence is required and must be a string');
     }
   }),
   asyncHandler(async (req, res): Promise<void> => {
-    const { adminKey, pattern, severity, action, replacement } = req.body;
+    const { sentence } = req.body as SubmitSentenceRequest;
     const { postId } = context;
 
     if (!postId) {
       throw new ValidationError('postId is required but missing from context');
     }
 
-    console.log(
-      `Admin add filter: postId=${postId}, pattern=${pattern}, severity=${severity}, action=${action}`
-    );
+    const username = await reddit.getCurrentUsername();
+    if (!username) {
+      throw new ValidationError('User authentication required');
+    }
 
-    const { AdminManager } = await import('./core/admin-manager.js');
-    if (!AdminManager.validateAdminKey(adminKey)) {
-      throw new ValidationError('Invalid admin credentials');
+    const { PostConfigManager } = await import('./core/post-config-manager.js');
+    const { storyMode } = await PostConfigManager.getConfig(postId);
+    if (storyMode !== 'chain') {
+      throw new ValidationError('Chain story mode is not enabled for this post');
     }
 
-    const { ContentModerator } = await import('./core/content-moderator.js');
-    const result = await ContentModerator.addCustomFilter(postId, {
-      pattern,
-      severity,
-      action,
-      replacement,
-    });
+    const { ChainStoryManager } = await import('./core/chain-story-manager.js');
+    const result = await ChainStoryManager.submitSentence(postId, username, sentence);
 
-    if (result.success) {
-      ErrorLogger.logInfo('Custom filter added', {
-        postId,
-        filterId: result.filterId,
-        pattern,
-        severity,
-        action,
-      });
-    } else {
-      ErrorLogger.logWarning('Custom filter addition failed', {
-        postId,
-        pattern,
-        error: result.error,
-      });
+    const response: SubmitSentenceResponse = result.success
+      ? {
+          success: true,
+          ...(result.submission && { data: result.submission }),
+          message: 'Submitted! Your sentence is being voted on',
+        }
+      : { success: false, error: result.error || 'Failed to submit sentence' };
+
+    res.json(response);
+  })
+);
+
+// List completed chain stories for this post
+router.get(
+  '/api/chain-story/archive',
+  RateLimiter.middleware(30, 60000), // 30 requests per minute
+  asyncHandler(async (_req, res): Promise<void> => {
+    const { postId } = context;
+
+    if (!postId) {
+      throw new ValidationError('postId is required but missing from context');
     }
 
+    const { ChainStoryManager } = await import('./core/chain-story-manager.js');
+    const stories = await ChainStoryManager.getArchivedStories(postId);
+
     res.json({
-      success: result.success,
-      data: result.success ? { filterId: result.filterId } : undefined,
-      error: result.error,
+      success: true,
+      data: { stories },
     });
   })
 );
 
 // ===== STORY SYSTEM ENDPOINTS =====
 
-// Reset story to beginning
+// Reset story to beginning (moderators with the reset permission)
 router.post(
   '/api/story/restart',
   RateLimiter.middleware(5, 300000), // 5 restarts per 5 minutes
@@ -1199,24 +2209,35 @@ router.post(
       throw new ValidationError('postId is required but missing from context');
     }
 
+    const { AdminManager } = await import('./core/admin-manager.js');
+    const admin = await AdminManager.authorize('reset');
+
     console.log(`Story restart request: postId=${postId}, preserveHistory=${preserveHistory}`);
 
     const { StoryStateManager } = await import('./core/story-state-manager.js');
     const { StoryProgressionEngine } = await import('./core/story-progression-engine.js');
 
     try {
-      // Reset the story state
+      // Reset the story state, switching to a pack selected while the last story ran
       await StoryStateManager.resetStory(postId, preserveHistory);
+      const { StoryPackManager } = await import('./core/story-pack-manager.js');
+      await StoryPackManager.applyPendingPackSelection(postId);
 
       // Initialize with the opening chapter
       const progressionEngine = new StoryProgressionEngine();
-      const initialChapter = progressionEngine.getInitialChapter();
+      const initialChapter = await progressionEngine.getInitialChapterForPost(postId);
       const initialContext = await StoryStateManager.initializeStory(postId, initialChapter);
 
+      await AdminManager.logAdminAction(postId, admin.username, 'restart_story', {
+        preserveHistory,
+        newChapterId: initialChapter.id,
+      });
+
       ErrorLogger.logInfo('Story restarted', {
         postId,
         preserveHistory,
         newChapterId: initialChapter.id,
+        restartedBy: admin.username,
       });
 
       res.json({
@@ -1322,6 +2343,12 @@ router.get(
         return;
       }
 
+      // Chapters hidden for review keep their text back from players; the replay stays shareable
+      const chapters = replayData.chapters.map((record) => ({
+        ...record,
+        chapter: StoryUtils.redactHiddenContent(record.chapter),
+      }));
+
       // Set cache headers for replay data
       res.set({
         'Cache-Control': 'public, max-age=300, stale-while-revalidate=600', // 5 minutes
@@ -1330,7 +2357,7 @@ router.get(
 
       res.json({
         success: true,
-        data: replayData,
+        data: { ...replayData, chapters },
       });
     } catch (error) {
       ErrorLogger.logWarning('Failed to get story replay', {
@@ -1363,8 +2390,12 @@ router.get(
     const { StoryStateManager } = await import('./core/story-state-manager.js');
 
     try {
-      const completedPaths = await StoryStateManager.getCompletedPaths(postId);
-      const stats = await StoryStateManager.getStoryStats(postId);
+      const { ChapterArchiveManager } = await import('./core/chapter-archive-manager.js');
+      const [completedPaths, stats, paths] = await Promise.all([
+        StoryStateManager.getCompletedPaths(postId),
+        StoryStateManager.getStoryStats(postId),
+        ChapterArchiveManager.getPathSummaries(postId),
+      ]);
 
       // Set cache headers
       res.set({
@@ -1376,6 +2407,7 @@ router.get(
         success: true,
         data: {
           completedPaths,
+          paths,
           totalCompleted: completedPaths.length,
           stats: {
             totalChapters: stats.totalChapters,
@@ -1403,65 +2435,62 @@ router.get(
   '/api/story/current',
   RateLimiter.middleware(60, 60000), // 60 requests per minute
   asyncHandler(async (_req, res): Promise<void> => {
-    try {
-      const { postId } = context;
-
-      console.log(`Current story request: postId=${postId}, context:`, context);
+    const { postId } = context;
 
-      // For development, allow requests without postId
-      const effectivePostId = postId || 'dev-post-id';
+    if (!postId) {
+      throw new ValidationError('postId is required but missing from context');
+    }
 
-      console.log(`Using postId: ${effectivePostId}`);
+    try {
+      console.log(`Current story request: postId=${postId}`);
 
       // Import story components
       const { StoryStateManager } = await import('./core/story-state-manager.js');
       const { StoryProgressionEngine } = await import('./core/story-progression-engine.js');
 
       // Try to get current chapter from state
-      let currentChapter = await StoryStateManager.getCurrentChapter(effectivePostId);
-      let storyContext = await StoryStateManager.getStoryContext(effectivePostId);
-      let progression = await StoryStateManager.getProgression(effectivePostId);
+      let currentChapter = await StoryStateManager.getCurrentChapter(postId);
+      let storyContext = await StoryStateManager.getStoryContext(postId);
+      let progression = await StoryStateManager.getProgression(postId);
 
       // If no story exists, initialize with first chapter
       if (!currentChapter || !storyContext) {
         console.log('No existing story found, initializing new story');
 
         const progressionEngine = new StoryProgressionEngine();
-        const initialChapter = progressionEngine.getInitialChapter();
+        const initialChapter = await progressionEngine.getInitialChapterForPost(postId);
 
         // Initialize story state
-        storyContext = await StoryStateManager.initializeStory(effectivePostId, initialChapter);
+        storyContext = await StoryStateManager.initializeStory(postId, initialChapter);
         currentChapter = initialChapter;
-        progression = await StoryStateManager.getProgression(effectivePostId);
+        progression = await StoryStateManager.getProgression(postId);
 
         // Create initial voting session
         await VotingManager.createVotingSession(
-          effectivePostId,
+          postId,
           initialChapter.id,
           initialChapter.choices.map((choice) => ({
             choiceId: choice.id,
             text: choice.text,
-          })),
-          60 // 60 minutes voting duration
+          }))
         );
 
         console.log('Story initialized with chapter:', initialChapter.id);
       }
 
       // Check if voting is active for current chapter
-      let votingSession = await VotingManager.getVotingSession(effectivePostId, currentChapter.id);
+      let votingSession = await VotingManager.getVotingSession(postId, currentChapter.id);
 
       // If no voting session exists for this chapter, create one
       if (!votingSession) {
         console.log('No voting session found, creating one for chapter:', currentChapter.id);
         votingSession = await VotingManager.createVotingSession(
-          effectivePostId,
+          postId,
           currentChapter.id,
           currentChapter.choices.map((choice) => ({
             choiceId: choice.id,
             text: choice.text,
-          })),
-          60 // 60 minutes voting duration
+          }))
         );
       }
 
@@ -1475,7 +2504,7 @@ router.get(
       });
 
       // Get current vote counts
-      const voteCounts = await VotingManager.getVoteCounts(effectivePostId, currentChapter.id);
+      const voteCounts = await VotingManager.getVoteCounts(postId, currentChapter.id);
 
       // Update chapter with current vote counts
       const updatedChapter = {
@@ -1489,16 +2518,26 @@ router.get(
         }),
       };
 
+      // A hidden chapter's text only goes to moderators, so that response can't be shared
+      const { AdminManager } = await import('./core/admin-manager.js');
+      const hidden = !!updatedChapter.hiddenForReview;
+      const chapter =
+        hidden && !(await AdminManager.isModerator())
+          ? StoryUtils.redactHiddenContent(updatedChapter)
+          : updatedChapter;
+
       // Set cache headers
       res.set({
-        'Cache-Control': 'public, max-age=30, stale-while-revalidate=60',
+        'Cache-Control': hidden
+          ? 'private, no-cache'
+          : 'public, max-age=30, stale-while-revalidate=60',
         'Vary': 'Accept-Encoding',
       });
 
       res.json({
         success: true,
         data: {
-          chapter: updatedChapter,
+          chapter,
           context: storyContext,
           progression,
           votingActive,
@@ -1516,6 +2555,53 @@ router.get(
   })
 );
 
+// Export the story as Markdown, HTML or JSON
+router.get(
+  '/api/story/export',
+  RateLimiter.middleware(10, 60000), // 10 exports per minute
+  validateRequest((req) => {
+    const { format, download } = req.query;
+
+    if (format !== undefined && !STORY_EXPORT_FORMATS.includes(format as StoryExportFormat)) {
+      throw new Error(`format must be one of: ${STORY_EXPORT_FORMATS.join(', ')}`);
+    }
+
+    if (download !== undefined && download !== 'true' && download !== 'false') {
+      throw new Error('download must be true or false');
+    }
+  }),
+  asyncHandler(async (req, res): Promise<void> => {
+    const format = (req.query.format as StoryExportFormat | undefined) ?? 'markdown';
+    const { postId } = context;
+
+    if (!postId) {
+      throw new ValidationError('postId is required but missing from context');
+    }
+
+    const { StoryHistoryTracker } = await import('./core/story-history-tracker.js');
+    const { AdminManager } = await import('./core/admin-manager.js');
+    const document = await StoryHistoryTracker.getExportDocument(
+      postId,
+      await AdminManager.isModerator()
+    );
+
+    if (!document) {
+      res.status(404).json({ success: false, error: 'No story has been started in this post' });
+      return;
+    }
+
+    const rendered = StoryExporter.render(format, document);
+    const disposition = req.query.download === 'true' ? 'attachment' : 'inline';
+
+    res.set({
+      'Content-Type': rendered.contentType,
+      'Content-Disposition': `${disposition}; filename="haunted-thread-${postId}.${rendered.fileExtension}"`,
+      'Cache-Control': 'no-cache',
+    });
+    res.send(rendered.content);
+  })
+);
+
 // Get story history
 router.get(
   '/api/story/history',
@@ -1523,20 +2609,34 @@ router.get(
   asyncHandler(async (_req, res): Promise<void> => {
     const { postId } = context;
 
-    // For development, allow requests without postId
-    const effectivePostId = postId || 'dev-post-id';
+    if (!postId) {
+      throw new ValidationError('postId is required but missing from context');
+    }
 
-    console.log(`Story history request: postId=${effectivePostId}`);
+    console.log(`Story history request: postId=${postId}`);
 
     const { StoryStateManager } = await import('./core/story-state-manager.js');
+    const { ChapterArchiveManager } = await import('./core/chapter-archive-manager.js');
 
     try {
-      // Get story history and context
-      const [history, storyContext, allChapters] = await Promise.all([
-        StoryStateManager.getStoryHistory(effectivePostId),
-        StoryStateManager.getStoryContext(effectivePostId),
-        StoryStateManager.getAllChapters(effectivePostId),
+      // Completed chapters come from the permanent archive; live keys only add the current one
+      const [archive, storyContext, liveChapters] = await Promise.all([
+        ChapterArchiveManager.getStoryArchive(postId),
+        StoryStateManager.getStoryContext(postId),
+        StoryStateManager.getAllChapters(postId),
       ]);
+      const storyChapters = [
+        ...archive.map((record) => record.chapter),
+        ...liveChapters.filter(
+          (chapter) => !archive.some((record) => record.chapterId === chapter.id)
+        ),
+      ];
+      const { AdminManager } = await import('./core/admin-manager.js');
+      const allChapters =
+        storyChapters.some((chapter) => chapter.hiddenForReview) &&
+        !(await AdminManager.isModerator())
+          ? storyChapters.map((chapter) => StoryUtils.redactHiddenContent(chapter))
+          : storyChapters;
 
       // Build path from context
       const path = {
@@ -1545,23 +2645,12 @@ router.get(
         ending: undefined, // Could be populated if story has ended
       };
 
-      // Build decisions with vote stats
-      const decisions = await Promise.all(
-        history.map(async (entry) => {
-          const stats = await VotingManager.getVotingStats(effectivePostId, entry.chapterId);
-          return {
-            chapterId: entry.chapterId,
-            winningChoice: entry.winningChoice,
-            voteStats: stats || {
-              totalVotes: 0,
-              uniqueVoters: 0,
-              votingDuration: 0,
-              winningChoice: entry.winningChoice,
-              winningPercentage: 0,
-            },
-          };
-        })
-      );
+      // Build decisions with their final vote stats
+      const decisions = archive.map((record) => ({
+        chapterId: record.chapterId,
+        winningChoice: record.winningChoice,
+        voteStats: record.stats,
+      }));
 
       res.json({
         success: true,
@@ -1584,88 +2673,146 @@ router.get(
   })
 );
 
-// Advance story to next chapter (triggered when voting ends)
+// Advance story to next chapter once the current voting round has expired.
+// Forcing a choice skips the vote, so it is moderator-only and audited.
 router.post(
   '/api/story/advance',
   RateLimiter.middleware(10, 60000), // 10 requests per minute
   validateRequest((req) => {
-    const { chapterId } = req.body;
+    const { chapterId, forceChoice, reason } = req.body;
     if (!chapterId || typeof chapterId !== 'string') {
       throw new Error('chapterId is required and must be a string');
     }
+    if (forceChoice !== undefined && (typeof forceChoice !== 'string' || !forceChoice)) {
+      throw new Error('forceChoice must be a non-empty string if provided');
+    }
+    if (reason !== undefined && typeof reason !== 'string') {
+      throw new Error('reason must be a string if provided');
+    }
   }),
   asyncHandler(async (req, res): Promise<void> => {
-    const { chapterId, forceChoice } = req.body;
+    const { chapterId, forceChoice, reason } = req.body as {
+      chapterId: string;
+      forceChoice?: string;
+      reason?: string;
+    };
     const { postId } = context;
 
-    // For development, allow requests without postId
-    const effectivePostId = postId || 'dev-post-id';
+    if (!postId) {
+      throw new ValidationError('postId is required but missing from context');
+    }
 
     console.log(
-      `Story advance request: postId=${effectivePostId}, chapterId=${chapterId}, forceChoice=${forceChoice}`
+      `Story advance request: postId=${postId}, chapterId=${chapterId}, forceChoice=${forceChoice}`
     );
 
-    const { StoryProgressionEngine } = await import('./core/story-progression-engine.js');
+    // Refuse to advance a story whose pack has a broken branch graph
+    const { StoryPackManager } = await import('./core/story-pack-manager.js');
+    const lint = await StoryPackManager.lintPackForPost(postId);
+    if (lint && !lint.isValid) {
+      ErrorLogger.logWarning('Story advance refused: story pack failed lint', {
+        postId,
+        packId: lint.packId,
+        version: lint.version,
+        errors: lint.errors.map((issue) => StoryGraphLinter.formatIssue(issue)),
+      });
 
-    try {
-      const progressionEngine = new StoryProgressionEngine();
+      res.status(422).json({
+        success: false,
+        error: `Story pack "${lint.packId}" v${lint.version} failed lint and cannot be played`,
+        data: { lint },
+      });
+      return;
+    }
 
-      // Advance the story
-      const result = await progressionEngine.advanceStory(effectivePostId, chapterId, forceChoice);
+    const { StoryStateManager } = await import('./core/story-state-manager.js');
+    const storyContext = await StoryStateManager.getStoryContext(postId);
+    if (!storyContext || storyContext.currentChapter !== chapterId) {
+      res.status(409).json({
+        success: false,
+        error: `Chapter ${chapterId} is not the current chapter`,
+      });
+      return;
+    }
 
-      if (result.success) {
-        // Broadcast chapter transition to all connected clients
-        if (result.newChapter && !result.hasEnded) {
-          const stats = await VotingManager.getVotingStats(effectivePostId, chapterId);
-          if (stats) {
-            await RealtimeManager.broadcastChapterTransition(
-              effectivePostId,
-              result.newChapter,
-              stats.winningChoice,
-              stats
-            );
-          }
-        }
+    if (forceChoice) {
+      const { AdminManager } = await import('./core/admin-manager.js');
+      const admin = await AdminManager.authorize('advance');
 
-        // If story has ended, broadcast ending
-        if (result.hasEnded && result.ending) {
-          await RealtimeManager.broadcastMessage(effectivePostId, {
-            type: 'story_ended',
-            timestamp: new Date(),
-            data: {
-              ending: result.ending,
-              chapterId,
-            },
-          });
-        }
+      // Recorded in the admin log as a forced advance_story
+      const result = await AdminManager.advanceStory(
+        postId,
+        admin.username,
+        forceChoice,
+        reason || 'Forced via story advance'
+      );
 
-        ErrorLogger.logInfo('Story advanced successfully', {
-          postId: effectivePostId,
-          chapterId,
-          newChapter: result.newChapter?.id,
-          hasEnded: result.hasEnded,
+      if (!result.success) {
+        res.status(400).json({
+          success: false,
+          error: result.error || 'Failed to advance story',
         });
+        return;
+      }
 
-        res.json({
-          success: true,
-          data: {
-            newChapter: result.newChapter,
-            hasEnded: result.hasEnded,
-            ending: result.ending,
-          },
+      res.json({
+        success: true,
+        data: {
+          newChapter: result.newChapter ?? null,
+          hasEnded: result.hasEnded ?? false,
+          ending: result.ending,
+        },
+      });
+      return;
+    }
+
+    // Otherwise the vote decides, and only once the round has expired
+    const { VotingScheduler } = await import('./core/voting-scheduler.js');
+
+    try {
+      const result = await VotingScheduler.closeRound(postId, chapterId);
+
+      if (!result.closed) {
+        res.status(409).json({
+          success: false,
+          error: result.reason,
         });
-      } else {
+        return;
+      }
+
+      if (!result.newChapterId && !result.hasEnded) {
         ErrorLogger.logWarning('Story advancement failed', {
-          postId: effectivePostId,
+          postId,
           chapterId,
-          error: result.error,
+          error: result.reason,
         });
 
         res.status(400).json({
           success: false,
-          error: result.error || 'Failed to advance story',
+          error: result.reason,
         });
+        return;
       }
+
+      const newChapter = result.newChapterId
+        ? await StoryStateManager.getCurrentChapter(postId)
+        : null;
+
+      ErrorLogger.logInfo('Story advanced successfully', {
+        postId,
+        chapterId,
+        newChapter: result.newChapterId,
+        hasEnded: result.hasEnded,
+      });
+
+      res.json({
+        success: true,
+        data: {
+          newChapter,
+          hasEnded: result.hasEnded ?? false,
+          ending: result.ending,
+        },
+      });
     } catch (error) {
       console.error('Error advancing story:', error);
       res.status(500).json({
@@ -1703,6 +2850,79 @@ router.get('/api/debug', (_req, res) => {
   });
 });
 
+// Scheduled job: close an expired voting round and advance the story
+router.post(
+  '/internal/scheduler/close-voting-round',
+  asyncHandler(async (req, res): Promise<void> => {
+    const { postId, chapterId } = (req.body?.data ?? {}) as {
+      postId?: string;
+      chapterId?: string;
+    };
+
+    if (!postId || !chapterId) {
+      ErrorLogger.logWarning('Voting round job is missing postId or chapterId', {
+        data: req.body?.data,
+      });
+      res.json({});
+      return;
+    }
+
+    const { VotingScheduler } = await import('./core/voting-scheduler.js');
+    const result = await VotingScheduler.closeRound(postId, chapterId);
+
+    console.log(`Voting round job for ${postId}/${chapterId}: ${result.reason}`);
+
+    res.json({});
+  })
+);
+
+// Scheduled job: resolve an ended chain story round
+router.post(
+  '/internal/scheduler/resolve-chain-round',
+  asyncHandler(async (req, res): Promise<void> => {
+    const { postId, roundNumber } = (req.body?.data ?? {}) as {
+      postId?: string;
+      roundNumber?: number;
+    };
+
+    if (!postId || typeof roundNumber !== 'number') {
+      ErrorLogger.logWarning('Chain round job is missing postId or roundNumber', {
+        data: req.body?.data,
+      });
+      res.json({});
+      return;
+    }
+
+    const { ChainStoryManager } = await import('./core/chain-story-manager.js');
+    const result = await ChainStoryManager.resolveRound(postId, roundNumber);
+
+    console.log(`Chain round job for ${postId}/round ${roundNumber}: ${result.reason}`);
+
+    res.json({});
+  })
+);
+
+// Scheduled job: retry a post flair and preview update that Reddit rate limited
+router.post(
+  '/internal/scheduler/refresh-post-status',
+  asyncHandler(async (req, res): Promise<void> => {
+    const { postId } = (req.body?.data ?? {}) as { postId?: string };
+
+    if (!postId) {
+      ErrorLogger.logWarning('Post status job is missing postId', { data: req.body?.data });
+      res.json({});
+      return;
+    }
+
+    const { PostStatusManager } = await import('./core/post-status-manager.js');
+    const refreshed = await PostStatusManager.refreshStatus(postId);
+
+    console.log(`Post status job for ${postId}: ${refreshed ? 'applied' : 'not applied'}`);
+
+    res.json({});
+  })
+);
+
 // App installation handler
 router.post(
   '/internal/on-app-install',
@@ -1716,23 +2936,102 @@ router.post(
   })
 );
 
-// Menu action for creating posts
+// Menu action for creating posts: asks the moderator for the post's story settings first
 router.post('/internal/menu/post-create', async (_req, res): Promise<void> => {
   try {
-    const post = await createPost();
+    const { StoryPackManager } = await import('./core/story-pack-manager.js');
+    const packs = await StoryPackManager.listPacks();
 
-    res.json({
-      navigateTo: `https://reddit.com/r/${context.subredditName}/comments/${post.id}`,
-    });
+    const response: UiResponse = {
+      showForm: {
+        name: CREATE_POST_FORM_NAME,
+        form: buildCreatePostForm(packs),
+      },
+    };
+    res.json(response);
   } catch (error) {
-    console.error(`Error creating post: ${error}`);
+    console.error(`Error building post creation form: ${error}`);
     res.status(400).json({
       status: 'error',
-      message: 'Failed to create post',
+      message: 'Failed to open post creation form',
     });
   }
 });
 
+// Form submission for creating posts with per-post story settings
+router.post(
+  '/internal/form/create-story-post',
+  asyncHandler(async (req, res): Promise<void> => {
+    const {
+      storyMode,
+      storyPack,
+      votingDurationMinutes,
+      maxChapters,
+      moderationStrictness,
+      votingMethod,
+      recapComments,
+      lockVotes,
+      autoHideReportThreshold,
+    } = req.body || {};
+
+    const config: Partial<PostConfig> = {
+      storyMode: (Array.isArray(storyMode) ? storyMode[0] : storyMode) as StoryMode,
+      votingDurationMinutes: Number(votingDurationMinutes),
+      maxChapters: Number(maxChapters),
+      moderationStrictness: (Array.isArray(moderationStrictness)
+        ? moderationStrictness[0]
+        : moderationStrictness) as ModerationStrictness,
+      votingMethod: (Array.isArray(votingMethod) ? votingMethod[0] : votingMethod) as VotingMethod,
+      recapComments: recapComments !== false,
+      lockVotes: lockVotes === true,
+      autoHideReportThreshold: Number(autoHideReportThreshold),
+    };
+
+    const validation = PostConfigValidator.validate(config);
+    if (!validation.isValid) {
+      const response: UiResponse = { showToast: validation.errors.join('; ') };
+      res.json(response);
+      return;
+    }
+
+    const packValue = String((Array.isArray(storyPack) ? storyPack[0] : storyPack) || '');
+    const [packId, packVersion] = packValue.split('@');
+
+    const { StoryPackManager } = await import('./core/story-pack-manager.js');
+    const { PostConfigManager } = await import('./core/post-config-manager.js');
+
+    const pack = packId ? await StoryPackManager.getPack(packId, packVersion) : null;
+    if (!pack) {
+      const response: UiResponse = { showToast: `Story pack "${packValue}" not found` };
+      res.json(response);
+      return;
+    }
+
+    const post = await createPost(StoryPackValidator.summarize(pack), config.storyMode);
+    await StoryPackManager.setPackForPost(post.id, pack.id, pack.version);
+    await PostConfigManager.setConfig(post.id, config);
+
+    ErrorLogger.logInfo('Story post created', {
+      postId: post.id,
+      packId: pack.id,
+      packVersion: pack.version,
+      ...config,
+    });
+
+    const response: UiResponse = {
+      navigateTo: `https://reddit.com/r/${context.subredditName}/comments/${post.id}`,
+      showToast: {
+        text:
+          config.storyMode === 'chain'
+            ? 'Created chain story post'
+            : `Created "${pack.title}" story post`,
+        appearance: 'success',
+      },
+    };
+    res.json(response);
+  })
+);
+
 // Use router middleware
 app.use(router);
 
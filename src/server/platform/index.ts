@@ -0,0 +1,172 @@
+/**
+ * Platform services for The Haunted Thread
+ * The server reaches Redis, the Reddit API, realtime and the scheduler through the handles
+ * exported here. They forward to Devvit by default; tests install in-memory services instead.
+ */
+
+import {
+  context as devvitContext,
+  realtime as devvitRealtime,
+  reddit as devvitReddit,
+  redis as devvitRedis,
+  scheduler as devvitScheduler,
+} from '@devvit/web/server';
+import type {
+  Context,
+  GetCommentsOptions,
+  ModeratorPermission,
+  ScheduledCronJobOptions,
+  ScheduledJobOptions,
+  SetOptions,
+  SetPostFlairOptions,
+  SubmitCustomPostOptions,
+  SubmitCustomPostSplashOptions,
+  SubmitPostOptions,
+  SubredditOptions,
+} from '@devvit/web/server';
+
+/**
+ * A WATCHed connection. Commands issued after multi() are queued until exec().
+ */
+export interface RedisTransaction {
+  multi(): Promise<void>;
+  exec(): Promise<unknown[]>;
+  discard(): Promise<void>;
+  unwatch(): Promise<unknown>;
+  set(key: string, value: string): Promise<unknown>;
+  del(...keys: string[]): Promise<unknown>;
+  incrBy(key: string, value: number): Promise<unknown>;
+  expire(key: string, seconds: number): Promise<unknown>;
+  hSet(key: string, fieldValues: Record<string, string>): Promise<unknown>;
+  hDel(key: string, fields: string[]): Promise<unknown>;
+  hIncrBy(key: string, field: string, value: number): Promise<unknown>;
+}
+
+/**
+ * The Redis commands the server uses
+ */
+export interface RedisStore {
+  get(key: string): Promise<string | undefined>;
+  set(key: string, value: string, options?: SetOptions): Promise<string>;
+  exists(...keys: string[]): Promise<number>;
+  del(...keys: string[]): Promise<void>;
+  incrBy(key: string, value: number): Promise<number>;
+  expire(key: string, seconds: number): Promise<void>;
+  hGet(key: string, field: string): Promise<string | undefined>;
+  hGetAll(key: string): Promise<Record<string, string>>;
+  hSet(key: string, fieldValues: Record<string, string>): Promise<number>;
+  hSetNX(key: string, field: string, value: string): Promise<number>;
+  hDel(key: string, fields: string[]): Promise<number>;
+  hIncrBy(key: string, field: string, value: number): Promise<number>;
+  watch(...keys: string[]): Promise<RedisTransaction>;
+}
+
+export interface RedditUser {
+  username: string;
+  linkKarma: number;
+  commentKarma: number;
+  getModPermissionsForSubreddit(subredditName: string): Promise<ModeratorPermission[]>;
+}
+
+export interface RedditPost {
+  id: string;
+  url: string;
+  setSplash(splash: SubmitCustomPostSplashOptions): Promise<void>;
+}
+
+export interface RedditComment {
+  id: string;
+  body: string;
+  score: number;
+  authorName: string;
+  createdAt: Date;
+  edit(options: { text: string }): Promise<unknown>;
+  distinguish(makeSticky?: boolean): Promise<void>;
+}
+
+/**
+ * The Reddit API calls the server makes
+ */
+export interface RedditGateway {
+  getCurrentUsername(): Promise<string | undefined>;
+  getCurrentUser(): Promise<RedditUser | undefined>;
+  getPostById(id: `t3_${string}`): Promise<RedditPost>;
+  getCommentById(id: `t1_${string}`): Promise<RedditComment>;
+  getComments(options: GetCommentsOptions): { all(): Promise<RedditComment[]> };
+  submitComment(options: {
+    id: `t1_${string}` | `t3_${string}`;
+    text: string;
+  }): Promise<RedditComment>;
+  submitPost(options: SubredditOptions & SubmitPostOptions): Promise<RedditPost>;
+  submitCustomPost(options: SubredditOptions & SubmitCustomPostOptions): Promise<RedditPost>;
+  setPostFlair(options: SetPostFlairOptions): Promise<void>;
+}
+
+export interface RealtimeGateway {
+  send(channel: string, message: Parameters<typeof devvitRealtime.send>[1]): Promise<void>;
+}
+
+export interface SchedulerGateway {
+  runJob(job: ScheduledJobOptions | ScheduledCronJobOptions): Promise<string>;
+  cancelJob(jobId: string): Promise<void>;
+}
+
+/**
+ * The parts of the request context the server reads
+ */
+export type PlatformContext = Pick<Context, 'postId' | 'subredditName' | 'userId'>;
+
+export interface Platform {
+  redis: RedisStore;
+  reddit: RedditGateway;
+  realtime: RealtimeGateway;
+  scheduler: SchedulerGateway;
+  context: PlatformContext;
+}
+
+export class PlatformServices {
+  private static readonly devvit: Platform = {
+    redis: devvitRedis,
+    reddit: devvitReddit,
+    realtime: devvitRealtime,
+    scheduler: devvitScheduler,
+    context: devvitContext,
+  };
+
+  private static current: Platform = PlatformServices.devvit;
+
+  /**
+   * Replaces some or all services; the rest stay on Devvit
+   */
+  static use(services: Partial<Platform>): void {
+    this.current = { ...this.devvit, ...services };
+  }
+
+  /**
+   * Goes back to Devvit's services
+   */
+  static reset(): void {
+    this.current = this.devvit;
+  }
+
+  static get<K extends keyof Platform>(service: K): Platform[K] {
+    return this.current[service];
+  }
+}
+
+// Looks the service up on every access, so modules can import a handle once at load time
+// and still reach whatever is installed when they run
+const forward = <K extends keyof Platform>(service: K): Platform[K] =>
+  new Proxy({} as Platform[K], {
+    get: (_, property) => {
+      const target = PlatformServices.get(service);
+      const value: unknown = Reflect.get(target, property);
+      return typeof value === 'function' ? value.bind(target) : value;
+    },
+  });
+
+export const redis = forward('redis');
+export const reddit = forward('reddit');
+export const realtime = forward('realtime');
+export const scheduler = forward('scheduler');
+export const context = forward('context');
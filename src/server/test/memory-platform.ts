@@ -0,0 +1,74 @@
+/**
+ * In-memory platform for server tests
+ * Bundles the in-memory Redis and Reddit with a realtime that records what was sent and a
+ * scheduler that records jobs instead of running them
+ */
+
+import type { ScheduledCronJobOptions, ScheduledJobOptions } from '@devvit/web/server';
+import type { Platform, PlatformContext, RealtimeGateway, SchedulerGateway } from '../platform';
+import { PlatformServices } from '../platform';
+import { MemoryRedis } from './memory-redis';
+import { MemoryReddit } from './memory-reddit';
+
+export class MemoryRealtime implements RealtimeGateway {
+  readonly sent: Array<{ channel: string; message: unknown }> = [];
+
+  async send(channel: string, message: unknown): Promise<void> {
+    this.sent.push({ channel, message });
+  }
+
+  /** Messages sent to a channel, oldest first */
+  messages(channel: string): unknown[] {
+    return this.sent.filter((entry) => entry.channel === channel).map((entry) => entry.message);
+  }
+}
+
+export class MemoryScheduler implements SchedulerGateway {
+  readonly jobs = new Map<string, ScheduledJobOptions | ScheduledCronJobOptions>();
+  private nextId = 1;
+
+  async runJob(job: ScheduledJobOptions | ScheduledCronJobOptions): Promise<string> {
+    const jobId = `job_${this.nextId++}`;
+    this.jobs.set(jobId, job);
+    return jobId;
+  }
+
+  async cancelJob(jobId: string): Promise<void> {
+    this.jobs.delete(jobId);
+  }
+
+  /** Scheduled jobs with the given name */
+  jobsNamed(name: string): ScheduledJobOptions[] {
+    return [...this.jobs.values()].filter(
+      (job): job is ScheduledJobOptions => job.name === name && 'runAt' in job
+    );
+  }
+}
+
+export interface MemoryPlatform extends Platform {
+  redis: MemoryRedis;
+  reddit: MemoryReddit;
+  realtime: MemoryRealtime;
+  scheduler: MemoryScheduler;
+  context: { -readonly [K in keyof PlatformContext]: PlatformContext[K] };
+}
+
+/**
+ * Fresh, empty services; install them with PlatformServices.use()
+ */
+export const createMemoryPlatform = (subredditName = 'HauntedThreadTest'): MemoryPlatform => ({
+  redis: new MemoryRedis(),
+  reddit: new MemoryReddit(),
+  realtime: new MemoryRealtime(),
+  scheduler: new MemoryScheduler(),
+  context: { subredditName, postId: undefined, userId: undefined },
+});
+
+/**
+ * Creates fresh in-memory services and installs them in place of Devvit's
+ */
+export const installMemoryPlatform = (subredditName?: string): MemoryPlatform => {
+  const platform = createMemoryPlatform(subredditName);
+  PlatformServices.use(platform);
+  return platform;
+};
@@ -0,0 +1,155 @@
+/**
+ * In-memory Reddit API for server tests
+ * Keeps posts, comments and flair in maps and lets a test choose who is signed in and who
+ * moderates the subreddit
+ */
+
+import type {
+  GetCommentsOptions,
+  ModeratorPermission,
+  SetPostFlairOptions,
+  SubmitCustomPostOptions,
+  SubmitCustomPostSplashOptions,
+  SubmitPostOptions,
+  SubredditOptions,
+} from '@devvit/web/server';
+import type { RedditComment, RedditGateway, RedditPost, RedditUser } from '../platform';
+
+export class MemoryRedditPost implements RedditPost {
+  splash: SubmitCustomPostSplashOptions | undefined;
+
+  constructor(
+    readonly id: `t3_${string}`,
+    readonly subredditName: string,
+    readonly title: string
+  ) {}
+
+  get url(): string {
+    return `https://reddit.com/r/${this.subredditName}/comments/${this.id.slice(3)}`;
+  }
+
+  async setSplash(splash: SubmitCustomPostSplashOptions): Promise<void> {
+    this.splash = splash;
+  }
+}
+
+export class MemoryRedditComment implements RedditComment {
+  score = 1;
+  distinguished = false;
+  stickied = false;
+  readonly createdAt = new Date();
+
+  constructor(
+    readonly id: `t1_${string}`,
+    readonly parentId: string,
+    readonly authorName: string,
+    public body: string
+  ) {}
+
+  async edit(options: { text: string }): Promise<this> {
+    this.body = options.text;
+    return this;
+  }
+
+  async distinguish(makeSticky = false): Promise<void> {
+    this.distinguished = true;
+    this.stickied = makeSticky;
+  }
+}
+
+export class MemoryReddit implements RedditGateway {
+  readonly posts = new Map<string, MemoryRedditPost>();
+  readonly comments = new Map<string, MemoryRedditComment>();
+  readonly flair = new Map<string, SetPostFlairOptions>();
+
+  /** Signed-in user, or undefined when logged out */
+  currentUsername: string | undefined = 'test_player';
+  /** Moderator permissions by username */
+  readonly moderators = new Map<string, ModeratorPermission[]>();
+  /** Combined link and comment karma by username */
+  readonly karma = new Map<string, number>();
+
+  /** Name the app account posts and comments under */
+  appUsername = 'haunted-thread';
+
+  private nextId = 1;
+
+  /** Makes a user a moderator of every subreddit */
+  addModerator(username: string, permissions: ModeratorPermission[] = ['all']): void {
+    this.moderators.set(username, permissions);
+  }
+
+  async getCurrentUsername(): Promise<string | undefined> {
+    return this.currentUsername;
+  }
+
+  async getCurrentUser(): Promise<RedditUser | undefined> {
+    const username = this.currentUsername;
+    if (!username) return undefined;
+
+    return {
+      username,
+      linkKarma: this.karma.get(username) ?? 0,
+      commentKarma: 0,
+      getModPermissionsForSubreddit: async () => this.moderators.get(username) ?? [],
+    };
+  }
+
+  async getPostById(id: `t3_${string}`): Promise<MemoryRedditPost> {
+    const post = this.posts.get(id);
+    if (!post) throw new Error(`404 post ${id} not found`);
+    return post;
+  }
+
+  async getCommentById(id: `t1_${string}`): Promise<MemoryRedditComment> {
+    const comment = this.comments.get(id);
+    if (!comment) throw new Error(`404 comment ${id} not found`);
+    return comment;
+  }
+
+  getComments(options: GetCommentsOptions): { all(): Promise<MemoryRedditComment[]> } {
+    return {
+      all: async () =>
+        [...this.comments.values()]
+          .filter((comment) => comment.parentId === options.postId)
+          .reverse()
+          .slice(0, options.limit ?? 100),
+    };
+  }
+
+  async submitComment(options: {
+    id: `t1_${string}` | `t3_${string}`;
+    text: string;
+  }): Promise<MemoryRedditComment> {
+    const comment = new MemoryRedditComment(
+      `t1_${this.nextId++}`,
+      options.id,
+      this.appUsername,
+      options.text
+    );
+    this.comments.set(comment.id, comment);
+    return comment;
+  }
+
+  async submitPost(options: SubredditOptions & SubmitPostOptions): Promise<MemoryRedditPost> {
+    return this.createPost(options.subredditName, options.title);
+  }
+
+  async submitCustomPost(
+    options: SubredditOptions & SubmitCustomPostOptions
+  ): Promise<MemoryRedditPost> {
+    const post = this.createPost(options.subredditName, options.title);
+    post.splash = options.splash;
+    return post;
+  }
+
+  async setPostFlair(options: SetPostFlairOptions): Promise<void> {
+    this.flair.set(options.postId, options);
+  }
+
+  private createPost(subredditName: string, title: string): MemoryRedditPost {
+    const post = new MemoryRedditPost(`t3_${this.nextId++}`, subredditName, title);
+    this.posts.set(post.id, post);
+    return post;
+  }
+}
@@ -0,0 +1,309 @@
+/**
+ * In-memory Redis for server tests
+ * Covers the string and hash commands the managers use, TTLs and WATCH/MULTI/EXEC. Every command
+ * yields to the event loop first, so concurrent callers interleave the way separate requests do.
+ */
+
+import type { SetOptions } from '@devvit/web/server';
+import type { RedisStore, RedisTransaction } from '../platform';
+
+type StoredValue = string | Map<string, string>;
+
+// Fails EXEC the way the Redis client does when a watched key changed
+export class TransactionConflictError extends Error {
+  constructor() {
+    super('redis: transaction failed');
+    this.name = 'TransactionConflictError';
+  }
+}
+
+const tick = () => new Promise<void>((resolve) => setImmediate(resolve));
+
+export class MemoryRedis implements RedisStore {
+  private readonly values = new Map<string, StoredValue>();
+  private readonly expiries = new Map<string, number>();
+  // Bumped on every write; WATCH compares versions at EXEC time
+  private readonly versions = new Map<string, number>();
+  private writes = 0;
+
+  /** Number of transactions EXEC rejected because a watched key changed */
+  conflicts = 0;
+
+  async watch(...keys: string[]): Promise<MemoryTransaction> {
+    await tick();
+    return new MemoryTransaction(this, keys);
+  }
+
+  async get(key: string): Promise<string | undefined> {
+    await tick();
+    return this.readString(key);
+  }
+
+  async set(key: string, value: string, options?: SetOptions): Promise<string> {
+    await tick();
+    const exists = this.read(key) !== undefined;
+    if ((options?.nx && exists) || (options?.xx && !exists)) return '';
+
+    this.setNow(key, value);
+    if (options?.expiration) this.expireAt(key, options.expiration.getTime());
+    return 'OK';
+  }
+
+  async exists(...keys: string[]): Promise<number> {
+    await tick();
+    return keys.filter((key) => this.read(key) !== undefined).length;
+  }
+
+  async del(...keys: string[]): Promise<void> {
+    await tick();
+    this.delNow(keys);
+  }
+
+  async incrBy(key: string, value: number): Promise<number> {
+    await tick();
+    return this.incrByNow(key, value);
+  }
+
+  async expire(key: string, seconds: number): Promise<void> {
+    await tick();
+    this.expireNow(key, seconds);
+  }
+
+  async hGet(key: string, field: string): Promise<string | undefined> {
+    await tick();
+    return this.readHash(key)?.get(field);
+  }
+
+  async hGetAll(key: string): Promise<Record<string, string>> {
+    await tick();
+    return Object.fromEntries(this.readHash(key) ?? []);
+  }
+
+  async hSet(key: string, fieldValues: Record<string, string>): Promise<number> {
+    await tick();
+    return this.hSetNow(key, fieldValues);
+  }
+
+  async hSetNX(key: string, field: string, value: string): Promise<number> {
+    await tick();
+    if (this.readHash(key)?.has(field)) return 0;
+    return this.hSetNow(key, { [field]: value });
+  }
+
+  async hDel(key: string, fields: string[]): Promise<number> {
+    await tick();
+    return this.hDelNow(key, fields);
+  }
+
+  async hIncrBy(key: string, field: string, value: number): Promise<number> {
+    await tick();
+    return this.hIncrByNow(key, field, value);
+  }
+
+  /** Current version of a key, for WATCH */
+  version(key: string): number {
+    this.read(key);
+    return this.versions.get(key) ?? 0;
+  }
+
+  // The *Now methods apply a command synchronously; EXEC runs its queue through them
+
+  setNow(key: string, value: string): string {
+    this.values.set(key, value);
+    this.expiries.delete(key);
+    this.touch(key);
+    return 'OK';
+  }
+
+  delNow(keys: string[]): number {
+    let removed = 0;
+    for (const key of keys) {
+      if (this.read(key) !== undefined) removed++;
+      this.values.delete(key);
+      this.expiries.delete(key);
+      this.touch(key);
+    }
+    return removed;
+  }
+
+  incrByNow(key: string, value: number): number {
+    const current = parseInt(this.readString(key) ?? '0');
+    if (Number.isNaN(current)) throw new Error('ERR value is not an integer or out of range');
+
+    const next = current + value;
+    this.values.set(key, String(next));
+    this.touch(key);
+    return next;
+  }
+
+  expireNow(key: string, seconds: number): number {
+    if (this.read(key) === undefined) return 0;
+    this.expireAt(key, Date.now() + seconds * 1000);
+    return 1;
+  }
+
+  hSetNow(key: string, fieldValues: Record<string, string>): number {
+    const hash = this.writableHash(key);
+    let added = 0;
+    for (const [field, value] of Object.entries(fieldValues)) {
+      if (!hash.has(field)) added++;
+      hash.set(field, value);
+    }
+    this.touch(key);
+    return added;
+  }
+
+  hDelNow(key: string, fields: string[]): number {
+    const hash = this.readHash(key);
+    if (!hash) return 0;
+
+    const removed = fields.filter((field) => hash.delete(field)).length;
+    if (hash.size === 0) this.values.delete(key);
+    this.touch(key);
+    return removed;
+  }
+
+  hIncrByNow(key: string, field: string, value: number): number {
+    const hash = this.writableHash(key);
+    const next = parseInt(hash.get(field) ?? '0') + value;
+    hash.set(field, String(next));
+    this.touch(key);
+    return next;
+  }
+
+  private read(key: string): StoredValue | undefined {
+    const expiresAt = this.expiries.get(key);
+    if (expiresAt !== undefined && expiresAt <= Date.now()) {
+      this.values.delete(key);
+      this.expiries.delete(key);
+      this.touch(key);
+    }
+    return this.values.get(key);
+  }
+
+  private readString(key: string): string | undefined {
+    const value = this.read(key);
+    if (value instanceof Map) throw new Error('WRONGTYPE Operation against a key holding a hash');
+    return value;
+  }
+
+  private readHash(key: string): Map<string, string> | undefined {
+    const value = this.read(key);
+    if (typeof value === 'string') {
+      throw new Error('WRONGTYPE Operation against a key holding a string');
+    }
+    return value;
+  }
+
+  private writableHash(key: string): Map<string, string> {
+    const existing = this.readHash(key);
+    if (existing) return existing;
+
+    const hash = new Map<string, string>();
+    this.values.set(key, hash);
+    return hash;
+  }
+
+  private expireAt(key: string, timestamp: number): void {
+    this.expiries.set(key, timestamp);
+    this.touch(key);
+  }
+
+  private touch(key: string): void {
+    this.versions.set(key, ++this.writes);
+  }
+}
+
+type QueuedCommand = () => unknown;
+
+export class MemoryTransaction implements RedisTransaction {
+  private readonly watched = new Map<string, number>();
+  private queue: QueuedCommand[] | null = null;
+
+  constructor(
+    private readonly store: MemoryRedis,
+    keys: string[]
+  ) {
+    this.watchNow(keys);
+  }
+
+  async watch(...keys: string[]): Promise<this> {
+    await tick();
+    this.watchNow(keys);
+    return this;
+  }
+
+  async unwatch(): Promise<this> {
+    await tick();
+    this.watched.clear();
+    return this;
+  }
+
+  async multi(): Promise<void> {
+    await tick();
+    this.queue = [];
+  }
+
+  async discard(): Promise<void> {
+    await tick();
+    this.queue = null;
+    this.watched.clear();
+  }
+
+  async exec(): Promise<unknown[]> {
+    await tick();
+    const queue = this.queue;
+    if (!queue) throw new Error('ERR EXEC without MULTI');
+
+    const changed = [...this.watched].some(([key, version]) => this.store.version(key) !== version);
+    this.queue = null;
+    this.watched.clear();
+
+    if (changed) {
+      this.store.conflicts++;
+      throw new TransactionConflictError();
+    }
+
+    // Nothing awaits in between, so no other caller can run while the queue is applied
+    return queue.map((command) => command());
+  }
+
+  async set(key: string, value: string): Promise<this> {
+    return this.enqueue(() => this.store.setNow(key, value));
+  }
+
+  async del(...keys: string[]): Promise<this> {
+    return this.enqueue(() => this.store.delNow(keys));
+  }
+
+  async incrBy(key: string, value: number): Promise<this> {
+    return this.enqueue(() => this.store.incrByNow(key, value));
+  }
+
+  async expire(key: string, seconds: number): Promise<this> {
+    return this.enqueue(() => this.store.expireNow(key, seconds));
+  }
+
+  async hSet(key: string, fieldValues: Record<string, string>): Promise<this> {
+    return this.enqueue(() => this.store.hSetNow(key, fieldValues));
+  }
+
+  async hDel(key: string, fields: string[]): Promise<this> {
+    return this.enqueue(() => this.store.hDelNow(key, fields));
+  }
+
+  async hIncrBy(key: string, field: string, value: number): Promise<this> {
+    return this.enqueue(() => this.store.hIncrByNow(key, field, value));
+  }
+
+  private watchNow(keys: string[]): void {
+    keys.forEach((key) => this.watched.set(key, this.store.version(key)));
+  }
+
+  private async enqueue(command: QueuedCommand): Promise<this> {
+    await tick();
+    if (!this.queue) throw new Error('Commands outside MULTI are not supported in memory');
+    this.queue.push(command);
+    return this;
+  }
+}
@@ -0,0 +1,66 @@
+/**
+ * Story fixtures for server tests
+ * Sets up a created post on the in-memory platform and starts its story on the opening chapter
+ */
+
+import { vi } from 'vitest';
+import { PlatformServices } from '../platform';
+import { RedisOptimizer } from '../utils/redis-optimizer';
+import { StoryProgressionEngine } from '../core/story-progression-engine.js';
+import { StoryStateManager } from '../core/story-state-manager.js';
+import { VotingManager } from '../core/voting-manager.js';
+import { createPost } from '../core/post.js';
+import { StoryChapter } from '../../shared/types/story.js';
+import { VotingSession } from '../../shared/types/voting.js';
+import { installMemoryPlatform, MemoryPlatform } from './memory-platform';
+
+/**
+ * Installs fresh in-memory services and creates the post the test plays on
+ */
+export const installMemoryPost = async (): Promise<{
+  platform: MemoryPlatform;
+  postId: string;
+}> => {
+  const platform = installMemoryPlatform();
+  const postId = (await createPost()).id;
+  return { platform, postId };
+};
+
+/**
+ * Undoes installMemoryPost, along with any spies and cached reads the test left behind
+ */
+export const resetMemoryPlatform = (): void => {
+  vi.restoreAllMocks();
+  PlatformServices.reset();
+  RedisOptimizer.clearAllCaches();
+};
+
+/**
+ * Puts the post's story on its opening chapter without opening a round
+ */
+export const openStory = async (postId: string): Promise<StoryChapter> => {
+  const chapter = await new StoryProgressionEngine().getInitialChapterForPost(postId);
+  await StoryStateManager.initializeStory(postId, chapter);
+  return chapter;
+};
+
+/**
+ * Opens the story and the opening chapter's voting round
+ */
+export const startRound = async (
+  postId: string
+): Promise<{ chapter: StoryChapter; session: VotingSession }> => {
+  const chapter = await openStory(postId);
+  const session = await VotingManager.createVotingSession(
+    postId,
+    chapter.id,
+    chapter.choices.map((choice) => ({ choiceId: choice.id, text: choice.text }))
+  );
+  return { chapter, session };
+};
+
+/**
+ * Opens the story and its first round, returning the opening chapter
+ */
+export const startStory = async (postId: string): Promise<StoryChapter> =>
+  (await startRound(postId)).chapter;
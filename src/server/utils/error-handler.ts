@@ -1,5 +1,5 @@
 import { Request, Response, NextFunction } from 'express';
-import { context } from '@devvit/web/server';
+import { context } from '../platform';
 import { RedditErrorHandler } from './reddit-error-handler';
 
 // Custom error types
@@ -46,6 +46,12 @@ export class AuthenticationError extends ApiError {
   }
 }
 
+export class AuthorizationError extends ApiError {
+  constructor(message: string = 'You do not have permission to do that') {
+    super(message, 403, 'AUTHORIZATION_ERROR', true);
+  }
+}
+
 export class RateLimitError extends ApiError {
   constructor(message: string = 'Rate limit exceeded') {
     super(message, 429, 'RATE_LIMIT_ERROR', true);
@@ -66,6 +72,12 @@ export class RedditApiError extends ApiError {
   }
 }
 
+export class StoryPackError extends ApiError {
+  constructor(message: string, packId?: string, version?: string) {
+    super(message, 422, 'STORY_PACK_ERROR', true, { packId, version });
+  }
+}
+
 // Error logging utility
 export class ErrorLogger {
   private static formatError(error: Error, req?: Request): Record<string, any> {
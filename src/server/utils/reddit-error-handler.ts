@@ -1,6 +1,21 @@
-import { reddit, context } from '@devvit/web/server';
+import { reddit, context } from '../platform';
+import type { SubmitCustomPostSplashOptions } from '@devvit/web/server';
 import { RedditApiError, ErrorLogger, ErrorRecovery } from './error-handler';
 
+interface CommentFetchOptions {
+  limit?: number;
+  sort?: 'new' | 'top' | 'hot';
+  timeFilter?: 'hour' | 'day' | 'week' | 'month' | 'year' | 'all';
+}
+
+interface FetchedComment {
+  id: string;
+  body: string;
+  score: number;
+  authorName: string;
+  createdAt: string;
+}
+
 // Reddit API operation wrapper with error handling and retry logic
 export class RedditErrorHandler {
   private static readonly MAX_RETRIES = 2; // Lower retries for Reddit API due to rate limits
@@ -105,46 +120,47 @@ export class RedditErrorHandler {
     return { ...result, fallbackUsed };
   }
 
+  // Comment fetching with retries; throws when Reddit stays unavailable
+  static async getComments(
+    postId: string,
+    options: CommentFetchOptions = {}
+  ): Promise<FetchedComment[]> {
+    return this.withErrorHandling(() => this.fetchComments(postId, options), 'GET_COMMENTS');
+  }
+
   // Safe comment fetching with pagination and error handling
   static async safeGetComments(
     postId: string,
-    options: {
-      limit?: number;
-      sort?: 'new' | 'top' | 'hot';
-      timeFilter?: 'hour' | 'day' | 'week' | 'month' | 'year' | 'all';
-    } = {}
-  ): Promise<
-    Array<{
-      id: string;
-      body: string;
-      score: number;
-      authorName: string;
-      createdAt: string;
-    }>
-  > {
+    options: CommentFetchOptions = {}
+  ): Promise<FetchedComment[]> {
     return this.withErrorHandling(
-      async () => {
-        const comments = await reddit
-          .getComments({
-            postId: postId as any,
-            limit: options.limit || 100,
-            sort: (options.sort || 'new') as any,
-          })
-          .all();
-
-        return comments.map((comment) => ({
-          id: comment.id,
-          body: comment.body || '',
-          score: comment.score,
-          authorName: comment.authorName || 'anonymous',
-          createdAt: comment.createdAt.toISOString(),
-        }));
-      },
+      () => this.fetchComments(postId, options),
       'GET_COMMENTS',
       [] // Return empty array as fallback
     );
   }
 
+  private static async fetchComments(
+    postId: string,
+    options: CommentFetchOptions
+  ): Promise<FetchedComment[]> {
+    const comments = await reddit
+      .getComments({
+        postId: postId as any,
+        limit: options.limit || 100,
+        sort: (options.sort || 'new') as any,
+      })
+      .all();
+
+    return comments.map((comment) => ({
+      id: comment.id,
+      body: comment.body || '',
+      score: comment.score,
+      authorName: comment.authorName || 'anonymous',
+      createdAt: comment.createdAt.toISOString(),
+    }));
+  }
+
   // Safe user authentication check
   static async safeGetCurrentUsername(): Promise<string | null> {
     return this.withErrorHandling(
@@ -196,6 +212,38 @@ export class RedditErrorHandler {
     }, 'CREATE_POST');
   }
 
+  // Safe post flair update; needs post flair enabled in the subreddit
+  static async safeSetPostFlair(
+    postId: string,
+    flair: { text: string; backgroundColor?: string; textColor?: 'dark' | 'light' }
+  ): Promise<void> {
+    return this.withErrorHandling(async () => {
+      const { subredditName } = context;
+      if (!subredditName) {
+        throw new Error('No subreddit context available');
+      }
+
+      await reddit.setPostFlair({
+        postId: postId as `t3_${string}`,
+        subredditName,
+        ...flair,
+      });
+    }, 'SET_POST_FLAIR');
+  }
+
+  // Safe update of a custom post's splash, the preview shown before the post is opened
+  static async safeSetSplash(postId: string, splash: SubmitCustomPostSplashOptions): Promise<void> {
+    return this.withErrorHandling(async () => {
+      const post = await reddit.getPostById(postId as `t3_${string}`);
+      await post.setSplash(splash);
+    }, 'SET_SPLASH');
+  }
+
+  // True when an error from these wrappers was caused by Reddit's rate limit
+  static isRateLimited(error: unknown): boolean {
+    return error instanceof RedditApiError && error.statusCode === 429;
+  }
+
   // Safe subreddit information fetching
   static async safeGetSubredditInfo(): Promise<{
     name: string;
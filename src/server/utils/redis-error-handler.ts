@@ -1,4 +1,4 @@
-import { redis } from '@devvit/web/server';
+import { redis, RedisTransaction } from '../platform';
 import { RedisError, ErrorLogger, ErrorRecovery } from './error-handler';
 
 // Redis operation wrapper with error handling and retry logic
@@ -40,6 +40,22 @@ export class RedisErrorHandler {
     }
   }
 
+  /**
+   * Executes a watched transaction; false when a watched key changed and nothing was applied.
+   * Depending on the client an aborted EXEC either rejects or resolves with no replies.
+   */
+  static async commitTransaction(txn: RedisTransaction): Promise<boolean> {
+    try {
+      const replies = await txn.exec();
+      return Array.isArray(replies) && replies.length > 0;
+    } catch (error) {
+      if (error instanceof Error && /transaction (failed|aborted)/i.test(error.message)) {
+        return false;
+      }
+      throw error;
+    }
+  }
+
   // Redis connection health check
   static async checkConnection(): Promise<boolean> {
     try {
@@ -370,6 +370,25 @@ export class RedisOptimizer {
     }
   }
 
+  // Drop one voter's cached status, vote record and the chapter's counts after their vote changes
+  static async invalidateVoteCaches(
+    postId: string,
+    chapterId: string,
+    userId: string
+  ): Promise<void> {
+    const cachedKeys = [
+      `user_vote:${postId}:${chapterId}:${userId}`,
+      `vote_counts:${postId}:${chapterId}`,
+    ];
+    for (const key of cachedKeys) {
+      await RedisErrorHandler.safeDelete(key);
+    }
+
+    [...cachedKeys, `haunted_thread:vote:${postId}:${chapterId}:${userId}`].forEach((key) =>
+      globalCache.delete(`${this.CACHE_PREFIX}${key}`)
+    );
+  }
+
   // Bulk cache invalidation
   static async invalidateCachePattern(pattern: string): Promise<void> {
     // Since we can't use Redis KEYS in Devvit, we'll clear memory cache
@@ -0,0 +1,48 @@
+/**
+ * Moderator roles and permissions for The Haunted Thread admin tools
+ */
+
+/**
+ * view: read stats, logs, reports and the story map
+ * advance / reset: move the story forward or restart it
+ * moderate: flag content and review reports
+ * manage_filters: add custom content filters
+ * manage_packs: upload and select story packs
+ * manage_roles: assign these permissions to other moderators
+ */
+export type AdminPermission =
+  | 'view'
+  | 'advance'
+  | 'reset'
+  | 'moderate'
+  | 'manage_filters'
+  | 'manage_packs'
+  | 'manage_roles';
+
+export const ADMIN_PERMISSIONS: AdminPermission[] = [
+  'view',
+  'advance',
+  'reset',
+  'moderate',
+  'manage_filters',
+  'manage_packs',
+  'manage_roles',
+];
+
+/**
+ * The moderator behind an admin request and what they may do
+ */
+export interface AdminIdentity {
+  username: string;
+  subredditName: string;
+  permissions: AdminPermission[];
+  /** True when the permissions were assigned explicitly rather than derived from Reddit */
+  customRole: boolean;
+}
+
+export interface AdminLogEntry {
+  action: string;
+  username: string;
+  timestamp: Date;
+  details: Record<string, unknown>;
+}
@@ -4,6 +4,46 @@
 
 import { StoryChapter, StoryPath, StoryContext } from './story.js';
 import { VoteResult, VoteCount, UserVoteStatus, VotingStats } from './voting.js';
+import { ChainStory, ChainSentence, ChainSubmission } from './chain-story.js';
+import { PostConfig } from './post-config.js';
+import { StoryMapData } from './story-graph.js';
+import { AdminIdentity, AdminPermission } from './admin.js';
+import { HallOfFamePage } from './hall-of-fame.js';
+import {
+  CustomFilterSummary,
+  FilterMatcher,
+  FilterPreview,
+  FilterScope,
+} from './content-filter.js';
+import {
+  ModerationQueueItem,
+  QueueAction,
+  ReportedContentType,
+  ReporterRecord,
+  ReportStatus,
+} from './moderation-queue.js';
+
+// Bootstrap API Endpoint
+
+/**
+ * Everything the client needs to start a session in the current post
+ */
+export interface BootstrapData {
+  postId: string;
+  subredditName: string | null;
+  /** Null for logged-out viewers */
+  username: string | null;
+  isModerator: boolean;
+  admin?: AdminIdentity;
+  realtimeChannel: string;
+  config: PostConfig;
+}
+
+export interface BootstrapResponse {
+  success: boolean;
+  data?: BootstrapData;
+  error?: string;
+}
 
 // Story API Endpoints
 
@@ -32,7 +72,6 @@ export interface GetStoryHistoryResponse {
 }
 
 export interface ResetStoryRequest {
-  adminKey?: string;
   reason?: string;
 }
 
@@ -46,6 +85,12 @@ export interface ResetStoryResponse {
 export interface CastVoteRequest {
   chapterId: string;
   choiceId: string;
+  /** Full ranking or approval set; choiceId must be its first entry */
+  choiceIds?: string[];
+}
+
+export interface RetractVoteRequest {
+  chapterId: string;
 }
 
 export interface CastVoteResponse {
@@ -68,8 +113,34 @@ export interface GetVoteStatusResponse {
 
 // Administrative API Endpoints
 
+export interface GetAdminIdentityResponse {
+  success: boolean;
+  data?: {
+    isModerator: boolean;
+    identity?: AdminIdentity;
+  };
+  error?: string;
+}
+
+export interface GetAdminRolesResponse {
+  success: boolean;
+  data?: {
+    roles: Record<string, AdminPermission[]>;
+  };
+  error?: string;
+}
+
+export interface SetAdminRoleRequest {
+  username: string;
+  /** Omit to clear the custom role and fall back to the user's Reddit moderator permissions */
+  permissions?: AdminPermission[];
+}
+
+export interface SetRecapCommentsRequest {
+  enabled: boolean;
+}
+
 export interface AdvanceStoryRequest {
-  adminKey: string;
   forceChoice?: string;
   reason?: string;
 }
@@ -100,7 +171,6 @@ export interface GetStoryStatsResponse {
 }
 
 export interface ContentModerationRequest {
-  adminKey: string;
   action: 'flag' | 'remove' | 'approve';
   targetType: 'chapter' | 'choice' | 'story';
   targetId: string;
@@ -118,6 +188,40 @@ export interface ContentModerationResponse {
   error?: string;
 }
 
+export interface GetContentFiltersResponse {
+  success: boolean;
+  data?: {
+    filters: CustomFilterSummary[];
+  };
+  error?: string;
+}
+
+export interface AddContentFilterRequest {
+  pattern: string;
+  /** Defaults to regex */
+  matcher?: FilterMatcher;
+  severity: CustomFilterSummary['severity'];
+  action: CustomFilterSummary['action'];
+  replacement?: string;
+  /** Defaults to all content */
+  scope?: FilterScope;
+  allowedPhrases?: string[];
+}
+
+export interface PreviewContentFilterRequest {
+  pattern: string;
+  matcher: FilterMatcher;
+  action: CustomFilterSummary['action'];
+  replacement?: string;
+  sampleText: string;
+}
+
+export interface PreviewContentFilterResponse {
+  success: boolean;
+  data?: FilterPreview;
+  error?: string;
+}
+
 export interface GetModerationStatsResponse {
   success: boolean;
   data?: {
@@ -135,20 +239,125 @@ export interface GetModerationStatsResponse {
   error?: string;
 }
 
+export interface GetModerationQueueResponse {
+  success: boolean;
+  data?: {
+    items: ModerationQueueItem[];
+  };
+  error?: string;
+}
+
+export interface AssignReportRequest {
+  /** Null returns the report to the queue */
+  assignee: string | null;
+}
+
+export interface AssignReportResponse {
+  success: boolean;
+  data?: ModerationQueueItem;
+  error?: string;
+}
+
+export interface BulkUpdateReportsRequest {
+  reportIds: string[];
+  status: 'resolved' | 'dismissed';
+  moderatorNotes?: string;
+}
+
+export interface BulkUpdateReportsResponse {
+  success: boolean;
+  data?: {
+    updated: string[];
+    failed: Array<{ reportId: string; error: string }>;
+  };
+  error?: string;
+}
+
+export interface QueueActionRequest {
+  action: QueueAction;
+  /** New chapter text for edit_chapter */
+  content?: string;
+  title?: string;
+  moderatorNotes?: string;
+}
+
+export interface QueueActionResponse {
+  success: boolean;
+  data?: {
+    chapter: StoryChapter;
+  };
+  error?: string;
+}
+
+export interface GetFlaggedReportersResponse {
+  success: boolean;
+  data?: {
+    reporters: ReporterRecord[];
+  };
+  error?: string;
+}
+
+// Content Report API Endpoints
+
+export interface ReportContentRequest {
+  contentType: ReportedContentType;
+  contentId: string;
+  reason: string;
+  description?: string;
+}
+
+export interface ReportContentResponse {
+  success: boolean;
+  data?: {
+    reportId: string;
+    /** The player had already reported this; their earlier report is returned */
+    duplicate: boolean;
+    /** The content was hidden because enough players have reported it */
+    autoHidden: boolean;
+  };
+  error?: string;
+}
+
+export interface GetReportStatusResponse {
+  success: boolean;
+  data?: {
+    reported: boolean;
+    status?: ReportStatus;
+  };
+  error?: string;
+}
+
 // Realtime Message Types
 
 export interface RealtimeMessage {
-  type: 'vote_update' | 'chapter_transition' | 'story_reset' | 'voting_ended' | 'connection_test';
+  type:
+    | 'vote_update'
+    | 'chapter_transition'
+    | 'chapter_updated'
+    | 'story_reset'
+    | 'voting_ended'
+    | 'connection_test'
+    | 'chain_sentence_added'
+    | 'chain_story_completed';
   timestamp: Date;
   data: any;
 }
 
+export interface VoteChange {
+  action: 'changed' | 'retracted';
+  previousChoiceId: string;
+  /** The new choice; absent when the vote was retracted */
+  choiceId?: string;
+}
+
 export interface VoteUpdateMessage extends RealtimeMessage {
   type: 'vote_update';
   data: {
     chapterId: string;
     voteCounts: VoteCount[];
     totalVotes: number;
+    /** Set when the update comes from a voter changing or retracting their vote */
+    change?: VoteChange;
   };
 }
 
@@ -161,6 +370,14 @@ export interface ChapterTransitionMessage extends RealtimeMessage {
   };
 }
 
+export interface ChapterUpdatedMessage extends RealtimeMessage {
+  type: 'chapter_updated';
+  data: {
+    chapter: StoryChapter;
+    reason: string;
+  };
+}
+
 export interface StoryResetMessage extends RealtimeMessage {
   type: 'story_reset';
   data: {
@@ -186,6 +403,70 @@ export interface ConnectionTestMessage extends RealtimeMessage {
   };
 }
 
+export interface ChainSentenceAddedMessage extends RealtimeMessage {
+  type: 'chain_sentence_added';
+  data: {
+    story: ChainStory;
+    sentence: ChainSentence;
+  };
+}
+
+export interface ChainStoryCompletedMessage extends RealtimeMessage {
+  type: 'chain_story_completed';
+  data: {
+    story: ChainStory;
+  };
+}
+
+// Chain Story API Endpoints
+
+export interface GetChainStoryResponse {
+  success: boolean;
+  data?: {
+    postId: string;
+    story: ChainStory;
+    submissions: ChainSubmission[];
+    roundTimeRemaining: number;
+  };
+  error?: string;
+}
+
+export interface SubmitSentenceRequest {
+  sentence: string;
+}
+
+export interface SubmitSentenceResponse {
+  success: boolean;
+  data?: ChainSubmission;
+  message?: string;
+  error?: string;
+}
+
+export interface GetPostConfigResponse {
+  success: boolean;
+  data?: {
+    postId: string;
+    config: PostConfig;
+  };
+  error?: string;
+}
+
+// Story Map API Endpoints
+
+export interface GetStoryMapResponse {
+  success: boolean;
+  data?: StoryMapData;
+  error?: string;
+}
+
+// Hall of Fame API Endpoints
+
+export interface GetHallOfFameResponse {
+  success: boolean;
+  data?: HallOfFamePage;
+  error?: string;
+}
+
 // Error Response Types
 
 export interface ApiError {
@@ -0,0 +1,46 @@
+/**
+ * Permanent chapter records for The Haunted Thread
+ */
+
+import { StoryChapter, StoryEnding } from './story.js';
+import { VoteCount, VotingStats } from './voting.js';
+
+/**
+ * Snapshot taken when a chapter's vote closes. It is written once and never
+ * expires, so history and stats outlive the 24-hour vote counters.
+ */
+export interface ChapterArchiveRecord {
+  chapterId: string;
+  chapter: StoryChapter;
+  pathPosition: number;
+  winningChoice: string;
+  winningChoiceText: string;
+  voteCounts: VoteCount[];
+  stats: VotingStats;
+  participants: string[];
+  votingStartTime: Date;
+  votingEndTime: Date;
+  archivedAt: Date;
+}
+
+/**
+ * One completed run of a story: its chapters in order, each with the vote that
+ * decided it, and the ending it reached
+ */
+export interface StoryPathRecord {
+  pathId: string;
+  /** Winning choice ids in the order they were made */
+  choices: string[];
+  chapters: ChapterArchiveRecord[];
+  ending: StoryEnding;
+  startedAt: Date;
+  completedAt: Date;
+}
+
+export interface StoryPathSummary {
+  pathId: string;
+  endingTitle: string;
+  endingType: StoryEnding['type'];
+  chapterCount: number;
+  completedAt: Date;
+}
@@ -0,0 +1,79 @@
+/**
+ * Chain Story mode types for The Haunted Thread
+ * The community writes a story one sentence at a time; each round's top-scored comment wins
+ */
+
+import { ValidationResult } from './story.js';
+
+export const CHAIN_STORY_RULES = {
+  minSentenceLength: 10,
+  maxSentenceLength: 150,
+  maxSentences: 100,
+  fallbackSentence: 'The silence grew...',
+} as const;
+
+export interface ChainSentence {
+  text: string;
+  author: string;
+  round: number;
+  score: number;
+  commentId?: string;
+  addedAt: string;
+}
+
+export interface ChainSubmission {
+  commentId: string;
+  author: string;
+  text: string;
+  round: number;
+  submittedAt: string;
+}
+
+export interface ChainStory {
+  id: string;
+  postId: string;
+  sentences: ChainSentence[];
+  roundNumber: number;
+  roundEndsAt: string;
+  totalVotes: number;
+  contributors: string[];
+  status: 'active' | 'completed';
+  createdAt: string;
+  completedAt?: string;
+}
+
+/**
+ * Sentence rules and the "[Round N] sentence" comment format
+ */
+export class ChainStoryValidator {
+  private static readonly ROUND_COMMENT_PATTERN = /^\s*\[Round (\d+)\]\s+([\s\S]+?)\s*$/i;
+
+  static validateSentence(sentence: string): ValidationResult {
+    const errors: string[] = [];
+    const trimmed = (sentence || '').trim();
+    const { minSentenceLength, maxSentenceLength } = CHAIN_STORY_RULES;
+
+    if (trimmed.length < minSentenceLength || trimmed.length > maxSentenceLength) {
+      errors.push(
+        `Sentence must be between ${minSentenceLength} and ${maxSentenceLength} characters`
+      );
+    }
+
+    if (/[\r\n]/.test(trimmed)) {
+      errors.push('Sentence must be a single line');
+    }
+
+    return { isValid: errors.length === 0, errors };
+  }
+
+  static formatRoundComment(round: number, sentence: string): string {
+    return `[Round ${round}] ${sentence.trim()}`;
+  }
+
+  static parseRoundComment(body: string): { round: number; sentence: string } | null {
+    const match = body.match(this.ROUND_COMMENT_PATTERN);
+    if (!match || !match[1] || !match[2]) return null;
+
+    return { round: parseInt(match[1], 10), sentence: match[2] };
+  }
+}
@@ -0,0 +1,290 @@
+/**
+ * Custom content filter patterns
+ * Checks moderator-supplied patterns for syntax errors and catastrophic backtracking before they
+ * are saved, and turns keyword lists and wildcards into safe regular expressions
+ */
+
+import { ValidationResult } from './story.js';
+
+/**
+ * regex: a regular expression
+ * keywords: comma or newline separated words and phrases, matched as whole words
+ * wildcard: like keywords, where * stands for any run of letters and ? for one letter
+ */
+export type FilterMatcher = 'regex' | 'keywords' | 'wildcard';
+
+export const FILTER_MATCHER_LABELS: Record<FilterMatcher, string> = {
+  regex: 'Regular expression',
+  keywords: 'Keyword list',
+  wildcard: 'Wildcards',
+};
+
+/**
+ * Whose words a filter checks: all content, or only what players write. Rules scoped to
+ * players leave the story pack's own chapters and choices alone.
+ */
+export type FilterScope = 'all' | 'user';
+
+export const FILTER_SCOPE_LABELS: Record<FilterScope, string> = {
+  all: 'All content',
+  user: 'Player-written text only',
+};
+
+/**
+ * Where moderated text came from: written by players, or authored in a story pack
+ */
+export type ContentSource = 'user' | 'authored';
+
+export const FILTER_PATTERN_LIMITS = {
+  maxLength: 500,
+  maxEntries: 100,
+  maxEntryLength: 60,
+  /** Most `*`, `+` or `{n,}` repeats a regex may use */
+  maxOpenRepeats: 4,
+  /** Largest count allowed in `{n,m}` */
+  maxRepeatCount: 100,
+} as const;
+
+/**
+ * A custom filter as stored for a post
+ */
+export interface CustomFilterSummary {
+  id: string;
+  type: 'profanity' | 'violence' | 'sexual' | 'harassment' | 'spam' | 'custom';
+  matcher: FilterMatcher;
+  pattern: string;
+  severity: 'low' | 'medium' | 'high';
+  action: 'flag' | 'block' | 'replace';
+  replacement?: string;
+  scope?: FilterScope;
+  /** Phrases a match may sit inside without counting, e.g. "do or die" */
+  allowedPhrases?: string[];
+}
+
+/**
+ * Why a filter match was let through
+ * allowed_phrase: the match is part of one of the rule's allowed phrases
+ * story_vocabulary: the match is a word the story pack lists in its vocabulary
+ * authored_content: the rule only checks player-written text
+ */
+export type ModerationExceptionReason = 'allowed_phrase' | 'story_vocabulary' | 'authored_content';
+
+export interface ModerationException {
+  /** Id of the rule that matched */
+  rule: string;
+  type: CustomFilterSummary['type'];
+  match: string;
+  position: number;
+  reason: ModerationExceptionReason;
+  explanation: string;
+}
+
+/**
+ * What a filter would do to a piece of sample text
+ */
+export interface FilterPreview {
+  isValid: boolean;
+  errors: string[];
+  matches: Array<{ match: string; position: number }>;
+  filteredContent?: string;
+}
+
+interface Quantifier {
+  length: number;
+  repeats: boolean;
+  unbounded: boolean;
+  max: number;
+}
+
+interface GroupScan {
+  repeats: boolean;
+  alternation: boolean;
+}
+
+const escapeRegex = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+export class FilterPatternCompiler {
+  /**
+   * Checks a pattern can be compiled and is cheap to run
+   */
+  static validate(matcher: FilterMatcher, pattern: string): ValidationResult {
+    const errors: string[] = [];
+    const { maxLength, maxEntries, maxEntryLength } = FILTER_PATTERN_LIMITS;
+
+    if (!pattern.trim()) {
+      errors.push('Pattern is empty');
+    } else if (pattern.length > maxLength) {
+      errors.push(`Pattern is longer than ${maxLength} characters`);
+    } else if (matcher === 'regex') {
+      errors.push(...this.checkRegex(pattern));
+    } else {
+      const entries = this.splitEntries(pattern);
+      if (entries.length === 0) errors.push('Add at least one word or phrase');
+      if (entries.length > maxEntries) errors.push(`Use at most ${maxEntries} entries`);
+      for (const entry of entries) {
+        if (entry.length > maxEntryLength) {
+          errors.push(`"${entry.slice(0, 20)}…" is longer than ${maxEntryLength} characters`);
+        } else if (matcher === 'wildcard' && entry.replace(/[*?\s]/g, '').length < 2) {
+          errors.push(`"${entry}" needs at least two letters besides wildcards`);
+        }
+      }
+    }
+
+    return { isValid: errors.length === 0, errors };
+  }
+
+  /**
+   * Builds the regular expression for a pattern that passed validate()
+   */
+  static compile(matcher: FilterMatcher, pattern: string): RegExp {
+    switch (matcher) {
+      case 'keywords':
+        return this.wholeWords(this.splitEntries(pattern).map(escapeRegex));
+      case 'wildcard':
+        return this.wholeWords(
+          this.splitEntries(pattern).map((entry) =>
+            entry
+              .replace(/\*+/g, '*')
+              .split('')
+              .map((char) => (char === '*' ? '\\w*' : char === '?' ? '\\w' : escapeRegex(char)))
+              .join('')
+          )
+        );
+      default:
+        return new RegExp(pattern, 'gi');
+    }
+  }
+
+  private static splitEntries(pattern: string): string[] {
+    return pattern
+      .split(/[,\n]/)
+      .map((entry) => entry.trim().replace(/\s+/g, ' '))
+      .filter((entry) => entry.length > 0);
+  }
+
+  // Lookarounds rather than \b, so entries that start or end with punctuation still match
+  private static wholeWords(alternatives: string[]): RegExp {
+    return new RegExp(`(?<!\\w)(?:${alternatives.join('|')})(?!\\w)`, 'gi');
+  }
+
+  private static checkRegex(pattern: string): string[] {
+    try {
+      new RegExp(pattern, 'gi');
+    } catch (error) {
+      return [`Invalid regular expression: ${error instanceof Error ? error.message : error}`];
+    }
+
+    if (/\\[1-9]|\\k</.test(pattern)) {
+      return ['Backreferences are not allowed'];
+    }
+
+    return this.findBacktrackingRisks(pattern);
+  }
+
+  /**
+   * Walks the pattern looking for shapes that make the regex engine backtrack exponentially:
+   * a repeated group that itself repeats, as in (a+)+, or a repeated group of alternatives,
+   * as in (a|ab)*. Also caps the number and size of repeats.
+   */
+  private static findBacktrackingRisks(pattern: string): string[] {
+    const errors = new Set<string>();
+    const groups: GroupScan[] = [{ repeats: false, alternation: false }];
+    const { maxOpenRepeats, maxRepeatCount } = FILTER_PATTERN_LIMITS;
+    let openRepeats = 0;
+
+    const applyQuantifier = (at: number, group?: GroupScan): number => {
+      const quantifier = this.readQuantifier(pattern, at);
+      if (!quantifier) return at;
+
+      if (quantifier.unbounded) openRepeats++;
+      if (quantifier.max > maxRepeatCount) {
+        errors.add(`Repeat counts above ${maxRepeatCount} are not allowed`);
+      }
+      if (quantifier.repeats && group?.repeats) {
+        errors.add('Nested repeats such as (a+)+ can hang the server');
+      }
+      if (quantifier.repeats && group?.alternation) {
+        errors.add('Repeated alternatives such as (a|ab)* can hang the server');
+      }
+      if (quantifier.repeats) groups[groups.length - 1]!.repeats = true;
+      return at + quantifier.length;
+    };
+
+    let i = 0;
+    while (i < pattern.length) {
+      const char = pattern[i]!;
+
+      if (char === '(') {
+        groups.push({ repeats: false, alternation: false });
+        i++;
+        // Skip the (?: (?= (?! (?<= (?<! and (?<name> prefixes
+        if (pattern[i] === '?') {
+          const prefix = /^\?(?::|=|!|<=|<!|<[A-Za-z_$][\w$]*>)/.exec(pattern.slice(i));
+          i += prefix ? prefix[0].length : 1;
+        }
+        continue;
+      }
+
+      if (char === ')') {
+        const group = groups.pop() ?? { repeats: false, alternation: false };
+        const parent = groups[groups.length - 1]!;
+        parent.repeats ||= group.repeats;
+        i = applyQuantifier(i + 1, group);
+        continue;
+      }
+
+      if (char === '|') {
+        groups[groups.length - 1]!.alternation = true;
+        i++;
+        continue;
+      }
+
+      // Any other atom: an escape, a character class or a single character
+      if (char === '\\') {
+        i += 2;
+      } else if (char === '[') {
+        i++;
+        if (pattern[i] === '^') i++;
+        if (pattern[i] === ']') i++;
+        while (i < pattern.length && pattern[i] !== ']') i += pattern[i] === '\\' ? 2 : 1;
+        i++;
+      } else {
+        i++;
+      }
+      i = applyQuantifier(i);
+    }
+
+    if (openRepeats > maxOpenRepeats) {
+      errors.add(`Use at most ${maxOpenRepeats} open-ended repeats (*, + or {n,})`);
+    }
+
+    return [...errors];
+  }
+
+  private static readQuantifier(pattern: string, at: number): Quantifier | null {
+    let quantifier: Quantifier | null = null;
+    const char = pattern[at];
+
+    if (char === '*' || char === '+') {
+      quantifier = { length: 1, repeats: true, unbounded: true, max: Infinity };
+    } else if (char === '?') {
+      quantifier = { length: 1, repeats: false, unbounded: false, max: 1 };
+    } else if (char === '{') {
+      const counted = /^\{(\d+)(,(\d*))?\}/.exec(pattern.slice(at));
+      if (counted) {
+        const min = Number(counted[1]);
+        const max = counted[2] ? (counted[3] ? Number(counted[3]) : Infinity) : min;
+        quantifier = {
+          length: counted[0].length,
+          repeats: max > 1,
+          unbounded: max === Infinity,
+          max: Math.max(min, max === Infinity ? 0 : max),
+        };
+      }
+    }
+
+    // A trailing ? makes the repeat lazy; it doesn't change what can backtrack
+    if (quantifier && pattern[at + quantifier.length] === '?') quantifier.length++;
+    return quantifier;
+  }
+}
@@ -0,0 +1,53 @@
+/**
+ * Subreddit-wide record of finished stories for The Haunted Thread
+ */
+
+import { StoryEnding } from './story.js';
+
+/**
+ * One finished playthrough of a story post
+ */
+export interface HallOfFameEntry {
+  id: string;
+  postId: string;
+  packId: string;
+  packTitle: string;
+  endingId: string;
+  endingTitle: string;
+  endingType: StoryEnding['type'];
+  chapterCount: number;
+  participants: number;
+  totalVotes: number;
+  /** Milliseconds from the story's first chapter to its ending */
+  duration: number;
+  startedAt: Date;
+  completedAt: Date;
+}
+
+export type HallOfFameSort = 'recent' | 'chapters' | 'participants' | 'votes' | 'duration';
+
+export const HALL_OF_FAME_SORTS: HallOfFameSort[] = [
+  'recent',
+  'chapters',
+  'participants',
+  'votes',
+  'duration',
+];
+
+/**
+ * An ending the subreddit has reached at least once
+ */
+export interface UnlockedEnding {
+  packId: string;
+  endingId: string;
+  endingTitle: string;
+  endingType: StoryEnding['type'];
+  timesReached: number;
+  firstReachedAt: Date;
+}
+
+export interface HallOfFamePage {
+  entries: HallOfFameEntry[];
+  total: number;
+  unlockedEndings: UnlockedEnding[];
+}
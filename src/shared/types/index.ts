@@ -5,8 +5,44 @@
 // Story types
 export * from './story.js';
 
+// Story pack types
+export * from './story-pack.js';
+
+// Story graph lint types
+export * from './story-graph.js';
+
+// Chain story types
+export * from './chain-story.js';
+
+// Post configuration types
+export * from './post-config.js';
+
+// Admin role types
+export * from './admin.js';
+
 // Voting types
 export * from './voting.js';
 
+// Vote counting per voting method
+export * from './vote-tally.js';
+
+// Text normalization for content filters
+export * from './text-normalization.js';
+
+// Custom content filter patterns
+export * from './content-filter.js';
+
+// Reported content review queue
+export * from './moderation-queue.js';
+
+// Permanent chapter records
+export * from './archive.js';
+
+// Finished story records
+export * from './hall-of-fame.js';
+
+// Story export formats
+export * from './story-export.js';
+
 // API types
 export * from './api.js';
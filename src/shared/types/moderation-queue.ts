@@ -0,0 +1,134 @@
+/**
+ * Moderation queue for reported content
+ * Reports carry a snapshot of what was reported, and the queue orders them by how long they
+ * have waited against the review SLA
+ */
+
+export type ReportedContentType = 'chapter' | 'choice' | 'story';
+
+export type ReportStatus = 'pending' | 'reviewing' | 'resolved' | 'dismissed';
+
+/**
+ * A filter violation found in the reported content when the report was filed
+ */
+export interface SnapshotViolation {
+  rule: string;
+  type: string;
+  severity: string;
+  match: string;
+  action: string;
+}
+
+/**
+ * The reported content as it stood when the report was filed. Written once with the report
+ * and never updated, so edits made afterwards don't change the evidence.
+ */
+export interface ReportSnapshot {
+  capturedAt: string;
+  /** Chapter the content belongs to; for story reports, the chapter being played */
+  chapterId?: string;
+  title?: string;
+  /** Null when the content could not be found */
+  text: string | null;
+  violations: SnapshotViolation[];
+}
+
+/**
+ * on_track: waiting less than MODERATION_SLA.dueSoonMinutes
+ * due_soon: waiting less than MODERATION_SLA.overdueMinutes
+ * overdue: waiting longer
+ */
+export type SlaStatus = 'on_track' | 'due_soon' | 'overdue';
+
+export const MODERATION_SLA = {
+  dueSoonMinutes: 120,
+  overdueMinutes: 360,
+} as const;
+
+/**
+ * hide_choice: takes a reported choice off its chapter and out of voting
+ * edit_chapter: replaces a reported chapter's text
+ * restore_chapter: shows players a chapter that was hidden after being reported
+ */
+export type QueueAction = 'hide_choice' | 'edit_chapter' | 'restore_chapter';
+
+export const QUEUE_ACTIONS: Record<QueueAction, ReportedContentType> = {
+  hide_choice: 'choice',
+  edit_chapter: 'chapter',
+  restore_chapter: 'chapter',
+};
+
+/**
+ * How one player's reports on a post have fared. Each item they report counts once in filed;
+ * dismissed and upheld count the reports moderators have closed.
+ */
+export interface ReporterRecord {
+  username: string;
+  filed: number;
+  dismissed: number;
+  upheld: number;
+  flagged: boolean;
+}
+
+/**
+ * A reporter is flagged once at least minDismissed of their reports were dismissed and
+ * dismissals make up at least dismissedShare of their closed reports
+ */
+export const REPORTER_ABUSE_LIMITS = {
+  minDismissed: 5,
+  dismissedShare: 0.8,
+} as const;
+
+export interface ModerationQueueItem {
+  reportId: string;
+  contentType: ReportedContentType;
+  contentId: string;
+  reason: string;
+  description?: string;
+  reportedBy: string;
+  reportedAt: string;
+  status: ReportStatus;
+  assignedTo?: string;
+  claimedAt?: string;
+  snapshot?: ReportSnapshot;
+  /** Times the same player reported this again after their first report */
+  repeatCount?: number;
+  /** The content was hidden automatically when this report reached the post's threshold */
+  autoHidden?: boolean;
+  /** Most of the reporter's earlier reports were dismissed */
+  reporterFlagged?: boolean;
+  ageMinutes: number;
+  sla: SlaStatus;
+}
+
+export class ModerationQueue {
+  /**
+   * Whole minutes a report has been waiting
+   */
+  static ageMinutes(reportedAt: Date | string, now: Date = new Date()): number {
+    return Math.max(0, Math.floor((now.getTime() - new Date(reportedAt).getTime()) / 60000));
+  }
+
+  static slaStatus(ageMinutes: number): SlaStatus {
+    if (ageMinutes >= MODERATION_SLA.overdueMinutes) return 'overdue';
+    if (ageMinutes >= MODERATION_SLA.dueSoonMinutes) return 'due_soon';
+    return 'on_track';
+  }
+
+  static isReporterFlagged(record: Pick<ReporterRecord, 'dismissed' | 'upheld'>): boolean {
+    const { minDismissed, dismissedShare } = REPORTER_ABUSE_LIMITS;
+    const closed = record.dismissed + record.upheld;
+    return record.dismissed >= minDismissed && record.dismissed / closed >= dismissedShare;
+  }
+
+  /**
+   * Unclaimed reports before claimed ones, each oldest first, so the reports furthest past
+   * their SLA that nobody is handling come first
+   */
+  static sort(items: ModerationQueueItem[]): ModerationQueueItem[] {
+    return [...items].sort(
+      (a, b) =>
+        Number(Boolean(a.assignedTo)) - Number(Boolean(b.assignedTo)) || b.ageMinutes - a.ageMinutes
+    );
+  }
+}
@@ -0,0 +1,120 @@
+/**
+ * Per-post configuration for The Haunted Thread
+ * Chosen by moderators when a story post is created
+ */
+
+import { ValidationResult } from './story.js';
+import { VOTING_METHODS, VotingMethod } from './voting.js';
+
+export type ModerationStrictness = 'relaxed' | 'standard' | 'strict';
+
+/**
+ * branching: vote on predefined choices; chain: community-written sentences, one per round
+ */
+export type StoryMode = 'branching' | 'chain';
+
+export interface PostConfig {
+  storyMode: StoryMode;
+  votingDurationMinutes: number;
+  maxChapters: number;
+  moderationStrictness: ModerationStrictness;
+  votingMethod: VotingMethod;
+  /** Keep a stickied comment on the post recapping each resolved chapter */
+  recapComments: boolean;
+  /** Votes can't be changed or retracted once cast */
+  lockVotes: boolean;
+  /** Players whose reports hide a choice or chapter until it is reviewed; 0 turns this off */
+  autoHideReportThreshold: number;
+}
+
+export const MODERATION_STRICTNESS_LEVELS: ModerationStrictness[] = [
+  'relaxed',
+  'standard',
+  'strict',
+];
+
+export const STORY_MODES: StoryMode[] = ['branching', 'chain'];
+
+export const DEFAULT_POST_CONFIG: PostConfig = {
+  storyMode: 'branching',
+  votingDurationMinutes: 60,
+  maxChapters: 10,
+  moderationStrictness: 'standard',
+  votingMethod: 'plurality',
+  recapComments: true,
+  lockVotes: false,
+  autoHideReportThreshold: 3,
+};
+
+export const POST_CONFIG_LIMITS = {
+  votingDurationMinutes: { min: 5, max: 1440 },
+  maxChapters: { min: 2, max: 50 },
+  autoHideReportThreshold: { min: 0, max: 100 },
+} as const;
+
+/**
+ * Validation for post configuration submitted from the post-create form
+ */
+export class PostConfigValidator {
+  static validate(config: Partial<PostConfig>): ValidationResult {
+    const errors: string[] = [];
+
+    if (config.storyMode !== undefined && !STORY_MODES.includes(config.storyMode)) {
+      errors.push('Story mode must be branching or chain');
+    }
+
+    if (config.votingDurationMinutes !== undefined) {
+      const { min, max } = POST_CONFIG_LIMITS.votingDurationMinutes;
+      if (
+        !Number.isInteger(config.votingDurationMinutes) ||
+        config.votingDurationMinutes < min ||
+        config.votingDurationMinutes > max
+      ) {
+        errors.push(`Voting duration must be a whole number between ${min} and ${max} minutes`);
+      }
+    }
+
+    if (config.maxChapters !== undefined) {
+      const { min, max } = POST_CONFIG_LIMITS.maxChapters;
+      if (
+        !Number.isInteger(config.maxChapters) ||
+        config.maxChapters < min ||
+        config.maxChapters > max
+      ) {
+        errors.push(`Max chapters must be a whole number between ${min} and ${max}`);
+      }
+    }
+
+    if (
+      config.moderationStrictness !== undefined &&
+      !MODERATION_STRICTNESS_LEVELS.includes(config.moderationStrictness)
+    ) {
+      errors.push('Moderation strictness must be relaxed, standard, or strict');
+    }
+
+    if (config.votingMethod !== undefined && !VOTING_METHODS.includes(config.votingMethod)) {
+      errors.push(`Voting method must be one of: ${VOTING_METHODS.join(', ')}`);
+    }
+
+    if (config.recapComments !== undefined && typeof config.recapComments !== 'boolean') {
+      errors.push('Recap comments must be on or off');
+    }
+
+    if (config.lockVotes !== undefined && typeof config.lockVotes !== 'boolean') {
+      errors.push('Lock votes must be on or off');
+    }
+
+    if (config.autoHideReportThreshold !== undefined) {
+      const { min, max } = POST_CONFIG_LIMITS.autoHideReportThreshold;
+      if (
+        !Number.isInteger(config.autoHideReportThreshold) ||
+        config.autoHideReportThreshold < min ||
+        config.autoHideReportThreshold > max
+      ) {
+        errors.push(`Auto-hide threshold must be a whole number between ${min} and ${max}`);
+      }
+    }
+
+    return { isValid: errors.length === 0, errors };
+  }
+}
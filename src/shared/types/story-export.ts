@@ -0,0 +1,216 @@
+/**
+ * Story export for The Haunted Thread
+ * Renders a played story as Markdown for a Reddit text post, a standalone HTML page or JSON
+ */
+
+import { StoryEnding } from './story.js';
+
+export type StoryExportFormat = 'markdown' | 'html' | 'json';
+
+export const STORY_EXPORT_FORMATS: StoryExportFormat[] = ['markdown', 'html', 'json'];
+
+export interface StoryExportChoice {
+  id: string;
+  text: string;
+  votes: number;
+  percentage: number;
+  chosen: boolean;
+}
+
+export interface StoryExportChapter {
+  number: number;
+  title: string;
+  content: string;
+  choices: StoryExportChoice[];
+  /** 'voting' for the chapter still being decided in an in-progress story */
+  status: 'decided' | 'voting';
+  totalVotes: number;
+  explanation?: string;
+}
+
+/**
+ * The JSON export; Markdown and HTML are rendered from it. Dates are ISO strings.
+ */
+export interface StoryExportDocument {
+  postId: string;
+  title: string;
+  packId: string;
+  status: 'completed' | 'in_progress';
+  startedAt: string;
+  exportedAt: string;
+  chapters: StoryExportChapter[];
+  ending?: Pick<StoryEnding, 'title' | 'type' | 'content'>;
+  totals: {
+    chapters: number;
+    votes: number;
+    participants: number;
+  };
+}
+
+export interface RenderedStoryExport {
+  content: string;
+  contentType: string;
+  fileExtension: string;
+}
+
+const escapeHtml = (text: string) =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+// Keeps story text from being read as Markdown headings, quotes or lists
+const escapeMarkdownLine = (line: string) => line.replace(/^(\s*)([#>*+-]|\d+\.)(\s)/, '$1\\$2$3');
+
+const plural = (count: number, noun: string) => `${count} ${noun}${count === 1 ? '' : 's'}`;
+
+const paragraphs = (text: string) =>
+  text
+    .split(/\n\s*\n/)
+    .map((paragraph) => paragraph.trim())
+    .filter(Boolean);
+
+export class StoryExporter {
+  static render(format: StoryExportFormat, document: StoryExportDocument): RenderedStoryExport {
+    switch (format) {
+      case 'markdown':
+        return {
+          content: this.toMarkdown(document),
+          contentType: 'text/markdown; charset=utf-8',
+          fileExtension: 'md',
+        };
+      case 'html':
+        return {
+          content: this.toHtml(document),
+          contentType: 'text/html; charset=utf-8',
+          fileExtension: 'html',
+        };
+      default:
+        return {
+          content: JSON.stringify(document, null, 2),
+          contentType: 'application/json; charset=utf-8',
+          fileExtension: 'json',
+        };
+    }
+  }
+
+  static toMarkdown(document: StoryExportDocument): string {
+    const lines: string[] = [`# ${document.title}`, '', `*${this.summary(document)}*`, ''];
+
+    for (const chapter of document.chapters) {
+      lines.push('---', '', `## Chapter ${chapter.number}: ${chapter.title}`, '');
+      paragraphs(chapter.content).forEach((paragraph) => {
+        lines.push(paragraph.split('\n').map(escapeMarkdownLine).join('  \n'), '');
+      });
+
+      const chosen = chapter.choices.find((choice) => choice.chosen);
+      lines.push(
+        chosen
+          ? `**The community chose:** ${chosen.text} (${chosen.percentage}%)`
+          : `**Still being decided** (${plural(chapter.totalVotes, 'vote')} so far)`,
+        ''
+      );
+
+      chapter.choices.forEach((choice) => {
+        const text = choice.chosen ? `**${choice.text}**` : choice.text;
+        lines.push(`* ${text} — ${choice.percentage}% (${plural(choice.votes, 'vote')})`);
+      });
+      lines.push('');
+
+      if (chapter.explanation) {
+        lines.push(`^(${chapter.explanation})`, '');
+      }
+    }
+
+    if (document.ending) {
+      lines.push('---', '', `## The End: ${document.ending.title}`, '');
+      lines.push(`*A ${document.ending.type} ending.*`, '');
+      paragraphs(document.ending.content).forEach((paragraph) => lines.push(paragraph, ''));
+    }
+
+    return lines.join('\n').trimEnd() + '\n';
+  }
+
+  static toHtml(document: StoryExportDocument): string {
+    const chapters = document.chapters
+      .map((chapter) => {
+        const choices = chapter.choices
+          .map(
+            (choice) => `
+        <li${choice.chosen ? ' class="chosen"' : ''}>
+          <span class="choice-text">${escapeHtml(choice.text)}</span>
+          <span class="choice-votes">${choice.percentage}% (${plural(choice.votes, 'vote')})</span>
+          <div class="bar"><div style="width: ${choice.percentage}%"></div></div>
+        </li>`
+          )
+          .join('');
+
+        return `
+    <section class="chapter">
+      <h2>Chapter ${chapter.number}: ${escapeHtml(chapter.title)}</h2>
+      ${paragraphs(chapter.content)
+        .map((paragraph) => `<p>${escapeHtml(paragraph)}</p>`)
+        .join('\n      ')}
+      <h3>${chapter.status === 'decided' ? 'The community chose' : 'Still being decided'}</h3>
+      <ul class="choices">${choices}
+      </ul>${chapter.explanation ? `\n      <p class="explanation">${escapeHtml(chapter.explanation)}</p>` : ''}
+    </section>`;
+      })
+      .join('\n');
+
+    const ending = document.ending
+      ? `
+    <section class="ending ${escapeHtml(document.ending.type)}">
+      <h2>The End: ${escapeHtml(document.ending.title)}</h2>
+      ${paragraphs(document.ending.content)
+        .map((paragraph) => `<p>${escapeHtml(paragraph)}</p>`)
+        .join('\n      ')}
+    </section>`
+      : '';
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1">
+  <title>${escapeHtml(document.title)} · The Haunted Thread</title>
+  <style>
+    body { background: #0d0d0d; color: #e0e0e0; font-family: Georgia, serif; line-height: 1.7; margin: 0; }
+    main { max-width: 720px; margin: 0 auto; padding: 40px 20px; }
+    h1 { color: #ff6b6b; text-align: center; }
+    .summary { color: #999; font-style: italic; text-align: center; }
+    .chapter, .ending { border-top: 1px solid #333; padding-top: 24px; margin-top: 32px; }
+    h2 { color: #e0e0e0; }
+    h3 { color: #999; font-size: 0.9rem; text-transform: uppercase; letter-spacing: 0.1em; }
+    .choices { list-style: none; padding: 0; font-family: sans-serif; font-size: 0.9rem; }
+    .choices li { background: #1a1a1a; border-radius: 6px; margin-bottom: 8px; padding: 10px 14px; }
+    .choices li.chosen { border-left: 4px solid #8b0000; color: #fff; }
+    .choice-votes { color: #999; float: right; }
+    .bar { background: #333; border-radius: 3px; height: 4px; margin-top: 8px; overflow: hidden; }
+    .bar div { background: #8b0000; height: 100%; }
+    .explanation { color: #999; font-size: 0.85rem; font-style: italic; }
+    .ending h2 { color: #c77dff; }
+    .ending.bad h2 { color: #ff6b6b; }
+    .ending.good h2 { color: #81c784; }
+  </style>
+</head>
+<body>
+  <main>
+    <h1>${escapeHtml(document.title)}</h1>
+    <p class="summary">${escapeHtml(this.summary(document))}</p>
+${chapters}
+${ending}
+  </main>
+</body>
+</html>
+`;
+  }
+
+  private static summary(document: StoryExportDocument): string {
+    const { chapters, votes, participants } = document.totals;
+    const status = document.status === 'completed' ? 'A finished' : 'An unfinished';
+    return `${status} story from The Haunted Thread · ${plural(chapters, 'chapter')} · ${plural(votes, 'vote')} from ${plural(participants, 'player')}`;
+  }
+}
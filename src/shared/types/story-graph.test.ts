@@ -0,0 +1,167 @@
+import { describe, expect, it } from 'vitest';
+import { StoryGraphLinter } from './story-graph.js';
+import { StoryPack, StoryPackBranch, StoryPackChoice } from './story-pack.js';
+import { StoryEnding } from './story.js';
+
+const choice = (id: string, link: Partial<StoryPackChoice>): StoryPackChoice => ({
+  id,
+  text: `Choose ${id}`,
+  ...link,
+});
+
+const branch = (id: string, choices: StoryPackChoice[]): StoryPackBranch => ({
+  id,
+  title: id,
+  content: `The ${id} branch`,
+  visualTheme: 'dark',
+  choices,
+});
+
+const ending = (id: string): StoryEnding => ({
+  id,
+  title: id,
+  content: `The ${id} ending`,
+  type: 'neutral',
+  pathRequirements: [],
+});
+
+const pack = (branches: StoryPackBranch[], endings: StoryEnding[] = [ending('escape')]) =>
+  ({
+    formatVersion: 1,
+    id: 'test-pack',
+    version: '1.0.0',
+    title: 'Test Pack',
+    startBranch: 'opening',
+    branches,
+    endings,
+  }) as StoryPack;
+
+const codes = (issues: { code: string; location: { path: string } }[]) =>
+  issues.map(({ code, location }) => [code, location.path]);
+
+describe('StoryGraphLinter', () => {
+  it('passes a pack where every path reaches an ending', () => {
+    const report = StoryGraphLinter.lint(
+      pack([
+        branch('opening', [
+          choice('go_in', { nextBranch: 'hallway' }),
+          choice('run', { endingId: 'escape' }),
+        ]),
+        branch('hallway', [choice('leave', { endingId: 'escape' })]),
+      ])
+    );
+
+    expect(report).toMatchObject({
+      packId: 'test-pack',
+      version: '1.0.0',
+      isValid: true,
+      errors: [],
+      warnings: [],
+      stats: { branches: 2, endings: 1, reachableBranches: 2, reachableEndings: 1, cycles: 0 },
+    });
+  });
+
+  it('reports a start branch that does not exist', () => {
+    const report = StoryGraphLinter.lint({
+      ...pack([branch('opening', [choice('run', { endingId: 'escape' })])]),
+      startBranch: 'prologue',
+    });
+
+    expect(report.isValid).toBe(false);
+    expect(codes(report.errors)).toContainEqual(['missing_start_branch', 'startBranch']);
+  });
+
+  it('locates broken links and dead-end choices', () => {
+    const report = StoryGraphLinter.lint(
+      pack([
+        branch('opening', [
+          choice('attic', { nextBranch: 'attic' }),
+          choice('cellar', { endingId: 'buried' }),
+          choice('wait', {}),
+          choice('run', { endingId: 'escape' }),
+        ]),
+      ])
+    );
+
+    expect(report.isValid).toBe(false);
+    expect(codes(report.errors)).toEqual([
+      ['dangling_next_branch', 'branches[0].choices[0].nextBranch'],
+      ['unknown_ending', 'branches[0].choices[1].endingId'],
+      ['dead_end_choice', 'branches[0].choices[2]'],
+    ]);
+    expect(report.errors[0]?.message).toBe('Choice "attic" leads to missing branch "attic"');
+    expect(StoryGraphLinter.formatIssue(report.errors[2]!)).toBe(
+      'branches[0].choices[2]: Choice "wait" has neither a nextBranch nor an endingId'
+    );
+  });
+
+  it('reports reachable branches that can never end', () => {
+    const report = StoryGraphLinter.lint(
+      pack([
+        branch('opening', [
+          choice('go_in', { nextBranch: 'maze' }),
+          choice('run', { endingId: 'escape' }),
+        ]),
+        branch('maze', [choice('turn', { nextBranch: 'corridor' })]),
+        branch('corridor', [choice('turn_back', { nextBranch: 'maze' })]),
+      ])
+    );
+
+    expect(report.isValid).toBe(false);
+    expect(codes(report.errors)).toEqual([
+      ['no_path_to_ending', 'branches[1]'],
+      ['no_path_to_ending', 'branches[2]'],
+    ]);
+    expect(report.warnings).toEqual([
+      expect.objectContaining({
+        code: 'cycle',
+        cycle: ['maze', 'corridor', 'maze'],
+        location: expect.objectContaining({
+          path: 'branches[2].choices[0].nextBranch',
+          choiceId: 'turn_back',
+        }),
+      }),
+    ]);
+  });
+
+  it('warns about unreachable branches and endings without failing the pack', () => {
+    const report = StoryGraphLinter.lint(
+      pack(
+        [
+          branch('opening', [choice('run', { endingId: 'escape' })]),
+          branch('forgotten', [choice('leave', { endingId: 'lost' })]),
+        ],
+        [ending('escape'), ending('lost'), ending('never')]
+      )
+    );
+
+    expect(report.isValid).toBe(true);
+    expect(codes(report.warnings)).toEqual([
+      ['unreachable_branch', 'branches[1]'],
+      ['unreachable_ending', 'endings[1]'],
+      ['unreachable_ending', 'endings[2]'],
+    ]);
+    expect(report.stats).toMatchObject({ reachableBranches: 1, reachableEndings: 1 });
+  });
+
+  it('reports each loop once, even when several choices close it', () => {
+    const report = StoryGraphLinter.lint(
+      pack([
+        branch('opening', [
+          choice('stairs', { nextBranch: 'landing' }),
+          choice('run', { endingId: 'escape' }),
+        ]),
+        branch('landing', [
+          choice('down', { nextBranch: 'opening' }),
+          choice('jump', { nextBranch: 'opening' }),
+        ]),
+      ])
+    );
+
+    expect(report.isValid).toBe(true);
+    expect(report.warnings.map((issue) => issue.cycle)).toEqual([
+      ['opening', 'landing', 'opening'],
+    ]);
+    expect(report.stats.cycles).toBe(1);
+  });
+});
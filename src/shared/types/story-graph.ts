@@ -0,0 +1,353 @@
+/**
+ * Static analysis of story pack branch graphs
+ * Finds broken links, dead ends, unreachable content and cycles before a pack is played
+ */
+
+import { StoryEnding } from './story.js';
+import { StoryPack } from './story-pack.js';
+
+export type StoryLintCode =
+  | 'missing_start_branch'
+  | 'dangling_next_branch'
+  | 'unknown_ending'
+  | 'dead_end_choice'
+  | 'no_path_to_ending'
+  | 'unreachable_branch'
+  | 'unreachable_ending'
+  | 'cycle';
+
+export type StoryLintSeverity = 'error' | 'warning';
+
+/**
+ * Where an issue was found. `path` points into the pack source, e.g. "branches[3].choices[1]".
+ */
+export interface StoryLintLocation {
+  path: string;
+  branchId?: string;
+  choiceId?: string;
+  endingId?: string;
+}
+
+export interface StoryLintIssue {
+  code: StoryLintCode;
+  severity: StoryLintSeverity;
+  message: string;
+  location: StoryLintLocation;
+  /** Branch ids forming the loop, for cycle issues */
+  cycle?: string[];
+}
+
+export interface StoryLintReport {
+  packId: string;
+  version: string;
+  isValid: boolean;
+  errors: StoryLintIssue[];
+  warnings: StoryLintIssue[];
+  stats: {
+    branches: number;
+    endings: number;
+    reachableBranches: number;
+    reachableEndings: number;
+    cycles: number;
+  };
+}
+
+export interface StoryMapNode {
+  id: string;
+  kind: 'branch' | 'ending';
+  title: string;
+  /** Shortest number of choices from the start branch; -1 when unreachable */
+  depth: number;
+  endingType?: StoryEnding['type'];
+  isStart: boolean;
+  isCurrent: boolean;
+  onPath: boolean;
+  completed: boolean;
+}
+
+export interface StoryMapEdge {
+  id: string;
+  from: string;
+  to: string;
+  choiceId: string;
+  choiceText: string;
+  onPath: boolean;
+  completed: boolean;
+  /** Share of the vote this choice received when the story passed through `from` */
+  votePercentage?: number;
+  voteCount?: number;
+}
+
+export interface StoryMapCompletedPath {
+  pathId: string;
+  choices: string[];
+  endingId?: string;
+}
+
+/**
+ * A story pack's branch graph overlaid with a post's progress, for the admin Story Map
+ */
+export interface StoryMapData {
+  packId: string;
+  version: string;
+  startBranch: string;
+  currentBranchId: string | null;
+  pathTaken: string[];
+  nodes: StoryMapNode[];
+  edges: StoryMapEdge[];
+  completedPaths: StoryMapCompletedPath[];
+}
+
+/**
+ * Lints the branch graph of a schema-valid story pack.
+ * Errors make a pack unplayable; warnings flag content players can never see or loops
+ * that only the post's chapter limit will break.
+ */
+export class StoryGraphLinter {
+  static lint(pack: StoryPack): StoryLintReport {
+    const issues: StoryLintIssue[] = [];
+    const branchIndex = new Map(pack.branches.map((branch, index) => [branch.id, index]));
+    const endingIndex = new Map(pack.endings.map((ending, index) => [ending.id, index]));
+
+    if (!branchIndex.has(pack.startBranch)) {
+      issues.push({
+        code: 'missing_start_branch',
+        severity: 'error',
+        message: `startBranch "${pack.startBranch}" does not match any branch`,
+        location: { path: 'startBranch', branchId: pack.startBranch },
+      });
+    }
+
+    // Broken choice links
+    pack.branches.forEach((branch, branchIdx) => {
+      branch.choices.forEach((choice, choiceIdx) => {
+        const location = {
+          path: `branches[${branchIdx}].choices[${choiceIdx}]`,
+          branchId: branch.id,
+          choiceId: choice.id,
+        };
+
+        if (choice.nextBranch && !branchIndex.has(choice.nextBranch)) {
+          issues.push({
+            code: 'dangling_next_branch',
+            severity: 'error',
+            message: `Choice "${choice.id}" leads to missing branch "${choice.nextBranch}"`,
+            location: { ...location, path: `${location.path}.nextBranch` },
+          });
+        } else if (choice.endingId && !endingIndex.has(choice.endingId)) {
+          issues.push({
+            code: 'unknown_ending',
+            severity: 'error',
+            message: `Choice "${choice.id}" leads to missing ending "${choice.endingId}"`,
+            location: { ...location, path: `${location.path}.endingId`, endingId: choice.endingId },
+          });
+        } else if (!choice.nextBranch && !choice.endingId) {
+          issues.push({
+            code: 'dead_end_choice',
+            severity: 'error',
+            message: `Choice "${choice.id}" has neither a nextBranch nor an endingId`,
+            location,
+          });
+        }
+      });
+    });
+
+    const edges = this.buildEdges(pack, branchIndex);
+    const reachable = this.findReachable(pack.startBranch, edges);
+    const reachableEndings = new Set<string>();
+    reachable.forEach((branchId) => {
+      const branch = pack.branches[branchIndex.get(branchId)!]!;
+      branch.choices.forEach((choice) => {
+        if (choice.endingId && endingIndex.has(choice.endingId)) {
+          reachableEndings.add(choice.endingId);
+        }
+      });
+    });
+
+    // Reachable branches from which no ending can ever be reached trap players forever
+    const canEnd = this.findBranchesThatCanEnd(pack, edges, endingIndex);
+    pack.branches.forEach((branch, branchIdx) => {
+      if (reachable.has(branch.id) && !canEnd.has(branch.id)) {
+        issues.push({
+          code: 'no_path_to_ending',
+          severity: 'error',
+          message: `No ending can be reached from branch "${branch.id}"`,
+          location: { path: `branches[${branchIdx}]`, branchId: branch.id },
+        });
+      }
+    });
+
+    pack.branches.forEach((branch, branchIdx) => {
+      if (!reachable.has(branch.id)) {
+        issues.push({
+          code: 'unreachable_branch',
+          severity: 'warning',
+          message: `Branch "${branch.id}" cannot be reached from "${pack.startBranch}"`,
+          location: { path: `branches[${branchIdx}]`, branchId: branch.id },
+        });
+      }
+    });
+
+    pack.endings.forEach((ending, endingIdx) => {
+      if (!reachableEndings.has(ending.id)) {
+        issues.push({
+          code: 'unreachable_ending',
+          severity: 'warning',
+          message: `Ending "${ending.id}" cannot be reached by any path`,
+          location: { path: `endings[${endingIdx}]`, endingId: ending.id },
+        });
+      }
+    });
+
+    const cycles = this.findCycles(pack, edges, branchIndex);
+    issues.push(...cycles);
+
+    const errors = issues.filter((issue) => issue.severity === 'error');
+    const warnings = issues.filter((issue) => issue.severity === 'warning');
+
+    return {
+      packId: pack.id,
+      version: pack.version,
+      isValid: errors.length === 0,
+      errors,
+      warnings,
+      stats: {
+        branches: pack.branches.length,
+        endings: pack.endings.length,
+        reachableBranches: reachable.size,
+        reachableEndings: reachableEndings.size,
+        cycles: cycles.length,
+      },
+    };
+  }
+
+  /**
+   * Formats an issue as a single line, e.g. for logs or validation error lists
+   */
+  static formatIssue(issue: StoryLintIssue): string {
+    return `${issue.location.path}: ${issue.message}`;
+  }
+
+  /**
+   * Branch-to-branch links, keyed by branch id. Dangling links are left out.
+   */
+  private static buildEdges(
+    pack: StoryPack,
+    branchIndex: Map<string, number>
+  ): Map<string, { choiceIdx: number; to: string }[]> {
+    return new Map(
+      pack.branches.map((branch) => [
+        branch.id,
+        branch.choices.flatMap((choice, choiceIdx) =>
+          choice.nextBranch && branchIndex.has(choice.nextBranch)
+            ? [{ choiceIdx, to: choice.nextBranch }]
+            : []
+        ),
+      ])
+    );
+  }
+
+  private static findReachable(
+    startBranch: string,
+    edges: Map<string, { choiceIdx: number; to: string }[]>
+  ): Set<string> {
+    const reachable = new Set<string>();
+    if (!edges.has(startBranch)) return reachable;
+
+    const queue = [startBranch];
+    reachable.add(startBranch);
+    while (queue.length > 0) {
+      const branchId = queue.shift()!;
+      (edges.get(branchId) || []).forEach(({ to }) => {
+        if (!reachable.has(to)) {
+          reachable.add(to);
+          queue.push(to);
+        }
+      });
+    }
+
+    return reachable;
+  }
+
+  private static findBranchesThatCanEnd(
+    pack: StoryPack,
+    edges: Map<string, { choiceIdx: number; to: string }[]>,
+    endingIndex: Map<string, number>
+  ): Set<string> {
+    const canEnd = new Set(
+      pack.branches
+        .filter((branch) =>
+          branch.choices.some((choice) => choice.endingId && endingIndex.has(choice.endingId))
+        )
+        .map((branch) => branch.id)
+    );
+
+    let changed = true;
+    while (changed) {
+      changed = false;
+      edges.forEach((links, branchId) => {
+        if (!canEnd.has(branchId) && links.some(({ to }) => canEnd.has(to))) {
+          canEnd.add(branchId);
+          changed = true;
+        }
+      });
+    }
+
+    return canEnd;
+  }
+
+  /**
+   * Depth-first search for back edges; each distinct loop is reported once,
+   * located at the choice that closes it
+   */
+  private static findCycles(
+    pack: StoryPack,
+    edges: Map<string, { choiceIdx: number; to: string }[]>,
+    branchIndex: Map<string, number>
+  ): StoryLintIssue[] {
+    const issues: StoryLintIssue[] = [];
+    const seen = new Set<string>();
+    const state = new Map<string, 'visiting' | 'done'>();
+    const stack: string[] = [];
+
+    const visit = (branchId: string): void => {
+      state.set(branchId, 'visiting');
+      stack.push(branchId);
+
+      (edges.get(branchId) || []).forEach(({ choiceIdx, to }) => {
+        if (state.get(to) === 'visiting') {
+          const cycle = [...stack.slice(stack.indexOf(to)), to];
+          const key = [...cycle.slice(0, -1)].sort().join('>');
+          if (seen.has(key)) return;
+          seen.add(key);
+
+          const branchIdx = branchIndex.get(branchId)!;
+          const choice = pack.branches[branchIdx]!.choices[choiceIdx]!;
+          issues.push({
+            code: 'cycle',
+            severity: 'warning',
+            message: `Branches loop: ${cycle.join(' -> ')}`,
+            location: {
+              path: `branches[${branchIdx}].choices[${choiceIdx}].nextBranch`,
+              branchId,
+              choiceId: choice.id,
+            },
+            cycle,
+          });
+        } else if (!state.has(to)) {
+          visit(to);
+        }
+      });
+
+      stack.pop();
+      state.set(branchId, 'done');
+    };
+
+    // Start from the opening branch so loops are reported in play order
+    [pack.startBranch, ...pack.branches.map((branch) => branch.id)].forEach((branchId) => {
+      if (edges.has(branchId) && !state.has(branchId)) visit(branchId);
+    });
+
+    return issues;
+  }
+}
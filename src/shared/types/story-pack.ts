@@ -0,0 +1,305 @@
+/**
+ * Story pack format for The Haunted Thread
+ * A story pack bundles the branches, choices, endings and visual themes of one story
+ */
+
+import {
+  StoryChapter,
+  StoryEnding,
+  HorrorColorScheme,
+  ValidationResult,
+  StoryValidator,
+  StoryUtils,
+} from './story.js';
+
+/**
+ * Current story pack format version. Bump when the pack schema changes incompatibly.
+ */
+export const STORY_PACK_FORMAT_VERSION = 1;
+
+export const BUILT_IN_VISUAL_THEMES = [
+  'dark',
+  'mysterious',
+  'terrifying',
+  'supernatural',
+  'psychological',
+] as const;
+
+export interface StoryPackChoice {
+  id: string;
+  text: string;
+  description?: string;
+  consequences?: string;
+  nextBranch?: string;
+  endingId?: string;
+}
+
+export interface StoryPackBranch {
+  id: string;
+  title: string;
+  content: string;
+  choices: StoryPackChoice[];
+  visualTheme: string;
+  pathRequirements?: string[];
+}
+
+export interface StoryPackTheme {
+  colorScheme: HorrorColorScheme;
+  effects: string[];
+}
+
+export interface StoryPack {
+  formatVersion: number;
+  id: string;
+  version: string;
+  title: string;
+  description?: string;
+  author?: string;
+  startBranch: string;
+  branches: StoryPackBranch[];
+  endings: StoryEnding[];
+  themes?: Record<string, StoryPackTheme>;
+  /** Words that belong to the story's theme, such as "hell" or "die", which filters let through */
+  vocabulary?: string[];
+}
+
+export interface StoryPackSummary {
+  id: string;
+  version: string;
+  title: string;
+  description?: string;
+  author?: string;
+  branchCount: number;
+  endingCount: number;
+}
+
+/**
+ * Schema validation for story packs, built on the chapter and choice rules in StoryValidator
+ */
+export class StoryPackValidator {
+  private static readonly ID_PATTERN = /^[a-z0-9][a-z0-9_-]*$/i;
+  private static readonly ENDING_TYPES = ['good', 'bad', 'neutral', 'twist'];
+
+  /**
+   * Validates an untrusted story pack object (e.g. freshly parsed JSON or YAML)
+   */
+  static validatePack(input: unknown): ValidationResult {
+    const errors: string[] = [];
+    const warnings: string[] = [];
+
+    if (!input || typeof input !== 'object' || Array.isArray(input)) {
+      return { isValid: false, errors: ['Story pack must be an object'] };
+    }
+
+    const pack = input as Partial<StoryPack>;
+
+    if (pack.formatVersion !== STORY_PACK_FORMAT_VERSION) {
+      errors.push(
+        `Unsupported formatVersion ${String(pack.formatVersion)}; expected ${STORY_PACK_FORMAT_VERSION}`
+      );
+    }
+
+    if (typeof pack.id !== 'string' || !this.ID_PATTERN.test(pack.id)) {
+      errors.push('Pack id is required and may only contain letters, digits, "-" and "_"');
+    }
+
+    if (typeof pack.version !== 'string' || pack.version.trim() === '') {
+      errors.push('Pack version is required');
+    }
+
+    if (typeof pack.title !== 'string' || pack.title.trim() === '') {
+      errors.push('Pack title is required');
+    }
+
+    if (typeof pack.startBranch !== 'string' || pack.startBranch.trim() === '') {
+      errors.push('startBranch is required');
+    }
+
+    const themeNames = new Set<string>(BUILT_IN_VISUAL_THEMES);
+    if (pack.themes !== undefined) {
+      if (!pack.themes || typeof pack.themes !== 'object' || Array.isArray(pack.themes)) {
+        errors.push('themes must be an object keyed by theme name');
+      } else {
+        Object.entries(pack.themes).forEach(([name, theme]) => {
+          themeNames.add(name);
+          errors.push(...this.validateTheme(name, theme));
+        });
+      }
+    }
+
+    if (pack.vocabulary !== undefined) {
+      if (
+        !Array.isArray(pack.vocabulary) ||
+        pack.vocabulary.some((word) => typeof word !== 'string' || !/^[\p{L}\p{N}'-]+$/u.test(word))
+      ) {
+        errors.push('vocabulary must be an array of single words');
+      }
+    }
+
+    const endingIds = new Set<string>();
+    if (!Array.isArray(pack.endings)) {
+      errors.push('endings must be an array');
+    } else {
+      pack.endings.forEach((ending, index) => {
+        const label = `Ending ${ending?.id || index + 1}`;
+        errors.push(...this.validateEnding(ending).map((err) => `${label}: ${err}`));
+        if (ending?.id) {
+          if (endingIds.has(ending.id)) errors.push(`${label}: duplicate ending id`);
+          endingIds.add(ending.id);
+        }
+      });
+    }
+
+    const branchIds = new Set<string>();
+    if (!Array.isArray(pack.branches) || pack.branches.length === 0) {
+      errors.push('branches must be a non-empty array');
+    } else {
+      pack.branches.forEach((branch, index) => {
+        const label = `Branch ${branch?.id || index + 1}`;
+        const result = this.validateBranch(branch, themeNames, endingIds);
+        errors.push(...result.errors.map((err) => `${label}: ${err}`));
+        warnings.push(...(result.warnings || []).map((warning) => `${label}: ${warning}`));
+        if (branch?.id) {
+          if (branchIds.has(branch.id)) errors.push(`${label}: duplicate branch id`);
+          branchIds.add(branch.id);
+        }
+      });
+
+      if (typeof pack.startBranch === 'string' && !branchIds.has(pack.startBranch)) {
+        errors.push(`startBranch "${pack.startBranch}" does not match any branch`);
+      }
+    }
+
+    const result: ValidationResult = {
+      isValid: errors.length === 0,
+      errors,
+    };
+
+    if (warnings.length > 0) {
+      result.warnings = warnings;
+    }
+
+    return result;
+  }
+
+  /**
+   * Validates a single branch as if it were a chapter, plus pack-specific link rules
+   */
+  static validateBranch(
+    branch: StoryPackBranch,
+    themeNames: Set<string> = new Set(BUILT_IN_VISUAL_THEMES),
+    endingIds?: Set<string>
+  ): ValidationResult {
+    const errors: string[] = [];
+    const warnings: string[] = [];
+
+    if (!branch || typeof branch !== 'object') {
+      return { isValid: false, errors: ['Branch must be an object'] };
+    }
+
+    if (!Array.isArray(branch.choices)) {
+      return { isValid: false, errors: ['choices must be an array'] };
+    }
+
+    const chapterResult = StoryValidator.validateChapter(this.toChapter(branch), {
+      validateMetadata: false,
+    });
+    errors.push(...chapterResult.errors);
+    warnings.push(...(chapterResult.warnings || []));
+
+    if (!themeNames.has(branch.visualTheme)) {
+      errors.push(`Unknown visualTheme "${branch.visualTheme}"`);
+    }
+
+    const choiceIds = new Set<string>();
+    branch.choices.forEach((choice) => {
+      if (choiceIds.has(choice.id)) {
+        errors.push(`Duplicate choice id "${choice.id}"`);
+      }
+      choiceIds.add(choice.id);
+
+      if (choice.nextBranch && choice.endingId) {
+        errors.push(`Choice "${choice.id}" cannot have both nextBranch and endingId`);
+      }
+
+      if (choice.endingId && endingIds && !endingIds.has(choice.endingId)) {
+        errors.push(`Choice "${choice.id}" references unknown ending "${choice.endingId}"`);
+      }
+    });
+
+    const result: ValidationResult = {
+      isValid: errors.length === 0,
+      errors,
+    };
+
+    if (warnings.length > 0) {
+      result.warnings = warnings;
+    }
+
+    return result;
+  }
+
+  /**
+   * Summarizes a pack for listings
+   */
+  static summarize(pack: StoryPack): StoryPackSummary {
+    return {
+      id: pack.id,
+      version: pack.version,
+      title: pack.title,
+      ...(pack.description && { description: pack.description }),
+      ...(pack.author && { author: pack.author }),
+      branchCount: pack.branches.length,
+      endingCount: pack.endings.length,
+    };
+  }
+
+  private static validateEnding(ending: StoryEnding): string[] {
+    const errors: string[] = [];
+
+    if (!ending || typeof ending !== 'object') {
+      return ['Ending must be an object'];
+    }
+
+    if (!ending.id || ending.id.trim() === '') errors.push('Ending ID is required');
+    if (!ending.title || ending.title.trim() === '') errors.push('Ending title is required');
+    if (!ending.content || ending.content.trim() === '') errors.push('Ending content is required');
+
+    if (!this.ENDING_TYPES.includes(ending.type)) {
+      errors.push('Ending type must be good, bad, neutral, or twist');
+    }
+
+    if (!Array.isArray(ending.pathRequirements)) {
+      errors.push('pathRequirements must be an array');
+    }
+
+    return errors;
+  }
+
+  private static validateTheme(name: string, theme: StoryPackTheme): string[] {
+    if (!theme || typeof theme !== 'object') {
+      return [`Theme "${name}" must be an object`];
+    }
+
+    const errors = StoryValidator.validateColorScheme(theme.colorScheme || {}).errors.map(
+      (err) => `Theme "${name}": ${err}`
+    );
+
+    if (!Array.isArray(theme.effects)) {
+      errors.push(`Theme "${name}": effects must be an array`);
+    }
+
+    return errors;
+  }
+
+  private static toChapter(branch: StoryPackBranch): StoryChapter {
+    return {
+      id: branch.id,
+      title: branch.title,
+      content: branch.content,
+      choices: branch.choices.map((choice) => ({ ...choice, voteCount: 0 })),
+      visualElements: StoryUtils.createDefaultVisualElements(),
+      metadata: StoryUtils.createDefaultMetadata(),
+    };
+  }
+}
@@ -9,6 +9,8 @@ export interface StoryChapter {
   choices: StoryChoice[];
   visualElements: VisualElements;
   metadata: ChapterMetadata;
+  /** Held back from players after enough reports, until a moderator edits or restores it */
+  hiddenForReview?: boolean;
 }
 
 export interface StoryChoice {
@@ -409,6 +411,14 @@ export class StoryValidator {
  * Utility functions for story data manipulation
  */
 export class StoryUtils {
+  /**
+   * The chapter as players may see it: a chapter hidden for review keeps its title and choices
+   * but not its text
+   */
+  static redactHiddenContent(chapter: StoryChapter): StoryChapter {
+    return chapter.hiddenForReview ? { ...chapter, content: '' } : chapter;
+  }
+
   /**
    * Creates a default chapter metadata object
    */
@@ -464,6 +474,13 @@ export class StoryUtils {
     return Math.round((currentPosition / totalChapters) * 100);
   }
 
+  /**
+   * Builds the id a completed path is recorded under from its winning choices
+   */
+  static generatePathId(pathTaken: string[]): string {
+    return `path_${pathTaken.join('_')}`;
+  }
+
   /**
    * Generates a unique chapter ID
    */
@@ -0,0 +1,249 @@
+/**
+ * Text normalization for content filtering
+ * Folds case, homoglyphs, leetspeak, spaced-out letters and stretched words into plain text
+ * that filters can match, and maps every match back to where it sits in the original text
+ */
+
+/**
+ * A range of the original text, end exclusive
+ */
+export interface TextSpan {
+  start: number;
+  end: number;
+}
+
+/**
+ * Normalized text with the original span each of its characters came from
+ */
+export interface NormalizedText {
+  text: string;
+  spans: TextSpan[];
+}
+
+interface MappedChar extends TextSpan {
+  char: string;
+}
+
+// Zero-width and other invisible format characters, plus the combining marks NFKD splits off
+const IGNORABLE = /[\p{Cf}\p{M}]/u;
+const WORD_CHAR = /[\p{L}\p{N}]/u;
+const LETTER = /\p{L}/u;
+
+// Lowercase letters from other scripts that render like Latin ones
+const CONFUSABLES: Record<string, string> = {
+  а: 'a',
+  в: 'b',
+  е: 'e',
+  һ: 'h',
+  н: 'h',
+  і: 'i',
+  ј: 'j',
+  к: 'k',
+  ӏ: 'l',
+  м: 'm',
+  о: 'o',
+  р: 'p',
+  ԛ: 'q',
+  ѕ: 's',
+  т: 't',
+  с: 'c',
+  у: 'y',
+  ү: 'y',
+  ԝ: 'w',
+  х: 'x',
+  ԁ: 'd',
+  α: 'a',
+  β: 'b',
+  ε: 'e',
+  η: 'n',
+  ι: 'i',
+  κ: 'k',
+  ν: 'v',
+  ο: 'o',
+  ρ: 'p',
+  τ: 't',
+  υ: 'u',
+  χ: 'x',
+  ω: 'w',
+  ı: 'i',
+  ɑ: 'a',
+  ɡ: 'g',
+};
+
+// Digits and symbols standing in for letters; only read this way inside words
+const LEETSPEAK: Record<string, string> = {
+  '0': 'o',
+  '1': 'i',
+  '3': 'e',
+  '4': 'a',
+  '5': 's',
+  '7': 't',
+  '8': 'b',
+  '9': 'g',
+  '@': 'a',
+  $: 's',
+  '!': 'i',
+  '|': 'i',
+  '€': 'e',
+};
+
+// Longest run of punctuation or spaces allowed between spaced-out letters, as in "k . y . s"
+const MAX_LETTER_GAP = 3;
+// Fewest spaced-out letters read as one word, so "a b" stays two words
+const MIN_SPACED_LETTERS = 3;
+
+export class TextNormalizer {
+  /**
+   * Progressively normalized versions of a text, from least to most aggressive:
+   * case and homoglyphs folded; leetspeak decoded, spaced-out letters joined and letters
+   * repeated three or more times cut to two; and every repeated letter cut to one.
+   * Filters are matched against each so a word caught by a milder form keeps its exact span.
+   */
+  static views(text: string): NormalizedText[] {
+    const folded = this.fold(text);
+    const compact = this.squeeze(this.joinSpacedLetters(this.decodeLeetspeak(folded)), 2);
+    const squeezed = this.squeeze(compact, 1);
+    return [folded, compact, squeezed].map((chars) => ({
+      text: chars.map((mapped) => mapped.char).join(''),
+      spans: chars.map(({ start, end }) => ({ start, end })),
+    }));
+  }
+
+  /**
+   * Where a pattern matches in any of the views, as non-overlapping spans of the original text
+   */
+  static findMatches(views: NormalizedText[], pattern: RegExp): TextSpan[] {
+    const globalPattern = pattern.global
+      ? pattern
+      : new RegExp(pattern.source, `${pattern.flags}g`);
+    const found: TextSpan[] = [];
+
+    for (const view of views) {
+      for (const match of view.text.matchAll(globalPattern)) {
+        if (match[0].length === 0) continue;
+        const span = this.toOriginalSpan(view, match.index, match.index + match[0].length);
+        if (!found.some((other) => span.start < other.end && other.start < span.end)) {
+          found.push(span);
+        }
+      }
+    }
+
+    return found.sort((a, b) => a.start - b.start);
+  }
+
+  /**
+   * The original span covered by a range of normalized text
+   */
+  static toOriginalSpan(view: NormalizedText, start: number, end: number): TextSpan {
+    return { start: view.spans[start]!.start, end: view.spans[end - 1]!.end };
+  }
+
+  /**
+   * Lowercases, decomposes accented and full-width forms, drops invisible characters and maps
+   * homoglyphs to Latin letters
+   */
+  private static fold(text: string): MappedChar[] {
+    const chars: MappedChar[] = [];
+    let index = 0;
+
+    for (const symbol of text) {
+      const start = index;
+      index += symbol.length;
+      for (const part of symbol.normalize('NFKD').toLowerCase()) {
+        if (IGNORABLE.test(part)) continue;
+        // One entry per UTF-16 unit, so spans line up with regex match indexes
+        for (const unit of (CONFUSABLES[part] ?? part).split('')) {
+          chars.push({ char: unit, start, end: index });
+        }
+      }
+    }
+
+    return chars;
+  }
+
+  // A digit or symbol only counts as a letter in a word that has real letters, so
+  // "sh1t" decodes but "$5" and "100%" are left alone
+  private static decodeLeetspeak(chars: MappedChar[]): MappedChar[] {
+    const decoded = [...chars];
+    let wordStart = 0;
+
+    for (let i = 0; i <= chars.length; i++) {
+      if (i < chars.length && !/\s/u.test(chars[i]!.char)) continue;
+
+      const word = chars.slice(wordStart, i);
+      if (word.some((mapped) => LETTER.test(mapped.char))) {
+        for (let j = wordStart; j < i; j++) {
+          const letter = LEETSPEAK[chars[j]!.char];
+          // "!" ending a word is punctuation, not an "i"
+          const endsSentence = chars[j]!.char === '!' && !WORD_CHAR.test(chars[j + 1]?.char ?? '');
+          if (letter && !endsSentence) decoded[j] = { ...chars[j]!, char: letter };
+        }
+      }
+      wordStart = i + 1;
+    }
+
+    return decoded;
+  }
+
+  // Joins letters written one at a time with punctuation or spaces between them, as in
+  // "k.y.s" or "f u c k"
+  private static joinSpacedLetters(chars: MappedChar[]): MappedChar[] {
+    const isWordChar = (i: number) => i >= 0 && i < chars.length && WORD_CHAR.test(chars[i]!.char);
+    const isSingle = (i: number) => isWordChar(i) && !isWordChar(i - 1) && !isWordChar(i + 1);
+    const dropped = new Set<number>();
+
+    let i = 0;
+    while (i < chars.length) {
+      if (!isSingle(i)) {
+        i++;
+        continue;
+      }
+
+      const letters = [i];
+      let next = i + 1;
+      while (next < chars.length) {
+        let gapEnd = next;
+        while (
+          gapEnd < chars.length &&
+          gapEnd - next < MAX_LETTER_GAP &&
+          !isWordChar(gapEnd) &&
+          chars[gapEnd]!.char !== '\n'
+        ) {
+          gapEnd++;
+        }
+        if (gapEnd === next || !isSingle(gapEnd)) break;
+        letters.push(gapEnd);
+        next = gapEnd + 1;
+      }
+
+      if (letters.length >= MIN_SPACED_LETTERS) {
+        for (let gap = letters[0]!; gap < letters[letters.length - 1]!; gap++) {
+          if (!letters.includes(gap)) dropped.add(gap);
+        }
+      }
+      i = letters[letters.length - 1]! + 1;
+    }
+
+    return chars.filter((_, index) => !dropped.has(index));
+  }
+
+  // Cuts runs of a repeated letter down to at most `keep`, widening the kept letters' spans
+  // over the ones removed so a match still covers the whole stretched word
+  private static squeeze(chars: MappedChar[], keep: number): MappedChar[] {
+    const squeezed: MappedChar[] = [];
+    let run = 0;
+
+    for (const mapped of chars) {
+      const previous = squeezed[squeezed.length - 1];
+      run = previous && previous.char === mapped.char ? run + 1 : 1;
+
+      if (run > keep && LETTER.test(mapped.char)) {
+        squeezed[squeezed.length - 1] = { ...previous!, end: mapped.end };
+      } else {
+        squeezed.push(mapped);
+      }
+    }
+
+    return squeezed;
+  }
+}
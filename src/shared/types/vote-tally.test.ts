@@ -0,0 +1,175 @@
+import { describe, expect, it } from 'vitest';
+import { Ballot, VoteTally } from './vote-tally.js';
+
+const CHOICES = [
+  { choiceId: 'attic', text: 'Climb to the attic' },
+  { choiceId: 'cellar', text: 'Go down to the cellar' },
+  { choiceId: 'door', text: 'Run for the door' },
+];
+
+let nextVoter = 1;
+const ballot = (choiceIds: string[], weight = 1): Ballot => ({
+  userId: `user_${nextVoter++}`,
+  choiceIds,
+  weight,
+});
+const ballots = (count: number, choiceIds: string[], weight = 1) =>
+  Array.from({ length: count }, () => ballot(choiceIds, weight));
+
+describe('VoteTally', () => {
+  describe('ranked choice', () => {
+    it('declares a first-round majority without a runoff', () => {
+      const result = VoteTally.tally('ranked_choice', CHOICES, [
+        ...ballots(3, ['attic', 'cellar']),
+        ...ballots(1, ['door']),
+      ]);
+
+      expect(result.winningChoice).toBe('attic');
+      expect(result.rounds).toHaveLength(1);
+      expect(result.winningPercentage).toBe(75);
+      expect(result.explanation).toContain('won a majority of first preferences');
+    });
+
+    it('eliminates the last-placed choice and transfers its ballots', () => {
+      const result = VoteTally.tally('ranked_choice', CHOICES, [
+        ...ballots(4, ['attic']),
+        ...ballots(3, ['cellar']),
+        ...ballots(2, ['door', 'cellar']),
+      ]);
+
+      expect(result.winningChoice).toBe('cellar');
+      expect(result.rounds).toEqual([
+        {
+          round: 1,
+          counts: { attic: 4, cellar: 3, door: 2 },
+          eliminated: ['door'],
+          exhaustedBallots: 0,
+        },
+        { round: 2, counts: { attic: 4, cellar: 5 }, eliminated: [], exhaustedBallots: 0 },
+      ]);
+      expect(result.counts).toContainEqual(
+        expect.objectContaining({ choiceId: 'door', count: 2, eliminatedInRound: 1 })
+      );
+      expect(result.counts).toContainEqual(
+        expect.objectContaining({ choiceId: 'cellar', count: 3, finalRoundCount: 5 })
+      );
+      expect(result.explanation).toContain('won in round 2 of the instant runoff');
+    });
+
+    it('counts ballots whose choices were all eliminated as exhausted', () => {
+      const result = VoteTally.tally('ranked_choice', CHOICES, [
+        ...ballots(3, ['attic']),
+        ...ballots(2, ['cellar']),
+        ...ballots(2, ['door']),
+      ]);
+
+      expect(result.rounds?.[1]).toMatchObject({ counts: { attic: 3 }, exhaustedBallots: 4 });
+      expect(result.winningChoice).toBe('attic');
+    });
+  });
+
+  describe('approval', () => {
+    it('counts every approved choice and reports the share of voters approving', () => {
+      const result = VoteTally.tally('approval', CHOICES, [
+        ballot(['attic', 'cellar']),
+        ballot(['cellar', 'door']),
+        ballot(['cellar']),
+        ballot(['door']),
+      ]);
+
+      expect(result.winningChoice).toBe('cellar');
+      expect(result.counts).toEqual([
+        { choiceId: 'attic', count: 1, percentage: 25 },
+        { choiceId: 'cellar', count: 3, percentage: 75 },
+        { choiceId: 'door', count: 2, percentage: 50 },
+      ]);
+      expect(result.totalBallots).toBe(4);
+    });
+
+    it('ignores choices the round does not offer', () => {
+      const result = VoteTally.tally('approval', CHOICES, [ballot(['attic', 'window'])]);
+
+      expect(result.counts.find((count) => count.choiceId === 'attic')?.count).toBe(1);
+      expect(result.totalBallots).toBe(1);
+    });
+  });
+
+  describe('weighted voting', () => {
+    it('lets heavier ballots outvote a larger number of lighter ones', () => {
+      const result = VoteTally.tally('karma_weighted', CHOICES, [
+        ...ballots(2, ['attic'], 3),
+        ...ballots(3, ['cellar'], 1),
+      ]);
+
+      expect(result.winningChoice).toBe('attic');
+      expect(result.totalWeight).toBe(9);
+      expect(result.counts[0]).toEqual({ choiceId: 'attic', count: 2, percentage: 67, weight: 6 });
+      expect(result.explanation).toContain("based on the voter's karma");
+    });
+
+    it('ignores weights for plurality', () => {
+      const result = VoteTally.tally('plurality', CHOICES, [
+        ...ballots(2, ['attic'], 3),
+        ...ballots(3, ['cellar'], 1),
+      ]);
+
+      expect(result.winningChoice).toBe('cellar');
+      expect(result.counts[0]).not.toHaveProperty('weight');
+    });
+
+    it('scales weights with karma and participation up to their caps', () => {
+      expect(VoteTally.karmaWeight(0)).toBe(1);
+      expect(VoteTally.karmaWeight(99)).toBe(2);
+      expect(VoteTally.karmaWeight(1_000_000)).toBe(3);
+      expect(VoteTally.participationWeight(0)).toBe(1);
+      expect(VoteTally.participationWeight(4)).toBe(1.4);
+      expect(VoteTally.participationWeight(50)).toBe(2);
+    });
+  });
+
+  describe('ties', () => {
+    const tied = [...ballots(2, ['attic']), ...ballots(2, ['door']), ballot(['cellar'])];
+
+    it('draws the same winner every time for the same round', () => {
+      const first = VoteTally.tally('plurality', CHOICES, tied, 'chapter_7');
+      const again = VoteTally.tally('plurality', CHOICES, [...tied].reverse(), 'chapter_7');
+
+      expect(first.tiedChoices).toEqual(['attic', 'door']);
+      expect(['attic', 'door']).toContain(first.winningChoice);
+      expect(again.winningChoice).toBe(first.winningChoice);
+      expect(first.explanation).toContain('tied for first place');
+    });
+
+    it('does not always favour the first listed choice', () => {
+      const winners = new Set(
+        Array.from(
+          { length: 20 },
+          (_, i) => VoteTally.tally('plurality', CHOICES, tied, `chapter_${i}`).winningChoice
+        )
+      );
+
+      expect(winners).toEqual(new Set(['attic', 'door']));
+    });
+
+    it('returns no winner when nobody voted', () => {
+      const result = VoteTally.tally('approval', CHOICES, []);
+
+      expect(result).toMatchObject({ winningChoice: null, tiedChoices: [] });
+      expect(result.explanation).toBe('No votes were cast.');
+    });
+  });
+
+  it('rejects ballots that do not fit the method', () => {
+    const valid = CHOICES.map((choice) => choice.choiceId);
+
+    expect(VoteTally.validateBallot('plurality', ['attic', 'door'], valid).errors).toEqual([
+      'Plurality voting takes a single choice',
+    ]);
+    expect(VoteTally.validateBallot('ranked_choice', ['attic', 'attic'], valid).errors).toEqual([
+      'Each choice can only appear once on a ballot',
+    ]);
+    expect(VoteTally.validateBallot('approval', ['window'], valid).errors).toEqual([
+      'Unknown choices: window',
+    ]);
+  });
+});
@@ -0,0 +1,391 @@
+/**
+ * Vote counting for each voting method
+ * Turns stored ballots into per-choice counts, a winner and an explanation of the result
+ */
+
+import { ValidationResult } from './story.js';
+import { RunoffRound, VoteCount, VotingMethod } from './voting.js';
+
+export const VOTING_METHOD_LABELS: Record<VotingMethod, string> = {
+  plurality: 'Plurality',
+  ranked_choice: 'Ranked choice',
+  approval: 'Approval',
+  karma_weighted: 'Karma-weighted',
+  participation_weighted: 'Participation-weighted',
+};
+
+export const VOTE_WEIGHT_LIMITS = {
+  karma: { max: 3 },
+  participation: { perChapter: 0.1, max: 2 },
+} as const;
+
+/**
+ * A voter's stored ballot. Plurality and weighted ballots hold a single choice.
+ */
+export interface Ballot {
+  userId: string;
+  choiceIds: string[];
+  weight: number;
+}
+
+export interface TallyResult {
+  method: VotingMethod;
+  counts: VoteCount[];
+  winningChoice: string | null;
+  /** Every choice sharing the top result; with more than one, winningChoice was drawn from them */
+  tiedChoices: string[];
+  winningPercentage: number;
+  totalBallots: number;
+  totalWeight: number;
+  rounds?: RunoffRound[];
+  explanation: string;
+}
+
+interface TallyChoice {
+  choiceId: string;
+  text: string;
+}
+
+const percent = (part: number, total: number) => (total > 0 ? Math.round((part / total) * 100) : 0);
+
+const roundWeight = (weight: number) => Math.round(weight * 100) / 100;
+
+export class VoteTally {
+  static usesRanking(method: VotingMethod): boolean {
+    return method === 'ranked_choice';
+  }
+
+  static allowsMultipleChoices(method: VotingMethod): boolean {
+    return method === 'ranked_choice' || method === 'approval';
+  }
+
+  static isWeighted(method: VotingMethod): boolean {
+    return method === 'karma_weighted' || method === 'participation_weighted';
+  }
+
+  /**
+   * 1 for no karma, 2 at 100 karma, capped at 3 from 10,000 karma
+   */
+  static karmaWeight(karma: number): number {
+    const weight = 1 + Math.log10(1 + Math.max(0, karma)) / 2;
+    return roundWeight(Math.min(VOTE_WEIGHT_LIMITS.karma.max, weight));
+  }
+
+  /**
+   * 1 for a first vote, plus 0.1 for each earlier chapter of the story voted on, capped at 2
+   */
+  static participationWeight(chaptersVoted: number): number {
+    const { perChapter, max } = VOTE_WEIGHT_LIMITS.participation;
+    return roundWeight(Math.min(max, 1 + Math.max(0, chaptersVoted) * perChapter));
+  }
+
+  /**
+   * Checks that a ballot fits the method: one choice, a ranking, or a set of approvals
+   */
+  static validateBallot(
+    method: VotingMethod,
+    choiceIds: string[],
+    validChoiceIds: string[]
+  ): ValidationResult {
+    const errors: string[] = [];
+
+    if (choiceIds.length === 0) {
+      errors.push('At least one choice is required');
+    } else if (!this.allowsMultipleChoices(method) && choiceIds.length > 1) {
+      errors.push(`${VOTING_METHOD_LABELS[method]} voting takes a single choice`);
+    }
+
+    if (new Set(choiceIds).size !== choiceIds.length) {
+      errors.push('Each choice can only appear once on a ballot');
+    }
+
+    const unknown = choiceIds.filter((choiceId) => !validChoiceIds.includes(choiceId));
+    if (unknown.length > 0) {
+      errors.push(`Unknown choices: ${unknown.join(', ')}`);
+    }
+
+    return { isValid: errors.length === 0, errors };
+  }
+
+  /**
+   * Counts the ballots. Ties are drawn using `tieBreakSeed` (the chapter id), so every count of
+   * the same round picks the same winner.
+   */
+  static tally(
+    method: VotingMethod,
+    choices: TallyChoice[],
+    ballots: Ballot[],
+    tieBreakSeed = ''
+  ): TallyResult {
+    const validBallots = ballots
+      .map((ballot) => ({
+        ...ballot,
+        choiceIds: ballot.choiceIds.filter((choiceId) =>
+          choices.some((choice) => choice.choiceId === choiceId)
+        ),
+      }))
+      .filter((ballot) => ballot.choiceIds.length > 0);
+
+    switch (method) {
+      case 'ranked_choice':
+        return this.tallyRankedChoice(choices, validBallots, tieBreakSeed);
+      case 'approval':
+        return this.tallyApproval(choices, validBallots, tieBreakSeed);
+      default:
+        return this.tallySingleChoice(method, choices, validBallots, tieBreakSeed);
+    }
+  }
+
+  /**
+   * Plurality and weighted methods: each ballot adds its weight to its one choice
+   */
+  private static tallySingleChoice(
+    method: VotingMethod,
+    choices: TallyChoice[],
+    ballots: Ballot[],
+    tieBreakSeed: string
+  ): TallyResult {
+    const weighted = this.isWeighted(method);
+    const counts = new Map(choices.map((choice) => [choice.choiceId, { count: 0, weight: 0 }]));
+
+    ballots.forEach((ballot) => {
+      const entry = counts.get(ballot.choiceIds[0]!)!;
+      entry.count += 1;
+      entry.weight += weighted ? ballot.weight : 1;
+    });
+
+    const totalWeight = roundWeight(
+      Array.from(counts.values()).reduce((sum, { weight }) => sum + weight, 0)
+    );
+    const voteCounts: VoteCount[] = choices.map(({ choiceId }) => {
+      const { count, weight } = counts.get(choiceId)!;
+      return {
+        choiceId,
+        count,
+        percentage: percent(weight, totalWeight),
+        ...(weighted && { weight: roundWeight(weight) }),
+      };
+    });
+
+    const { winningChoice, tiedChoices } = this.pickTop(
+      choices.map(({ choiceId }) => [choiceId, counts.get(choiceId)!.weight]),
+      tieBreakSeed
+    );
+    const winner = voteCounts.find((count) => count.choiceId === winningChoice);
+
+    let explanation = 'No votes were cast.';
+    if (winner) {
+      explanation = weighted
+        ? `${this.label(choices, winner.choiceId)} won with ${winner.weight} of ${totalWeight} weighted votes (${winner.percentage}%) from ${winner.count} of ${ballots.length} voters. ${
+            method === 'karma_weighted'
+              ? `Each vote counted 1 to ${VOTE_WEIGHT_LIMITS.karma.max} based on the voter's karma.`
+              : `Each vote counted 1 to ${VOTE_WEIGHT_LIMITS.participation.max} based on how many earlier chapters the voter voted on.`
+          }`
+        : `${this.label(choices, winner.choiceId)} won with ${winner.count} of ${ballots.length} votes (${winner.percentage}%).`;
+    }
+
+    return {
+      method,
+      counts: voteCounts,
+      winningChoice,
+      tiedChoices,
+      winningPercentage: winner?.percentage ?? 0,
+      totalBallots: ballots.length,
+      totalWeight,
+      explanation: this.withTieNote(explanation, choices, tiedChoices, winningChoice),
+    };
+  }
+
+  /**
+   * Approval: every approved choice gets a vote; percentages are the share of voters approving
+   */
+  private static tallyApproval(
+    choices: TallyChoice[],
+    ballots: Ballot[],
+    tieBreakSeed: string
+  ): TallyResult {
+    const counts = new Map(choices.map((choice) => [choice.choiceId, 0]));
+    ballots.forEach((ballot) => {
+      ballot.choiceIds.forEach((choiceId) => counts.set(choiceId, counts.get(choiceId)! + 1));
+    });
+
+    const voteCounts: VoteCount[] = choices.map(({ choiceId }) => ({
+      choiceId,
+      count: counts.get(choiceId)!,
+      percentage: percent(counts.get(choiceId)!, ballots.length),
+    }));
+
+    const { winningChoice, tiedChoices } = this.pickTop(Array.from(counts.entries()), tieBreakSeed);
+    const winner = voteCounts.find((count) => count.choiceId === winningChoice);
+
+    const explanation = winner
+      ? `${this.label(choices, winner.choiceId)} was approved by ${winner.count} of ${ballots.length} voters (${winner.percentage}%), the most of any choice.`
+      : 'No votes were cast.';
+
+    return {
+      method: 'approval',
+      counts: voteCounts,
+      winningChoice,
+      tiedChoices,
+      winningPercentage: winner?.percentage ?? 0,
+      totalBallots: ballots.length,
+      totalWeight: ballots.length,
+      explanation: this.withTieNote(explanation, choices, tiedChoices, winningChoice),
+    };
+  }
+
+  /**
+   * Instant runoff: count each ballot for its highest-ranked remaining choice, and eliminate
+   * the last-placed choices until one holds a majority of the continuing ballots
+   */
+  private static tallyRankedChoice(
+    choices: TallyChoice[],
+    ballots: Ballot[],
+    tieBreakSeed: string
+  ): TallyResult {
+    const remaining = new Set(choices.map((choice) => choice.choiceId));
+    const rounds: RunoffRound[] = [];
+    const finalRoundCounts = new Map<string, number>();
+    const eliminatedInRound = new Map<string, number>();
+    let winningChoice: string | null = null;
+    let tiedChoices: string[] = [];
+
+    while (remaining.size > 0) {
+      const counts: Record<string, number> = {};
+      remaining.forEach((choiceId) => (counts[choiceId] = 0));
+
+      let exhaustedBallots = 0;
+      ballots.forEach((ballot) => {
+        const preference = ballot.choiceIds.find((choiceId) => remaining.has(choiceId));
+        if (preference) counts[preference]! += 1;
+        else exhaustedBallots += 1;
+      });
+
+      const round: RunoffRound = {
+        round: rounds.length + 1,
+        counts,
+        eliminated: [],
+        exhaustedBallots,
+      };
+      rounds.push(round);
+      Object.entries(counts).forEach(([choiceId, count]) => finalRoundCounts.set(choiceId, count));
+
+      const continuing = ballots.length - exhaustedBallots;
+      if (continuing === 0) break;
+
+      const top = this.pickTop(Object.entries(counts), tieBreakSeed);
+      if (counts[top.winningChoice!]! * 2 > continuing || remaining.size === 1) {
+        winningChoice = top.winningChoice;
+        tiedChoices = top.tiedChoices;
+        break;
+      }
+
+      const fewest = Math.min(...Object.values(counts));
+      const lastPlaced = Object.keys(counts).filter((choiceId) => counts[choiceId] === fewest);
+      if (lastPlaced.length === remaining.size) {
+        // Every remaining choice is level; nothing left to eliminate
+        winningChoice = top.winningChoice;
+        tiedChoices = top.tiedChoices;
+        break;
+      }
+
+      round.eliminated = lastPlaced;
+      lastPlaced.forEach((choiceId) => {
+        remaining.delete(choiceId);
+        eliminatedInRound.set(choiceId, round.round);
+      });
+    }
+
+    const firstRound = rounds[0]?.counts ?? {};
+    const voteCounts: VoteCount[] = choices.map(({ choiceId }) => {
+      const eliminated = eliminatedInRound.get(choiceId);
+      return {
+        choiceId,
+        count: firstRound[choiceId] ?? 0,
+        percentage: percent(firstRound[choiceId] ?? 0, ballots.length),
+        finalRoundCount: finalRoundCounts.get(choiceId) ?? 0,
+        ...(eliminated !== undefined && { eliminatedInRound: eliminated }),
+      };
+    });
+
+    const lastRound = rounds[rounds.length - 1];
+    const continuing = lastRound ? ballots.length - lastRound.exhaustedBallots : 0;
+    const winnerVotes = winningChoice ? (lastRound?.counts[winningChoice] ?? 0) : 0;
+    const winningPercentage = percent(winnerVotes, continuing);
+
+    let explanation = 'No votes were cast.';
+    if (winningChoice && lastRound) {
+      const eliminated = rounds.flatMap((round) => round.eliminated);
+      explanation =
+        lastRound.round === 1
+          ? `${this.label(choices, winningChoice)} won a majority of first preferences: ${winnerVotes} of ${continuing} ballots (${winningPercentage}%).`
+          : `${this.label(choices, winningChoice)} won in round ${lastRound.round} of the instant runoff with ${winnerVotes} of ${continuing} continuing ballots (${winningPercentage}%), after ${eliminated
+              .map((choiceId) => this.label(choices, choiceId))
+              .join(', ')} ${eliminated.length === 1 ? 'was' : 'were'} eliminated.`;
+    }
+
+    return {
+      method: 'ranked_choice',
+      counts: voteCounts,
+      winningChoice,
+      tiedChoices,
+      winningPercentage,
+      totalBallots: ballots.length,
+      totalWeight: ballots.length,
+      rounds,
+      explanation: this.withTieNote(explanation, choices, tiedChoices, winningChoice),
+    };
+  }
+
+  /**
+   * The highest-scoring choice, or null when nothing scored. A tie is settled by drawing from
+   * the tied choices with the seed, which picks the same choice every time for the same seed.
+   */
+  private static pickTop(
+    scores: Array<[string, number]>,
+    tieBreakSeed: string
+  ): {
+    winningChoice: string | null;
+    tiedChoices: string[];
+  } {
+    const best = Math.max(0, ...scores.map(([, score]) => score));
+    if (best === 0) return { winningChoice: null, tiedChoices: [] };
+
+    const tiedChoices = scores.filter(([, score]) => score === best).map(([choiceId]) => choiceId);
+    return { winningChoice: this.drawTiedChoice(tiedChoices, tieBreakSeed), tiedChoices };
+  }
+
+  /**
+   * Picks one of the tied choices from a hash of the seed and the choices themselves
+   */
+  private static drawTiedChoice(tiedChoices: string[], tieBreakSeed: string): string {
+    if (tiedChoices.length === 1) return tiedChoices[0]!;
+
+    // FNV-1a: a cheap, well-spread string hash
+    let hash = 0x811c9dc5;
+    for (const char of `${tieBreakSeed}|${[...tiedChoices].sort().join('|')}`) {
+      hash ^= char.charCodeAt(0);
+      hash = Math.imul(hash, 0x01000193);
+    }
+    return tiedChoices[(hash >>> 0) % tiedChoices.length]!;
+  }
+
+  private static withTieNote(
+    explanation: string,
+    choices: TallyChoice[],
+    tiedChoices: string[],
+    winningChoice: string | null
+  ): string {
+    if (tiedChoices.length < 2 || !winningChoice) return explanation;
+    return `${tiedChoices
+      .map((choiceId) => this.label(choices, choiceId))
+      .join(
+        ' and '
+      )} tied for first place; ${this.label(choices, winningChoice)} was drawn from them.`;
+  }
+
+  private static label(choices: TallyChoice[], choiceId: string): string {
+    const text = choices.find((choice) => choice.choiceId === choiceId)?.text;
+    return `"${text || choiceId}"`;
+  }
+}
@@ -2,10 +2,36 @@
  * Voting system data structures for The Haunted Thread
  */
 
+/**
+ * plurality: one vote each, most votes wins
+ * ranked_choice: voters rank the choices; instant runoff eliminates the last-placed choice until one has a majority
+ * approval: voters approve any number of choices; most approvals wins
+ * karma_weighted / participation_weighted: one vote each, weighted by the voter's karma or by how many earlier chapters of the story they voted on
+ */
+export type VotingMethod =
+  | 'plurality'
+  | 'ranked_choice'
+  | 'approval'
+  | 'karma_weighted'
+  | 'participation_weighted';
+
+export const VOTING_METHODS: VotingMethod[] = [
+  'plurality',
+  'ranked_choice',
+  'approval',
+  'karma_weighted',
+  'participation_weighted',
+];
+
 export interface Vote {
   userId: string;
   chapterId: string;
+  /** The first preference, or the first approved choice */
   choiceId: string;
+  /** Preferences in order for ranked choice, the approved choices for approval voting */
+  choiceIds?: string[];
+  /** Vote weight for weighted methods; 1 otherwise */
+  weight?: number;
   timestamp: Date;
 }
 
@@ -16,6 +42,10 @@ export interface VotingSession {
   status: 'active' | 'completed' | 'expired';
   totalVotes: number;
   choices: VoteChoice[];
+  /** Fixed when the session opens; sessions without one use plurality */
+  method?: VotingMethod;
+  /** When true a cast vote can't be changed or retracted */
+  lockVotes?: boolean;
 }
 
 export interface VoteChoice {
@@ -29,18 +59,43 @@ export interface VoteResult {
   success: boolean;
   message: string;
   voteCount?: number;
+  /** The choice the user had voted for before this request */
   userPreviousVote?: string;
+  action?: 'cast' | 'changed' | 'retracted';
 }
 
+/**
+ * A choice's standing under the session's voting method. `count` is ballots for plurality and
+ * weighted methods, first preferences for ranked choice and approvals for approval voting.
+ * `percentage` is the share of the weighted total, of first preferences, or of voters who approved.
+ */
 export interface VoteCount {
   choiceId: string;
   count: number;
   percentage: number;
+  /** Sum of vote weights, for weighted methods */
+  weight?: number;
+  /** Ranked choice: votes held in the last runoff round the choice took part in */
+  finalRoundCount?: number;
+  /** Ranked choice: the runoff round in which the choice was eliminated */
+  eliminatedInRound?: number;
+}
+
+/**
+ * One round of an instant runoff
+ */
+export interface RunoffRound {
+  round: number;
+  counts: Record<string, number>;
+  eliminated: string[];
+  /** Ballots whose ranked choices have all been eliminated */
+  exhaustedBallots: number;
 }
 
 export interface UserVoteStatus {
   hasVoted: boolean;
   choiceId?: string;
+  choiceIds?: string[];
   timestamp?: Date;
 }
 
@@ -50,4 +105,9 @@ export interface VotingStats {
   votingDuration: number;
   winningChoice: string;
   winningPercentage: number;
+  method?: VotingMethod;
+  /** How the winner was decided, in plain words */
+  explanation?: string;
+  rounds?: RunoffRound[];
+  totalWeight?: number;
 }